@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { ContactInquiries } from '@/lib/contact'
+import { AuditLog } from '@/lib/audit'
+import { createApiResponse } from '@/lib/validations'
+
+// POST /api/admin/inquiries/[id]/convert - Create a PROSPECT client from an inquiry (Admins only)
+export const POST = withPermission('inquiry:convert:any', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    const inquiry = /^[0-9a-fA-F]{24}$/.test(id)
+      ? await prisma.contactInquiry.findUnique({ where: { id } })
+      : null
+
+    if (!inquiry) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Inquiry not found'),
+        { status: 404 }
+      )
+    }
+
+    if (inquiry.status === 'CONVERTED') {
+      return NextResponse.json(
+        createApiResponse(false, { clientId: inquiry.clientId }, '', 'Inquiry has already been converted to a client'),
+        { status: 409 }
+      )
+    }
+
+    // Client emails are unique; the admin decides what to do with a sender who is already a client
+    const existingClient = await prisma.client.findUnique({
+      where: { email: inquiry.email },
+      select: { id: true },
+    })
+    if (existingClient) {
+      return NextResponse.json(
+        createApiResponse(false, { clientId: existingClient.id }, '', 'Client with this email already exists'),
+        { status: 409 }
+      )
+    }
+
+    const client = await prisma.client.create({
+      data: ContactInquiries.clientData(inquiry),
+    })
+
+    const updatedInquiry = await prisma.contactInquiry.update({
+      where: { id },
+      data: {
+        status: 'CONVERTED',
+        clientId: client.id,
+        convertedById: request.user!.userId,
+        convertedAt: new Date(),
+      },
+    })
+
+    await AuditLog.record(request, { action: 'CREATE', entityType: 'CLIENT', entityId: client.id, after: client, context: 'contact inquiry' })
+
+    return NextResponse.json(
+      createApiResponse(true, { client, inquiry: updatedInquiry }, 'Inquiry converted to a prospect client'),
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Convert inquiry error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { updateContactInquirySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// PATCH /api/admin/inquiries/[id] - Archive an inquiry, or move it back to NEW (Admins only)
+export const PATCH = withPermission('inquiry:update:any', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { status } = updateContactInquirySchema.parse(body)
+
+    const inquiry = /^[0-9a-fA-F]{24}$/.test(id)
+      ? await prisma.contactInquiry.findUnique({ where: { id } })
+      : null
+
+    if (!inquiry) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Inquiry not found'),
+        { status: 404 }
+      )
+    }
+
+    if (inquiry.status === 'CONVERTED') {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Inquiry has already been converted to a client'),
+        { status: 409 }
+      )
+    }
+
+    const updatedInquiry = await prisma.contactInquiry.update({
+      where: { id },
+      data: { status },
+    })
+
+    return NextResponse.json(
+      createApiResponse(true, updatedInquiry, 'Inquiry updated successfully')
+    )
+  } catch (error) {
+    console.error('Update inquiry error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
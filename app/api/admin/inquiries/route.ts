@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { contactInquiryListQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/admin/inquiries - Contact form inquiries, newest first (Admins only)
+export const GET = withPermission('inquiry:read:any', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { page, limit, status, inquiryType, query } = contactInquiryListQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const where: any = {}
+
+    if (query) {
+      where.OR = [
+        { name: { contains: query, mode: 'insensitive' } },
+        { email: { contains: query, mode: 'insensitive' } },
+        { company: { contains: query, mode: 'insensitive' } },
+      ]
+    }
+    if (status) {
+      where.status = status
+    }
+    if (inquiryType) {
+      where.inquiryType = inquiryType
+    }
+
+    const [inquiries, total] = await Promise.all([
+      prisma.contactInquiry.findMany({
+        where,
+        include: { client: { select: { id: true, name: true, status: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.contactInquiry.count({ where }),
+    ])
+
+    return NextResponse.json(
+      createApiResponse(true, inquiries, 'Inquiries retrieved successfully', undefined, {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      })
+    )
+  } catch (error) {
+    console.error('Get inquiries error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
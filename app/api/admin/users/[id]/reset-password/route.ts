@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { UserUtils } from '@/lib/users'
+import { createApiResponse } from '@/lib/validations'
+
+// POST /api/admin/users/[id]/reset-password - Email the user a link to choose a new password
+// (Admins only). Users who never accepted their invitation get the invitation again.
+export const POST = withPermission('user:update:any', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const admin = request.user!
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, email: true, name: true, role: true, password: true, invitedAt: true, status: true },
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'User not found'),
+        { status: 404 }
+      )
+    }
+
+    if (user.role === 'CANDIDATE') {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Candidates sign in with a one-time code and have no password'),
+        { status: 400 }
+      )
+    }
+
+    const purpose = UserUtils.toAdminView(user).invitePending ? 'INVITE' : 'RESET'
+    const inviter = await prisma.user.findUnique({ where: { id: admin.userId }, select: { name: true } })
+    const baseUrl = process.env.NEXTAUTH_URL || new URL(request.url).origin
+    const { emailSent, expiresAt } = await UserUtils.sendPasswordLink(
+      user,
+      purpose,
+      { userId: admin.userId, name: inviter?.name || admin.email },
+      baseUrl
+    )
+
+    if (!emailSent) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'The email could not be sent'),
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(
+        true,
+        { purpose, expiresAt },
+        purpose === 'INVITE' ? 'Invitation sent again' : 'Password reset link sent'
+      )
+    )
+  } catch (error) {
+    console.error('Reset user password error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { SessionUtils } from '@/lib/sessions'
+import { UserUtils, adminUserSelect } from '@/lib/users'
+import { updateUserSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/admin/users/[id] - Get a user with their open sessions (Admins only)
+export const GET = withPermission('user:read:any', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: {
+        ...adminUserSelect,
+        sessions: {
+          where: { revokedAt: null, expiresAt: { gt: new Date() } },
+          select: { id: true, userAgent: true, ipAddress: true, lastUsedAt: true, createdAt: true },
+          orderBy: { lastUsedAt: 'desc' },
+        },
+      },
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'User not found'),
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(true, UserUtils.toAdminView(user), 'User retrieved successfully')
+    )
+  } catch (error) {
+    console.error('Get user error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// PATCH /api/admin/users/[id] - Change a user's name, role or status, or lift a login lockout (Admins only).
+// Role changes and deactivation sign the user out everywhere.
+export const PATCH = withPermission('user:update:any', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { name, role, status, unlock } = updateUserSchema.parse(body)
+
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true, role: true, status: true } })
+
+    if (!user) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'User not found'),
+        { status: 404 }
+      )
+    }
+
+    const roleChanged = !!role && role !== user.role
+    const statusChanged = !!status && status !== user.status
+
+    if (id === request.user!.userId && (roleChanged || statusChanged)) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'You cannot change your own role or status'),
+        { status: 400 }
+      )
+    }
+
+    const losesAdmin = (roleChanged && role !== 'ADMIN') || (statusChanged && status !== 'ACTIVE')
+    if (user.role === 'ADMIN' && user.status === 'ACTIVE' && losesAdmin && await UserUtils.isLastActiveAdmin(id)) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'At least one active admin is required'),
+        { status: 400 }
+      )
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id },
+      data: {
+        ...(name !== undefined ? { name } : {}),
+        ...(role ? { role } : {}),
+        ...(status ? { status } : {}),
+        ...(unlock ? { failedLoginAttempts: 0, lockedUntil: null } : {}),
+        // Jobs and interviews hang off the recruiter profile
+        ...(roleChanged && role === 'RECRUITER' ? { recruiter: { upsert: { create: {}, update: {} } } } : {}),
+      },
+      select: adminUserSelect,
+    })
+
+    // Access tokens carry the role, and a deactivated user must not keep working
+    const signedOutSessions = roleChanged || (statusChanged && status !== 'ACTIVE')
+      ? await SessionUtils.revokeAll(id)
+      : 0
+
+    return NextResponse.json(
+      createApiResponse(true, { user: UserUtils.toAdminView(updatedUser), signedOutSessions }, 'User updated successfully')
+    )
+  } catch (error) {
+    console.error('Update user error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
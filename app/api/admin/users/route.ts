@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { UserUtils, adminUserSelect } from '@/lib/users'
+import { inviteUserSchema, userListQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/admin/users - List users with their role, status and last login (Admins only)
+export const GET = withPermission('user:read:any', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const queryParams = Object.fromEntries(searchParams)
+    const { page, limit, sortBy, sortOrder, query, role, status } = userListQuerySchema.parse(queryParams)
+
+    const where: any = {}
+
+    if (query) {
+      where.OR = [
+        { name: { contains: query, mode: 'insensitive' } },
+        { email: { contains: query, mode: 'insensitive' } },
+        { phone: { contains: query, mode: 'insensitive' } },
+      ]
+    }
+    if (role) {
+      where.role = role
+    }
+    if (status) {
+      where.status = status
+    }
+
+    const skip = (page - 1) * limit
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: adminUserSelect,
+        skip,
+        take: limit,
+        orderBy: { [sortBy || 'createdAt']: sortOrder },
+      }),
+      prisma.user.count({ where }),
+    ])
+
+    const totalPages = Math.ceil(total / limit)
+
+    return NextResponse.json(
+      createApiResponse(
+        true,
+        users.map(user => UserUtils.toAdminView(user)),
+        'Users retrieved successfully',
+        undefined,
+        { page, limit, total, totalPages }
+      )
+    )
+  } catch (error) {
+    console.error('Get users error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/admin/users - Invite a recruiter or admin by email (Admins only)
+export const POST = withPermission('user:create:any', async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const { email, name, role } = inviteUserSchema.parse(body)
+    const admin = request.user!
+
+    const existingUser = await prisma.user.findUnique({ where: { email } })
+    if (existingUser) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'User with this email already exists'),
+        { status: 400 }
+      )
+    }
+
+    // The account stays inactive until the invitation is accepted
+    const user = await prisma.user.create({
+      data: {
+        email,
+        name,
+        role,
+        status: 'INACTIVE',
+        invitedAt: new Date(),
+        invitedById: admin.userId,
+        ...(role === 'RECRUITER' ? { recruiter: { create: {} } } : {}),
+      },
+      select: adminUserSelect,
+    })
+
+    const inviter = await prisma.user.findUnique({ where: { id: admin.userId }, select: { name: true } })
+    const baseUrl = process.env.NEXTAUTH_URL || new URL(request.url).origin
+    const { emailSent, expiresAt } = await UserUtils.sendPasswordLink(
+      user,
+      'INVITE',
+      { userId: admin.userId, name: inviter?.name || admin.email },
+      baseUrl
+    )
+
+    return NextResponse.json(
+      createApiResponse(
+        true,
+        { user: UserUtils.toAdminView(user), emailSent, inviteExpiresAt: expiresAt },
+        emailSent ? 'Invitation sent successfully' : 'User created, but the invitation email could not be sent'
+      ),
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Invite user error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
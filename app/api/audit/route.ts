@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { auditQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/audit - Audit events, newest first (Admins only)
+export const GET = withPermission('audit:read:any', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { page, limit, entityType, entityId, actorId, action, from, to } = auditQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const where: any = {}
+    if (entityType) {
+      where.entityType = entityType
+    }
+    if (entityId) {
+      where.entityId = entityId
+    }
+    if (actorId) {
+      where.actorId = actorId
+    }
+    if (action) {
+      where.action = action
+    }
+    if (from || to) {
+      where.createdAt = {
+        ...(from ? { gte: new Date(from) } : {}),
+        ...(to ? { lte: new Date(to) } : {}),
+      }
+    }
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.auditEvent.count({ where }),
+    ])
+
+    return NextResponse.json(
+      createApiResponse(
+        true,
+        events,
+        'Audit events retrieved successfully',
+        undefined,
+        { page, limit, total, totalPages: Math.ceil(total / limit) }
+      )
+    )
+  } catch (error) {
+    console.error('Get audit events error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
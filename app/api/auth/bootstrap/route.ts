@@ -0,0 +1,119 @@
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { AuthUtils } from '@/lib/auth'
+import { PasswordPolicy } from '@/lib/passwords'
+import { SessionUtils } from '@/lib/sessions'
+import { bootstrapAdminSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+function setupTokenMatches(given: string | undefined, expected: string): boolean {
+  if (!given) return false
+  const a = crypto.createHash('sha256').update(given).digest()
+  const b = crypto.createHash('sha256').update(expected).digest()
+  return crypto.timingSafeEqual(a, b)
+}
+
+// GET /api/auth/bootstrap - Whether the first admin still has to be created
+export async function GET() {
+  try {
+    const admins = await prisma.user.count({ where: { role: 'ADMIN' } })
+
+    return NextResponse.json(
+      createApiResponse(true, {
+        required: admins === 0,
+        setupTokenRequired: !!process.env.ADMIN_BOOTSTRAP_TOKEN,
+      }, admins === 0 ? 'Setup required' : 'Setup already completed')
+    )
+  } catch (error) {
+    console.error('Bootstrap status error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/auth/bootstrap - Create the first admin and sign them in. Only works while there
+// is no admin at all; everyone after that is invited from the admin console.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { email, name, password, setupToken } = bootstrapAdminSchema.parse(body)
+
+    if (await prisma.user.count({ where: { role: 'ADMIN' } }) > 0) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Setup has already been completed'),
+        { status: 409 }
+      )
+    }
+
+    // In production the first visitor must not be able to claim the instance
+    const expectedToken = process.env.ADMIN_BOOTSTRAP_TOKEN
+    if (expectedToken ? !setupTokenMatches(setupToken, expectedToken) : process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        createApiResponse(false, null, '', expectedToken ? 'Invalid setup token' : 'Set ADMIN_BOOTSTRAP_TOKEN to run setup'),
+        { status: 403 }
+      )
+    }
+
+    const errors = PasswordPolicy.validate(password, { email, name })
+    if (errors.length > 0) {
+      return NextResponse.json(
+        createApiResponse(false, { errors }, '', errors.join(', ')),
+        { status: 400 }
+      )
+    }
+
+    const existingUser = await prisma.user.findUnique({ where: { email } })
+    if (existingUser) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'User with this email already exists'),
+        { status: 400 }
+      )
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        name,
+        role: 'ADMIN',
+        password: await AuthUtils.hashPassword(password),
+        passwordChangedAt: new Date(),
+        verified: true,
+        lastLogin: new Date(),
+      },
+    })
+
+    const issued = await SessionUtils.start(user, request)
+
+    const userData = {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      verified: user.verified,
+    }
+
+    const response = NextResponse.json(
+      createApiResponse(true, { user: userData, token: issued.accessToken, expiresIn: issued.expiresIn }, 'Admin account created'),
+      { status: 201 }
+    )
+    SessionUtils.setRefreshCookie(response, issued)
+    return response
+  } catch (error) {
+    console.error('Bootstrap admin error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+}
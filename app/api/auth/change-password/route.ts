@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { AuthUtils } from '@/lib/auth'
+import { withAuth, AuthenticatedRequest } from '@/lib/middleware'
+import { LoginLockout, PasswordPolicy } from '@/lib/passwords'
+import { SessionUtils } from '@/lib/sessions'
+import { changePasswordSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// POST /api/auth/change-password - Change the signed-in user's password. Other devices are
+// signed out; this session stays signed in.
+export const POST = withAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const { currentPassword, newPassword } = changePasswordSchema.parse(body)
+    const { userId, sessionId } = request.user!
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, name: true, password: true, lockedUntil: true },
+    })
+
+    if (!user || !user.password) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'This account does not use a password'),
+        { status: 400 }
+      )
+    }
+
+    // Wrong current passwords count towards the same lockout as failed logins
+    const lockedFor = LoginLockout.lockedFor(user.lockedUntil)
+    if (lockedFor) {
+      const locked = LoginLockout.locked(lockedFor)
+      return NextResponse.json(
+        createApiResponse(false, { retryAfter: lockedFor }, '', locked.error),
+        { status: 429, headers: { 'Retry-After': String(lockedFor) } }
+      )
+    }
+
+    if (!(await AuthUtils.comparePassword(currentPassword, user.password))) {
+      const failure = await LoginLockout.recordFailure(user.id)
+      return NextResponse.json(
+        createApiResponse(false, failure.retryAfter ? { retryAfter: failure.retryAfter } : null, '',
+          failure.status === 429 ? failure.error : 'Current password is incorrect'),
+        {
+          status: failure.status === 429 ? 429 : 400,
+          headers: failure.retryAfter ? { 'Retry-After': String(failure.retryAfter) } : undefined,
+        }
+      )
+    }
+
+    const errors = PasswordPolicy.validate(newPassword, user)
+    if (await AuthUtils.comparePassword(newPassword, user.password)) {
+      errors.push('New password must be different from the current one')
+    }
+    if (errors.length > 0) {
+      return NextResponse.json(
+        createApiResponse(false, { errors }, '', errors.join(', ')),
+        { status: 400 }
+      )
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: await AuthUtils.hashPassword(newPassword),
+        passwordChangedAt: new Date(),
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      },
+    })
+    const signedOutSessions = await SessionUtils.revokeAll(user.id, sessionId)
+
+    return NextResponse.json(
+      createApiResponse(true, { signedOutSessions }, 'Password changed successfully')
+    )
+  } catch (error) {
+    console.error('Change password error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { UserUtils } from '@/lib/users'
+import { forgotPasswordSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// A new link is not sent more often than this for the same account
+const RESET_COOLDOWN_SECONDS = 60
+
+const SENT_MESSAGE = 'If an account exists for this email, a password reset link has been sent'
+
+// POST /api/auth/forgot-password - Email a password reset link to a recruiter or admin.
+// The response never reveals whether the account exists.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { email } = forgotPasswordSchema.parse(body)
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, name: true, role: true, status: true, password: true },
+    })
+
+    // Candidates use one-time codes, and invited users finish their invitation instead
+    const eligible = !!user && user.role !== 'CANDIDATE' && !!user.password && user.status === 'ACTIVE'
+
+    if (eligible) {
+      const recent = await prisma.passwordToken.findFirst({
+        where: { userId: user.id, createdAt: { gte: new Date(Date.now() - RESET_COOLDOWN_SECONDS * 1000) } },
+        select: { id: true },
+      })
+
+      if (!recent) {
+        const baseUrl = process.env.NEXTAUTH_URL || new URL(request.url).origin
+        const { emailSent } = await UserUtils.sendPasswordLink(user, 'RESET', null, baseUrl)
+        if (!emailSent) {
+          console.error('Forgot password error: reset email could not be sent to', user.id)
+        }
+      }
+    }
+
+    return NextResponse.json(
+      createApiResponse(true, null, SENT_MESSAGE)
+    )
+  } catch (error) {
+    console.error('Forgot password error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+}
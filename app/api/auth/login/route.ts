@@ -1,71 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { AuthUtils } from '@/lib/auth'
-import { EmailService } from '@/lib/email'
+import { OtpService, OTP_RESEND_COOLDOWN_SECONDS } from '@/lib/otp'
 import { loginSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
 
+// POST /api/auth/login - Send a one-time login code to an email address or phone number.
+// The answer is the same whether or not the contact has an account; accounts are only
+// created once the code is verified.
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const validatedData = loginSchema.parse(body)
     const { contact, method } = validatedData
 
-    // Determine if contact is email or phone
-    const isEmail = method === 'email' || contact.includes('@')
-    const searchField = isEmail ? 'email' : 'phone'    // Find or create user
-    let user = await prisma.user.findFirst({
-      where: isEmail ? { email: contact } : { phone: contact },
-    })
-
-    if (!user) {
-      // Create new user
-      const userData = {
-        email: isEmail ? contact : `${contact}@temp.com`, // Temporary email for phone users
-        phone: isEmail ? null : contact,
-        role: 'CANDIDATE' as const, // Default role
-        verified: false,
-      }
-      
-      user = await prisma.user.create({
-        data: userData,
-      })
+    const isEmail = OtpService.isEmail(contact, method)
+    if (isEmail && !z.string().email().safeParse(contact.trim()).success) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Invalid email format'),
+        { status: 400 }
+      )
     }
 
-    // Generate OTP
-    const otp = AuthUtils.generateOTP()
-    const otpExpiry = AuthUtils.getOTPExpiry()
-
-    // Update user with OTP
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        otpCode: otp,
-        otpExpiry,
-      },
+    // Only used to greet the user in the email
+    const user = await prisma.user.findFirst({
+      where: OtpService.userWhere(contact, method),
+      select: { name: true },
     })
 
-    // Send OTP
-    let otpSent = false
-    if (isEmail) {
-      otpSent = await EmailService.sendOTPEmail(contact, otp, user.name || undefined)
-    } else {
-      // SMS integration would go here
-      console.log(`SMS OTP for ${contact}: ${otp}`)
-      otpSent = true // Mock success for now
-    }
+    const result = await OtpService.send({
+      contact,
+      method,
+      ipAddress: AuthUtils.extractIpFromRequest(request),
+      name: user?.name || undefined,
+    })
 
-    if (!otpSent) {
+    if (!result.ok) {
       return NextResponse.json(
-        createApiResponse(false, null, '', 'Failed to send OTP'),
-        { status: 500 }
+        createApiResponse(false, result.retryAfter ? { retryAfter: result.retryAfter } : null, '', result.error),
+        {
+          status: result.status,
+          headers: result.retryAfter ? { 'Retry-After': String(result.retryAfter) } : undefined,
+        }
       )
     }
 
     return NextResponse.json(
-      createApiResponse(true, { userId: user.id }, 'OTP sent successfully')
+      createApiResponse(true, {
+        channel: result.channel,
+        expiresAt: result.expiresAt,
+        resendAfter: OTP_RESEND_COOLDOWN_SECONDS,
+      }, 'OTP sent successfully')
     )
   } catch (error) {
     console.error('Login error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       createApiResponse(false, null, '', 'Internal server error'),
       { status: 500 }
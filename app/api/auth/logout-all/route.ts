@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { withAuth, AuthenticatedRequest } from '@/lib/middleware'
+import { SessionUtils } from '@/lib/sessions'
+import { createApiResponse } from '@/lib/validations'
+
+// POST /api/auth/logout-all - Sign out of every device, including this one
+export const POST = withAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const revoked = await SessionUtils.revokeAll(request.user!.userId)
+
+    const response = NextResponse.json(
+      createApiResponse(true, { revoked }, `Signed out of ${revoked} session${revoked === 1 ? '' : 's'}`)
+    )
+    SessionUtils.clearRefreshCookie(response)
+    return response
+  } catch (error) {
+    console.error('Logout all error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SessionUtils } from '@/lib/sessions'
+import { createApiResponse } from '@/lib/validations'
+
+// POST /api/auth/logout - End the session on this device
+// Works off the refresh token cookie so signing out still succeeds after the access token expired.
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = SessionUtils.getRefreshToken(request)
+    if (refreshToken) {
+      await SessionUtils.revokeByRefreshToken(refreshToken)
+    }
+
+    const response = NextResponse.json(
+      createApiResponse(true, null, 'Logged out successfully')
+    )
+    SessionUtils.clearRefreshCookie(response)
+    return response
+  } catch (error) {
+    console.error('Logout error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+}
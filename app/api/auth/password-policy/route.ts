@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server'
+import { PasswordPolicy } from '@/lib/passwords'
+import { createApiResponse } from '@/lib/validations'
+
+// GET /api/auth/password-policy - The password rules, for display next to password fields
+export async function GET() {
+  const rules = PasswordPolicy.rules()
+  return NextResponse.json(
+    createApiResponse(true, { rules, requirements: PasswordPolicy.describe(rules) }, 'Password policy retrieved successfully')
+  )
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { AuthUtils } from '@/lib/auth'
+import { SessionUtils } from '@/lib/sessions'
+import { LoginLockout, LoginFailure } from '@/lib/passwords'
 import { createApiResponse } from '@/lib/validations'
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
@@ -9,6 +11,16 @@ const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 })
 
+function failedLogin(result: LoginFailure) {
+  return NextResponse.json(
+    createApiResponse(false, result.retryAfter ? { retryAfter: result.retryAfter } : null, '', result.error),
+    {
+      status: result.status,
+      headers: result.retryAfter ? { 'Retry-After': String(result.retryAfter) } : undefined,
+    }
+  )
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
@@ -23,42 +35,40 @@ export async function POST(request: NextRequest) {
       },
     })
 
-    if (!user || user.role !== 'RECRUITER') {
+    // Candidates sign in with a one-time code; invited users have no password until they accept
+    if (!user || user.role === 'CANDIDATE' || !user.password) {
       return NextResponse.json(
         createApiResponse(false, null, '', 'Invalid email or password'),
         { status: 401 }
       )
     }
 
+    const lockedFor = LoginLockout.lockedFor(user.lockedUntil)
+    if (lockedFor) {
+      return failedLogin(LoginLockout.locked(lockedFor))
+    }
+
     // Check password
-    if (user.password) {
-      // For hashed passwords
-      const isValidPassword = await AuthUtils.comparePassword(password, user.password)
-      if (!isValidPassword) {
-        return NextResponse.json(
-          createApiResponse(false, null, '', 'Invalid email or password'),
-          { status: 401 }
-        )
-      }
-    } else {
-      // Temporary fallback for demo - remove in production
-      if (email === 'admin@tropl.ai' && password === 'admin123') {
-        // Allow login for demo user
-      } else {
-        return NextResponse.json(
-          createApiResponse(false, null, '', 'Invalid email or password'),
-          { status: 401 }
-        )
-      }
+    const isValidPassword = await AuthUtils.comparePassword(password, user.password)
+    if (!isValidPassword) {
+      return failedLogin(await LoginLockout.recordFailure(user.id))
     }
 
-    // Generate JWT token
-    const token = AuthUtils.generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
+    const blocked = AuthUtils.accountBlockedReason(user.status)
+    if (blocked) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', blocked),
+        { status: 403 }
+      )
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lastLogin: new Date(), failedLoginAttempts: 0, lockedUntil: null },
     })
 
+    const issued = await SessionUtils.start(user, request)
+
     // Prepare user data for response (exclude password)
     const userData = {
       id: user.id,
@@ -69,9 +79,11 @@ export async function POST(request: NextRequest) {
       recruiter: user.recruiter,
     }
 
-    return NextResponse.json(
-      createApiResponse(true, { user: userData, token }, 'Login successful')
+    const response = NextResponse.json(
+      createApiResponse(true, { user: userData, token: issued.accessToken, expiresIn: issued.expiresIn }, 'Login successful')
     )
+    SessionUtils.setRefreshCookie(response, issued)
+    return response
   } catch (error) {
     console.error('Recruiter login error:', error)
     return NextResponse.json(
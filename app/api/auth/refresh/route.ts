@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SessionUtils } from '@/lib/sessions'
+import { createApiResponse } from '@/lib/validations'
+
+// POST /api/auth/refresh - Exchange the refresh token cookie for a new access token
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = SessionUtils.getRefreshToken(request)
+
+    if (!refreshToken) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'No refresh token'),
+        { status: 401 }
+      )
+    }
+
+    const result = await SessionUtils.refresh(refreshToken)
+
+    if (!result.ok) {
+      const response = NextResponse.json(
+        createApiResponse(false, null, '', result.error),
+        { status: result.status }
+      )
+      // A parallel refresh already set a new cookie, so only clear it when the session is over
+      if (result.status !== 409) {
+        SessionUtils.clearRefreshCookie(response)
+      }
+      return response
+    }
+
+    const { issued, user } = result
+    const response = NextResponse.json(
+      createApiResponse(true, {
+        token: issued.accessToken,
+        expiresIn: issued.expiresIn,
+        user: { id: user.id, email: user.email, role: user.role },
+      }, 'Session refreshed')
+    )
+    SessionUtils.setRefreshCookie(response, issued)
+    return response
+  } catch (error) {
+    console.error('Refresh session error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UserUtils } from '@/lib/users'
+import { setPasswordSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/auth/set-password?token= - Check an invitation or reset link before showing the form
+export async function GET(request: NextRequest) {
+  try {
+    const token = new URL(request.url).searchParams.get('token')
+    if (!token) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Token is required'),
+        { status: 400 }
+      )
+    }
+
+    const result = await UserUtils.findPasswordToken(token)
+    if (!result.ok) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', result.error),
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(true, {
+        purpose: result.purpose,
+        email: result.user.email,
+        name: result.user.name,
+      }, 'Link is valid')
+    )
+  } catch (error) {
+    console.error('Check password link error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/auth/set-password - Choose a password from an invitation or reset link. The user
+// then signs in normally; existing sessions are signed out.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { token, password, name } = setPasswordSchema.parse(body)
+
+    const result = await UserUtils.redeemPasswordToken(token, password, name)
+    if (!result.ok) {
+      return NextResponse.json(
+        createApiResponse(false, 'errors' in result ? { errors: result.errors } : null, '', result.error),
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(
+        true,
+        { email: result.user.email },
+        result.purpose === 'INVITE' ? 'Invitation accepted' : 'Password updated successfully'
+      )
+    )
+  } catch (error) {
+    console.error('Set password error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+}
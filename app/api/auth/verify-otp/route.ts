@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { AuthUtils } from '@/lib/auth'
+import { SessionUtils } from '@/lib/sessions'
+import { OtpService } from '@/lib/otp'
 import { verifyOTPSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,56 +13,66 @@ export async function POST(request: NextRequest) {
     const { contact, otp, method } = validatedData
 
     // Determine if contact is email or phone
-    const isEmail = method === 'email' || contact.includes('@')
+    const isEmail = OtpService.isEmail(contact, method)
+
+    const result = await OtpService.verify(contact, method, otp)
+    if (!result.ok) {
+      const details = result.attemptsRemaining !== undefined || result.retryAfter
+        ? { attemptsRemaining: result.attemptsRemaining, retryAfter: result.retryAfter }
+        : null
+      return NextResponse.json(
+        createApiResponse(false, details, '', result.error),
+        {
+          status: result.status,
+          headers: result.retryAfter ? { 'Retry-After': String(result.retryAfter) } : undefined,
+        }
+      )
+    }
 
     // Find user
-    const user = await prisma.user.findFirst({
-      where: isEmail ? { email: contact } : { phone: contact },
+    let user = await prisma.user.findFirst({
+      where: OtpService.userWhere(contact, method),
       include: {
         recruiter: true,
         candidate: true,
       },
     })
 
+    // First login: the account only exists once the contact has been proven
     if (!user) {
-      return NextResponse.json(
-        createApiResponse(false, null, '', 'User not found'),
-        { status: 404 }
-      )
-    }
-
-    // Verify OTP
-    if (!user.otpCode || user.otpCode !== otp) {
-      return NextResponse.json(
-        createApiResponse(false, null, '', 'Invalid OTP'),
-        { status: 400 }
-      )
+      const normalized = OtpService.normalizeContact(contact, method)
+      user = await prisma.user.create({
+        data: {
+          email: isEmail ? normalized : `${normalized}@temp.com`, // Temporary email for phone users
+          phone: isEmail ? null : normalized,
+          role: 'CANDIDATE',
+          verified: true,
+        },
+        include: {
+          recruiter: true,
+          candidate: true,
+        },
+      })
     }
 
-    if (!user.otpExpiry || !AuthUtils.isOTPValid(user.otpExpiry)) {
+    const blocked = AuthUtils.accountBlockedReason(user.status)
+    if (blocked) {
       return NextResponse.json(
-        createApiResponse(false, null, '', 'OTP has expired'),
-        { status: 400 }
+        createApiResponse(false, null, '', blocked),
+        { status: 403 }
       )
     }
 
-    // Update user - clear OTP and mark as verified
+    // Mark as verified and record the login
     await prisma.user.update({
       where: { id: user.id },
       data: {
         verified: true,
-        otpCode: null,
-        otpExpiry: null,
         lastLogin: new Date(),
       },
     })
 
-    // Generate JWT token
-    const token = AuthUtils.generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    })
+    const issued = await SessionUtils.start(user, request)
 
     // Prepare user data for response
     const userData = {
@@ -73,11 +86,21 @@ export async function POST(request: NextRequest) {
       profile: user.role === 'RECRUITER' ? user.recruiter : user.candidate,
     }
 
-    return NextResponse.json(
-      createApiResponse(true, { user: userData, token }, 'Login successful')
+    const response = NextResponse.json(
+      createApiResponse(true, { user: userData, token: issued.accessToken, expiresIn: issued.expiresIn }, 'Login successful')
     )
+    SessionUtils.setRefreshCookie(response, issued)
+    return response
   } catch (error) {
     console.error('OTP verification error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       createApiResponse(false, null, '', 'Internal server error'),
       { status: 500 }
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { createApiResponse } from '@/lib/validations'
+
+// POST /api/candidate-shares/[id]/revoke - Disable a share link immediately
+export const POST = withPermission('share:update', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    const share = await prisma.candidateShare.findUnique({ where: { id } })
+
+    if (!share) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Share link not found'),
+        { status: 404 }
+      )
+    }
+
+    if (share.status === 'REVOKED') {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Share link is already revoked'),
+        { status: 400 }
+      )
+    }
+
+    const revokedShare = await prisma.candidateShare.update({
+      where: { id },
+      data: {
+        status: 'REVOKED',
+        revokedAt: new Date(),
+      },
+    })
+
+    return NextResponse.json(
+      createApiResponse(true, revokedShare, 'Share link revoked successfully')
+    )
+  } catch (error) {
+    console.error('Revoke candidate share error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
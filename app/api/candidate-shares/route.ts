@@ -0,0 +1,184 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { Permissions } from '@/lib/permissions'
+import { RecruiterUtils } from '@/lib/recruiters'
+import { ShareUtils } from '@/lib/shares'
+import { EmailService } from '@/lib/email'
+import { createCandidateShareSchema, candidateShareListQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+const shareInclude = {
+  candidate: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      jobTitle: true,
+    },
+  },
+  recruiter: {
+    select: {
+      id: true,
+      user: {
+        select: {
+          name: true,
+          email: true,
+        },
+      },
+    },
+  },
+} as const
+
+// GET /api/candidate-shares - List share links (recruiters see the ones they created)
+export const GET = withPermission('share:read', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { page, limit, candidateId, status } = candidateShareListQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const where: any = {}
+    if (Permissions.scope(request.user!.role, 'share:read') === 'own') {
+      const recruiterId = await RecruiterUtils.getRecruiterId(request.user!.userId)
+      if (!recruiterId) {
+        return NextResponse.json(
+          createApiResponse(true, [], 'No share links found', undefined, { page, limit, total: 0, totalPages: 0 })
+        )
+      }
+      where.recruiterId = recruiterId
+    }
+    if (candidateId) {
+      where.candidateId = candidateId
+    }
+    if (status) {
+      where.status = status
+    }
+
+    const [shares, total] = await Promise.all([
+      prisma.candidateShare.findMany({
+        where,
+        include: shareInclude,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.candidateShare.count({ where }),
+    ])
+
+    // Links that ran out since they were last opened still read ACTIVE in the database
+    const responseShares = shares.map(share => ({
+      ...share,
+      status: ShareUtils.effectiveStatus(share),
+    }))
+
+    return NextResponse.json(
+      createApiResponse(true, responseShares, 'Share links retrieved successfully', undefined, {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      })
+    )
+  } catch (error) {
+    console.error('Get candidate shares error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/candidate-shares - Share one or more candidates with a client email
+export const POST = withPermission('share:create', async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const validatedData = createCandidateShareSchema.parse(body)
+
+    const recruiter = await prisma.recruiter.findUnique({
+      where: { userId: request.user!.userId },
+      include: { user: { select: { name: true, email: true } } },
+    })
+
+    if (!recruiter) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Recruiter profile not found'),
+        { status: 404 }
+      )
+    }
+
+    const candidateIds = Array.from(new Set(validatedData.candidateIds))
+    const candidates = await prisma.candidate.findMany({
+      where: { id: { in: candidateIds } },
+      select: { id: true, firstName: true, lastName: true },
+    })
+
+    if (candidates.length !== candidateIds.length) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Candidate not found'),
+        { status: 404 }
+      )
+    }
+
+    const expiryDate = validatedData.expiryDate ? new Date(validatedData.expiryDate) : ShareUtils.defaultExpiry()
+    const shares = await Promise.all(candidates.map(candidate =>
+      prisma.candidateShare.create({
+        data: {
+          candidateId: candidate.id,
+          recruiterId: recruiter.id,
+          token: ShareUtils.generateToken(),
+          shareType: Array.from(new Set(validatedData.shareType)),
+          shareEmail: validatedData.shareEmail,
+          expiryDate,
+          ...(validatedData.maxVisits !== undefined ? { maxVisits: validatedData.maxVisits } : {}),
+        },
+        include: shareInclude,
+      })
+    ))
+
+    const baseUrl = process.env.NEXTAUTH_URL || new URL(request.url).origin
+    const responseShares = shares.map(share => ({
+      ...share,
+      url: ShareUtils.buildUrl(baseUrl, share.token),
+    }))
+
+    const emailSent = await EmailService.sendCandidateShareEmail(
+      validatedData.shareEmail,
+      recruiter.user.name || recruiter.user.email,
+      responseShares.map(share => ({
+        name: [share.candidate.firstName, share.candidate.lastName].filter(Boolean).join(' ') || 'Candidate',
+        url: share.url,
+      })),
+      expiryDate
+    )
+
+    return NextResponse.json(
+      createApiResponse(
+        true,
+        { shares: responseShares, emailSent },
+        emailSent ? 'Candidates shared successfully' : 'Share links created, but the email could not be sent'
+      ),
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Create candidate share error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { CandidateDedup, duplicateCandidateSelect } from '@/lib/dedup'
+import { duplicateQueueQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/candidates/[id]/duplicates - Likely duplicates of one candidate
+export const GET = withPermission('candidate:merge:any', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const { minScore } = duplicateQueueQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const pairs = await CandidateDedup.findDuplicatesOf(id, minScore)
+    const otherIds = pairs.map(pair => pair.candidateIds.find(candidateId => candidateId !== id)!)
+
+    const candidates = await prisma.candidate.findMany({
+      where: { id: { in: otherIds } },
+      select: duplicateCandidateSelect,
+    })
+    const byId = new Map(candidates.map(candidate => [candidate.id, candidate]))
+
+    const duplicates = pairs.map((pair, index) => ({
+      ...pair,
+      candidate: byId.get(otherIds[index]) ?? null,
+    }))
+
+    return NextResponse.json(
+      createApiResponse(true, duplicates, 'Duplicate candidates retrieved successfully')
+    )
+  } catch (error) {
+    console.error('Get candidate duplicates error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { MatchScorer } from '@/lib/matching'
+import { matchQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/candidates/[id]/matches - Rank open jobs for a candidate
+// Candidates can pass `me` as the id to get their own matches.
+export const GET = withPermission('candidate:read', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const { page, limit, minScore } = matchQuerySchema.parse(Object.fromEntries(searchParams))
+    const user = request.user!
+
+    // Anything other than `me` or an ObjectId cannot be a candidate
+    const candidate = id === 'me' || /^[0-9a-fA-F]{24}$/.test(id)
+      ? await prisma.candidate.findUnique({ where: id === 'me' ? { userId: user.userId } : { id } })
+      : null
+
+    if (!candidate) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Candidate not found'),
+        { status: 404 }
+      )
+    }
+
+    const [jobs, applications] = await Promise.all([
+      prisma.job.findMany({
+        where: { status: 'OPEN' },
+        include: {
+          client: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      }),
+      prisma.jobApplication.findMany({
+        where: { candidateId: candidate.id },
+        select: { jobId: true, status: true },
+      }),
+    ])
+
+    const applicationStatus = new Map(applications.map(application => [application.jobId, application.status]))
+
+    const ranked = jobs
+      .map(job => ({
+        job,
+        applicationStatus: applicationStatus.get(job.id) ?? null,
+        ...MatchScorer.score(candidate, job),
+      }))
+      .filter(match => match.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+
+    const total = ranked.length
+    const matches = ranked.slice((page - 1) * limit, page * limit)
+
+    return NextResponse.json(
+      createApiResponse(true, matches, 'Job matches retrieved successfully', undefined, {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      })
+    )
+  } catch (error) {
+    console.error('Get candidate matches error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -1,8 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { withAuth, withRole, AuthenticatedRequest } from '@/lib/middleware'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { Permissions } from '@/lib/permissions'
 import { updateCandidateSchema, createApiResponse } from '@/lib/validations'
 import { FileUtils } from '@/lib/fileUtils'
+import { AuditLog } from '@/lib/audit'
+import { ResumeFileUtils } from '@/lib/resume-files'
+import { RangeParser } from '@/lib/ranges'
 import { z } from 'zod'
 
 // Enhanced schema for comprehensive candidate updates
@@ -59,13 +63,30 @@ const enhancedUpdateCandidateSchema = z.object({
   resumeUrl: z.string().nullable().optional(),
 })
 
+// The ownership check accepts "me" for the caller's own profile. Returns the profile id, or
+// null when there is no such candidate.
+async function resolveCandidateId(id: string, userId: string): Promise<string | null> {
+  if (id !== 'me') return /^[0-9a-fA-F]{24}$/.test(id) ? id : null
+  const candidate = await prisma.candidate.findUnique({ where: { userId }, select: { id: true } })
+  return candidate?.id ?? null
+}
+
+function candidateNotFound() {
+  return NextResponse.json(
+    createApiResponse(false, null, '', 'Candidate not found'),
+    { status: 404 }
+  )
+}
+
 // GET /api/candidates/[id] - Get candidate by ID
-export async function GET(
-  request: NextRequest,
+export const GET = withPermission('candidate:read', async (
+  request: AuthenticatedRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
-    const { id } = await params
+    const id = await resolveCandidateId((await params).id, request.user!.userId)
+    if (!id) return candidateNotFound()
+
     const candidate = await prisma.candidate.findUnique({
       where: { id },
       include: {
@@ -142,15 +163,17 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
 // PUT /api/candidates/[id] - Update candidate by ID
-export const PUT = withAuth(async (
+export const PUT = withPermission('candidate:update', async (
   request: AuthenticatedRequest,
   { params }: { params: Promise<{ id: string }> }
 ) => {
   try {
-    const { id } = await params
+    const id = await resolveCandidateId((await params).id, request.user!.userId)
+    if (!id) return candidateNotFound()
+
     const body = await request.json()
     
     // Log the incoming data for debugging
@@ -176,18 +199,6 @@ export const PUT = withAuth(async (
       )
     }
 
-    // Check if user owns this candidate profile or is admin/recruiter
-    const userRole = request.user!.role
-    const isOwner = existingCandidate.userId === request.user!.userId
-    const canEdit = isOwner || userRole === 'ADMIN' || userRole === 'RECRUITER'
-
-    if (!canEdit) {
-      return NextResponse.json(
-        createApiResponse(false, null, '', 'Permission denied'),
-        { status: 403 }
-      )
-    }
-
     // Prepare user update data (only what belongs to User model)
     const userUpdateData: any = {}
     if (validatedData.email) userUpdateData.email = validatedData.email
@@ -220,7 +231,10 @@ export const PUT = withAuth(async (
     if ('experience' in validatedData && validatedData.experience) candidateUpdateData.experience = parseInt(validatedData.experience)
     if ('expectedSalary' in validatedData && validatedData.expectedSalary) candidateUpdateData.expectedSalary = parseFloat(validatedData.expectedSalary)
     if ('currentSalary' in validatedData && validatedData.currentSalary) candidateUpdateData.currentSalary = parseFloat(validatedData.currentSalary)
-    if ('noticePeriod' in validatedData) candidateUpdateData.noticePeriod = validatedData.noticePeriod
+    if ('noticePeriod' in validatedData) {
+      candidateUpdateData.noticePeriod = validatedData.noticePeriod
+      candidateUpdateData.noticePeriodDays = RangeParser.parseNoticePeriod(validatedData.noticePeriod)
+    }
     if ('relocate' in validatedData) candidateUpdateData.relocate = validatedData.relocate
     if ('summary' in validatedData) candidateUpdateData.profileSummary = validatedData.summary
     if ('aadhaar' in validatedData) candidateUpdateData.aadhaar = validatedData.aadhaar
@@ -230,7 +244,10 @@ export const PUT = withAuth(async (
     if ('recruiterName' in validatedData) candidateUpdateData.recruiterName = validatedData.recruiterName
     if ('recruiterEmail' in validatedData) candidateUpdateData.recruiterEmail = validatedData.recruiterEmail
     if ('recruiterContact' in validatedData) candidateUpdateData.recruiterContact = validatedData.recruiterContact
-    if ('resumeUrl' in validatedData) candidateUpdateData.resumeUrl = validatedData.resumeUrl
+    if ('resumeUrl' in validatedData) {
+      candidateUpdateData.resumeUrl = validatedData.resumeUrl
+      candidateUpdateData.resumeText = await ResumeFileUtils.textFor(validatedData.resumeUrl)
+    }
 
     // Handle array/object fields with proper assignment
     if (validatedData.skills) candidateUpdateData.skills = validatedData.skills
@@ -270,6 +287,14 @@ export const PUT = withAuth(async (
       return candidate
     })
 
+    await AuditLog.record(request, {
+      action: 'UPDATE',
+      entityType: 'CANDIDATE',
+      entityId: id,
+      before: existingCandidate,
+      after: updatedCandidate,
+    })
+
     // Parse JSON fields for response safely
     const responseCandidate = {
       ...updatedCandidate,
@@ -304,13 +329,14 @@ export const PUT = withAuth(async (
 })
 
 // DELETE /api/candidates/[id] - Delete candidate by ID
-export const DELETE = withAuth(async (
+export const DELETE = withPermission('candidate:delete', async (
   request: AuthenticatedRequest,
   { params }: { params: Promise<{ id: string }> }
 ) => {
   try {
-    const { id } = await params
-    
+    const id = await resolveCandidateId((await params).id, request.user!.userId)
+    if (!id) return candidateNotFound()
+
     console.log('Deleting candidate:', id);
 
     // Get the candidate details including user info and resume file
@@ -331,17 +357,8 @@ export const DELETE = withAuth(async (
       )
     }
 
-    // Check permissions (recruiters can delete any candidate, candidates can only delete themselves)
-    const userRole = request.user!.role
-    const isOwner = candidate.userId === request.user!.userId
-    const isRecruiter = userRole === 'RECRUITER'
-
-    if (!isOwner && !isRecruiter && userRole !== 'ADMIN') {
-      return NextResponse.json(
-        createApiResponse(false, null, '', 'Permission denied'),
-        { status: 403 }
-      )
-    }
+    // Recruiters and admins remove the whole account; candidates deleting themselves keep it
+    const deletesAccount = Permissions.scope(request.user!.role, 'candidate:delete') === 'any'
 
     console.log('Found candidate to delete:', {
       id: candidate.id,
@@ -384,8 +401,8 @@ export const DELETE = withAuth(async (
       })
       console.log('Deleted candidate profile');
 
-      // Delete the associated user account (only if recruiter is deleting)
-      if (isRecruiter || userRole === 'ADMIN') {
+      // Delete the associated user account
+      if (deletesAccount) {
         await tx.user.delete({
           where: { id: candidate.userId }
         })
@@ -489,6 +506,18 @@ export const DELETE = withAuth(async (
 
     console.log('Successfully deleted candidate and all related data');
 
+    const { applications, interviews, candidateShares, ...profile } = candidate
+    await AuditLog.recordMany(request, [
+      { action: 'DELETE', entityType: 'CANDIDATE', entityId: id, before: profile },
+      ...applications.map(application => ({
+        action: 'DELETE' as const,
+        entityType: 'APPLICATION' as const,
+        entityId: application.id,
+        before: application,
+        context: 'candidate deleted',
+      })),
+    ])
+
     return NextResponse.json(
       createApiResponse(
         true,
@@ -1,7 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { withRole, AuthenticatedRequest } from '@/lib/middleware'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
 import { createApiResponse } from '@/lib/validations'
+import { CandidateDedup } from '@/lib/dedup'
+import { AuditLog } from '@/lib/audit'
+import { SavedSearches } from '@/lib/saved-searches'
+import { ResumeFileUtils } from '@/lib/resume-files'
+import { RangeParser } from '@/lib/ranges'
 import { z } from 'zod'
 
 // Resume form validation schema for recruiter adding candidates
@@ -84,7 +89,7 @@ const recruiterAddCandidateSchema = z.object({
 })
 
 // POST /api/candidates/add-by-recruiter - Create candidate by recruiter
-export const POST = withRole(['RECRUITER'], async (request: AuthenticatedRequest) => {
+export const POST = withPermission('candidate:create:any', async (request: AuthenticatedRequest) => {
   try {
     const body = await request.json()
     const validatedData = recruiterAddCandidateSchema.parse(body)
@@ -180,6 +185,7 @@ export const POST = withRole(['RECRUITER'], async (request: AuthenticatedRequest
       expectedSalary,
       currentSalary,
       noticePeriod: validatedData.noticePeriod || null,
+      noticePeriodDays: RangeParser.parseNoticePeriod(validatedData.noticePeriod),
       relocate: validatedData.relocate,
       profileSummary: validatedData.summary || null,
       
@@ -206,6 +212,7 @@ export const POST = withRole(['RECRUITER'], async (request: AuthenticatedRequest
       
       // Resume file URL
       resumeUrl: validatedData.resumeUrl || null,
+      resumeText: await ResumeFileUtils.textFor(validatedData.resumeUrl),
       
       // Link to user
       userId: user.id,
@@ -233,18 +240,34 @@ export const POST = withRole(['RECRUITER'], async (request: AuthenticatedRequest
       email: candidate.email
     });
 
+    await AuditLog.record(request, { action: 'CREATE', entityType: 'CANDIDATE', entityId: candidate.id, after: candidate })
+    const baseUrl = process.env.NEXTAUTH_URL || new URL(request.url).origin
+    after(() => SavedSearches.candidateAdded(candidate.id, { baseUrl }))
+
+    // Flag likely duplicates so the recruiter can merge them straight away; the candidate
+    // is already saved, so a failed check is logged rather than failing the request
+    let possibleDuplicates: Awaited<ReturnType<typeof CandidateDedup.findDuplicatesOf>> = []
+    try {
+      possibleDuplicates = await CandidateDedup.findDuplicatesOf(candidate.id)
+    } catch (dedupError) {
+      console.error('Duplicate check error:', dedupError)
+    }
+
     // Format candidate data for response
     const responseCandidate = {
       ...candidate,
       // Format DOB as yyyy-mm-dd for frontend display
       dob: candidate.dob ? candidate.dob.toISOString().split('T')[0] : null,
+      possibleDuplicates,
     };
 
     return NextResponse.json(
       createApiResponse(
         true, 
         responseCandidate, 
-        'Candidate added successfully'
+        possibleDuplicates.length > 0
+          ? `Candidate added successfully. ${possibleDuplicates.length} possible duplicate(s) found`
+          : 'Candidate added successfully'
       ),
       { status: 201 }
     )
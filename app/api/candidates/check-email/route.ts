@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { withAuth, AuthenticatedRequest } from '@/lib/middleware';
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware';
 import { createApiResponse } from '@/lib/validations';
 import { z } from 'zod';
 
@@ -8,7 +8,7 @@ const checkEmailSchema = z.object({
   email: z.string().email('Invalid email format'),
 });
 
-export const POST = withAuth(async (request: AuthenticatedRequest) => {
+export const POST = withPermission('candidate:create', async (request: AuthenticatedRequest) => {
   try {
     const body = await request.json();
     const validatedData = checkEmailSchema.parse(body);
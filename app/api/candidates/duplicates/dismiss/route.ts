@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { CandidateDedup } from '@/lib/dedup'
+import { dismissDuplicateSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// POST /api/candidates/duplicates/dismiss - Mark a pair as different people
+export const POST = withPermission('candidate:merge:any', async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const { candidateIds, reason } = dismissDuplicateSchema.parse(body)
+
+    if (candidateIds[0] === candidateIds[1]) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Select two different candidates'),
+        { status: 400 }
+      )
+    }
+
+    const dismissal = await CandidateDedup.dismiss(candidateIds, request.user!.userId, reason)
+
+    return NextResponse.json(
+      createApiResponse(true, dismissal, 'Candidates marked as not duplicates')
+    )
+  } catch (error) {
+    console.error('Dismiss duplicate error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { CandidateDedup, duplicateCandidateSelect } from '@/lib/dedup'
+import { duplicateQueueQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/candidates/duplicates - Review queue of likely duplicate candidate pairs
+export const GET = withPermission('candidate:merge:any', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { page, limit, minScore } = duplicateQueueQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const pairs = await CandidateDedup.findPairs(minScore)
+    const pagePairs = pairs.slice((page - 1) * limit, page * limit)
+
+    const candidates = await prisma.candidate.findMany({
+      where: { id: { in: pagePairs.flatMap(pair => pair.candidateIds) } },
+      select: duplicateCandidateSelect,
+    })
+    const byId = new Map(candidates.map(candidate => [candidate.id, candidate]))
+
+    const responsePairs = pagePairs.map(pair => ({
+      ...pair,
+      candidates: pair.candidateIds.map(id => byId.get(id) ?? null),
+    }))
+
+    return NextResponse.json(
+      createApiResponse(true, responsePairs, 'Duplicate candidates retrieved successfully', undefined, {
+        page,
+        limit,
+        total: pairs.length,
+        totalPages: Math.ceil(pairs.length / limit),
+      })
+    )
+  } catch (error) {
+    console.error('Get duplicate candidates error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { ListFilters } from '@/lib/list-filters'
+import { CandidateSearch } from '@/lib/candidate-search'
+import { ExportUtils } from '@/lib/export'
+import { exportQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/candidates/export - Download the candidates list as CSV or XLSX
+export const GET = withPermission('candidate:export:any', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const queryParams = Object.fromEntries(searchParams)
+    const { format, columns } = exportQuerySchema.parse(queryParams)
+
+    const selected = ExportUtils.columns('candidates', request.user!.role, columns)
+    if (!selected.ok) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', selected.error),
+        { status: selected.status }
+      )
+    }
+
+    const sort = ExportUtils.checkSort('candidates', queryParams.sortBy)
+    if (!sort.ok) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', sort.error),
+        { status: sort.status }
+      )
+    }
+
+    const filter = ListFilters.candidates(queryParams)
+    if (filter.search) {
+      const hits = await CandidateSearch.search(filter.search, filter.where)
+      filter.where = { id: { in: hits.map(hit => hit.id) } }
+    }
+
+    return new NextResponse(ExportUtils.stream('candidates', format, filter, selected.columns), {
+      headers: {
+        'Content-Type': ExportUtils.contentType(format),
+        'Content-Disposition': `attachment; filename="${ExportUtils.fileName('candidates', format)}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Export candidates error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { CandidateDedup } from '@/lib/dedup'
+import { AuditLog } from '@/lib/audit'
+import { mergeCandidatesSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// POST /api/candidates/merge - Merge a duplicate candidate into the surviving profile
+export const POST = withPermission('candidate:merge:any', async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const { survivorId, duplicateId } = mergeCandidatesSchema.parse(body)
+
+    const result = await CandidateDedup.merge(survivorId, duplicateId, request.user!.userId)
+
+    if (!result.ok) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', result.error),
+        { status: result.status }
+      )
+    }
+
+    await AuditLog.recordMany(request, [
+      { action: 'UPDATE', entityType: 'CANDIDATE', entityId: survivorId, before: result.before, after: result.survivor, context: 'merge' },
+      { action: 'DELETE', entityType: 'CANDIDATE', entityId: duplicateId, before: result.removed, context: 'merge' },
+    ])
+
+    return NextResponse.json(
+      createApiResponse(true, { survivor: result.survivor, merge: result.merge }, 'Candidates merged successfully')
+    )
+  } catch (error) {
+    console.error('Merge candidates error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
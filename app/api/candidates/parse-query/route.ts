@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { CandidateQueryParsers } from '@/lib/candidate-query-parser'
+import { parseCandidateQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// POST /api/candidates/parse-query - Turn a natural-language search into candidate filters (Recruiters/Admins)
+// Nothing is searched here: the filter is returned for the user to review and then sent to GET /api/candidates.
+export const POST = withPermission('candidate:read:any', async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const { text } = parseCandidateQuerySchema.parse(body)
+
+    const outcome = await CandidateQueryParsers.parse(text)
+
+    return NextResponse.json(
+      createApiResponse(true, { text, ...outcome }, 'Search parsed successfully')
+    )
+  } catch (error) {
+    console.error('Parse candidate query error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
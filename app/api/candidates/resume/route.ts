@@ -1,7 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { withAuth, AuthenticatedRequest } from '@/lib/middleware'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
 import { createApiResponse } from '@/lib/validations'
+import { AuditLog } from '@/lib/audit'
+import { SavedSearches } from '@/lib/saved-searches'
+import { ResumeFileUtils } from '@/lib/resume-files'
+import { RangeParser } from '@/lib/ranges'
 import { z } from 'zod'
 import { promises as fs } from 'fs'
 import path from 'path'
@@ -86,7 +90,7 @@ const resumeFormSchema = z.object({
 })
 
 // POST /api/candidates/resume - Create or update candidate resume
-export const POST = withAuth(async (request: AuthenticatedRequest) => {
+export const POST = withPermission('candidate:update:own', async (request: AuthenticatedRequest) => {
   try {
     const body = await request.json()
     const validatedData = resumeFormSchema.parse(body)
@@ -136,6 +140,7 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
       expectedSalary,
       currentSalary,
       noticePeriod: validatedData.noticePeriod || null,
+      noticePeriodDays: RangeParser.parseNoticePeriod(validatedData.noticePeriod),
       relocate: validatedData.relocate,
       profileSummary: validatedData.summary || null,
       
@@ -162,6 +167,7 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
       
       // Resume file URL
       resumeUrl: validatedData.resumeUrl || null,
+      resumeText: await ResumeFileUtils.textFor(validatedData.resumeUrl),
     }
 
     // Check if candidate profile already exists
@@ -219,6 +225,17 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
       })
     }
 
+    await AuditLog.record(request, {
+      action: existingCandidate ? 'UPDATE' : 'CREATE',
+      entityType: 'CANDIDATE',
+      entityId: candidate.id,
+      before: existingCandidate,
+      after: candidate,
+    })
+    // Self-registered candidates fill in their profile here, so this is when they become findable
+    const baseUrl = process.env.NEXTAUTH_URL || new URL(request.url).origin
+    after(() => SavedSearches.candidateAdded(candidate.id, { baseUrl }))
+
     // Also update the user's name and email if provided
     if (validatedData.firstName || validatedData.lastName || validatedData.email) {
       const fullName = `${validatedData.firstName} ${validatedData.lastName}`.trim()
@@ -258,7 +275,7 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
 })
 
 // GET /api/candidates/resume - Get current user's resume data
-export const GET = withAuth(async (request: AuthenticatedRequest) => {
+export const GET = withPermission('candidate:read:own', async (request: AuthenticatedRequest) => {
   try {
     const userId = request.user!.userId
 
@@ -1,56 +1,34 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { withAuth, AuthenticatedRequest } from '@/lib/middleware'
-import { createCandidateSchema, updateCandidateSchema, listQuerySchema, createApiResponse } from '@/lib/validations'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { ListFilters } from '@/lib/list-filters'
+import { CandidateSearch, CandidateSearchHit } from '@/lib/candidate-search'
+import { AuditLog } from '@/lib/audit'
+import { SavedSearches } from '@/lib/saved-searches'
+import { Permissions } from '@/lib/permissions'
+import { createCandidateSchema, updateCandidateSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
 
 // GET /api/candidates - List all candidates
-export const GET = withAuth(async (request: AuthenticatedRequest) => {
+export const GET = withPermission('candidate:read', async (request: AuthenticatedRequest) => {
   try {
     const { searchParams } = new URL(request.url)
     const queryParams = Object.fromEntries(searchParams)
-    const { page, limit, sortBy, sortOrder, query, filters } = listQuerySchema.parse(queryParams)
-
-    const where: any = {}
-    
-    // Add search functionality
-    if (query) {
-      where.OR = [
-        { firstName: { contains: query, mode: 'insensitive' } },
-        { lastName: { contains: query, mode: 'insensitive' } },
-        { jobTitle: { contains: query, mode: 'insensitive' } },
-        { location: { contains: query, mode: 'insensitive' } },
-        { user: { email: { contains: query, mode: 'insensitive' } } },
-      ]
-    }
-
-    // Add filters
-    if (filters) {
-      if (filters.availability) {
-        where.availability = filters.availability
-      }
-      if (filters.location) {
-        where.location = { contains: filters.location, mode: 'insensitive' }
-      }
-      if (filters.minExperience) {
-        where.experience = { gte: parseInt(filters.minExperience) }
-      }
-      if (filters.maxExperience) {
-        where.experience = { ...where.experience, lte: parseInt(filters.maxExperience) }
-      }
-    }
-
-    const orderBy: any = {}
-    if (sortBy) {
-      orderBy[sortBy] = sortOrder
-    } else {
-      orderBy.createdAt = 'desc'
+    const { page, limit, where, orderBy, search } = ListFilters.candidates(queryParams)
+    // Candidates only ever see their own profile
+    if (Permissions.scope(request.user!.role, 'candidate:read') === 'own') {
+      where.userId = request.user!.userId
     }
 
     const skip = (page - 1) * limit
 
+    // A text search ranks every match, and then only this page of them is loaded
+    const hits = search ? await CandidateSearch.search(search, where) : null
+    const pageHits = hits ? hits.slice(skip, skip + limit) : []
+
     const [candidates, total] = await Promise.all([
       prisma.candidate.findMany({
-        where,
+        where: hits ? { id: { in: pageHits.map(hit => hit.id) } } : where,
         include: {
           user: {
             select: {
@@ -69,17 +47,23 @@ export const GET = withAuth(async (request: AuthenticatedRequest) => {
             },
           },
         },
-        skip,
-        take: limit,
-        orderBy,
+        ...(hits ? {} : { skip, take: limit, orderBy }),
       }),
-      prisma.candidate.count({ where }),
+      hits ? hits.length : prisma.candidate.count({ where }),
     ])
 
     const totalPages = Math.ceil(total / limit)
 
+    // Search results keep their rank order and say why they matched
+    const ordered: Array<(typeof candidates)[number] & { search?: Omit<CandidateSearchHit, 'id'> }> = hits
+      ? pageHits.flatMap(hit => {
+        const candidate = candidates.find(entry => entry.id === hit.id)
+        return candidate ? [{ ...candidate, search: { score: hit.score, highlights: hit.highlights } }] : []
+      })
+      : candidates
+
     // Format DOB in all candidates for consistent frontend display
-    const formattedCandidates = candidates.map(candidate => ({
+    const formattedCandidates = ordered.map(candidate => ({
       ...candidate,
       dob: candidate.dob ? candidate.dob.toISOString().split('T')[0] : null,
     }))
@@ -95,6 +79,14 @@ export const GET = withAuth(async (request: AuthenticatedRequest) => {
     )
   } catch (error) {
     console.error('Get candidates error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       createApiResponse(false, null, '', 'Internal server error'),
       { status: 500 }
@@ -103,7 +95,7 @@ export const GET = withAuth(async (request: AuthenticatedRequest) => {
 })
 
 // POST /api/candidates - Create a new candidate
-export const POST = withAuth(async (request: AuthenticatedRequest) => {
+export const POST = withPermission('candidate:create:own', async (request: AuthenticatedRequest) => {
   try {
     const body = await request.json()
     const validatedData = createCandidateSchema.parse(body)
@@ -142,6 +134,10 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
       },
     })
 
+    await AuditLog.record(request, { action: 'CREATE', entityType: 'CANDIDATE', entityId: candidate.id, after: candidate })
+    const baseUrl = process.env.NEXTAUTH_URL || new URL(request.url).origin
+    after(() => SavedSearches.candidateAdded(candidate.id, { baseUrl }))
+
     return NextResponse.json(
       createApiResponse(true, candidate, 'Candidate profile created successfully'),
       { status: 201 }
@@ -1,11 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { withAuth, AuthenticatedRequest } from '@/lib/middleware';
+import { ResumeFileUtils } from '@/lib/resume-files';
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware';
 import { createApiResponse } from '@/lib/validations';
+import { AuditLog } from '@/lib/audit';
+import { SavedSearches } from '@/lib/saved-searches';
 import { uploadFileToSupabase, generateFilePath } from '@/lib/supabase';
 
 // POST /api/candidates/upload-resume - Upload and save resume file
-export const POST = withAuth(async (request: AuthenticatedRequest) => {
+export const POST = withPermission('file:create', async (request: AuthenticatedRequest) => {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
@@ -74,18 +77,19 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
       );
     }
 
-    // Save file record to database
-    const resumeFile = await prisma.resumeFile.create({
-      data: {
-        originalName: file.name,
-        fileName: filePath.split('/').pop() || file.name,
-        filePath: publicUrl,
-        fileSize: file.size,
-        mimeType: file.type,
-        uploadedBy: userId,
-        status: 'COMPLETED',
-      },
+    // Save file record to database. The form usually parsed this same file a moment ago
+    // through /api/upload-resume, in which case that result is reused.
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const recorded = await ResumeFileUtils.record({
+      originalName: file.name,
+      fileName: filePath.split('/').pop() || file.name,
+      filePath: publicUrl,
+      mimeType: file.type,
+      uploadedBy: userId,
+      source: 'CANDIDATE_UPLOAD',
+      buffer,
     });
+    const { file: resumeFile } = await ResumeFileUtils.process(recorded, buffer);
 
     // Update candidate record with resume URL if candidate exists
     const existingCandidate = await prisma.candidate.findUnique({
@@ -93,10 +97,21 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
     });
 
     if (existingCandidate) {
-      await prisma.candidate.update({
+      const updatedCandidate = await prisma.candidate.update({
         where: { userId },
-        data: { resumeUrl: publicUrl },
+        data: { resumeUrl: publicUrl, resumeText: resumeFile.extractedText },
       });
+      await AuditLog.record(request, {
+        action: 'UPDATE',
+        entityType: 'CANDIDATE',
+        entityId: existingCandidate.id,
+        before: existingCandidate,
+        after: updatedCandidate,
+        context: 'resume upload',
+      });
+      // The resume text may be what makes a new candidate match someone's saved search
+      const baseUrl = process.env.NEXTAUTH_URL || new URL(request.url).origin;
+      after(() => SavedSearches.candidateAdded(existingCandidate.id, { baseUrl }));
     }
 
     return NextResponse.json(
@@ -109,6 +124,7 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
           fileUrl: publicUrl,
           fileSize: resumeFile.fileSize,
           mimeType: resumeFile.mimeType,
+          status: resumeFile.status,
         },
         'File uploaded successfully'
       ),
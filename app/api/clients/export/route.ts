@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { ListFilters } from '@/lib/list-filters'
+import { ExportUtils } from '@/lib/export'
+import { exportQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/clients/export - Download the clients list as CSV or XLSX
+export const GET = withPermission('client:export:any', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const queryParams = Object.fromEntries(searchParams)
+    const { format, columns } = exportQuerySchema.parse(queryParams)
+
+    const selected = ExportUtils.columns('clients', request.user!.role, columns)
+    if (!selected.ok) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', selected.error),
+        { status: selected.status }
+      )
+    }
+
+    const sort = ExportUtils.checkSort('clients', queryParams.sortBy)
+    if (!sort.ok) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', sort.error),
+        { status: sort.status }
+      )
+    }
+
+    const filter = ListFilters.clients(queryParams)
+
+    return new NextResponse(ExportUtils.stream('clients', format, filter, selected.columns), {
+      headers: {
+        'Content-Type': ExportUtils.contentType(format),
+        'Content-Disposition': `attachment; filename="${ExportUtils.fileName('clients', format)}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Export clients error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { CsvImport, MAX_IMPORT_FILE_SIZE } from '@/lib/csv-import'
+import { AuditLog } from '@/lib/audit'
+import { createApiResponse } from '@/lib/validations'
+
+// POST /api/clients/import - Import clients from a CSV file. Pass dryRun=true to only validate.
+export const POST = withPermission('client:import:any', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    const dryRun = (formData.get('dryRun') ?? searchParams.get('dryRun')) === 'true'
+
+    if (!file) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'No file uploaded'),
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'File size too large. Maximum size is 2MB'),
+        { status: 400 }
+      )
+    }
+
+    const result = await CsvImport.run('clients', await file.text(), dryRun)
+
+    if (!result.ok) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', result.error),
+        { status: 400 }
+      )
+    }
+
+    const { report } = result
+    await AuditLog.recordMany(request, report.rows
+      .filter(row => row.status === 'created')
+      .map(row => ({ action: 'CREATE' as const, entityType: 'CLIENT' as const, entityId: row.id!, after: row.data, context: 'import' })))
+
+    return NextResponse.json(
+      createApiResponse(
+        true,
+        report,
+        dryRun
+          ? `${report.valid} of ${report.total} rows ready to import`
+          : `Imported ${report.created} of ${report.total} clients`
+      )
+    )
+  } catch (error) {
+    console.error('Import clients error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+import { CsvImport } from '@/lib/csv-import'
+
+// GET /api/clients/import/template - Sample CSV with every column the import accepts
+export async function GET() {
+  return new NextResponse(CsvImport.template('clients'), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="clients-import-template.csv"',
+    },
+  })
+}
@@ -1,42 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { withRole, AuthenticatedRequest } from '@/lib/middleware'
-import { createClientSchema, listQuerySchema, createApiResponse } from '@/lib/validations'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { ListFilters } from '@/lib/list-filters'
+import { AuditLog } from '@/lib/audit'
+import { createClientSchema, createApiResponse } from '@/lib/validations'
 
 // GET /api/clients - List all clients
-export async function GET(request: NextRequest) {
+export const GET = withPermission('client:read:any', async (request: AuthenticatedRequest) => {
   try {
     const { searchParams } = new URL(request.url)
     const queryParams = Object.fromEntries(searchParams)
-    const { page, limit, sortBy, sortOrder, query, filters } = listQuerySchema.parse(queryParams)
-
-    const where: any = {}
-    
-    // Add search functionality
-    if (query) {
-      where.OR = [
-        { name: { contains: query, mode: 'insensitive' } },
-        { contactPerson: { contains: query, mode: 'insensitive' } },
-        { email: { contains: query, mode: 'insensitive' } },
-        { industry: { contains: query, mode: 'insensitive' } },
-      ]
-    }
-
-    // Add filters
-    if (filters) {
-      if (filters.status) {
-        where.status = filters.status
-      }
-      if (filters.industry) {
-        where.industry = { contains: filters.industry, mode: 'insensitive' }
-      }
-    }
-
-    const orderBy: any = {}
-    if (sortBy) {
-      orderBy[sortBy] = sortOrder    } else {
-      orderBy.name = 'asc'
-    }
+    const { page, limit, where, orderBy } = ListFilters.clients(queryParams)
 
     const skip = (page - 1) * limit
 
@@ -68,10 +42,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // POST /api/clients - Create a new client (Recruiters and Admins only)
-export const POST = withRole(['RECRUITER', 'ADMIN'], async (request: AuthenticatedRequest) => {
+export const POST = withPermission('client:create:any', async (request: AuthenticatedRequest) => {
   try {
     const body = await request.json()
     const validatedData = createClientSchema.parse(body)
@@ -93,6 +67,8 @@ export const POST = withRole(['RECRUITER', 'ADMIN'], async (request: Authenticat
       data: validatedData,
     })
 
+    await AuditLog.record(request, { action: 'CREATE', entityType: 'CLIENT', entityId: client.id, after: client })
+
     return NextResponse.json(
       createApiResponse(true, client, 'Client created successfully'),
       { status: 201 }
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthUtils } from '@/lib/auth'
+import { ContactInquiries } from '@/lib/contact'
+import { contactInquirySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/contact - A token recording when the contact form was shown; the form posts it back
+export async function GET() {
+  try {
+    return NextResponse.json(
+      createApiResponse(true, { formToken: ContactInquiries.formToken() }, 'Form token issued')
+    )
+  } catch (error) {
+    console.error('Contact form token error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/contact - Public contact form. Stores the inquiry and emails the sales inbox.
+// Submissions caught by the spam checks get the same answer but are not stored.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validatedData = contactInquirySchema.parse(body)
+
+    const result = await ContactInquiries.submit(validatedData, {
+      ipAddress: AuthUtils.extractIpFromRequest(request),
+      userAgent: request.headers.get('user-agent'),
+      baseUrl: process.env.NEXTAUTH_URL || new URL(request.url).origin,
+    })
+
+    if (!result.ok) {
+      const retryAfter = 'retryAfter' in result ? result.retryAfter : undefined
+      return NextResponse.json(
+        createApiResponse(false, retryAfter ? { retryAfter } : null, '', result.error),
+        {
+          status: result.status,
+          headers: retryAfter ? { 'Retry-After': String(retryAfter) } : undefined,
+        }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(true, null, 'Thanks for your message. We will get back to you soon'),
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Contact form error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { DashboardAnalytics } from '@/lib/analytics'
+import { funnelApplicationsQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/dashboard/funnel/applications - Applications behind a funnel stage (drill-down)
+export const GET = withPermission('analytics:read', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { stage, page, limit, ...query } = funnelApplicationsQuerySchema.parse(Object.fromEntries(searchParams))
+    const filters = await DashboardAnalytics.scopeFilters(query, request.user!)
+    if (!filters) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Recruiter profile not found'),
+        { status: 404 }
+      )
+    }
+
+    const { applications, total } = await DashboardAnalytics.applicationsInStage(stage, filters, page, limit)
+
+    return NextResponse.json(
+      createApiResponse(true, applications, 'Funnel applications retrieved successfully', undefined, {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      })
+    )
+  } catch (error) {
+    console.error('Get funnel applications error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
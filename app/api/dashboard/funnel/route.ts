@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { DashboardAnalytics } from '@/lib/analytics'
+import { dashboardFiltersSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/dashboard/funnel - Application counts per pipeline stage
+export const GET = withPermission('analytics:read', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const filters = await DashboardAnalytics.scopeFilters(
+      dashboardFiltersSchema.parse(Object.fromEntries(searchParams)),
+      request.user!
+    )
+    if (!filters) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Recruiter profile not found'),
+        { status: 404 }
+      )
+    }
+
+    const stages = await DashboardAnalytics.funnel(filters)
+
+    return NextResponse.json(
+      createApiResponse(true, stages, 'Funnel retrieved successfully')
+    )
+  } catch (error) {
+    console.error('Get dashboard funnel error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
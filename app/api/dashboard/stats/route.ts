@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { withAuth, AuthenticatedRequest } from '@/lib/middleware'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { RecruiterUtils } from '@/lib/recruiters'
 import { createApiResponse } from '@/lib/validations'
 
-export const GET = withAuth(async (request: AuthenticatedRequest) => {
+export const GET = withPermission('dashboard:read', async (request: AuthenticatedRequest) => {
   try {
     const userRole = request.user!.role
     const userId = request.user!.userId
+    // Jobs and interviews reference the Recruiter profile, not the User
+    const recruiterId = userRole === 'RECRUITER' ? await RecruiterUtils.getRecruiterId(userId) : null
 
     let stats: any = {}
 
@@ -32,7 +35,7 @@ export const GET = withAuth(async (request: AuthenticatedRequest) => {
         prisma.vendor.count(),
         prisma.jobApplication.count(),
         prisma.interview.count(),
-        prisma.job.count(),
+        prisma.job.count({ where: { status: 'OPEN' } }),
         prisma.jobApplication.count({ where: { status: 'SELECTED' } }),
       ])
 
@@ -65,6 +68,13 @@ export const GET = withAuth(async (request: AuthenticatedRequest) => {
       }
     } else if (userRole === 'RECRUITER') {
       // Recruiter dashboard - personal stats
+      if (!recruiterId) {
+        return NextResponse.json(
+          createApiResponse(false, null, '', 'Recruiter profile not found'),
+          { status: 404 }
+        )
+      }
+
       const [
         myJobs,
         activeJobs,
@@ -74,21 +84,21 @@ export const GET = withAuth(async (request: AuthenticatedRequest) => {
         todaysInterviews,
         placedCandidates,
       ] = await Promise.all([
-        prisma.job.count({ where: { recruiterId: userId } }),
-        prisma.job.count({ where: { recruiterId: userId } }),
+        prisma.job.count({ where: { recruiterId } }),
+        prisma.job.count({ where: { recruiterId, status: 'OPEN' } }),
         prisma.jobApplication.count({
-          where: { job: { recruiterId: userId } },
+          where: { job: { recruiterId } },
         }),
-        prisma.interview.count({ where: { recruiterId: userId } }),
+        prisma.interview.count({ where: { recruiterId } }),
         prisma.interview.count({
           where: {
-            recruiterId: userId,
+            recruiterId,
             status: 'SCHEDULED',
           },
         }),
         prisma.interview.count({
           where: {
-            recruiterId: userId,
+            recruiterId,
             scheduledAt: {
               gte: new Date(new Date().setHours(0, 0, 0, 0)),
               lt: new Date(new Date().setHours(23, 59, 59, 999)),
@@ -97,7 +107,7 @@ export const GET = withAuth(async (request: AuthenticatedRequest) => {
         }),
         prisma.jobApplication.count({
           where: {
-            job: { recruiterId: userId },
+            job: { recruiterId },
             status: 'SELECTED',
           },
         }),
@@ -182,9 +192,9 @@ export const GET = withAuth(async (request: AuthenticatedRequest) => {
       message: string;
       timestamp: Date;
     }> = []
-    if (userRole === 'RECRUITER') {
+    if (userRole === 'RECRUITER' && recruiterId) {
       const recentApps = await prisma.jobApplication.findMany({
-        where: { job: { recruiterId: userId } },
+        where: { job: { recruiterId } },
         include: {
           candidate: {
             select: {
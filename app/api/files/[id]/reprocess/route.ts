@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { ResumeFileUtils } from '@/lib/resume-files'
+import { createApiResponse } from '@/lib/validations'
+
+// POST /api/files/[id]/reprocess - Retry parsing a file whose previous attempt failed
+export const POST = withPermission('file:update', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    const file = await prisma.resumeFile.findUnique({
+      where: { id },
+      select: { uploadedBy: true },
+    })
+
+    if (!file) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'File not found'),
+        { status: 404 }
+      )
+    }
+
+    const outcome = await ResumeFileUtils.reprocess(id)
+
+    if (!outcome.ok) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', outcome.error),
+        { status: outcome.status }
+      )
+    }
+
+    // A parse that fails again is still a successful request; the file carries the new error
+    return NextResponse.json(
+      createApiResponse(
+        true,
+        outcome.file,
+        outcome.file.status === 'COMPLETED' ? 'File processed successfully' : `Processing failed: ${outcome.file.error}`
+      )
+    )
+  } catch (error) {
+    console.error('Reprocess file error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { createApiResponse } from '@/lib/validations'
+
+// GET /api/files/[id] - Get a resume file including its extracted text and parse result
+export const GET = withPermission('file:read', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    const file = await prisma.resumeFile.findUnique({ where: { id } })
+
+    if (!file) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'File not found'),
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(true, file, 'File retrieved successfully')
+    )
+  } catch (error) {
+    console.error('Get file error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
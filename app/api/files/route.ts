@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { Permissions } from '@/lib/permissions'
+import { resumeFileListSelect } from '@/lib/resume-files'
+import { resumeFileListQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/files - List uploaded resume files with their parse status
+export const GET = withPermission('file:read', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { page, limit, status, source, uploadedBy, query } = resumeFileListQuerySchema.parse(Object.fromEntries(searchParams))
+    const user = request.user!
+
+    const where: any = {}
+    // Candidates only ever see their own uploads
+    if (Permissions.scope(user.role, 'file:read') === 'own') {
+      where.uploadedBy = user.userId
+    } else if (uploadedBy) {
+      where.uploadedBy = uploadedBy === 'me' ? user.userId : uploadedBy
+    }
+    if (status) {
+      where.status = status
+    }
+    if (source) {
+      where.source = source
+    }
+    if (query) {
+      where.originalName = { contains: query, mode: 'insensitive' }
+    }
+
+    const [files, total] = await Promise.all([
+      prisma.resumeFile.findMany({
+        where,
+        select: resumeFileListSelect,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.resumeFile.count({ where }),
+    ])
+
+    return NextResponse.json(
+      createApiResponse(true, files, 'Files retrieved successfully', undefined, {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      })
+    )
+  } catch (error) {
+    console.error('Get files error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { interviewInclude } from '@/lib/interviews'
+import { Notifications } from '@/lib/notifications'
+import { cancelInterviewSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// POST /api/interviews/[id]/cancel - Cancel a scheduled interview
+export const POST = withPermission('interview:update', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const validatedData = cancelInterviewSchema.parse(body)
+
+    const interview = await prisma.interview.findUnique({ where: { id }, include: interviewInclude })
+
+    if (!interview) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Interview not found'),
+        { status: 404 }
+      )
+    }
+
+    if (interview.status === 'CANCELLED' || interview.status === 'COMPLETED') {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Interview is already ${interview.status.toLowerCase()}`),
+        { status: 400 }
+      )
+    }
+
+    const cancelledInterview = await prisma.interview.update({
+      where: { id },
+      data: {
+        status: 'CANCELLED',
+        cancellationReason: validatedData.reason,
+      },
+      include: interviewInclude,
+    })
+
+    await Notifications.emit(
+      { type: 'INTERVIEW_CANCELLED', interviewId: id },
+      { actorId: request.user!.userId, baseUrl: process.env.NEXTAUTH_URL || new URL(request.url).origin }
+    )
+
+    return NextResponse.json(
+      createApiResponse(true, cancelledInterview, 'Interview cancelled successfully')
+    )
+  } catch (error) {
+    console.error('Cancel interview error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { InterviewUtils, interviewInclude } from '@/lib/interviews'
+import { Notifications } from '@/lib/notifications'
+import { rescheduleInterviewSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// POST /api/interviews/[id]/reschedule - Move an interview to a new slot
+export const POST = withPermission('interview:update', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = rescheduleInterviewSchema.parse(body)
+
+    const interview = await prisma.interview.findUnique({ where: { id }, include: interviewInclude })
+
+    if (!interview) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Interview not found'),
+        { status: 404 }
+      )
+    }
+
+    if (interview.status === 'CANCELLED' || interview.status === 'COMPLETED') {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Cannot reschedule a ${interview.status.toLowerCase()} interview`),
+        { status: 400 }
+      )
+    }
+
+    const slot = {
+      scheduledAt: new Date(validatedData.scheduledAt),
+      duration: validatedData.duration ?? interview.duration,
+    }
+
+    const conflicts = await InterviewUtils.findConflicts(
+      slot,
+      { recruiterId: interview.recruiterId, candidateId: interview.candidateId },
+      interview.id
+    )
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        createApiResponse(false, { conflicts }, '', 'Interview overlaps with an existing interview'),
+        { status: 409 }
+      )
+    }
+
+    const rescheduledInterview = await prisma.interview.update({
+      where: { id },
+      data: {
+        status: 'RESCHEDULED',
+        scheduledAt: slot.scheduledAt,
+        duration: slot.duration,
+        rescheduleReason: validatedData.reason,
+      },
+      include: interviewInclude,
+    })
+
+    await Notifications.emit(
+      { type: 'INTERVIEW_RESCHEDULED', interviewId: id, previousScheduledAt: interview.scheduledAt },
+      { actorId: request.user!.userId, baseUrl: process.env.NEXTAUTH_URL || new URL(request.url).origin }
+    )
+
+    return NextResponse.json(
+      createApiResponse(true, rescheduledInterview, 'Interview rescheduled successfully')
+    )
+  } catch (error) {
+    console.error('Reschedule interview error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
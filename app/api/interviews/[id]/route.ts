@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { InterviewUtils, interviewInclude } from '@/lib/interviews'
+import { Notifications } from '@/lib/notifications'
+import { updateInterviewSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/interviews/[id] - Get interview by ID
+export const GET = withPermission('interview:read', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const interview = await prisma.interview.findUnique({ where: { id }, include: interviewInclude })
+
+    if (!interview) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Interview not found'),
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(true, interview, 'Interview retrieved successfully')
+    )
+  } catch (error) {
+    console.error('Get interview error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// PATCH /api/interviews/[id] - Update interview details, feedback and outcome
+export const PATCH = withPermission('interview:update', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateInterviewSchema.parse(body)
+
+    const interview = await prisma.interview.findUnique({ where: { id }, include: interviewInclude })
+
+    if (!interview) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Interview not found'),
+        { status: 404 }
+      )
+    }
+
+    // Cancelling and rescheduling go through their own endpoints so the reason is recorded
+    if (validatedData.status === 'CANCELLED' || validatedData.status === 'RESCHEDULED') {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Use the ${validatedData.status === 'CANCELLED' ? 'cancel' : 'reschedule'} endpoint to change this status`),
+        { status: 400 }
+      )
+    }
+
+    const { scheduledAt, ...rest } = validatedData
+    const updateData: any = { ...rest }
+
+    if (scheduledAt || validatedData.duration) {
+      if (interview.status === 'CANCELLED' || interview.status === 'COMPLETED') {
+        return NextResponse.json(
+          createApiResponse(false, null, '', `Cannot change the time of a ${interview.status.toLowerCase()} interview`),
+          { status: 400 }
+        )
+      }
+
+      const slot = {
+        scheduledAt: scheduledAt ? new Date(scheduledAt) : interview.scheduledAt,
+        duration: validatedData.duration ?? interview.duration,
+      }
+
+      const conflicts = await InterviewUtils.findConflicts(
+        slot,
+        { recruiterId: interview.recruiterId, candidateId: interview.candidateId },
+        interview.id
+      )
+      if (conflicts.length > 0) {
+        return NextResponse.json(
+          createApiResponse(false, { conflicts }, '', 'Interview overlaps with an existing interview'),
+          { status: 409 }
+        )
+      }
+
+      updateData.scheduledAt = slot.scheduledAt
+      updateData.duration = slot.duration
+    }
+
+    const updatedInterview = await prisma.interview.update({
+      where: { id },
+      data: updateData,
+      include: interviewInclude,
+    })
+
+    if (updatedInterview.scheduledAt.getTime() !== interview.scheduledAt.getTime()) {
+      await Notifications.emit(
+        { type: 'INTERVIEW_RESCHEDULED', interviewId: id, previousScheduledAt: interview.scheduledAt },
+        { actorId: request.user!.userId, baseUrl: process.env.NEXTAUTH_URL || new URL(request.url).origin }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(true, updatedInterview, 'Interview updated successfully')
+    )
+  } catch (error) {
+    console.error('Update interview error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
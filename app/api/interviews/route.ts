@@ -0,0 +1,244 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { InterviewUtils, interviewInclude } from '@/lib/interviews'
+import { Permissions } from '@/lib/permissions'
+import { RecruiterUtils } from '@/lib/recruiters'
+import { Notifications } from '@/lib/notifications'
+import { createInterviewSchema, interviewListQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/interviews - List interviews
+export const GET = withPermission('interview:read', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const queryParams = Object.fromEntries(searchParams)
+    const { page, limit, sortBy, sortOrder, query, status, from, to, jobId, candidateId, recruiterId } =
+      interviewListQuerySchema.parse(queryParams)
+
+    const userRole = request.user!.role
+    const userId = request.user!.userId
+
+    const where: any = {}
+
+    // Role-based filtering
+    if (userRole === 'CANDIDATE') {
+      // Candidates can only see their own interviews
+      const candidate = await prisma.candidate.findUnique({
+        where: { userId },
+      })
+      if (!candidate) {
+        return NextResponse.json(
+          createApiResponse(true, [], 'No interviews found', undefined, { page, limit, total: 0, totalPages: 0 })
+        )
+      }
+      where.candidateId = candidate.id
+    } else if (userRole === 'RECRUITER') {
+      // Recruiters can see the interviews they run
+      const recruiterId = await RecruiterUtils.getRecruiterId(userId)
+      if (!recruiterId) {
+        return NextResponse.json(
+          createApiResponse(true, [], 'No interviews found', undefined, { page, limit, total: 0, totalPages: 0 })
+        )
+      }
+      where.recruiterId = recruiterId
+    }
+    // Admins can see all interviews (no additional filtering)
+
+    // Add search functionality
+    if (query) {
+      where.OR = [
+        { title: { contains: query, mode: 'insensitive' } },
+        { job: { jobTitle: { contains: query, mode: 'insensitive' } } },
+        { job: { jobCode: { contains: query, mode: 'insensitive' } } },
+        { candidate: { firstName: { contains: query, mode: 'insensitive' } } },
+        { candidate: { lastName: { contains: query, mode: 'insensitive' } } },
+      ]
+    }
+
+    // Add filters
+    if (status) {
+      where.status = status
+    }
+    if (jobId) {
+      where.jobId = jobId
+    }
+    if (candidateId && userRole !== 'CANDIDATE') {
+      where.candidateId = candidateId
+    }
+    if (recruiterId && userRole === 'ADMIN') {
+      where.recruiterId = recruiterId
+    }
+    if (from || to) {
+      where.scheduledAt = {}
+      if (from) where.scheduledAt.gte = new Date(from)
+      if (to) where.scheduledAt.lte = new Date(to)
+    }
+
+    const orderBy: any = {}
+    if (sortBy) {
+      orderBy[sortBy] = sortOrder
+    } else {
+      orderBy.scheduledAt = 'asc'
+    }
+
+    const skip = (page - 1) * limit
+
+    const [interviews, total] = await Promise.all([
+      prisma.interview.findMany({
+        where,
+        include: interviewInclude,
+        skip,
+        take: limit,
+        orderBy,
+      }),
+      prisma.interview.count({ where }),
+    ])
+
+    const totalPages = Math.ceil(total / limit)
+
+    return NextResponse.json(
+      createApiResponse(
+        true,
+        interviews,
+        'Interviews retrieved successfully',
+        undefined,
+        { page, limit, total, totalPages }
+      )
+    )
+  } catch (error) {
+    console.error('Get interviews error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/interviews - Schedule an interview (Recruiters and Admins only)
+export const POST = withPermission('interview:create', async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const validatedData = createInterviewSchema.parse(body)
+
+    const userRole = request.user!.role
+    const userId = request.user!.userId
+
+    // Recruiters always schedule for themselves; admins may pick a recruiter
+    let recruiterId = await RecruiterUtils.getRecruiterId(userId)
+    if (Permissions.scope(userRole, 'interview:create') === 'any' && validatedData.recruiterId) {
+      recruiterId = validatedData.recruiterId
+    }
+
+    const [job, candidate] = await Promise.all([
+      prisma.job.findUnique({ where: { id: validatedData.jobId } }),
+      prisma.candidate.findUnique({ where: { id: validatedData.candidateId } }),
+    ])
+
+    if (!job) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Job not found'),
+        { status: 404 }
+      )
+    }
+
+    if (!candidate) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Candidate not found'),
+        { status: 404 }
+      )
+    }
+
+    if (!recruiterId) {
+      recruiterId = job.recruiterId
+    }
+
+    if (!recruiterId) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Recruiter profile required to schedule interviews'),
+        { status: 400 }
+      )
+    }
+
+    // Link the interview to the candidate's application for this job
+    const application = validatedData.applicationId
+      ? await prisma.jobApplication.findUnique({ where: { id: validatedData.applicationId } })
+      : await prisma.jobApplication.findUnique({
+          where: {
+            candidateId_jobId: {
+              candidateId: candidate.id,
+              jobId: job.id,
+            },
+          },
+        })
+
+    if (validatedData.applicationId && (!application || application.candidateId !== candidate.id || application.jobId !== job.id)) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Application does not match this candidate and job'),
+        { status: 400 }
+      )
+    }
+
+    const slot = {
+      scheduledAt: new Date(validatedData.scheduledAt),
+      duration: validatedData.duration,
+    }
+
+    const conflicts = await InterviewUtils.findConflicts(slot, { recruiterId, candidateId: candidate.id })
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        createApiResponse(false, { conflicts }, '', 'Interview overlaps with an existing interview'),
+        { status: 409 }
+      )
+    }
+
+    const interview = await prisma.interview.create({
+      data: {
+        jobId: job.id,
+        candidateId: candidate.id,
+        recruiterId,
+        applicationId: application?.id,
+        title: validatedData.title,
+        description: validatedData.description,
+        type: validatedData.type,
+        scheduledAt: slot.scheduledAt,
+        duration: slot.duration,
+        location: validatedData.location,
+        meetingLink: validatedData.meetingLink || undefined,
+      },
+      include: interviewInclude,
+    })
+
+    await Notifications.emit(
+      { type: 'INTERVIEW_SCHEDULED', interviewId: interview.id },
+      { actorId: userId, baseUrl: process.env.NEXTAUTH_URL || new URL(request.url).origin }
+    )
+
+    return NextResponse.json(
+      createApiResponse(true, interview, 'Interview scheduled successfully'),
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Create interview error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
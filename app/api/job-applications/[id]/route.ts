@@ -0,0 +1,186 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { PipelineUtils } from '@/lib/pipeline'
+import { AuditLog } from '@/lib/audit'
+import { Notifications } from '@/lib/notifications'
+import { updateJobApplicationSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+const applicationInclude = {
+  candidate: {
+    select: {
+      id: true,
+      userId: true,
+      firstName: true,
+      lastName: true,
+      jobTitle: true,
+    },
+  },
+  job: {
+    select: {
+      id: true,
+      jobCode: true,
+      jobTitle: true,
+      client: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+} as const
+
+// GET /api/job-applications/[id] - Get job application by ID
+export const GET = withPermission('application:read', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const application = await prisma.jobApplication.findUnique({
+      where: { id },
+      include: applicationInclude,
+    })
+
+    if (!application) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Job application not found'),
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(true, {
+        ...application,
+        stageHistory: PipelineUtils.parseHistory(application.stageHistory),
+      }, 'Job application retrieved successfully')
+    )
+  } catch (error) {
+    console.error('Get job application error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// PATCH /api/job-applications/[id] - Move an application through the pipeline
+export const PATCH = withPermission('application:update', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateJobApplicationSchema.parse(body)
+
+    const application = await prisma.jobApplication.findUnique({
+      where: { id },
+      include: applicationInclude,
+    })
+
+    if (!application) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Job application not found'),
+        { status: 404 }
+      )
+    }
+
+    // Applicants may only withdraw their application; other moves are up to the recruiter
+    if (application.candidate.userId === request.user!.userId) {
+      const isWithdrawal = (validatedData.currentStage ?? validatedData.status) === 'WITHDRAWN'
+        && (!validatedData.status || validatedData.status === 'WITHDRAWN')
+        && (!validatedData.currentStage || validatedData.currentStage === 'WITHDRAWN')
+
+      if (!isWithdrawal) {
+        return NextResponse.json(
+          createApiResponse(false, null, '', 'Permission denied'),
+          { status: 403 }
+        )
+      }
+    }
+
+    const transition = PipelineUtils.planTransition(application, validatedData)
+    if (!transition.valid) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', transition.error),
+        { status: 400 }
+      )
+    }
+
+    const updateData: any = {}
+    if (validatedData.notes !== undefined) {
+      updateData.notes = validatedData.notes
+    }
+
+    if (transition.changed) {
+      const history = PipelineUtils.parseHistory(application.stageHistory)
+      history.push(PipelineUtils.createHistoryEntry(
+        application.currentStage,
+        transition.stage,
+        transition.status,
+        request.user!,
+        validatedData.reason
+      ))
+      updateData.currentStage = transition.stage
+      updateData.status = transition.status
+      updateData.stageHistory = history
+    }
+
+    // Only apply the update if nobody moved the application in the meantime
+    const { count } = await prisma.jobApplication.updateMany({
+      where: { id, currentStage: application.currentStage, status: application.status },
+      data: updateData,
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Application was updated by someone else, please reload and try again'),
+        { status: 409 }
+      )
+    }
+
+    const updatedApplication = await prisma.jobApplication.findUnique({
+      where: { id },
+      include: applicationInclude,
+    })
+
+    await AuditLog.record(request, {
+      action: 'UPDATE',
+      entityType: 'APPLICATION',
+      entityId: id,
+      before: application,
+      after: updatedApplication,
+      context: transition.changed ? 'stage change' : undefined,
+    })
+
+    if (transition.changed) {
+      await Notifications.emit(
+        { type: 'APPLICATION_STAGE_CHANGED', applicationId: id, fromStage: application.currentStage, toStage: transition.stage },
+        { actorId: request.user!.userId, baseUrl: process.env.NEXTAUTH_URL || new URL(request.url).origin }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(true, {
+        ...updatedApplication,
+        stageHistory: PipelineUtils.parseHistory(updatedApplication?.stageHistory),
+      }, 'Job application updated successfully')
+    )
+  } catch (error) {
+    console.error('Update job application error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,140 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { PipelineUtils } from '@/lib/pipeline'
+import { JobUtils } from '@/lib/jobs'
+import { Permissions } from '@/lib/permissions'
+import { RecruiterUtils } from '@/lib/recruiters'
+import { AuditLog, AuditEntry } from '@/lib/audit'
+import { bulkCreateJobApplicationsSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+type BulkSubmitStatus = 'created' | 'skipped' | 'not_found' | 'failed'
+
+interface BulkSubmitResult {
+  candidateId: string
+  status: BulkSubmitStatus
+  applicationId?: string
+  error?: string
+}
+
+const isObjectId = (id: string) => /^[0-9a-fA-F]{24}$/.test(id)
+
+// POST /api/job-applications/bulk - Submit several candidates to one job (Recruiters/Admins)
+export const POST = withPermission('application:submit', async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const validatedData = bulkCreateJobApplicationsSchema.parse(body)
+    const user = request.user!
+
+    const job = isObjectId(validatedData.jobId)
+      ? await prisma.job.findUnique({ where: { id: validatedData.jobId } })
+      : null
+
+    if (!job) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Job not found'),
+        { status: 404 }
+      )
+    }
+
+    // Recruiters may only submit to the jobs assigned to them
+    if (Permissions.scope(user.role, 'application:submit') === 'own') {
+      const recruiterId = await RecruiterUtils.getRecruiterId(user.userId)
+      if (!recruiterId || job.recruiterId !== recruiterId) {
+        return NextResponse.json(
+          createApiResponse(false, null, '', 'Permission denied'),
+          { status: 403 }
+        )
+      }
+    }
+
+    if (!JobUtils.isAcceptingApplications(job.status)) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Job is not open for applications'),
+        { status: 400 }
+      )
+    }
+
+    const candidateIds = Array.from(new Set(validatedData.candidateIds))
+    const validIds = candidateIds.filter(isObjectId)
+
+    const [candidates, existingApplications] = await Promise.all([
+      prisma.candidate.findMany({
+        where: { id: { in: validIds } },
+        select: { id: true, resumeUrl: true },
+      }),
+      prisma.jobApplication.findMany({
+        where: { jobId: job.id, candidateId: { in: validIds } },
+        select: { id: true, candidateId: true },
+      }),
+    ])
+
+    const results: BulkSubmitResult[] = []
+    const auditEntries: AuditEntry[] = []
+
+    // One at a time so a failure for one candidate does not stop the rest
+    for (const candidateId of candidateIds) {
+      const candidate = candidates.find(entry => entry.id === candidateId)
+      if (!candidate) {
+        results.push({ candidateId, status: 'not_found', error: 'Candidate not found' })
+        continue
+      }
+
+      const existing = existingApplications.find(entry => entry.candidateId === candidateId)
+      if (existing) {
+        results.push({ candidateId, status: 'skipped', applicationId: existing.id, error: 'Already applied for this job' })
+        continue
+      }
+
+      try {
+        const application = await prisma.jobApplication.create({
+          data: {
+            candidateId,
+            jobId: job.id,
+            notes: validatedData.notes,
+            resumeUrl: candidate.resumeUrl,
+            stageHistory: [
+              PipelineUtils.createHistoryEntry(null, 'APPLIED', 'APPLIED', user, 'Submitted by recruiter'),
+            ],
+          },
+        })
+        results.push({ candidateId, status: 'created', applicationId: application.id })
+        auditEntries.push({ action: 'CREATE', entityType: 'APPLICATION', entityId: application.id, after: application, context: 'bulk submit' })
+      } catch (error) {
+        console.error('Bulk job application error:', error)
+        results.push({ candidateId, status: 'failed', error: 'Could not create application' })
+      }
+    }
+
+    await AuditLog.recordMany(request, auditEntries)
+
+    const count = (status: BulkSubmitStatus) => results.filter(result => result.status === status).length
+    const summary = {
+      jobId: job.id,
+      created: count('created'),
+      skipped: count('skipped'),
+      notFound: count('not_found'),
+      failed: count('failed'),
+      results,
+    }
+
+    return NextResponse.json(
+      createApiResponse(true, summary, `${summary.created} of ${candidateIds.length} candidates submitted`)
+    )
+  } catch (error) {
+    console.error('Bulk create job applications error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
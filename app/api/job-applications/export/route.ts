@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { ListFilters } from '@/lib/list-filters'
+import { ExportUtils } from '@/lib/export'
+import { exportQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/job-applications/export - Download the applications list as CSV or XLSX
+export const GET = withPermission('application:export', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const queryParams = Object.fromEntries(searchParams)
+    const { format, columns } = exportQuerySchema.parse(queryParams)
+
+    const selected = ExportUtils.columns('applications', request.user!.role, columns)
+    if (!selected.ok) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', selected.error),
+        { status: selected.status }
+      )
+    }
+
+    const sort = ExportUtils.checkSort('applications', queryParams.sortBy)
+    if (!sort.ok) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', sort.error),
+        { status: sort.status }
+      )
+    }
+
+    const filter = await ListFilters.applications(queryParams, request.user!)
+
+    return new NextResponse(ExportUtils.stream('applications', format, filter, selected.columns), {
+      headers: {
+        'Content-Type': ExportUtils.contentType(format),
+        'Content-Disposition': `attachment; filename="${ExportUtils.fileName('applications', format)}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Export applications error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -1,73 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { withAuth, AuthenticatedRequest } from '@/lib/middleware'
-import { createJobApplicationSchema, updateJobApplicationSchema, listQuerySchema, createApiResponse } from '@/lib/validations'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { PipelineUtils } from '@/lib/pipeline'
+import { JobUtils } from '@/lib/jobs'
+import { ListFilters } from '@/lib/list-filters'
+import { AuditLog } from '@/lib/audit'
+import { createJobApplicationSchema, updateJobApplicationSchema, createApiResponse } from '@/lib/validations'
 
 // GET /api/job-applications - List job applications
-export const GET = withAuth(async (request: AuthenticatedRequest) => {
+export const GET = withPermission('application:read', async (request: AuthenticatedRequest) => {
   try {
     const { searchParams } = new URL(request.url)
     const queryParams = Object.fromEntries(searchParams)
-    const { page, limit, sortBy, sortOrder, query, filters } = listQuerySchema.parse(queryParams)
 
-    const userRole = request.user!.role
-    const userId = request.user!.userId
-
-    const where: any = {}
-
-    // Role-based filtering
-    if (userRole === 'CANDIDATE') {
-      // Candidates can only see their own applications
-      const candidate = await prisma.candidate.findUnique({
-        where: { userId },
-      })
-      if (candidate) {
-        where.candidateId = candidate.id
-      } else {
-        // No candidate profile, return empty
-        return NextResponse.json(
-          createApiResponse(true, [], 'No applications found', undefined, { page, limit, total: 0, totalPages: 0 })
-        )
-      }
-    } else if (userRole === 'RECRUITER') {
-      // Recruiters can see applications for their jobs
-      where.job = {
-        recruiterId: userId,
-      }
-    }
-    // Admins can see all applications (no additional filtering)
-
-    // Add search functionality
-    if (query) {
-      where.OR = [
-        { job: { title: { contains: query, mode: 'insensitive' } } },
-        { job: { jobCode: { contains: query, mode: 'insensitive' } } },
-        { candidate: { firstName: { contains: query, mode: 'insensitive' } } },
-        { candidate: { lastName: { contains: query, mode: 'insensitive' } } },
-      ]
-    }
-
-    // Add filters
-    if (filters) {
-      if (filters.status) {
-        where.status = filters.status
-      }
-      if (filters.currentStage) {
-        where.currentStage = filters.currentStage
-      }
-      if (filters.jobId) {
-        where.jobId = filters.jobId
-      }
-      if (filters.candidateId) {
-        where.candidateId = filters.candidateId
-      }
-    }
-
-    const orderBy: any = {}
-    if (sortBy) {
-      orderBy[sortBy] = sortOrder
-    } else {
-      orderBy.appliedAt = 'desc'
+    // Candidates see their own applications, recruiters those for their jobs, admins all of them
+    const { page, limit, where, orderBy, empty } = await ListFilters.applications(queryParams, request.user!)
+    if (empty) {
+      return NextResponse.json(
+        createApiResponse(true, [], 'No applications found', undefined, { page, limit, total: 0, totalPages: 0 })
+      )
     }
 
     const skip = (page - 1) * limit
@@ -124,7 +75,7 @@ export const GET = withAuth(async (request: AuthenticatedRequest) => {
     ])    // Parse JSON fields safely
     const responseApplications = applications.map(app => ({
       ...app,
-      stageHistory: app.stageHistory && typeof app.stageHistory === 'string' ? JSON.parse(app.stageHistory) : app.stageHistory || null,
+      stageHistory: PipelineUtils.parseHistory(app.stageHistory),
     }))
 
     const totalPages = Math.ceil(total / limit)
@@ -148,7 +99,7 @@ export const GET = withAuth(async (request: AuthenticatedRequest) => {
 })
 
 // POST /api/job-applications - Apply for a job (Candidates only)
-export const POST = withAuth(async (request: AuthenticatedRequest) => {
+export const POST = withPermission('application:create:own', async (request: AuthenticatedRequest) => {
   try {
     const body = await request.json()
     const validatedData = createJobApplicationSchema.parse(body)
@@ -179,13 +130,12 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
       )
     }
 
-    // if (job.status !== 'OPEN') {
-    //   ... handle status logic if you add a status field to Job model ...
-    //   return NextResponse.json(
-    //     createApiResponse(false, null, '', 'Job is not open for applications'),
-    //     { status: 400 }
-    //   )
-    // }
+    if (!JobUtils.isAcceptingApplications(job.status)) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Job is not open for applications'),
+        { status: 400 }
+      )
+    }
 
     // Check if already applied
     const existingApplication = await prisma.jobApplication.findUnique({
@@ -212,13 +162,9 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
         notes: validatedData.notes,
         coverLetter: validatedData.coverLetter,
         resumeUrl: candidate.resumeUrl, // Use candidate's resume
-        stageHistory: JSON.stringify([
-          {
-            stage: 'APPLIED',
-            timestamp: new Date().toISOString(),
-            notes: 'Application submitted',
-          },
-        ]),
+        stageHistory: [
+          PipelineUtils.createHistoryEntry(null, 'APPLIED', 'APPLIED', request.user!, 'Application submitted'),
+        ],
       },
       include: {
         candidate: {
@@ -242,10 +188,14 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
           },
         },
       },
-    })    // Parse JSON fields for response safely
+    })
+
+    await AuditLog.record(request, { action: 'CREATE', entityType: 'APPLICATION', entityId: application.id, after: application })
+
+    // Parse JSON fields for response safely
     const responseApplication = {
       ...application,
-      stageHistory: typeof application.stageHistory === 'string' ? JSON.parse(application.stageHistory || '[]') : application.stageHistory || [],
+      stageHistory: PipelineUtils.parseHistory(application.stageHistory),
     }
 
     return NextResponse.json(
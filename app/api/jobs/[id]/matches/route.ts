@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { MatchScorer } from '@/lib/matching'
+import { matchQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/jobs/[id]/matches - Rank candidates against a job
+export const GET = withPermission('candidate:read:any', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const { page, limit, minScore } = matchQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const job = await prisma.job.findUnique({ where: { id } })
+
+    if (!job) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Job not found'),
+        { status: 404 }
+      )
+    }
+
+    const candidates = await prisma.candidate.findMany({
+      where: { availability: { not: 'NOT_AVAILABLE' } },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        jobTitle: true,
+        availability: true,
+        skills: true,
+        selectedSkills: true,
+        experience: true,
+        expectedSalary: true,
+        city: true,
+        state: true,
+        country: true,
+        location: true,
+        relocate: true,
+      },
+    })
+
+    const ranked = candidates
+      .map(candidate => ({ candidate, ...MatchScorer.score(candidate, job) }))
+      .filter(match => match.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+
+    const total = ranked.length
+    const matches = ranked.slice((page - 1) * limit, page * limit)
+
+    return NextResponse.json(
+      createApiResponse(true, matches, 'Candidate matches retrieved successfully', undefined, {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      })
+    )
+  } catch (error) {
+    console.error('Get job matches error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
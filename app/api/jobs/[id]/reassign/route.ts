@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAuth, AuthenticatedRequest } from '@/lib/middleware'
+import { JobUtils } from '@/lib/jobs'
+import { JobOwnershipUtils } from '@/lib/job-ownership'
+import { Permissions } from '@/lib/permissions'
+import { RecruiterUtils } from '@/lib/recruiters'
+import { AuditLog } from '@/lib/audit'
+import { reassignJobSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// POST /api/jobs/[id]/reassign - Hand a job over to another recruiter
+export const POST = withAuth(async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = reassignJobSchema.parse(body)
+    const user = request.user!
+
+    const job = await prisma.job.findUnique({ where: { id } })
+
+    if (!job) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Job not found'),
+        { status: 404 }
+      )
+    }
+
+    // job:assign covers reassigning; recruiters may also claim unassigned jobs for themselves
+    const scope = Permissions.scope(user.role, 'job:assign')
+    const ownRecruiterId = scope === 'own' ? await RecruiterUtils.getRecruiterId(user.userId) : null
+    const isClaim = !job.recruiterId && !!ownRecruiterId && validatedData.recruiterId === ownRecruiterId
+    if (!isClaim) {
+      const access = await Permissions.check(user, 'job:assign', id)
+      if (!access.ok) {
+        return NextResponse.json(
+          createApiResponse(false, null, '', access.status === 403 ? 'Permission denied' : access.error),
+          { status: access.status }
+        )
+      }
+    }
+
+    if (job.recruiterId === validatedData.recruiterId) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Job is already assigned to this recruiter'),
+        { status: 400 }
+      )
+    }
+
+    const referenceError = await JobOwnershipUtils.validateReferences({ recruiterId: validatedData.recruiterId })
+    if (referenceError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', referenceError),
+        { status: 400 }
+      )
+    }
+
+    const history = JobUtils.parseAssignmentHistory(job.assignmentHistory)
+    history.push(JobUtils.createAssignmentEntry(job.recruiterId, validatedData.recruiterId, user, validatedData.reason))
+
+    const updatedJob = await prisma.job.update({
+      where: { id },
+      data: {
+        recruiterId: validatedData.recruiterId,
+        assignmentHistory: history,
+      },
+      include: {
+        recruiter: {
+          select: {
+            id: true,
+            user: {
+              select: {
+                name: true,
+                email: true,
+              },
+            },
+          },
+        },
+      },
+    })
+
+    await AuditLog.record(request, { action: 'UPDATE', entityType: 'JOB', entityId: id, before: job, after: updatedJob, context: 'reassign' })
+
+    return NextResponse.json(
+      createApiResponse(true, updatedJob, 'Job reassigned successfully')
+    )
+  } catch (error) {
+    console.error('Reassign job error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -1,15 +1,22 @@
 // ...existing code...
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission, AuthenticatedRequest } from "@/lib/middleware";
+import { JobUtils } from "@/lib/jobs";
+import { JobOwnershipUtils } from "@/lib/job-ownership";
+import { AuditLog } from "@/lib/audit";
+import { updateJobSchema } from "@/lib/validations";
+import { z } from "zod";
 
 
-export async function DELETE(
-  req: NextRequest,
+export const DELETE = withPermission("job:delete", async (
+  req: AuthenticatedRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
-    await prisma.job.delete({ where: { id } });
+    const deletedJob = await prisma.job.delete({ where: { id } });
+    await AuditLog.record(req, { action: "DELETE", entityType: "JOB", entityId: id, before: deletedJob });
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting job:", error);
@@ -18,30 +25,74 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
 
 
-export async function PATCH(
-  req: NextRequest,
+export const PATCH = withPermission("job:update", async (
+  req: AuthenticatedRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
-    const data = await req.json();
+    const data = updateJobSchema.parse(await req.json());
 
-    const { jobCode, createdAt, updatedAt, ...allowedData } = data;
+    const existingJob = await prisma.job.findUnique({ where: { id } });
+    if (!existingJob) {
+      return NextResponse.json(
+        { success: false, message: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    const ranges = JobUtils.resolveRanges(data, existingJob);
+    if ("error" in ranges) {
+      return NextResponse.json(
+        { success: false, message: ranges.error },
+        { status: 400 }
+      );
+    }
+
+    const referenceError = await JobOwnershipUtils.validateReferences({
+      clientId: data.clientId,
+      vendorId: data.vendorId,
+    });
+    if (referenceError) {
+      return NextResponse.json(
+        { success: false, message: referenceError },
+        { status: 400 }
+      );
+    }
+
+    const updateData: any = { ...data, ...ranges.data };
+    if (data.status && data.status !== existingJob.status) {
+      if (!JobUtils.canTransition(existingJob.status, data.status)) {
+        return NextResponse.json(
+          { success: false, message: `Cannot change job status from ${existingJob.status} to ${data.status}` },
+          { status: 400 }
+        );
+      }
+      updateData.statusChangedAt = new Date();
+    }
 
     const updatedJob = await prisma.job.update({
       where: { id },
-      data: allowedData,
+      data: updateData,
     });
 
+    await AuditLog.record(req, { action: "UPDATE", entityType: "JOB", entityId: id, before: existingJob, after: updatedJob });
+
     return NextResponse.json({ success: true, data: updatedJob });
   } catch (error) {
     console.error("Error updating job:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, message: `Validation error: ${error.errors.map(e => e.message).join(", ")}` },
+        { status: 400 }
+      );
+    }
     return NextResponse.json(
       { success: false, message: (error as Error).message },
       { status: 500 }
     );
   }
-}
+});
@@ -1,63 +1,26 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { withAuth, withRole, AuthenticatedRequest } from '@/lib/middleware'
-import { createJobSchema, listQuerySchema, createApiResponse } from '@/lib/validations'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { JobUtils } from '@/lib/jobs'
+import { JobOwnershipUtils } from '@/lib/job-ownership'
+import { Permissions } from '@/lib/permissions'
+import { RecruiterUtils } from '@/lib/recruiters'
+import { ListFilters } from '@/lib/list-filters'
+import { AuditLog } from '@/lib/audit'
+import { createJobSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
 
 // GET /api/jobs - List all jobs
-export async function GET(request: NextRequest) {
+export const GET = withPermission('job:read', async (request: AuthenticatedRequest) => {
   try {
     const { searchParams } = new URL(request.url)
     const queryParams = Object.fromEntries(searchParams)
-    const { page, limit, sortBy, sortOrder, query, filters } = listQuerySchema.parse(queryParams)
-
-    const where: any = {}
-    
-    // Add search functionality
-    if (query) {
-      // Split query into words, ignore empty strings
-      const words = query.split(/\s|,+/).map(w => w.trim()).filter(Boolean);
-      where.AND = words.map(word => ({
-        OR: [
-          { jobTitle: { contains: word, mode: 'insensitive' } },
-          { jobCode: { contains: word, mode: 'insensitive' } },
-          { city: { contains: word, mode: 'insensitive' } },
-          { state: { contains: word, mode: 'insensitive' } },
-          { country: { contains: word, mode: 'insensitive' } },
-          { client: { name: { contains: word, mode: 'insensitive' } } },
-        ]
-      }));
-    }
-
-    // Add filters
-    if (filters) {
-      if (filters.status) {
-        where.status = filters.status
-      }
-      if (filters.jobType) {
-        where.jobType = filters.jobType
-      }
-      if (filters.experienceLevel) {
-        where.experienceLevel = filters.experienceLevel
-      }
-      if (filters.clientId) {
-        where.clientId = filters.clientId
-      }
-      if (filters.recruiterId) {
-        where.recruiterId = filters.recruiterId
-      }
-      if (filters.minSalary) {
-        where.minSalary = { gte: parseFloat(filters.minSalary) }
-      }
-      if (filters.maxSalary) {
-        where.maxSalary = { lte: parseFloat(filters.maxSalary) }
-      }
-    }
 
-    const orderBy: any = {}
-    if (sortBy) {
-      orderBy[sortBy] = sortOrder
-    } else {
-      orderBy.createdAt = 'desc'
+    const { page, limit, where, orderBy, empty } = await ListFilters.jobs(queryParams, request.user!)
+    if (empty) {
+      return NextResponse.json(
+        createApiResponse(true, [], 'No jobs found', undefined, { page, limit, total: 0, totalPages: 0 })
+      )
     }
 
     const skip = (page - 1) * limit
@@ -120,19 +83,66 @@ export async function GET(request: NextRequest) {
     )
   } catch (error) {
     console.error('Get jobs error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       createApiResponse(false, null, '', 'Internal server error'),
       { status: 500 }
     )
   }
-}
+})
 
 // POST /api/jobs - Create a new job (Recruiters and Admins only)
-export const POST = withRole(['RECRUITER', 'ADMIN'], async (request: AuthenticatedRequest) => {
+export const POST = withPermission('job:create', async (request: AuthenticatedRequest) => {
   try {
     const body = await request.json()
     const validatedData = createJobSchema.parse(body)
 
+    const ranges = JobUtils.resolveRanges(validatedData)
+    if ('error' in ranges) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', ranges.error),
+        { status: 400 }
+      )
+    }
+
+    // Recruiters own the jobs they create; admins may create a job for any recruiter
+    let recruiterId: string | null = validatedData.recruiterId ?? null
+    if (Permissions.scope(request.user!.role, 'job:create') === 'own') {
+      const ownRecruiterId = await RecruiterUtils.getRecruiterId(request.user!.userId)
+      if (!ownRecruiterId) {
+        return NextResponse.json(
+          createApiResponse(false, null, '', 'Recruiter profile not found'),
+          { status: 404 }
+        )
+      }
+      if (recruiterId && recruiterId !== ownRecruiterId) {
+        return NextResponse.json(
+          createApiResponse(false, null, '', 'Recruiters can only create jobs for themselves'),
+          { status: 403 }
+        )
+      }
+      recruiterId = ownRecruiterId
+    }
+
+    const referenceError = await JobOwnershipUtils.validateReferences({
+      recruiterId,
+      clientId: validatedData.clientId,
+      vendorId: validatedData.vendorId,
+    })
+    if (referenceError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', referenceError),
+        { status: 400 }
+      )
+    }
+
     // Generate unique job code
     const jobCodePrefix = 'JOB'
     const latestJob = await prisma.job.findFirst({
@@ -169,20 +179,52 @@ export const POST = withRole(['RECRUITER', 'ADMIN'], async (request: Authenticat
       additionalSkills: validatedData.additionalSkills ?? "",
       salaryPerAnnum: validatedData.salaryPerAnnum,
       keySkills: validatedData.keySkills,
+      status: validatedData.status ?? 'OPEN',
+      statusChangedAt: new Date(),
+      ...ranges.data,
     };
+    if (validatedData.priority) {
+      jobData.priority = validatedData.priority;
+    }
+    if (validatedData.jobType) {
+      jobData.jobType = validatedData.jobType;
+    }
+    if (validatedData.experienceLevel) {
+      jobData.experienceLevel = validatedData.experienceLevel;
+    }
     if (validatedData.educationPG) {
       jobData.educationPG = validatedData.educationPG;
     }
+    if (recruiterId) {
+      jobData.recruiterId = recruiterId;
+      jobData.assignmentHistory = [JobUtils.createAssignmentEntry(null, recruiterId, request.user!)];
+    }
+    if (validatedData.clientId) {
+      jobData.clientId = validatedData.clientId;
+    }
+    if (validatedData.vendorId) {
+      jobData.vendorId = validatedData.vendorId;
+    }
     const job = await prisma.job.create({
       data: jobData,
     });
 
+    await AuditLog.record(request, { action: 'CREATE', entityType: 'JOB', entityId: job.id, after: job })
+
     return NextResponse.json(
       createApiResponse(true, job, 'Job created successfully'),
       { status: 201 }
     )
   } catch (error) {
     console.error('Create job error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       createApiResponse(false, null, '', 'Internal server error'),
       { status: 500 }
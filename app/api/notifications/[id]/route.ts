@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAuth, AuthenticatedRequest } from '@/lib/middleware'
+import { updateNotificationSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// PATCH /api/notifications/[id] - Mark one of the signed-in user's notifications read or unread
+export const PATCH = withAuth(async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { read } = updateNotificationSchema.parse(body)
+
+    // Someone else's notification is treated as missing
+    const notification = /^[0-9a-fA-F]{24}$/.test(id)
+      ? await prisma.notification.findFirst({ where: { id, userId: request.user!.userId } })
+      : null
+
+    if (!notification) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Notification not found'),
+        { status: 404 }
+      )
+    }
+
+    const updatedNotification = await prisma.notification.update({
+      where: { id },
+      data: { readAt: read ? notification.readAt ?? new Date() : null },
+    })
+
+    return NextResponse.json(
+      createApiResponse(true, updatedNotification, read ? 'Notification marked as read' : 'Notification marked as unread')
+    )
+  } catch (error) {
+    console.error('Update notification error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { withAuth, AuthenticatedRequest } from '@/lib/middleware'
+import { Notifications } from '@/lib/notifications'
+import { updateNotificationPreferencesSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/notifications/preferences - Which channels each notification type goes to for the signed-in user
+export const GET = withAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const preferences = await Notifications.preferences(request.user!.userId)
+
+    return NextResponse.json(
+      createApiResponse(true, preferences, 'Notification preferences retrieved successfully')
+    )
+  } catch (error) {
+    console.error('Get notification preferences error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/notifications/preferences - Turn channels on or off per notification type
+export const PUT = withAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const { preferences } = updateNotificationPreferencesSchema.parse(body)
+
+    const updated = await Notifications.updatePreferences(request.user!.userId, preferences)
+
+    return NextResponse.json(
+      createApiResponse(true, updated, 'Notification preferences updated successfully')
+    )
+  } catch (error) {
+    console.error('Update notification preferences error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
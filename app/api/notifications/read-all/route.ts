@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAuth, AuthenticatedRequest } from '@/lib/middleware'
+import { createApiResponse } from '@/lib/validations'
+
+// POST /api/notifications/read-all - Mark all of the signed-in user's notifications as read
+export const POST = withAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId: request.user!.userId, readAt: null },
+      data: { readAt: new Date() },
+    })
+
+    return NextResponse.json(
+      createApiResponse(true, { marked: count }, 'All notifications marked as read')
+    )
+  } catch (error) {
+    console.error('Mark notifications read error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
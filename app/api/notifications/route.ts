@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAuth, AuthenticatedRequest } from '@/lib/middleware'
+import { notificationListQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/notifications - The signed-in user's notifications, newest first, with their unread count
+export const GET = withAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { page, limit, unread } = notificationListQuerySchema.parse(Object.fromEntries(searchParams))
+    const userId = request.user!.userId
+
+    const where: any = { userId }
+    if (unread) {
+      where.readAt = null
+    }
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.notification.count({ where }),
+      prisma.notification.count({ where: { userId, readAt: null } }),
+    ])
+
+    return NextResponse.json(
+      createApiResponse(
+        true,
+        { notifications, unreadCount },
+        'Notifications retrieved successfully',
+        undefined,
+        { page, limit, total, totalPages: Math.ceil(total / limit) }
+      )
+    )
+  } catch (error) {
+    console.error('Get notifications error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,143 @@
+import { NextResponse } from 'next/server'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { SavedSearches } from '@/lib/saved-searches'
+import { updateSavedSearchSchema, savedSearchCriteriaSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// Newest matches returned with a saved search
+const RECENT_MATCHES = 20
+
+// Someone else's saved search is treated as missing
+async function findOwnSearch(id: string, userId: string) {
+  if (!/^[0-9a-fA-F]{24}$/.test(id)) return null
+  return prisma.savedSearch.findFirst({ where: { id, userId } })
+}
+
+function notFound() {
+  return NextResponse.json(
+    createApiResponse(false, null, '', 'Saved search not found'),
+    { status: 404 }
+  )
+}
+
+// GET /api/saved-searches/[id] - A saved search with the candidates that matched it most recently
+export const GET = withPermission('candidate:read:any', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const search = await findOwnSearch(id, request.user!.userId)
+    if (!search) return notFound()
+
+    const [matches, newMatches] = await Promise.all([
+      prisma.savedSearchMatch.findMany({
+        where: { savedSearchId: id },
+        orderBy: { matchedAt: 'desc' },
+        take: RECENT_MATCHES,
+      }),
+      prisma.savedSearchMatch.count({ where: { savedSearchId: id, notifiedAt: null } }),
+    ])
+
+    // Candidates deleted since they matched are left out
+    const candidates = await prisma.candidate.findMany({
+      where: { id: { in: matches.map(match => match.candidateId) } },
+      select: { id: true, firstName: true, lastName: true, jobTitle: true, experience: true, city: true, skills: true },
+    })
+    const recentMatches = matches
+      .map(match => ({
+        candidate: candidates.find(candidate => candidate.id === match.candidateId),
+        matchedAt: match.matchedAt,
+        notifiedAt: match.notifiedAt,
+      }))
+      .filter(match => match.candidate)
+
+    return NextResponse.json(
+      createApiResponse(
+        true,
+        { ...search, params: SavedSearches.params(search), newMatches, recentMatches },
+        'Saved search retrieved successfully'
+      )
+    )
+  } catch (error) {
+    console.error('Get saved search error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/saved-searches/[id] - Rename a saved search, change its criteria or its alerts.
+// filters replaces the saved filters as a whole.
+export const PUT = withPermission('candidate:read:any', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateSavedSearchSchema.parse(body)
+
+    const search = await findOwnSearch(id, request.user!.userId)
+    if (!search) return notFound()
+
+    const data: Prisma.SavedSearchUpdateInput = {}
+    if (validatedData.name !== undefined) data.name = validatedData.name
+    if (validatedData.query !== undefined) data.query = validatedData.query || null
+    if (validatedData.filters !== undefined) data.filters = validatedData.filters as Prisma.InputJsonObject
+    if (validatedData.alertFrequency !== undefined) data.alertFrequency = validatedData.alertFrequency
+
+    savedSearchCriteriaSchema.parse({
+      query: validatedData.query ?? search.query ?? undefined,
+      filters: validatedData.filters ?? search.filters ?? undefined,
+    })
+
+    const updatedSearch = await prisma.savedSearch.update({ where: { id }, data })
+
+    return NextResponse.json(
+      createApiResponse(true, { ...updatedSearch, params: SavedSearches.params(updatedSearch) }, 'Saved search updated successfully')
+    )
+  } catch (error) {
+    console.error('Update saved search error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/saved-searches/[id] - Delete a saved search and the matches it collected
+export const DELETE = withPermission('candidate:read:any', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const search = await findOwnSearch(id, request.user!.userId)
+    if (!search) return notFound()
+
+    await prisma.savedSearchMatch.deleteMany({ where: { savedSearchId: id } })
+    await prisma.savedSearch.delete({ where: { id } })
+
+    return NextResponse.json(
+      createApiResponse(true, null, 'Saved search deleted successfully')
+    )
+  } catch (error) {
+    console.error('Delete saved search error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
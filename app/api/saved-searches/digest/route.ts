@@ -0,0 +1,40 @@
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { SavedSearches } from '@/lib/saved-searches'
+import { createApiResponse } from '@/lib/validations'
+
+function secretMatches(given: string | undefined, expected: string): boolean {
+  if (!given) return false
+  const a = crypto.createHash('sha256').update(given).digest()
+  const b = crypto.createHash('sha256').update(expected).digest()
+  return crypto.timingSafeEqual(a, b)
+}
+
+// POST /api/saved-searches/digest - Send the saved search digests. Called once a day by a
+// scheduler with `Authorization: Bearer <CRON_SECRET>`; disabled while CRON_SECRET is unset.
+export async function POST(request: NextRequest) {
+  try {
+    const expected = process.env.CRON_SECRET
+    const given = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+    if (!expected || !secretMatches(given, expected)) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Unauthorized'),
+        { status: 401 }
+      )
+    }
+
+    const result = await SavedSearches.sendDigests({
+      baseUrl: process.env.NEXTAUTH_URL || new URL(request.url).origin,
+    })
+
+    return NextResponse.json(
+      createApiResponse(true, result, `Sent ${result.searches} digests covering ${result.candidates} candidates`)
+    )
+  } catch (error) {
+    console.error('Saved search digest error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+}
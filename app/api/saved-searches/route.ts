@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { SavedSearches } from '@/lib/saved-searches'
+import { createSavedSearchSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/saved-searches - The signed-in user's saved candidate searches, with how many new
+// matches are waiting for the next digest
+export const GET = withPermission('candidate:read:any', async (request: AuthenticatedRequest) => {
+  try {
+    const searches = await prisma.savedSearch.findMany({
+      where: { userId: request.user!.userId },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const pending = await prisma.savedSearchMatch.findMany({
+      where: { savedSearchId: { in: searches.map(search => search.id) }, notifiedAt: null },
+      select: { savedSearchId: true },
+    })
+
+    const data = searches.map(search => ({
+      ...search,
+      params: SavedSearches.params(search),
+      newMatches: pending.filter(match => match.savedSearchId === search.id).length,
+    }))
+
+    return NextResponse.json(
+      createApiResponse(true, data, 'Saved searches retrieved successfully')
+    )
+  } catch (error) {
+    console.error('Get saved searches error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/saved-searches - Save a candidate query and filters under a name
+export const POST = withPermission('candidate:read:any', async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const validatedData = createSavedSearchSchema.parse(body)
+
+    const search = await prisma.savedSearch.create({
+      data: {
+        userId: request.user!.userId,
+        name: validatedData.name,
+        query: validatedData.query || null,
+        filters: validatedData.filters as Prisma.InputJsonObject,
+        alertFrequency: validatedData.alertFrequency,
+      },
+    })
+
+    return NextResponse.json(
+      createApiResponse(true, { ...search, params: SavedSearches.params(search), newMatches: 0 }, 'Search saved successfully'),
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Create saved search error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
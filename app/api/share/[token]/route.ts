@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ShareUtils } from '@/lib/shares'
+import { Notifications } from '@/lib/notifications'
+import { createApiResponse } from '@/lib/validations'
+
+// GET /api/share/[token] - Public view of a shared candidate (no login required)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const result = await ShareUtils.open(token)
+
+    if (!result.ok) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', result.error),
+        { status: result.status }
+      )
+    }
+
+    await Notifications.emit(
+      { type: 'SHARE_VIEWED', shareId: result.share.id },
+      { baseUrl: process.env.NEXTAUTH_URL || new URL(request.url).origin }
+    )
+
+    return NextResponse.json(
+      createApiResponse(true, {
+        candidate: result.candidate,
+        expiryDate: result.share.expiryDate,
+        visitsRemaining: result.share.maxVisits !== null ? result.share.maxVisits - result.share.currentVisits : null,
+      }, 'Shared candidate retrieved successfully')
+    )
+  } catch (error) {
+    console.error('Get shared candidate error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+}
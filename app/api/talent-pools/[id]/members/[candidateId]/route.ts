@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { updateTalentPoolMemberSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// The [id] param is the pool, so the ownership check for pool:update:own applies to it
+async function findMember(poolId: string, candidateId: string) {
+  if (!/^[0-9a-fA-F]{24}$/.test(candidateId)) return null
+  return prisma.talentPoolMember.findUnique({
+    where: { poolId_candidateId: { poolId, candidateId } },
+  })
+}
+
+function notFound() {
+  return NextResponse.json(
+    createApiResponse(false, null, '', 'Candidate is not in this talent pool'),
+    { status: 404 }
+  )
+}
+
+// PATCH /api/talent-pools/[id]/members/[candidateId] - Change a member's tags or notes
+export const PATCH = withPermission('pool:update', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string; candidateId: string }> }
+) => {
+  try {
+    const { id, candidateId } = await params
+    const body = await request.json()
+    const validatedData = updateTalentPoolMemberSchema.parse(body)
+
+    const member = await findMember(id, candidateId)
+    if (!member) return notFound()
+
+    const updatedMember = await prisma.talentPoolMember.update({
+      where: { id: member.id },
+      data: validatedData,
+    })
+
+    return NextResponse.json(
+      createApiResponse(true, updatedMember, 'Talent pool member updated successfully')
+    )
+  } catch (error) {
+    console.error('Update talent pool member error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/talent-pools/[id]/members/[candidateId] - Remove a candidate from a talent pool
+export const DELETE = withPermission('pool:update', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string; candidateId: string }> }
+) => {
+  try {
+    const { id, candidateId } = await params
+
+    const member = await findMember(id, candidateId)
+    if (!member) return notFound()
+
+    await prisma.talentPoolMember.delete({ where: { id: member.id } })
+
+    return NextResponse.json(
+      createApiResponse(true, null, 'Candidate removed from talent pool')
+    )
+  } catch (error) {
+    console.error('Remove talent pool member error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
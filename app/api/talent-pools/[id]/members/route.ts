@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { addTalentPoolMembersSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+type AddMemberStatus = 'added' | 'skipped' | 'not_found'
+
+interface AddMemberResult {
+  candidateId: string
+  status: AddMemberStatus
+  error?: string
+}
+
+const isObjectId = (id: string) => /^[0-9a-fA-F]{24}$/.test(id)
+
+// POST /api/talent-pools/[id]/members - Add candidates to a talent pool. Candidates already in
+// the pool are skipped and keep their tags and notes.
+export const POST = withPermission('pool:update', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = addTalentPoolMembersSchema.parse(body)
+
+    const pool = await prisma.talentPool.findUnique({ where: { id } })
+    if (!pool) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Talent pool not found'),
+        { status: 404 }
+      )
+    }
+
+    const candidateIds = Array.from(new Set(validatedData.candidateIds))
+    const validIds = candidateIds.filter(isObjectId)
+
+    const [candidates, existingMembers] = await Promise.all([
+      prisma.candidate.findMany({
+        where: { id: { in: validIds } },
+        select: { id: true },
+      }),
+      prisma.talentPoolMember.findMany({
+        where: { poolId: id, candidateId: { in: validIds } },
+        select: { candidateId: true },
+      }),
+    ])
+
+    const results: AddMemberResult[] = candidateIds.map(candidateId => {
+      if (!candidates.some(candidate => candidate.id === candidateId)) {
+        return { candidateId, status: 'not_found', error: 'Candidate not found' }
+      }
+      if (existingMembers.some(member => member.candidateId === candidateId)) {
+        return { candidateId, status: 'skipped', error: 'Already in this pool' }
+      }
+      return { candidateId, status: 'added' }
+    })
+
+    const added = results.filter(result => result.status === 'added')
+    if (added.length > 0) {
+      await prisma.talentPoolMember.createMany({
+        data: added.map(result => ({
+          poolId: id,
+          candidateId: result.candidateId,
+          tags: validatedData.tags,
+          notes: validatedData.notes,
+          addedById: request.user!.userId,
+        })),
+      })
+    }
+
+    const count = (status: AddMemberStatus) => results.filter(result => result.status === status).length
+    const summary = {
+      poolId: id,
+      added: count('added'),
+      skipped: count('skipped'),
+      notFound: count('not_found'),
+      results,
+    }
+
+    return NextResponse.json(
+      createApiResponse(true, summary, `${summary.added} of ${candidateIds.length} candidates added to ${pool.name}`)
+    )
+  } catch (error) {
+    console.error('Add talent pool members error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
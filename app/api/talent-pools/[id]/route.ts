@@ -0,0 +1,132 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { updateTalentPoolSchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+const memberInclude = {
+  candidate: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+      jobTitle: true,
+      experience: true,
+      city: true,
+      skills: true,
+      availability: true,
+    },
+  },
+} as const
+
+const isObjectId = (id: string) => /^[0-9a-fA-F]{24}$/.test(id)
+
+// GET /api/talent-pools/[id] - A talent pool with its candidates, most recently added first
+export const GET = withPermission('pool:read', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    const pool = isObjectId(id)
+      ? await prisma.talentPool.findUnique({
+        where: { id },
+        include: { members: { include: memberInclude, orderBy: { createdAt: 'desc' } } },
+      })
+      : null
+
+    if (!pool) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Talent pool not found'),
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(true, { ...pool, memberCount: pool.members.length }, 'Talent pool retrieved successfully')
+    )
+  } catch (error) {
+    console.error('Get talent pool error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/talent-pools/[id] - Rename a talent pool or change its description and tags
+export const PUT = withPermission('pool:update', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateTalentPoolSchema.parse(body)
+
+    const existing = await prisma.talentPool.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Talent pool not found'),
+        { status: 404 }
+      )
+    }
+
+    const pool = await prisma.talentPool.update({
+      where: { id },
+      data: validatedData,
+    })
+
+    return NextResponse.json(
+      createApiResponse(true, pool, 'Talent pool updated successfully')
+    )
+  } catch (error) {
+    console.error('Update talent pool error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/talent-pools/[id] - Delete a talent pool. The candidates themselves are kept.
+export const DELETE = withPermission('pool:delete', async (
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    const existing = await prisma.talentPool.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', 'Talent pool not found'),
+        { status: 404 }
+      )
+    }
+
+    await prisma.talentPoolMember.deleteMany({ where: { poolId: id } })
+    await prisma.talentPool.delete({ where: { id } })
+
+    return NextResponse.json(
+      createApiResponse(true, null, 'Talent pool deleted successfully')
+    )
+  } catch (error) {
+    console.error('Delete talent pool error:', error)
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { createTalentPoolSchema, talentPoolListQuerySchema, createApiResponse } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET /api/talent-pools - List talent pools with their member counts
+export const GET = withPermission('pool:read', async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { page, limit, query, tag, createdBy, candidateId } = talentPoolListQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const where: any = {}
+    if (query) {
+      where.OR = [
+        { name: { contains: query, mode: 'insensitive' } },
+        { description: { contains: query, mode: 'insensitive' } },
+      ]
+    }
+    if (tag) {
+      where.tags = { has: tag }
+    }
+    if (createdBy) {
+      where.createdById = createdBy === 'me' ? request.user!.userId : createdBy
+    }
+    if (candidateId) {
+      where.members = { some: { candidateId } }
+    }
+
+    const [pools, total] = await Promise.all([
+      prisma.talentPool.findMany({
+        where,
+        include: { _count: { select: { members: true } } },
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.talentPool.count({ where }),
+    ])
+
+    const responsePools = pools.map(({ _count, ...pool }) => ({ ...pool, memberCount: _count.members }))
+
+    return NextResponse.json(
+      createApiResponse(true, responsePools, 'Talent pools retrieved successfully', undefined, {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      })
+    )
+  } catch (error) {
+    console.error('Get talent pools error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/talent-pools - Create an empty talent pool owned by the caller
+export const POST = withPermission('pool:create', async (request: AuthenticatedRequest) => {
+  try {
+    const body = await request.json()
+    const validatedData = createTalentPoolSchema.parse(body)
+
+    const pool = await prisma.talentPool.create({
+      data: {
+        ...validatedData,
+        createdById: request.user!.userId,
+      },
+    })
+
+    return NextResponse.json(
+      createApiResponse(true, { ...pool, memberCount: 0 }, 'Talent pool created successfully'),
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Create talent pool error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', `Validation error: ${error.errors.map(e => e.message).join(', ')}`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(false, null, '', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+})
@@ -1,11 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import mammoth from 'mammoth';
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware';
 
 // Initialize Gemini AI
 const genAI = new GoogleGenerativeAI(process.env.NEXT_PUBLIC_GEMINI || "");
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('job:create', async (request: AuthenticatedRequest) => {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
@@ -184,4 +185,4 @@ Return only the JSON object, no additional text or formatting.`;
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
+});
@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { prisma } from '@/lib/prisma'
-import { withAuth, AuthenticatedRequest } from '@/lib/middleware'
+import { ResumeFileUtils } from '@/lib/resume-files'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
 import { createApiResponse } from '@/lib/validations'
 import { uploadFileToSupabase, generateFilePath } from '@/lib/supabase'
 
 // Apply authentication middleware and export as POST
-export const POST = withAuth(async (request: AuthenticatedRequest) => {
+export const POST = withPermission('file:create', async (request: AuthenticatedRequest) => {
   try {
     const formData = await request.formData()
     const files = formData.getAll('files') as File[]
@@ -69,18 +69,19 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
           )
         }
 
-        // Save file record to database
-        const resumeFile = await prisma.resumeFile.create({
-          data: {
-            originalName: file.name,
-            fileName: filePath.split('/').pop() || file.name,
-            filePath: publicUrl,
-            fileSize: file.size,
-            mimeType: file.type,
-            uploadedBy: userId,
-            status: 'COMPLETED',
-          },
+        // Save file record to database and parse it; a failed parse does not fail the
+        // upload and can be retried through /api/files/[id]/reprocess
+        const buffer = Buffer.from(await file.arrayBuffer())
+        const recorded = await ResumeFileUtils.record({
+          originalName: file.name,
+          fileName: filePath.split('/').pop() || file.name,
+          filePath: publicUrl,
+          mimeType: file.type,
+          uploadedBy: userId,
+          source: 'BULK_UPLOAD',
+          buffer,
         })
+        const { file: resumeFile } = await ResumeFileUtils.process(recorded, buffer)
 
         uploadedFiles.push({
           id: resumeFile.id,
@@ -88,7 +89,8 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
           fileName: resumeFile.fileName,
           fileSize: file.size,
           mimeType: file.type,
-          status: 'COMPLETED',
+          status: resumeFile.status,
+          error: resumeFile.error,
           uploadedAt: resumeFile.createdAt,
         })
       } catch (error) {
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+import { CsvImport } from '@/lib/csv-import'
+
+// GET /api/vendors/import/template - Sample CSV with every column the import accepts
+export async function GET() {
+  return new NextResponse(CsvImport.template('vendors'), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="vendors-import-template.csv"',
+    },
+  })
+}
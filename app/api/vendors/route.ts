@@ -1,43 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { withRole, AuthenticatedRequest } from '@/lib/middleware'
-import { createVendorSchema, listQuerySchema, createApiResponse } from '@/lib/validations'
+import { withPermission, AuthenticatedRequest } from '@/lib/middleware'
+import { ListFilters } from '@/lib/list-filters'
+import { AuditLog } from '@/lib/audit'
+import { createVendorSchema, createApiResponse } from '@/lib/validations'
 
 // GET /api/vendors - List all vendors
-export async function GET(request: NextRequest) {
+export const GET = withPermission('vendor:read:any', async (request: AuthenticatedRequest) => {
   try {
     const { searchParams } = new URL(request.url)
     const queryParams = Object.fromEntries(searchParams)
-    const { page, limit, sortBy, sortOrder, query, filters } = listQuerySchema.parse(queryParams)
-
-    const where: any = {}
-    
-    // Add search functionality
-    if (query) {
-      where.OR = [
-        { name: { contains: query, mode: 'insensitive' } },
-        { contactPerson: { contains: query, mode: 'insensitive' } },
-        { email: { contains: query, mode: 'insensitive' } },
-      ]
-    }    // Add filters
-    if (filters) {
-      if (filters.status) {
-        where.status = filters.status
-      }
-      if (filters.specialization) {
-        where.specialization = { has: filters.specialization }
-      }
-      if (filters.minRating) {
-        where.rating = { gte: parseFloat(filters.minRating) }
-      }
-    }
-
-    const orderBy: any = {}
-    if (sortBy) {
-      orderBy[sortBy] = sortOrder
-    } else {
-      orderBy.name = 'asc'
-    }
+    const { page, limit, where, orderBy } = ListFilters.vendors(queryParams)
 
     const skip = (page - 1) * limit
 
@@ -80,10 +53,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // POST /api/vendors - Create a new vendor (Recruiters and Admins only)
-export const POST = withRole(['RECRUITER', 'ADMIN'], async (request: AuthenticatedRequest) => {
+export const POST = withPermission('vendor:create:any', async (request: AuthenticatedRequest) => {
   try {
     const body = await request.json()
     const validatedData = createVendorSchema.parse(body)
@@ -113,6 +86,8 @@ export const POST = withRole(['RECRUITER', 'ADMIN'], async (request: Authenticat
       },
     })
 
+    await AuditLog.record(request, { action: 'CREATE', entityType: 'VENDOR', entityId: vendor.id, after: vendor })
+
     return NextResponse.json(
       createApiResponse(true, vendor, 'Vendor created successfully'),
       { status: 201 }
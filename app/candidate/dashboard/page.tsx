@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -12,6 +13,20 @@ import {
   Target, Award, MessageSquare, Bell, BookOpen, BarChart3
 } from 'lucide-react';
 import Link from 'next/link';
+import { useAuth } from '@/context/AuthContext';
+import { NotificationList } from '@/components/notifications/NotificationList';
+
+interface JobMatch {
+  id: string;
+  title: string;
+  company: string;
+  location: string;
+  salary: string;
+  matchPercentage: number;
+  postedDate: string;
+  status: 'new' | 'applied';
+  highlights: string[];
+}
 
 export default function CandidateDashboard() {
   const [candidate] = useState({
@@ -71,58 +86,43 @@ export default function CandidateDashboard() {
     }
   ]);
 
-  const [jobMatches] = useState([
-    {
-      id: '1',
-      title: 'Senior Business Analyst',
-      company: 'Deloitte',
-      location: 'New York, NY',
-      salary: '$90k - $130k',
-      matchPercentage: 95,
-      postedDate: '2 days ago',
-      status: 'new'
-    },
-    {
-      id: '2',
-      title: 'Data Analyst',
-      company: 'PwC',
-      location: 'Boston, MA',
-      salary: '$75k - $110k',
-      matchPercentage: 89,
-      postedDate: '1 week ago',
-      status: 'applied'
-    }
-  ]);
+  const { token } = useAuth();
+  const [jobMatches, setJobMatches] = useState<JobMatch[]>([]);
+  const [matchesLoading, setMatchesLoading] = useState(true);
 
-  const [notifications] = useState([
-    {
-      id: '1',
-      type: 'match',
-      title: 'New Job Match Found!',
-      message: 'You have a 95% match with "Senior Consultant" at Deloitte',
-      date: '2024-01-10',
-      isRead: false,
-      priority: 'high'
-    },
-    {
-      id: '2',
-      type: 'interview',
-      title: 'Interview Reminder',
-      message: 'Your AI interview for BCG is scheduled for tomorrow at 2:00 PM',
-      date: '2024-01-14',
-      isRead: false,
-      priority: 'medium'
-    },
-    {
-      id: '3',
-      type: 'profile',
-      title: 'Profile Update Suggestion',
-      message: 'Add more skills to increase your match rate by 15%',
-      date: '2024-01-13',
-      isRead: true,
-      priority: 'low'
-    }
-  ]);
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchMatches = async () => {
+      try {
+        const response = await fetch('/api/candidates/me/matches?limit=5', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        const result = await response.json();
+        if (result.success) {
+          setJobMatches(result.data.map((match: any) => ({
+            id: match.job.id,
+            title: match.job.jobTitle,
+            company: match.job.client?.name ?? 'Unknown Client',
+            location: [match.job.city, match.job.state].filter(Boolean).join(', '),
+            salary: match.job.salaryPerAnnum,
+            matchPercentage: match.score,
+            postedDate: formatDistanceToNow(new Date(match.job.createdAt), { addSuffix: true }),
+            status: match.applicationStatus ? 'applied' : 'new',
+            highlights: match.breakdown
+              .filter((factor: any) => factor.applicable)
+              .map((factor: any) => factor.detail),
+          })));
+        }
+      } catch (error) {
+        console.error('Error fetching job matches:', error);
+      } finally {
+        setMatchesLoading(false);
+      }
+    };
+
+    fetchMatches();
+  }, [token]);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -139,10 +139,6 @@ export default function CandidateDashboard() {
     return 'text-gray-700';
   };
 
-  const getPriorityIcon = (priority: string) => {
-    return <div className="w-2 h-2 bg-gray-400 rounded-full"></div>;
-  };
-
   return (
     <div className="min-h-screen bg-white py-8 px-4 sm:px-6 lg:px-8">
       <div className="max-w-7xl mx-auto">
@@ -293,26 +289,7 @@ export default function CandidateDashboard() {
                 <CardDescription>Stay informed about your applications and opportunities</CardDescription>
               </CardHeader>
               <CardContent className="p-6">
-                <div className="space-y-4">
-                  {notifications.slice(0, 3).map((notification) => (
-                    <div key={notification.id} className="flex items-start space-x-3 p-4 bg-white border border-gray-200 rounded-lg hover:border-gray-300 transition-colors">
-                      {getPriorityIcon(notification.priority)}
-                      <div className="flex-1">
-                        <div className="flex items-center space-x-2 mb-1">
-                          <h4 className="font-medium text-gray-900">{notification.title}</h4>
-                          {!notification.isRead && (
-                            <Badge className="bg-gray-100 text-gray-700 text-xs">New</Badge>
-                          )}
-                        </div>
-                        <p className="text-sm text-gray-600 mb-2">{notification.message}</p>
-                        <p className="text-xs text-gray-500">{notification.date}</p>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-                <Button variant="outline" className="w-full mt-4">
-                  View All Notifications
-                </Button>
+                <NotificationList pageSize={3} viewAllHref="/candidate/notifications" />
               </CardContent>
             </Card>
 
@@ -327,6 +304,12 @@ export default function CandidateDashboard() {
               </CardHeader>
               <CardContent className="p-6">
                 <div className="space-y-4">
+                  {matchesLoading && (
+                    <p className="text-sm text-gray-600">Finding jobs that match your profile...</p>
+                  )}
+                  {!matchesLoading && jobMatches.length === 0 && (
+                    <p className="text-sm text-gray-600">No matching jobs yet. Add more skills to your profile to improve your matches.</p>
+                  )}
                   {jobMatches.map((job) => (
                     <div key={job.id} className="p-4 border border-gray-200 rounded-lg hover:border-gray-300 transition-colors">
                       <div className="flex items-start justify-between mb-3">
@@ -355,7 +338,15 @@ export default function CandidateDashboard() {
                           <p className="text-xs text-gray-600">Match</p>
                         </div>
                       </div>
-                      
+
+                      {job.highlights.length > 0 && (
+                        <ul className="text-xs text-gray-600 mb-3 space-y-1">
+                          {job.highlights.map((highlight) => (
+                            <li key={highlight}>{highlight}</li>
+                          ))}
+                        </ul>
+                      )}
+
                       <div className="flex items-center justify-between">
                         <Badge className={getStatusColor(job.status)}>
                           {job.status === 'new' ? 'New Match' : 'Applied'}
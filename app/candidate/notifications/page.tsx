@@ -0,0 +1,25 @@
+'use client';
+
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { NotificationList } from '@/components/notifications/NotificationList';
+import { NotificationPreferencesForm } from '@/components/notifications/NotificationPreferencesForm';
+
+export default function CandidateNotificationsPage() {
+  return (
+    <div className="min-h-screen bg-white py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Button variant="outline" asChild>
+          <Link href="/candidate/dashboard">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-semibold text-gray-900">Notifications</h1>
+        <NotificationList />
+        <NotificationPreferencesForm />
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -22,6 +22,20 @@ export default function ContactPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [nameError, setNameError] = useState('');
+  const [submitError, setSubmitError] = useState('');
+  // Spam checks: bots fill in the hidden website field and post the form as soon as it loads
+  const [website, setWebsite] = useState('');
+  // Issued by the server when the form is shown, so it can tell how quickly the form was sent
+  const formToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/contact')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) formToken.current = result.data.formToken;
+      })
+      .catch(error => console.error('Contact form token error:', error));
+  }, []);
 
   const validateNameField = (value: string) => {
     const alphabetPattern = /^[A-Za-z\s]*$/;
@@ -52,17 +66,33 @@ export default function ContactPage() {
     }
     
     setIsSubmitting(true);
+    setSubmitError('');
 
     try {
-      // TODO: connect to API
-      console.log('Contact form submission:', formData);
-      
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      setIsSubmitted(true);
+      const response = await fetch('/api/contact', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          email: formData.email,
+          company: formData.company || undefined,
+          role: formData.role || undefined,
+          inquiryType: formData.inquiry,
+          message: formData.message,
+          website,
+          formToken: formToken.current ?? undefined,
+        }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setIsSubmitted(true);
+      } else {
+        setSubmitError(result.error || 'Failed to send your message. Please try again.');
+      }
     } catch (error) {
       console.error('Form submission error:', error);
+      setSubmitError('Network error. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
@@ -243,12 +273,12 @@ export default function ContactPage() {
                         <SelectValue placeholder="Select inquiry type" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="sales">Sales & Pricing</SelectItem>
-                        <SelectItem value="demo">Request a Demo</SelectItem>
-                        <SelectItem value="support">Technical Support</SelectItem>
-                        <SelectItem value="partnership">Partnership Opportunities</SelectItem>
-                        <SelectItem value="general">General Questions</SelectItem>
-                        <SelectItem value="other">Other</SelectItem>
+                        <SelectItem value="SALES">Sales & Pricing</SelectItem>
+                        <SelectItem value="DEMO">Request a Demo</SelectItem>
+                        <SelectItem value="SUPPORT">Technical Support</SelectItem>
+                        <SelectItem value="PARTNERSHIP">Partnership Opportunities</SelectItem>
+                        <SelectItem value="GENERAL">General Questions</SelectItem>
+                        <SelectItem value="OTHER">Other</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -265,6 +295,25 @@ export default function ContactPage() {
                     />
                   </div>
 
+                  {/* Hidden from people; only bots fill it in */}
+                  <div className="hidden" aria-hidden="true">
+                    <Label htmlFor="website">Website</Label>
+                    <Input
+                      id="website"
+                      name="website"
+                      tabIndex={-1}
+                      autoComplete="off"
+                      value={website}
+                      onChange={(e) => setWebsite(e.target.value)}
+                    />
+                  </div>
+
+                  {submitError && (
+                    <Alert variant="destructive">
+                      <AlertDescription>{submitError}</AlertDescription>
+                    </Alert>
+                  )}
+
                   <Alert>
                     <AlertDescription>
                       By submitting this form, you agree to our privacy policy and terms of service. 
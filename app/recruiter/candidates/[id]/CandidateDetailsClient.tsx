@@ -14,6 +14,8 @@ import {
   FileText, Video, Download, Eye, MessageSquare, Clock, CheckCircle 
 } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
+import { AuditTimeline } from '@/components/audit/AuditTimeline';
+import { useAuth } from '@/context/AuthContext';
 
 interface CandidateDetailsClientProps {
   candidateId: string;
@@ -21,6 +23,7 @@ interface CandidateDetailsClientProps {
 
 export default function CandidateDetailsClient({ candidateId }: CandidateDetailsClientProps) {
   const router = useRouter();
+  const { user } = useAuth();
 
   // Mock candidate data - would be fetched based on ID
   const [candidate] = useState({
@@ -249,6 +252,19 @@ export default function CandidateDetailsClient({ candidateId }: CandidateDetails
                 </CardContent>
               </Card>
             )}
+
+            {/* Change history, admins only */}
+            {user?.role === 'ADMIN' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>History</CardTitle>
+                  <CardDescription>Every change made to this profile</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AuditTimeline entityType="CANDIDATE" entityId={candidateId} />
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Right Column - Actions & Info */}
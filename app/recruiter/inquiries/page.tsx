@@ -0,0 +1,30 @@
+'use client';
+
+import { Sidebar } from "@/components/dashboard/Sidebar";
+import { InquiriesTable } from "@/components/inquiries/InquiriesTable";
+import { useAuth } from "@/context/AuthContext";
+
+export default function InquiriesPage() {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <div className="flex h-screen bg-gray-100">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <main className="flex-1 overflow-y-auto">
+          <div className="p-6 space-y-6">
+            <h1 className="text-2xl font-semibold text-gray-800">Inquiries</h1>
+
+            {!isLoading && user?.role !== 'ADMIN' ? (
+              <div className="bg-white rounded-lg shadow p-8 text-center">
+                <p className="text-gray-600">Only admins can see contact form inquiries.</p>
+              </div>
+            ) : (
+              <InquiriesTable />
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
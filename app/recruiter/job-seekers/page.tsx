@@ -2,27 +2,15 @@
 
 import { Sidebar } from "@/components/dashboard/Sidebar";
 import { JobSeekersTable } from "@/components/job-seekers/JobSeekersTable";
-import { JobSeekersFilters } from "@/components/job-seekers/JobSeekersFilters";
+import { JobSeekersFilters, FilterState, emptyFilters } from "@/components/job-seekers/JobSeekersFilters";
 import { Button } from "@/components/ui/button";
 import { Plus, Upload } from "lucide-react";
 import { AddResumeModal } from "@/components/job-seekers/AddResumeModal";
 import { AddBulkResumesModal } from "@/components/job-seekers/AddBulkResumesModal";
 import { useState } from "react";
 
-interface FilterState {
-  search: string;
-  jobTitle: string;
-  skills: string;
-  location: string;
-}
-
 export default function JobSeekersPage() {
-  const [filters, setFilters] = useState<FilterState>({
-    search: '',
-    jobTitle: '',
-    skills: '',
-    location: '',
-  });
+  const [filters, setFilters] = useState<FilterState>(emptyFilters);
 
   const [showAddResume, setShowAddResume] = useState(false);
   const [showAddBulkResumes, setShowAddBulkResumes] = useState(false);
@@ -32,12 +20,7 @@ export default function JobSeekersPage() {
   };
 
   const clearFilters = () => {
-    setFilters({
-      search: '',
-      jobTitle: '',
-      skills: '',
-      location: '',
-    });
+    setFilters(emptyFilters);
   };
 
   return (
@@ -7,16 +7,17 @@ import { JobsHeader } from "@/components/jobs/JobsHeader";
 import { JobsActions } from "@/components/jobs/JobsActions";
 
 import { useEffect, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
 
 
 export default function JobsPage() {
   const [jobs, setJobs] = useState<any[]>([]);
   const [searchQuery, setSearchQuery] = useState<string>("");
+  const { token } = useAuth();
 
   const fetchJobs = async (query = searchQuery) => {
     const params = new URLSearchParams();
     if (query) params.append("query", query);
-    const token = localStorage.getItem("token");
     const res = await fetch(`/api/jobs${params.toString() ? `?${params.toString()}` : ""}`, {
       headers: {
         Authorization: token ? `Bearer ${token}` : "",
@@ -27,9 +28,11 @@ export default function JobsPage() {
   };
 
   useEffect(() => {
-    fetchJobs();
+    if (token) {
+      fetchJobs();
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [token]);
 
   return (
     <div className="flex h-screen bg-gray-100">
@@ -35,7 +35,7 @@ export default function RecruiterLoginPage() {
 
       const data = await response.json();      if (data.success) {
         // Use auth context to login
-        login(data.data.user, data.data.token);
+        login(data.data.user, data.data.token, data.data.expiresIn);
         
         // Redirect to recruiter dashboard
         router.push('/recruiter/dashboard');
@@ -90,7 +90,7 @@ export default function RecruiterLoginPage() {
                   type="email"
                   value={email}
                   onChange={(e) => setEmail(e.target.value)}
-                  placeholder="admin@tropl.ai"
+                  placeholder="you@company.com"
                   required
                   autoComplete="email"
                 />
@@ -135,7 +135,7 @@ export default function RecruiterLoginPage() {
                   </label>
                 </div>
 
-                <a href="#" className="text-sm text-primary hover:text-primary/80">
+                <a href="/forgot-password" className="text-sm text-primary hover:text-primary/80">
                   Forgot password?
                 </a>
               </div>
@@ -148,16 +148,6 @@ export default function RecruiterLoginPage() {
                 {isLoading ? 'Signing in...' : 'Sign In'}
               </Button>
             </form>
-
-            <div className="mt-6">
-              <div className="bg-primary/10 p-4 rounded-lg">
-                <h4 className="text-sm font-medium text-primary mb-2">Demo Credentials:</h4>
-                <p className="text-xs text-primary/80">
-                  Email: admin@tropl.ai<br />
-                  Password: admin123
-                </p>
-              </div>
-            </div>
           </CardContent>
         </Card>
 
@@ -0,0 +1,24 @@
+'use client';
+
+import { Sidebar } from "@/components/dashboard/Sidebar";
+import { NotificationList } from "@/components/notifications/NotificationList";
+import { NotificationPreferencesForm } from "@/components/notifications/NotificationPreferencesForm";
+
+export default function NotificationsPage() {
+  return (
+    <div className="flex h-screen bg-gray-100">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <main className="flex-1 overflow-y-auto">
+          <div className="p-6 space-y-6">
+            <h1 className="text-2xl font-semibold text-gray-800">Notifications</h1>
+            <div className="max-w-2xl">
+              <NotificationList />
+            </div>
+            <NotificationPreferencesForm />
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import { Sidebar } from "@/components/dashboard/Sidebar";
+import { ChangePasswordForm } from "@/components/settings/ChangePasswordForm";
+
+export default function SettingsPage() {
+  return (
+    <div className="flex h-screen bg-gray-100">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <main className="flex-1 overflow-y-auto">
+          <div className="p-6 space-y-6">
+            <h1 className="text-2xl font-semibold text-gray-800">Settings</h1>
+            <ChangePasswordForm />
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useState } from "react";
+import { UserPlus } from "lucide-react";
+import { Sidebar } from "@/components/dashboard/Sidebar";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { UsersTable } from "@/components/users/UsersTable";
+import { InviteUserModal } from "@/components/users/InviteUserModal";
+import { useAuth } from "@/context/AuthContext";
+
+export default function UserSetupPage() {
+  const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [message, setMessage] = useState('');
+  const { user, isLoading } = useAuth();
+
+  const handleUserInvited = (text: string) => {
+    setMessage(text);
+    setRefreshTrigger(prev => prev + 1);
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-100">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <main className="flex-1 overflow-y-auto">
+          <div className="p-6 space-y-6">
+            <div className="flex justify-between items-center">
+              <h1 className="text-2xl font-semibold text-gray-800">User Setup</h1>
+              {user?.role === 'ADMIN' && (
+                <Button onClick={() => setInviteOpen(true)}>
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  Invite User
+                </Button>
+              )}
+            </div>
+
+            {message && (
+              <Alert>
+                <AlertDescription>{message}</AlertDescription>
+              </Alert>
+            )}
+
+            {!isLoading && user?.role !== 'ADMIN' ? (
+              <div className="bg-white rounded-lg shadow p-8 text-center">
+                <p className="text-gray-600">Only admins can manage users.</p>
+              </div>
+            ) : (
+              <UsersTable refreshTrigger={refreshTrigger} />
+            )}
+          </div>
+        </main>
+      </div>
+
+      <InviteUserModal
+        open={inviteOpen}
+        onOpenChange={setInviteOpen}
+        onUserInvited={handleUserInvited}
+      />
+    </div>
+  );
+}
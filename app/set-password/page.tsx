@@ -0,0 +1,184 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyRound, AlertCircle, Loader2 } from 'lucide-react';
+import { PasswordRequirements } from '@/components/shared/PasswordRequirements';
+
+interface LinkInfo {
+  purpose: 'INVITE' | 'RESET';
+  email: string;
+  name?: string | null;
+}
+
+// Landing page for invitation and password reset emails
+function SetPasswordForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [linkInfo, setLinkInfo] = useState<LinkInfo | null>(null);
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isChecking, setIsChecking] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!token) {
+      setError('This link is incomplete. Please use the link from your email.');
+      setIsChecking(false);
+      return;
+    }
+
+    fetch(`/api/auth/set-password?token=${encodeURIComponent(token)}`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setLinkInfo(data.data);
+          setName(data.data.name || '');
+        } else {
+          setError(data.error || 'This link is not valid');
+        }
+      })
+      .catch(() => setError('Network error. Please try again.'))
+      .finally(() => setIsChecking(false));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/set-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          token,
+          password,
+          ...(linkInfo?.purpose === 'INVITE' && name.trim() ? { name: name.trim() } : {}),
+        }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setDone(true);
+      } else {
+        setError(data.error || 'Could not set the password');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const isInvite = linkInfo?.purpose === 'INVITE';
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold text-center">
+          {isInvite ? 'Accept Invitation' : 'Choose a New Password'}
+        </CardTitle>
+        {linkInfo && (
+          <CardDescription className="text-center">{linkInfo.email}</CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert className="mb-4 border-red-200 bg-red-50">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">
+              {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isChecking ? (
+          <div className="text-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+          </div>
+        ) : done ? (
+          <div className="text-center space-y-4">
+            <p className="text-gray-600">
+              {isInvite ? 'Your account is ready.' : 'Your password has been updated.'} You can now sign in.
+            </p>
+            <Button onClick={() => router.push('/recruiter/login')}>Go to Sign In</Button>
+          </div>
+        ) : linkInfo && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {isInvite && (
+              <div>
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                autoComplete="new-password"
+              />
+              <PasswordRequirements />
+            </div>
+
+            <div>
+              <Label htmlFor="confirm-password">Confirm Password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                autoComplete="new-password"
+              />
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full bg-primary hover:bg-primary/90"
+              disabled={isLoading}
+            >
+              {isLoading ? 'Saving...' : isInvite ? 'Activate Account' : 'Update Password'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <KeyRound className="h-12 w-12 text-primary mx-auto mb-4" />
+        </div>
+        <Suspense fallback={<Loader2 className="w-6 h-6 animate-spin mx-auto" />}>
+          <SetPasswordForm />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
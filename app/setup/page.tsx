@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ShieldCheck, AlertCircle, Loader2 } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { PasswordRequirements } from '@/components/shared/PasswordRequirements';
+
+// One-time setup: creates the first admin while the instance has none
+export default function SetupPage() {
+  const [status, setStatus] = useState<{ required: boolean; setupTokenRequired: boolean } | null>(null);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [setupToken, setSetupToken] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+  const { login } = useAuth();
+
+  useEffect(() => {
+    fetch('/api/auth/bootstrap')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setStatus(data.data);
+        } else {
+          setError(data.error || 'Could not check setup status');
+        }
+      })
+      .catch(() => setError('Network error. Please try again.'));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/bootstrap', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: name.trim(),
+          email: email.trim(),
+          password,
+          ...(setupToken ? { setupToken } : {}),
+        }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        login(data.data.user, data.data.token, data.data.expiresIn);
+        router.push('/recruiter/user-setup');
+      } else {
+        setError(data.error || 'Setup failed');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+      console.error('Setup error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <ShieldCheck className="h-12 w-12 text-primary mx-auto mb-4" />
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">
+            Platform Setup
+          </h2>
+          <p className="text-gray-600">
+            Create the first admin account
+          </p>
+        </div>
+
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold text-center">Admin Account</CardTitle>
+            <CardDescription className="text-center">
+              Everyone else is invited from the admin console afterwards
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <Alert className="mb-4 border-red-200 bg-red-50">
+                <AlertCircle className="h-4 w-4 text-red-600" />
+                <AlertDescription className="text-red-800">
+                  {error}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {!status ? (
+              <div className="text-center py-6">
+                <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+              </div>
+            ) : !status.required ? (
+              <div className="text-center space-y-4">
+                <p className="text-gray-600">Setup has already been completed.</p>
+                <Button onClick={() => router.push('/recruiter/login')}>Go to Sign In</Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="name">Name</Label>
+                  <Input id="name" value={name} onChange={(e) => setName(e.target.value)} required />
+                </div>
+
+                <div>
+                  <Label htmlFor="email">Email Address</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    autoComplete="email"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    autoComplete="new-password"
+                  />
+                  <PasswordRequirements />
+                </div>
+
+                <div>
+                  <Label htmlFor="confirm-password">Confirm Password</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                    autoComplete="new-password"
+                  />
+                </div>
+
+                {status.setupTokenRequired && (
+                  <div>
+                    <Label htmlFor="setup-token">Setup Token</Label>
+                    <Input
+                      id="setup-token"
+                      type="password"
+                      value={setupToken}
+                      onChange={(e) => setSetupToken(e.target.value)}
+                      placeholder="Value of ADMIN_BOOTSTRAP_TOKEN"
+                      required
+                    />
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full bg-primary hover:bg-primary/90"
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Creating account...' : 'Create Admin Account'}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Briefcase, Download, Lock, Mail, MapPin, Phone, Star } from 'lucide-react';
+import { ShareUtils, SHARE_TYPE_LABELS } from '@/lib/shares';
+
+// Every request counts as a visit, so this page must never be cached
+export const dynamic = 'force-dynamic';
+
+function HiddenSection({ title }: { title: string }) {
+  return (
+    <Card className="border border-dashed">
+      <CardContent className="p-6 flex items-center space-x-3 text-gray-500">
+        <Lock className="h-4 w-4" />
+        <span>{title} was not shared</span>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default async function SharedCandidatePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const result = await ShareUtils.open(token);
+
+  if (!result.ok) {
+    return (
+      <div className="min-h-screen bg-white flex items-center justify-center px-4">
+        <Card className="max-w-md w-full border shadow-sm">
+          <CardHeader className="text-center">
+            <Lock className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+            <CardTitle>Link unavailable</CardTitle>
+            <CardDescription>{result.error}. Please ask your recruiter for a new link.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const { candidate, share } = result;
+  const name = [candidate.firstName, candidate.lastName].filter(Boolean).join(' ') || 'Candidate';
+  const visitsRemaining = share.maxVisits !== null ? share.maxVisits - share.currentVisits : null;
+
+  return (
+    <div className="min-h-screen bg-white py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">{name}</h1>
+          <div className="flex flex-wrap gap-2">
+            {candidate.sections.map(section => (
+              <Badge key={section} className="bg-gray-100 text-gray-700">{SHARE_TYPE_LABELS[section]}</Badge>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500 mt-2">
+            {share.expiryDate && <>This link expires on {share.expiryDate.toDateString()}. </>}
+            {visitsRemaining !== null && <>{visitsRemaining} {visitsRemaining === 1 ? 'visit' : 'visits'} remaining.</>}
+          </p>
+        </div>
+
+        {candidate.profile ? (
+          <Card className="border shadow-sm">
+            <CardHeader className="bg-gray-50">
+              <CardTitle className="flex items-center space-x-2">
+                <Briefcase className="h-5 w-5 text-gray-600" />
+                <span>Profile</span>
+              </CardTitle>
+              <CardDescription>
+                {[candidate.profile.jobTitle, candidate.profile.experience !== null ? `${candidate.profile.experience} years experience` : null]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-6 space-y-4">
+              {candidate.profile.location && (
+                <p className="flex items-center text-gray-700">
+                  <MapPin className="h-4 w-4 mr-2" />
+                  {candidate.profile.location}
+                  {candidate.profile.relocate && <span className="ml-2 text-sm text-gray-500">(Open to relocation: {candidate.profile.relocate})</span>}
+                </p>
+              )}
+              {candidate.profile.noticePeriod && (
+                <p className="text-gray-700">Notice period: {candidate.profile.noticePeriod}</p>
+              )}
+              {candidate.profile.profileSummary && (
+                <p className="text-gray-700 whitespace-pre-line">{candidate.profile.profileSummary}</p>
+              )}
+              {candidate.profile.skills.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {candidate.profile.skills.map(skill => (
+                    <Badge key={skill} variant="outline">{skill}</Badge>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <HiddenSection title="Profile" />
+        )}
+
+        {candidate.contact ? (
+          <Card className="border shadow-sm">
+            <CardHeader className="bg-gray-50">
+              <CardTitle>Contact Info</CardTitle>
+            </CardHeader>
+            <CardContent className="p-6 space-y-2 text-gray-700">
+              {candidate.contact.email && (
+                <p className="flex items-center"><Mail className="h-4 w-4 mr-2" />{candidate.contact.email}</p>
+              )}
+              {candidate.contact.phone && (
+                <p className="flex items-center"><Phone className="h-4 w-4 mr-2" />{candidate.contact.phone}</p>
+              )}
+              {candidate.contact.linkedin && <p>LinkedIn: {candidate.contact.linkedin}</p>}
+              {candidate.contact.github && <p>GitHub: {candidate.contact.github}</p>}
+            </CardContent>
+          </Card>
+        ) : (
+          <HiddenSection title="Contact info" />
+        )}
+
+        {candidate.resume ? (
+          <Card className="border shadow-sm">
+            <CardHeader className="bg-gray-50">
+              <CardTitle>Resume</CardTitle>
+            </CardHeader>
+            <CardContent className="p-6">
+              {candidate.resume.url ? (
+                <a href={candidate.resume.url} target="_blank" rel="noopener noreferrer">
+                  <Button variant="outline">
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Resume
+                  </Button>
+                </a>
+              ) : (
+                <p className="text-gray-500">No resume on file</p>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <HiddenSection title="Resume" />
+        )}
+
+        {candidate.interviewFeedback ? (
+          <Card className="border shadow-sm">
+            <CardHeader className="bg-gray-50">
+              <CardTitle>Interview Feedback</CardTitle>
+            </CardHeader>
+            <CardContent className="p-6 space-y-4">
+              {candidate.interviewFeedback.length === 0 ? (
+                <p className="text-gray-500">No completed interviews yet</p>
+              ) : (
+                candidate.interviewFeedback.map((interview, index) => (
+                  <div key={index} className="p-4 border border-gray-200 rounded-lg">
+                    <div className="flex items-center justify-between mb-2">
+                      <h4 className="font-semibold text-gray-900">{interview.title}</h4>
+                      {interview.rating ? (
+                        <span className="flex items-center text-gray-700">
+                          <Star className="h-4 w-4 mr-1" />
+                          {interview.rating}/5
+                        </span>
+                      ) : null}
+                    </div>
+                    <p className="text-sm text-gray-500 mb-2">
+                      {interview.type.replace(/_/g, ' ')} · {interview.scheduledAt.toDateString()}
+                    </p>
+                    {interview.feedback && <p className="text-gray-700">{interview.feedback}</p>}
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <HiddenSection title="Interview feedback" />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Eye, EyeOff, LogIn } from 'lucide-react'
+import { useAuth } from '@/context/AuthContext'
 
 export function RecruiterLoginForm() {
   const [email, setEmail] = useState('')
@@ -16,6 +17,7 @@ export function RecruiterLoginForm() {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
   const router = useRouter()
+  const { login } = useAuth()
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -34,9 +36,8 @@ export function RecruiterLoginForm() {
       const data = await response.json()
 
       if (data.success) {
-        // Store token and user data
-        localStorage.setItem('token', data.data.token)
-        localStorage.setItem('user', JSON.stringify(data.data.user))
+        // Use auth context to login
+        login(data.data.user, data.data.token, data.data.expiresIn)
         
         // Redirect to recruiter dashboard
         router.push('/recruiter/dashboard')
@@ -120,14 +121,6 @@ export function RecruiterLoginForm() {
             )}
           </Button>
         </form>
-
-        <div className="mt-6 p-4 bg-gray-50 rounded-lg">
-          <p className="text-sm text-gray-600 font-medium">Demo Credentials:</p>
-          <p className="text-xs text-gray-500 mt-1">
-            Email: admin@tropl.ai<br />
-            Password: admin123
-          </p>
-        </div>
       </CardContent>
     </Card>
   )
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/context/AuthContext";
+
+interface AuditEvent {
+  id: string;
+  action: 'CREATE' | 'UPDATE' | 'DELETE';
+  context?: string | null;
+  changes?: Record<string, { from: unknown; to: unknown }> | null;
+  actorEmail?: string | null;
+  actorRole?: string | null;
+  ipAddress?: string | null;
+  createdAt: string;
+}
+
+interface AuditTimelineProps {
+  entityType: 'CANDIDATE' | 'JOB' | 'CLIENT' | 'VENDOR' | 'APPLICATION';
+  entityId: string;
+}
+
+const PAGE_SIZE = 10;
+
+const ACTION_LABELS: Record<AuditEvent['action'], string> = {
+  CREATE: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+};
+
+const actionVariant = (action: AuditEvent['action']) => {
+  if (action === 'CREATE') return 'default';
+  if (action === 'DELETE') return 'destructive';
+  return 'secondary';
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Who changed what on a record, newest first. The audit log is admin-only, so callers
+// should only render this for admins.
+export function AuditTimeline({ entityType, entityId }: AuditTimelineProps) {
+  const { token } = useAuth();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchEvents = async (nextPage: number) => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const params = new URLSearchParams({ entityType, entityId, page: String(nextPage), limit: String(PAGE_SIZE) });
+      const response = await fetch(`/api/audit?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || 'Failed to load history');
+        return;
+      }
+
+      setEvents(previous => nextPage === 1 ? data.data : [...previous, ...data.data]);
+      setPage(nextPage);
+      setTotalPages(data.pagination?.totalPages || 1);
+    } catch {
+      setError('Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (token) {
+      fetchEvents(1);
+    }
+  }, [token, entityType, entityId]);
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!loading && !error && events.length === 0 && (
+        <p className="text-sm text-gray-500">No changes recorded yet</p>
+      )}
+
+      <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+        {events.map(event => {
+          const changes = Object.entries(event.changes || {});
+          return (
+            <li key={event.id} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant={actionVariant(event.action)}>{ACTION_LABELS[event.action]}</Badge>
+                {event.context && <Badge variant="outline">{event.context}</Badge>}
+                <span className="text-gray-700">{event.actorEmail || 'System'}</span>
+                <span className="text-gray-400">{new Date(event.createdAt).toLocaleString()}</span>
+              </div>
+              {event.action === 'UPDATE' && changes.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+                  {changes.map(([field, change]) => (
+                    <li key={field} className="break-all">
+                      <span className="font-medium">{field}</span>: {formatValue(change.from)} → {formatValue(change.to)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+
+      {!loading && page < totalPages && (
+        <Button variant="outline" size="sm" onClick={() => fetchEvents(page + 1)}>
+          Show older changes
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -39,6 +39,7 @@ export function ClientsActions({ onClientAdded }: ClientsActionsProps) {
       <ImportClientModal 
         open={showImportModal} 
         onOpenChange={setShowImportModal} 
+        onClientsImported={onClientAdded}
       />
     </div>
   );
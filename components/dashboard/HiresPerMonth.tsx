@@ -7,16 +7,18 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { format, parse } from "date-fns";
+import { useDashboardData } from "@/hooks/useDashboardData";
 
-const data = [
-  { month: "Jan 2024", hires: 12, daysToHire: 25 },
-  { month: "Feb 2024", hires: 15, daysToHire: 22 },
-  { month: "Mar 2024", hires: 18, daysToHire: 20 },
-  { month: "Apr 2024", hires: 14, daysToHire: 23 },
-  { month: "May 2024", hires: 16, daysToHire: 21 },
-];
+interface MonthlyHires {
+  month: string; // yyyy-MM
+  hires: number;
+  averageDaysToHire: number;
+}
 
 export function HiresPerMonth() {
+  const { data, isLoading } = useDashboardData<MonthlyHires[]>("/api/dashboard/hires", []);
+
   return (
     <Card>
       <CardHeader>
@@ -32,16 +34,24 @@ export function HiresPerMonth() {
             </TableRow>
           </TableHeader>
           <TableBody>
-            {data.map((row) => (
-              <TableRow key={row.month}>
-                <TableCell>{row.month}</TableCell>
-                <TableCell>{row.hires}</TableCell>
-                <TableCell>{row.daysToHire}</TableCell>
+            {data.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3} className="text-center text-gray-500">
+                  {isLoading ? "Loading..." : "No hires in this period"}
+                </TableCell>
               </TableRow>
-            ))}
+            ) : (
+              data.map((row) => (
+                <TableRow key={row.month}>
+                  <TableCell>{format(parse(row.month, "yyyy-MM", new Date()), "MMM yyyy")}</TableCell>
+                  <TableCell>{row.hires}</TableCell>
+                  <TableCell>{row.averageDaysToHire}</TableCell>
+                </TableRow>
+              ))
+            )}
           </TableBody>
         </Table>
       </CardContent>
     </Card>
   );
-} 
\ No newline at end of file
+}
@@ -24,100 +24,49 @@ import {
 } from "@/components/ui/popover";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
-import { useDashboard } from "@/context/DashboardContext";
+import { useDashboardData } from "@/hooks/useDashboardData";
 
-const options = [
-  "Pre Screening",
-  "Level 1 Interview",
-  "Level 2 Interview",
-  "Final Interview",
-  "Submitted",
-  "Job Offered",
-  "Rejected",
-  "Offer Rejected",
-  "Hired",
-];
+const stageOptions: Record<string, string> = {
+  "Applied": "APPLIED",
+  "Screening": "SCREENING",
+  "Phone Interview": "PHONE_INTERVIEW",
+  "Technical Interview": "TECHNICAL_INTERVIEW",
+  "Final Interview": "FINAL_INTERVIEW",
+  "Offer Extended": "OFFER_EXTENDED",
+  "Hired": "OFFER_ACCEPTED",
+  "Rejected": "REJECTED",
+  "Withdrawn": "WITHDRAWN",
+};
+
+const options = Object.keys(stageOptions);
 
 const optionColors: Record<string, string> = {
-  "Pre Screening": "#17a2b8",
-  "Level 1 Interview": "#ffd59e",
-  "Level 2 Interview": "#a86f1a",
+  "Applied": "#26c6da",
+  "Screening": "#17a2b8",
+  "Phone Interview": "#ffd59e",
+  "Technical Interview": "#a86f1a",
   "Final Interview": "#b39ddb",
-  "Submitted": "#26c6da",
-  "Job Offered": "#bdbdbd",
-  "Rejected": "#e57373",
-  "Offer Rejected": "#ffb74d",
+  "Offer Extended": "#bdbdbd",
   "Hired": "#102542",
+  "Rejected": "#e57373",
+  "Withdrawn": "#ffb74d",
 };
 
-const recruiters = [
-  { id: "1", name: "John Doe" },
-  { id: "2", name: "Jane Smith" },
-  { id: "3", name: "Mike Johnson" },
-  { id: "4", name: "Rohit C" },
-];
-
-const recruiterStageData: Record<string, Record<string, number>> = {
-  "1": {
-    "Pre Screening": 2,
-    "Level 1 Interview": 1,
-    "Level 2 Interview": 0,
-    "Final Interview": 0,
-    "Submitted": 1,
-    "Job Offered": 0,
-    "Rejected": 0,
-    "Offer Rejected": 0,
-    "Hired": 0,
-  },
-  "2": {
-    "Pre Screening": 1,
-    "Level 1 Interview": 0,
-    "Level 2 Interview": 1,
-    "Final Interview": 0,
-    "Submitted": 1,
-    "Job Offered": 0,
-    "Rejected": 0,
-    "Offer Rejected": 0,
-    "Hired": 1,
-  },
-  "3": {
-    "Pre Screening": 0,
-    "Level 1 Interview": 0,
-    "Level 2 Interview": 0,
-    "Final Interview": 0,
-    "Submitted": 0,
-    "Job Offered": 0,
-    "Rejected": 0,
-    "Offer Rejected": 0,
-    "Hired": 0,
-  },
-  "4": {
-    "Pre Screening": 3,
-    "Level 1 Interview": 1,
-    "Level 2 Interview": 2,
-    "Final Interview": 0,
-    "Submitted": 3,
-    "Job Offered": 0,
-    "Rejected": 0,
-    "Offer Rejected": 0,
-    "Hired": 1,
-  },
-};
+interface RecruiterStages {
+  id: string;
+  name: string;
+  stages: Record<string, number>;
+  total: number;
+}
 
 export function RecruiterSummary() {
-  const [selected, setSelected] = useState<string[]>(["Submitted", "Hired"]);
-  const { selectedRecruiter } = useDashboard();
-
-  // Find recruiter name
-  const recruiter = recruiters.find((r) => r.id === selectedRecruiter) || recruiters[0];
-  const stageData = recruiterStageData[recruiter.id] || {};
+  const [selected, setSelected] = useState<string[]>(["Applied", "Hired"]);
+  const { data: recruiters, isLoading } = useDashboardData<RecruiterStages[]>("/api/dashboard/recruiters", []);
 
-  const chartData = [
-    {
-      name: recruiter.name,
-      ...Object.fromEntries(selected.map((stage) => [stage, stageData[stage] || 0]))
-    },
-  ];
+  const chartData = recruiters.map((recruiter) => ({
+    name: recruiter.name,
+    ...Object.fromEntries(selected.map((option) => [option, recruiter.stages[stageOptions[option]] || 0])),
+  }));
 
   return (
     <Card>
@@ -180,6 +129,10 @@ export function RecruiterSummary() {
           <div className="h-[300px] flex items-center justify-center text-gray-400 text-lg">
             Please select at least one stage to view chart data.
           </div>
+        ) : chartData.length === 0 ? (
+          <div className="h-[300px] flex items-center justify-center text-gray-400 text-lg">
+            {isLoading ? "Loading..." : "No recruiters found."}
+          </div>
         ) : (
           <div className="h-[300px]">
             <ResponsiveContainer width="100%" height="100%">
@@ -2,35 +2,46 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import React, { useState } from "react";
+import { format } from "date-fns";
+import { useDashboardData } from "@/hooks/useDashboardData";
 
-const data = [
-    { name: "SOURCED", value: 1, fill: "#4ECDC4" },             // teal
-    { name: "PRE SCREENING", value: 2, fill: "#FFB703" },        // amber
-    { name: "LEVEL 1 INTERVIEW", value: 0, fill: "#4361EE" },    // blue
-    { name: "LEVEL 2 INTERVIEW", value: 0, fill: "#3A0CA3" },    // indigo
-    { name: "FINAL INTERVIEW", value: 0, fill: "#7209B7" },      // purple
-    { name: "SUBMITTED", value: 0, fill: "#8338EC" },            // violet
-    { name: "JOB OFFERED", value: 0, fill: "#9D4EDD" },          // lavender
-    { name: "REJECTED", value: 0, fill: "#F94144" },             // red
-    { name: "OFFER REJECTED", value: 0, fill: "#F3722C" },       // orange
-    { name: "HIRED", value: 0, fill: "#06D6A0" },                // green
-  ];
+interface FunnelStage {
+  stage: string;
+  label: string;
+  count: number;
+}
+
+const stageColors: Record<string, string> = {
+  APPLIED: "#4ECDC4",             // teal
+  SCREENING: "#FFB703",           // amber
+  PHONE_INTERVIEW: "#4361EE",     // blue
+  TECHNICAL_INTERVIEW: "#3A0CA3", // indigo
+  FINAL_INTERVIEW: "#7209B7",     // purple
+  OFFER_EXTENDED: "#9D4EDD",      // lavender
+  OFFER_ACCEPTED: "#06D6A0",      // green
+  REJECTED: "#F94144",            // red
+  WITHDRAWN: "#F3722C",           // orange
+};
 
 export function RecruitmentFunnel() {
-  const maxValue = Math.max(...data.map((item) => item.value));
+  const { data, isLoading } = useDashboardData<FunnelStage[]>("/api/dashboard/funnel", []);
+  const [openStage, setOpenStage] = useState<FunnelStage | null>(null);
+  const { data: applications, isLoading: applicationsLoading } = useDashboardData<any[]>(
+    openStage ? "/api/dashboard/funnel/applications" : null,
+    [],
+    openStage ? { stage: openStage.stage, limit: "50" } : undefined
+  );
+
   const totalStages = data.length;
-  const totalValue = data.reduce((sum, item) => sum + item.value, 0);
-  const [openStage, setOpenStage] = useState<string | null>(null);
+  const totalValue = data.reduce((sum, item) => sum + item.count, 0);
 
-  // Find the currently open stage's data
-  const currentStage = data.find((item) => item.name === openStage);
-  const rowCount = currentStage ? currentStage.value : 0;
-  const dummyRows = Array.from({ length: rowCount }, (_, i) => ({
-    candidate: `Candidate ${i + 1}`,
-    client: `Client ${i + 1}`,
-    job: `Job ${i + 1}`,
-    submittedBy: `Recruiter ${i + 1}`,
-    date: `2024-06-1${i + 1}`
+  const rows = applications.map((application) => ({
+    id: application.id,
+    candidate: [application.candidate?.firstName, application.candidate?.lastName].filter(Boolean).join(" ") || "-",
+    client: application.job?.client?.name || "-",
+    job: application.job?.jobTitle || "-",
+    submittedBy: application.job?.recruiter?.user?.name || "-",
+    date: format(new Date(application.appliedAt), "yyyy-MM-dd"),
   }));
 
   return (
@@ -40,49 +51,53 @@ export function RecruitmentFunnel() {
           <CardTitle className="text-lg font-semibold text-gray-700">Recruitment Funnel</CardTitle>
         </CardHeader>
         <CardContent className="py-8">
-          <div className="relative flex flex-col items-center space-y-2">
-            {[...data].map((item, index) => {
-              const baseWidth = 90;
-              const widthReduction = (index / totalStages) * 30;
-              const width = Math.max(baseWidth - widthReduction, 30);
-              const percentage = totalValue > 0 ? ((item.value / totalValue) * 100).toFixed(1) : "0.0";
+          {isLoading && data.length === 0 ? (
+            <div className="h-[300px] flex items-center justify-center text-gray-500">Loading...</div>
+          ) : (
+            <div className="relative flex flex-col items-center space-y-2">
+              {data.map((item, index) => {
+                const baseWidth = 90;
+                const widthReduction = (index / totalStages) * 30;
+                const width = Math.max(baseWidth - widthReduction, 30);
+                const percentage = totalValue > 0 ? ((item.count / totalValue) * 100).toFixed(1) : "0.0";
 
-              return (
-                <Tooltip key={index}>
-                  <TooltipTrigger asChild>
-                    <div className="relative w-full flex justify-center transition-all duration-500 ease-in-out hover:scale-[1.02]">
-                      <div
-                        className={`relative h-8 flex items-center justify-between px-4 text-white font-medium text-sm shadow-md transition-all duration-300 ${
-                          item.value === 0 ? 'opacity-40 grayscale' : ''
-                        } cursor-pointer`}
-                        style={{
-                          backgroundColor: item.fill,
-                          width: `${width}%`,
-                          clipPath:
-                            'polygon(10px 0, calc(100% - 10px) 0, 100% 50%, calc(100% - 10px) 100%, 10px 100%, 0 50%)',
-                        }}
-                        onClick={() => setOpenStage(item.name)}
-                      >
-                        <span className="uppercase tracking-wide text-xs">{item.name}</span>
-                        <span className="text-white font-bold text-sm">{item.value}</span>
+                return (
+                  <Tooltip key={item.stage}>
+                    <TooltipTrigger asChild>
+                      <div className="relative w-full flex justify-center transition-all duration-500 ease-in-out hover:scale-[1.02]">
+                        <div
+                          className={`relative h-8 flex items-center justify-between px-4 text-white font-medium text-sm shadow-md transition-all duration-300 ${
+                            item.count === 0 ? 'opacity-40 grayscale' : ''
+                          } cursor-pointer`}
+                          style={{
+                            backgroundColor: stageColors[item.stage] || "#9CA3AF",
+                            width: `${width}%`,
+                            clipPath:
+                              'polygon(10px 0, calc(100% - 10px) 0, 100% 50%, calc(100% - 10px) 100%, 10px 100%, 0 50%)',
+                          }}
+                          onClick={() => setOpenStage(item)}
+                        >
+                          <span className="uppercase tracking-wide text-xs">{item.label}</span>
+                          <span className="text-white font-bold text-sm">{item.count}</span>
+                        </div>
                       </div>
-                    </div>
-                  </TooltipTrigger>
-                  <TooltipContent side="right">
-                    <p>
-                      {item.name}: {item.value} candidates ({percentage}%)
-                    </p>
-                  </TooltipContent>
-                </Tooltip>
-              );
-            })}
-          </div>
+                    </TooltipTrigger>
+                    <TooltipContent side="right">
+                      <p>
+                        {item.label}: {item.count} candidates ({percentage}%)
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                );
+              })}
+            </div>
+          )}
         </CardContent>
       </Card>
       <Dialog open={!!openStage} onOpenChange={() => setOpenStage(null)}>
         <DialogContent className="max-w-[900px] w-full">
           <DialogHeader>
-            <DialogTitle>{openStage}</DialogTitle>
+            <DialogTitle>{openStage?.label}</DialogTitle>
           </DialogHeader>
           <div className="mt-2">
             <table className="w-full border-separate border-spacing-y-2">
@@ -96,13 +111,17 @@ export function RecruitmentFunnel() {
                 </tr>
               </thead>
               <tbody>
-                {dummyRows.length === 0 ? (
+                {applicationsLoading ? (
+                  <tr>
+                    <td colSpan={5} className="text-center py-6 text-gray-500">Loading...</td>
+                  </tr>
+                ) : rows.length === 0 ? (
                   <tr>
                     <td colSpan={5} className="text-center py-6 text-gray-500">No Data Available</td>
                   </tr>
                 ) : (
-                  dummyRows.map((row, idx) => (
-                    <tr key={idx} className="bg-white text-gray-700 text-base">
+                  rows.map((row) => (
+                    <tr key={row.id} className="bg-white text-gray-700 text-base">
                       <td className="px-4 py-2 font-medium">{row.candidate}</td>
                       <td className="px-4 py-2">{row.client}</td>
                       <td className="px-4 py-2">{row.job}</td>
@@ -1,16 +1,68 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useDashboardData } from "@/hooks/useDashboardData";
+
+interface RejectionData {
+  total: number;
+  byReason: Array<{ reason: string; count: number }>;
+  byStage: Array<{ stage: string; count: number }>;
+}
+
+const formatStage = (stage: string) =>
+  stage.toLowerCase().split("_").map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
 
 export function RejectionSummary() {
+  const { data, isLoading } = useDashboardData<RejectionData>(
+    "/api/dashboard/rejections",
+    { total: 0, byReason: [], byStage: [] }
+  );
+
   return (
     <Card>
       <CardHeader>
         <CardTitle className="text-base font-semibold">Rejection Summary</CardTitle>
       </CardHeader>
       <CardContent>
-        <div className="h-[300px] flex items-center justify-center text-gray-500">
-          Coming Soon
-        </div>
+        {data.total === 0 ? (
+          <div className="h-[300px] flex items-center justify-center text-gray-500">
+            {isLoading ? "Loading..." : "No rejections in this period"}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">By Reason</p>
+              <div className="space-y-2">
+                {data.byReason.map((item) => (
+                  <div key={item.reason}>
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span className="truncate pr-2">{item.reason}</span>
+                      <span className="font-medium">{item.count}</span>
+                    </div>
+                    <div className="h-2 rounded bg-gray-100">
+                      <div
+                        className="h-2 rounded bg-red-400"
+                        style={{ width: `${(item.count / data.total) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+            {data.byStage.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Rejected At</p>
+                <div className="space-y-1">
+                  {data.byStage.map((item) => (
+                    <div key={item.stage} className="flex justify-between text-sm text-gray-600">
+                      <span>{formatStage(item.stage)}</span>
+                      <span className="font-medium">{item.count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
-} 
\ No newline at end of file
+}
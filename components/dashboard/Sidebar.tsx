@@ -17,6 +17,8 @@ import {
   LogOut,
   ChevronLeft,
   ChevronRight,
+  Bell,
+  Inbox,
 } from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
@@ -76,6 +78,12 @@ const menuItems = [
     icon: MessageSquare,
     color: "text-orange-500",
   },
+  {
+    title: "Notifications",
+    href: "/recruiter/notifications",
+    icon: Bell,
+    color: "text-orange-400",
+  },
   {
     title: "Settings",
     href: "/recruiter/settings",
@@ -87,6 +95,14 @@ const menuItems = [
     href: "/recruiter/user-setup",
     icon: UserPlus,
     color: "text-orange-500",
+    adminOnly: true,
+  },
+  {
+    title: "Inquiries",
+    href: "/recruiter/inquiries",
+    icon: Inbox,
+    color: "text-orange-400",
+    adminOnly: true,
   },
   {
     title: "Expenses",
@@ -106,7 +122,8 @@ export function Sidebar() {
   const pathname = usePathname();
   const router = useRouter();
   const [isCollapsed, setIsCollapsed] = useState(false);
-  const { logout } = useAuth();
+  const { user, logout, logoutAll } = useAuth();
+  const visibleItems = menuItems.filter(item => !item.adminOnly || user?.role === 'ADMIN');
 
   const handleLogout = () => {
     // Use auth context logout
@@ -116,6 +133,11 @@ export function Sidebar() {
     router.push('/');
   };
 
+  const handleLogoutAll = async () => {
+    await logoutAll();
+    router.push('/');
+  };
+
   return (
     <div className={cn(
       "hidden md:flex flex-col bg-gray-800 border-r border-gray-700 transition-all duration-300",
@@ -137,7 +159,7 @@ export function Sidebar() {
       </div>
 
       <nav className="flex-1 px-2 space-y-1">
-        {menuItems.map((item) => {
+        {visibleItems.map((item) => {
           const isActive = pathname === item.href;
           return (
             <Link
@@ -179,6 +201,12 @@ export function Sidebar() {
             </AlertDialogHeader>
             <AlertDialogFooter>
               <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleLogoutAll}
+                className="bg-white text-red-600 border border-red-600 hover:bg-red-50"
+              >
+                Logout on all devices
+              </AlertDialogAction>
               <AlertDialogAction 
                 onClick={handleLogout}
                 className="bg-red-600 hover:bg-red-700"
@@ -16,15 +16,36 @@ import { CalendarIcon } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useDashboard } from "@/context/DashboardContext";
+import { useAuth } from "@/context/AuthContext";
+import { useEffect, useState } from "react";
 
-const recruiters = [
-  { id: "1", name: "John Doe" },
-  { id: "2", name: "Jane Smith" },
-  { id: "3", name: "Mike Johnson" },
-];
+// Select items cannot have an empty value, so "all" stands in for no recruiter filter
+const ALL_RECRUITERS = "all";
 
 export function TopBar() {
   const { selectedRecruiter, setSelectedRecruiter, dateRange, setDateRange } = useDashboard();
+  const { token } = useAuth();
+  const [recruiters, setRecruiters] = useState<Array<{ id: string; name: string }>>([]);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchRecruiters = async () => {
+      try {
+        const response = await fetch("/api/dashboard/recruiters", {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        const result = await response.json();
+        if (result.success) {
+          setRecruiters(result.data.map((recruiter: any) => ({ id: recruiter.id, name: recruiter.name })));
+        }
+      } catch (error) {
+        console.error("Failed to fetch recruiters:", error);
+      }
+    };
+
+    fetchRecruiters();
+  }, [token]);
 
   return (
     <div className="h-16 border-b px-4 flex items-center justify-between bg-white">
@@ -32,11 +53,15 @@ export function TopBar() {
       <h1 className="text-xl font-bold text-gray-900">Recruitment Analysis</h1>
       {/* Right: Controls */}
       <div className="flex items-center gap-4">
-        <Select value={selectedRecruiter} onValueChange={setSelectedRecruiter}>
+        <Select
+          value={selectedRecruiter || ALL_RECRUITERS}
+          onValueChange={(value) => setSelectedRecruiter(value === ALL_RECRUITERS ? "" : value)}
+        >
           <SelectTrigger className="w-[180px]">
             <SelectValue placeholder="Select Recruiter" />
           </SelectTrigger>
           <SelectContent>
+            <SelectItem value={ALL_RECRUITERS}>All Recruiters</SelectItem>
             {recruiters.map((recruiter) => (
               <SelectItem key={recruiter.id} value={recruiter.id}>
                 {recruiter.name}
@@ -10,41 +10,22 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { MoreHorizontal } from "lucide-react";
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
-import { useState } from "react";
-import { parseISO, isToday, isTomorrow, isThisWeek, isThisMonth } from 'date-fns';
+import { useEffect, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useDashboard } from "@/context/DashboardContext";
+import { format, parseISO, isToday, isTomorrow, isThisWeek, isThisMonth, startOfDay, endOfDay } from 'date-fns';
 
-const data = [
-  {
-    candidate: "John Smith",
-    contactNo: "+1 234-567-8901",
-    email: "john.smith@email.com",
-    job: "Senior Developer",
-    client: "Tech Corp",
-    type: "Technical",
-    submittedBy: "Sarah M.",
-    date: "2024-03-15",
-  },
-  {
-    candidate: "Emily Johnson",
-    contactNo: "+1 234-567-8902",
-    email: "emily.j@email.com",
-    job: "Product Manager",
-    client: "Innovate Inc",
-    type: "HR",
-    submittedBy: "Mike R.",
-    date: "2024-03-16",
-  },
-  {
-    candidate: "Michael Brown",
-    contactNo: "+1 234-567-8903",
-    email: "michael.b@email.com",
-    job: "UX Designer",
-    client: "Design Co",
-    type: "Technical",
-    submittedBy: "Lisa K.",
-    date: "2024-03-17",
-  },
-];
+interface InterviewRow {
+  id: string;
+  candidate: string;
+  contactNo: string;
+  email: string;
+  job: string;
+  client: string;
+  type: string;
+  submittedBy: string;
+  date: string;
+}
 
 const filterOptions = [
   { value: "today", label: "Today" },
@@ -57,6 +38,67 @@ const filterOptions = [
 
 export function UpcomingInterviews() {
   const [filter, setFilter] = useState("this_week");
+  const [data, setData] = useState<InterviewRow[]>([]);
+  const { token } = useAuth();
+  const { selectedRecruiter, dateRange } = useDashboard();
+  // A date range picked in the top bar replaces the quick filters
+  const usingDateRange = !!dateRange?.from;
+
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchInterviews = async () => {
+      try {
+        // Without a picked range, cover every filter option from the start of today to the end of next month
+        let from = new Date();
+        from.setHours(0, 0, 0, 0);
+        let to = new Date(from.getFullYear(), from.getMonth() + 2, 0, 23, 59, 59, 999);
+        if (dateRange?.from) {
+          from = startOfDay(dateRange.from);
+          to = endOfDay(dateRange.to ?? dateRange.from);
+        }
+        const params = new URLSearchParams({
+          from: from.toISOString(),
+          to: to.toISOString(),
+          limit: "100",
+          sortBy: "scheduledAt",
+          sortOrder: "asc",
+        });
+        if (selectedRecruiter) {
+          params.set("recruiterId", selectedRecruiter);
+        }
+
+        const response = await fetch(`/api/interviews?${params.toString()}`, {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          setData(
+            (result.data || [])
+              .filter((interview: any) => interview.status !== "CANCELLED" && interview.status !== "COMPLETED")
+              .map((interview: any) => ({
+                id: interview.id,
+                candidate: [interview.candidate?.firstName, interview.candidate?.lastName].filter(Boolean).join(" "),
+                contactNo: interview.candidate?.phone || "-",
+                email: interview.candidate?.email || "-",
+                job: interview.job?.jobTitle || "-",
+                client: interview.job?.client?.name || "-",
+                type: interview.type,
+                submittedBy: interview.recruiter?.user?.name || "-",
+                date: interview.scheduledAt,
+              }))
+          );
+        }
+      } catch (error) {
+        console.error("Failed to fetch interviews:", error);
+      }
+    };
+
+    fetchInterviews();
+  }, [token, selectedRecruiter, dateRange]);
 
   // Helper functions for date filtering
   function isDateInFilter(dateStr: string, filter: string) {
@@ -90,14 +132,14 @@ export function UpcomingInterviews() {
     }
   }
 
-  const filteredData = data.filter(row => isDateInFilter(row.date, filter));
+  const filteredData = usingDateRange ? data : data.filter(row => isDateInFilter(row.date, filter));
 
   return (
     <Card>
       <CardHeader className="flex flex-row items-center justify-between">
         <CardTitle className="text-base font-semibold">Upcoming Interviews</CardTitle>
         <div className="w-[160px]">
-          <Select value={filter} onValueChange={setFilter}>
+          <Select value={filter} onValueChange={setFilter} disabled={usingDateRange}>
             <SelectTrigger>
               <SelectValue />
             </SelectTrigger>
@@ -132,8 +174,8 @@ export function UpcomingInterviews() {
                 <TableCell colSpan={9} className="text-center text-gray-400">No interviews found.</TableCell>
               </TableRow>
             ) : (
-              filteredData.map((row, index) => (
-                <TableRow key={index}>
+              filteredData.map((row) => (
+                <TableRow key={row.id}>
                   <TableCell>{row.candidate}</TableCell>
                   <TableCell>{row.contactNo}</TableCell>
                   <TableCell>{row.email}</TableCell>
@@ -141,7 +183,7 @@ export function UpcomingInterviews() {
                   <TableCell>{row.client}</TableCell>
                   <TableCell>{row.type}</TableCell>
                   <TableCell>{row.submittedBy}</TableCell>
-                  <TableCell>{row.date}</TableCell>
+                  <TableCell>{format(parseISO(row.date), "yyyy-MM-dd HH:mm")}</TableCell>
                   <TableCell>
                     <Button variant="ghost" size="icon">
                       <MoreHorizontal className="h-4 w-4" />
@@ -0,0 +1,303 @@
+import { useState, useEffect } from "react";
+import { Archive, Building2, Inbox, Loader2 } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/context/AuthContext";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface Inquiry {
+  id: string;
+  name: string;
+  email: string;
+  company?: string | null;
+  role?: string | null;
+  inquiryType: string;
+  message: string;
+  status: 'NEW' | 'CONVERTED' | 'ARCHIVED';
+  emailSent: boolean;
+  createdAt: string;
+  client?: { id: string; name: string; status: string } | null;
+}
+
+const STATUSES = ['NEW', 'CONVERTED', 'ARCHIVED'] as const;
+const INQUIRY_TYPES = ['SALES', 'DEMO', 'SUPPORT', 'PARTNERSHIP', 'GENERAL', 'OTHER'] as const;
+
+const statusVariant = (status: Inquiry['status']) => {
+  if (status === 'NEW') return 'default';
+  if (status === 'CONVERTED') return 'outline';
+  return 'secondary';
+};
+
+export function InquiriesTable() {
+  const [inquiries, setInquiries] = useState<Inquiry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [query, setQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState('NEW');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { token } = useAuth();
+
+  const fetchInquiries = async () => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const params = new URLSearchParams({ page: String(page), limit: '20' });
+      if (query.trim()) params.set('query', query.trim());
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      if (typeFilter !== 'all') params.set('inquiryType', typeFilter);
+
+      const response = await fetch(`/api/admin/inquiries?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setInquiries(data.data || []);
+        setTotalPages(data.pagination?.totalPages || 1);
+      } else {
+        setError(data.error || 'Failed to fetch inquiries');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (token) {
+      fetchInquiries();
+    }
+  }, [token, page, statusFilter, typeFilter]);
+
+  const convertInquiry = async (inquiry: Inquiry) => {
+    setBusyId(inquiry.id);
+    setError('');
+    setNotice('');
+    try {
+      const response = await fetch(`/api/admin/inquiries/${inquiry.id}/convert`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        const client = data.data.client;
+        setInquiries(prev => prev.map(entry => entry.id === inquiry.id
+          ? { ...data.data.inquiry, client: { id: client.id, name: client.name, status: client.status } }
+          : entry));
+        setNotice(`${client.name} was added to Clients as a prospect.`);
+      } else {
+        setError(data.error || 'Failed to convert the inquiry');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const updateStatus = async (id: string, status: 'NEW' | 'ARCHIVED') => {
+    setBusyId(id);
+    setError('');
+    setNotice('');
+    try {
+      const response = await fetch(`/api/admin/inquiries/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setInquiries(prev => prev.map(entry => entry.id === id ? { ...entry, status: data.data.status } : entry));
+      } else {
+        setError(data.error || 'Failed to update the inquiry');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (page === 1) {
+      fetchInquiries();
+    } else {
+      setPage(1);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSearch} className="flex flex-wrap gap-3">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name, email or company"
+          className="max-w-xs bg-white"
+        />
+        <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setPage(1); }}>
+          <SelectTrigger className="w-40 bg-white">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {STATUSES.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={typeFilter} onValueChange={(value) => { setTypeFilter(value); setPage(1); }}>
+          <SelectTrigger className="w-40 bg-white">
+            <SelectValue placeholder="Type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All types</SelectItem>
+            {INQUIRY_TYPES.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Button type="submit" variant="outline">Search</Button>
+      </form>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {notice && (
+        <Alert>
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4" />
+          <p className="text-gray-600">Loading inquiries...</p>
+        </div>
+      ) : inquiries.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <p className="text-gray-600">No inquiries found.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>From</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Message</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {inquiries.map((inquiry) => {
+                const busy = busyId === inquiry.id;
+                return (
+                  <TableRow key={inquiry.id}>
+                    <TableCell>
+                      <div className="font-medium">{inquiry.name}</div>
+                      <div className="text-sm text-gray-500">{inquiry.email}</div>
+                      {(inquiry.role || inquiry.company) && (
+                        <div className="text-sm text-gray-500">
+                          {[inquiry.role, inquiry.company].filter(Boolean).join(', ')}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{inquiry.inquiryType}</TableCell>
+                    <TableCell className="max-w-md">
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap line-clamp-4">{inquiry.message}</p>
+                    </TableCell>
+                    <TableCell>{new Date(inquiry.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariant(inquiry.status)}>{inquiry.status}</Badge>
+                      {inquiry.client && (
+                        <div className="text-sm text-gray-500 mt-1">{inquiry.client.name}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {inquiry.status !== 'CONVERTED' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => convertInquiry(inquiry)}
+                        >
+                          <Building2 className="w-4 h-4 mr-1" /> Add as client
+                        </Button>
+                      )}
+                      {inquiry.status === 'NEW' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => updateStatus(inquiry.id, 'ARCHIVED')}
+                        >
+                          <Archive className="w-4 h-4 mr-1" /> Archive
+                        </Button>
+                      )}
+                      {inquiry.status === 'ARCHIVED' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => updateStatus(inquiry.id, 'NEW')}
+                        >
+                          <Inbox className="w-4 h-4 mr-1" /> Restore
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex justify-end items-center space-x-2">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
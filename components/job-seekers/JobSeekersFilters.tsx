@@ -1,16 +1,54 @@
-
 import { useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Search, X, Sparkles } from "lucide-react";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
+import { Search, X, Sparkles, Loader2, SlidersHorizontal } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
 
-interface FilterState {
+// Every value is a string so the inputs can be edited freely; empty means "any".
+// Salaries are in lakhs per annum here and converted to rupees when the search runs.
+export interface FilterState {
   search: string;
   jobTitle: string;
   skills: string;
   location: string;
+  minExperience: string;
+  maxExperience: string;
+  minExpectedSalaryLpa: string;
+  maxExpectedSalaryLpa: string;
+  maxNoticePeriodDays: string;
+  availability: string;
+  relocate: string;
 }
 
+export const emptyFilters: FilterState = {
+  search: '',
+  jobTitle: '',
+  skills: '',
+  location: '',
+  minExperience: '',
+  maxExperience: '',
+  minExpectedSalaryLpa: '',
+  maxExpectedSalaryLpa: '',
+  maxNoticePeriodDays: '',
+  availability: '',
+  relocate: '',
+};
+
+const MORE_FILTER_KEYS: (keyof FilterState)[] = [
+  'minExperience', 'maxExperience', 'minExpectedSalaryLpa', 'maxExpectedSalaryLpa',
+  'maxNoticePeriodDays', 'availability', 'relocate',
+];
+
+const PARSER_LABELS: Record<string, string> = {
+  grammar: "the built-in parser",
+  gemini: "AI",
+};
+
+interface ParseInfo {
+  parser: string;
+  fallbackFrom?: { parser: string; error: string };
+}
 
 interface JobSeekersFiltersProps {
   filters: FilterState;
@@ -18,9 +56,36 @@ interface JobSeekersFiltersProps {
   onClearFilters: () => void;
 }
 
+// Filter fields returned by /api/candidates/parse-query, in the units GET /api/candidates takes
+function fromParsedFilter(filter: Record<string, any>): FilterState {
+  const text = (value: unknown) => (value === undefined || value === null ? '' : String(value));
+  const lakhs = (value: unknown) => (typeof value === 'number' ? String(Math.round((value / 100000) * 100) / 100) : '');
+  return {
+    search: text(filter.query),
+    jobTitle: text(filter.jobTitle),
+    skills: text(filter.skills),
+    location: text(filter.location),
+    minExperience: text(filter.minExperience),
+    maxExperience: text(filter.maxExperience),
+    minExpectedSalaryLpa: lakhs(filter.minExpectedSalary),
+    maxExpectedSalaryLpa: lakhs(filter.maxExpectedSalary),
+    maxNoticePeriodDays: text(filter.maxNoticePeriodDays),
+    availability: text(filter.availability),
+    relocate: text(filter.relocate),
+  };
+}
+
 export function JobSeekersFilters({ filters, onFilterChange, onClearFilters }: JobSeekersFiltersProps) {
+  const { token } = useAuth();
 
   const [localFilters, setLocalFilters] = useState<FilterState>(filters);
+  const [showMore, setShowMore] = useState(MORE_FILTER_KEYS.some(key => filters[key] !== ''));
+
+  // Natural-language search, turned into the filters below for review before it runs
+  const [description, setDescription] = useState('');
+  const [parsing, setParsing] = useState(false);
+  const [parseInfo, setParseInfo] = useState<ParseInfo | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
 
   const handleInputChange = (key: keyof FilterState, value: string) => {
     setLocalFilters(prev => ({ ...prev, [key]: value }));
@@ -38,19 +103,89 @@ export function JobSeekersFilters({ filters, onFilterChange, onClearFilters }: J
   };
 
   const handleClearAll = () => {
-    setLocalFilters({ search: '', jobTitle: '', skills: '', location: '' });
+    setLocalFilters(emptyFilters);
+    setDescription('');
+    setParseInfo(null);
+    setParseError(null);
     onClearFilters();
   };
 
+  const handleBuildFilters = async () => {
+    if (!description.trim() || !token) return;
+
+    setParsing(true);
+    setParseError(null);
+    try {
+      const response = await fetch('/api/candidates/parse-query', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ text: description.trim() }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Could not understand the search');
+      }
+
+      const parsed = fromParsedFilter(result.data.filter);
+      setLocalFilters(parsed);
+      setShowMore(MORE_FILTER_KEYS.some(key => parsed[key] !== ''));
+      setParseInfo({ parser: result.data.parser, fallbackFrom: result.data.fallbackFrom });
+    } catch (err) {
+      setParseInfo(null);
+      setParseError(err instanceof Error ? err.message : 'Could not understand the search');
+    } finally {
+      setParsing(false);
+    }
+  };
+
   return (
-    <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 space-y-4">
+      {/* Natural-language search */}
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Input
+              placeholder="Describe who you need, e.g. java devs in Pune with 5+ years, notice under 30 days, expecting under 20 LPA"
+              className="pl-9"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleBuildFilters();
+              }}
+            />
+            <Sparkles className="absolute left-3 top-2.5 h-4 w-4 text-purple-500" />
+          </div>
+          <Button
+            onClick={handleBuildFilters}
+            disabled={parsing || !description.trim()}
+            className="flex items-center gap-2 h-10"
+            variant="outline"
+            type="button"
+          >
+            {parsing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+            Build Filters
+          </Button>
+        </div>
+        {parseInfo && (
+          <p className="text-sm text-gray-600">
+            Filters filled in by {PARSER_LABELS[parseInfo.parser] ?? parseInfo.parser}
+            {parseInfo.fallbackFrom && ` (${PARSER_LABELS[parseInfo.fallbackFrom.parser] ?? parseInfo.fallbackFrom.parser} was unavailable)`}
+            . Review or change them below, then press Search.
+          </p>
+        )}
+        {parseError && <p className="text-sm text-red-600">{parseError}</p>}
+      </div>
+
       <div className="flex flex-col md:flex-row md:items-end gap-4">
         {/* Search Bars Row */}
         <div className="flex flex-1 gap-2">
-          {/* Name/Email Search */}
-          <div className="relative w-48">
+          {/* Full-text search over the whole profile and resume */}
+          <div className="relative w-64">
             <Input
-              placeholder="Search name/email"
+              placeholder='Search e.g. "data engineer" spark -intern'
               className="pl-9 pr-8"
               value={localFilters.search}
               onChange={(e) => handleInputChange('search', e.target.value)}
@@ -90,9 +225,9 @@ export function JobSeekersFilters({ filters, onFilterChange, onClearFilters }: J
           </div>
 
           {/* Skills Search */}
-          <div className="relative w-40">
+          <div className="relative w-56">
             <Input
-              placeholder="Skills"
+              placeholder="Skills e.g. react AND (node OR go)"
               className="pl-9 pr-8"
               value={localFilters.skills}
               onChange={(e) => handleInputChange('skills', e.target.value)}
@@ -136,6 +271,11 @@ export function JobSeekersFilters({ filters, onFilterChange, onClearFilters }: J
             )}
           </div>
         </div>
+        {/* More Filters Toggle */}
+        <Button onClick={() => setShowMore(prev => !prev)} className="flex items-center gap-2 h-10" variant="outline" type="button">
+          <SlidersHorizontal className="h-4 w-4" />
+          More Filters
+        </Button>
         {/* Clear All Button */}
         <Button onClick={handleClearAll} className="flex items-center gap-2 h-10 mr-2" variant="outline" type="button">
           <X className="h-4 w-4" />
@@ -147,6 +287,92 @@ export function JobSeekersFilters({ filters, onFilterChange, onClearFilters }: J
           Search
         </Button>
       </div>
+
+      {/* Experience, salary, notice and availability */}
+      {showMore && (
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="w-28">
+            <label className="text-xs text-gray-500">Min exp (yrs)</label>
+            <Input
+              type="number"
+              min={0}
+              value={localFilters.minExperience}
+              onChange={(e) => handleInputChange('minExperience', e.target.value)}
+            />
+          </div>
+          <div className="w-28">
+            <label className="text-xs text-gray-500">Max exp (yrs)</label>
+            <Input
+              type="number"
+              min={0}
+              value={localFilters.maxExperience}
+              onChange={(e) => handleInputChange('maxExperience', e.target.value)}
+            />
+          </div>
+          <div className="w-32">
+            <label className="text-xs text-gray-500">Min salary (LPA)</label>
+            <Input
+              type="number"
+              min={0}
+              step="0.5"
+              value={localFilters.minExpectedSalaryLpa}
+              onChange={(e) => handleInputChange('minExpectedSalaryLpa', e.target.value)}
+            />
+          </div>
+          <div className="w-32">
+            <label className="text-xs text-gray-500">Max salary (LPA)</label>
+            <Input
+              type="number"
+              min={0}
+              step="0.5"
+              value={localFilters.maxExpectedSalaryLpa}
+              onChange={(e) => handleInputChange('maxExpectedSalaryLpa', e.target.value)}
+            />
+          </div>
+          <div className="w-32">
+            <label className="text-xs text-gray-500">Max notice (days)</label>
+            <Input
+              type="number"
+              min={0}
+              value={localFilters.maxNoticePeriodDays}
+              onChange={(e) => handleInputChange('maxNoticePeriodDays', e.target.value)}
+            />
+          </div>
+          <div className="w-40">
+            <label className="text-xs text-gray-500">Availability</label>
+            <Select
+              value={localFilters.availability || 'any'}
+              onValueChange={(value) => handleInputChange('availability', value === 'any' ? '' : value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any</SelectItem>
+                <SelectItem value="AVAILABLE">Available</SelectItem>
+                <SelectItem value="NOTICE_PERIOD">Serving notice</SelectItem>
+                <SelectItem value="NOT_AVAILABLE">Not available</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-36">
+            <label className="text-xs text-gray-500">Relocation</label>
+            <Select
+              value={localFilters.relocate || 'any'}
+              onValueChange={(value) => handleInputChange('relocate', value === 'any' ? '' : value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any</SelectItem>
+                <SelectItem value="true">Open to relocate</SelectItem>
+                <SelectItem value="false">Not relocating</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
     </div>
   );
-} 
\ No newline at end of file
+}
\ No newline at end of file
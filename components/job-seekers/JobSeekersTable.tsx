@@ -15,10 +15,11 @@ import { Badge } from "@/components/ui/badge";
 import { Mail, Phone, MessageSquare, Eye, Pencil, Calendar as CalendarIcon, Trash2, CheckSquare, Square, Loader2, RefreshCw } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
-import { format, addDays } from "date-fns";
+import { format, addDays, endOfDay } from "date-fns";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useAuth } from "@/context/AuthContext";
 import { AddResumeModal } from "./AddResumeModal";
+import type { FilterState } from "./JobSeekersFilters";
 
 interface JobSeeker {
   id: string;
@@ -60,21 +61,79 @@ interface JobSeeker {
     applications: number;
     interviews: number;
   };
+  // Present when the list came from a text search
+  search?: {
+    score: number;
+    highlights: SearchHighlight[];
+  };
+}
+
+interface SearchHighlight {
+  field: string;
+  texts: Array<{ value: string; hit: boolean }>;
+}
+
+const highlightFieldLabels: Record<string, string> = {
+  skills: "Skills",
+  jobTitle: "Title",
+  name: "Name",
+  summary: "Summary",
+  experience: "Experience",
+  location: "Location",
+  contact: "Contact",
+  resume: "Resume",
+};
+
+interface SharedLink {
+  id: string;
+  url: string;
+  candidateName: string;
+  revoked: boolean;
 }
 
-interface FilterState {
-  search: string;
+interface PipelineJob {
+  id: string;
+  jobCode: string;
   jobTitle: string;
-  skills: string;
-  location: string;
+  jobType: string;
+  status: string;
+  client?: { name: string } | null;
+}
+
+interface PipelineResult {
+  candidateId: string;
+  status: 'created' | 'skipped' | 'not_found' | 'failed';
+  error?: string;
 }
 
+const pipelineResultLabels: Record<PipelineResult['status'], string> = {
+  created: "Submitted",
+  skipped: "Already applied",
+  not_found: "Not found",
+  failed: "Failed",
+};
+
+const jobTypeOptions = [
+  { value: "FULL_TIME", label: "Full time" },
+  { value: "PART_TIME", label: "Part time" },
+  { value: "CONTRACT", label: "Contract" },
+  { value: "FREELANCE", label: "Freelance" },
+  { value: "INTERNSHIP", label: "Internship" },
+];
+
+const shareTypeOptions = [
+  { value: "PROFILE", label: "Profile" },
+  { value: "RESUME", label: "Resume" },
+  { value: "CONTACT_INFO", label: "Contact Info" },
+  { value: "INTERVIEW_FEEDBACK", label: "Interview Feedback" },
+];
+
 interface JobSeekersTableProps {
   filters: FilterState;
 }
 
 export function JobSeekersTable({ filters }: JobSeekersTableProps) {
-  const { token, isLoading: authLoading } = useAuth();
+  const { token, user, isLoading: authLoading } = useAuth();
   const [jobSeekers, setJobSeekers] = useState<JobSeeker[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -86,11 +145,18 @@ export function JobSeekersTable({ filters }: JobSeekersTableProps) {
   const [maxVisit, setMaxVisit] = useState("7");
   const [expiryPopoverOpen, setExpiryPopoverOpen] = useState(false);
   const [shareTypeOpen, setShareTypeOpen] = useState(false);
+  const [shareSubmitting, setShareSubmitting] = useState(false);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [createdShares, setCreatedShares] = useState<SharedLink[]>([]);
   const [pipelineOpen, setPipelineOpen] = useState(false);
   const [jobSearch, setJobSearch] = useState("");
-  const [jobCategory, setJobCategory] = useState("all");
-  const [jobStatus, setJobStatus] = useState("all");
-  const [selectedJobId, setSelectedJobId] = useState<number | null>(null);
+  const [jobType, setJobType] = useState("all");
+  const [pipelineJobs, setPipelineJobs] = useState<PipelineJob[]>([]);
+  const [pipelineJobsLoading, setPipelineJobsLoading] = useState(false);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [pipelineSubmitting, setPipelineSubmitting] = useState(false);
+  const [pipelineError, setPipelineError] = useState<string | null>(null);
+  const [pipelineResults, setPipelineResults] = useState<PipelineResult[] | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [viewCandidateOpen, setViewCandidateOpen] = useState(false);
   const [selectedCandidate, setSelectedCandidate] = useState<JobSeeker | null>(null);
@@ -196,7 +262,7 @@ export function JobSeekersTable({ filters }: JobSeekersTableProps) {
 
         // Add each filter as a separate query parameter if present
         if (filters.search && filters.search.trim() !== '') {
-          queryParams.append('search', filters.search.trim());
+          queryParams.append('query', filters.search.trim());
         }
         if (filters.jobTitle && filters.jobTitle.trim() !== '') {
           queryParams.append('jobTitle', filters.jobTitle.trim());
@@ -207,6 +273,16 @@ export function JobSeekersTable({ filters }: JobSeekersTableProps) {
         if (filters.location && filters.location.trim() !== '') {
           queryParams.append('location', filters.location.trim());
         }
+        (['minExperience', 'maxExperience', 'maxNoticePeriodDays', 'availability', 'relocate'] as const).forEach(key => {
+          if (filters[key] !== '') queryParams.append(key, filters[key]);
+        });
+        // The API takes expected salaries in rupees per annum
+        if (filters.minExpectedSalaryLpa !== '') {
+          queryParams.append('minExpectedSalary', String(Math.round(parseFloat(filters.minExpectedSalaryLpa) * 100000)));
+        }
+        if (filters.maxExpectedSalaryLpa !== '') {
+          queryParams.append('maxExpectedSalary', String(Math.round(parseFloat(filters.maxExpectedSalaryLpa) * 100000)));
+        }
 
         const url = `/api/candidates${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
 
@@ -250,65 +326,89 @@ export function JobSeekersTable({ filters }: JobSeekersTableProps) {
   const allSelected = selectedIds.length === jobSeekers.length && jobSeekers.length > 0;
   const anySelected = selectedIds.length > 0;
 
-  // Apply all filters (AND logic) on the frontend for strict matching
-  let filteredJobSeekers = jobSeekers.filter((j: JobSeeker) => {
-    // Skills filter (selectedSkills only)
-    if (filters.skills && filters.skills.trim() !== "") {
-      const skillKeyword = filters.skills.trim().toLowerCase();
-      const selectedSkills = (j.selectedSkills || []).map(s => s.toLowerCase());
-      if (!selectedSkills.some(skill => skill.includes(skillKeyword))) {
-        return false;
-      }
-    }
-    // Job title filter
-    if (filters.jobTitle && filters.jobTitle.trim() !== "") {
-      const jobTitleKeyword = filters.jobTitle.trim().toLowerCase();
-      if (!(j.jobTitle || "").toLowerCase().includes(jobTitleKeyword)) {
-        return false;
+  // Search, skills, job title and location are all applied by the API
+  const filteredJobSeekers = jobSeekers;
+
+  const selectedCandidates = filteredJobSeekers.filter((j: JobSeeker) => selectedIds.includes(j.id));
+
+  // Only open jobs take applications, and recruiters can only submit to their own jobs
+  useEffect(() => {
+    if (!pipelineOpen || !token) return;
+
+    const fetchPipelineJobs = async () => {
+      setPipelineJobsLoading(true);
+      try {
+        const params = new URLSearchParams({ status: 'OPEN', limit: '50' });
+        if (jobSearch.trim()) params.set('query', jobSearch.trim());
+        if (jobType !== 'all') params.set('jobType', jobType);
+        if (user?.role === 'RECRUITER') params.set('recruiterId', 'me');
+
+        const response = await fetch(`/api/jobs?${params}`, {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+        const result = await response.json();
+        if (result.success) {
+          setPipelineJobs(result.data);
+        } else {
+          setPipelineError(result.error || 'Failed to load jobs');
+        }
+      } catch (err) {
+        console.error('Error fetching jobs:', err);
+        setPipelineError('Failed to load jobs');
+      } finally {
+        setPipelineJobsLoading(false);
       }
-    }
-    // Location filter (city, state, country, location)
-    if (filters.location && filters.location.trim() !== "") {
-      const locationKeyword = filters.location.trim().toLowerCase();
-      const locFields = [j.city, j.state, j.country, j.location].map(x => (x || "").toLowerCase());
-      if (!locFields.some(loc => loc.includes(locationKeyword))) {
-        return false;
+    };
+
+    const timeout = setTimeout(fetchPipelineJobs, 300);
+    return () => clearTimeout(timeout);
+  }, [pipelineOpen, token, user?.role, jobSearch, jobType]);
+
+  const openPipeline = () => {
+    setSelectedJobId(null);
+    setPipelineError(null);
+    setPipelineResults(null);
+    setPipelineOpen(true);
+  };
+
+  const handlePipelineSubmit = async () => {
+    if (!token || !selectedJobId) return;
+
+    setPipelineSubmitting(true);
+    setPipelineError(null);
+    try {
+      const response = await fetch('/api/job-applications/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ jobId: selectedJobId, candidateIds: selectedIds }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setPipelineError(result.error || 'Failed to submit candidates');
+        return;
       }
-    }
-    // General search filter (name, email, phone)
-    if (filters.search && filters.search.trim() !== "") {
-      const searchKeyword = filters.search.trim().toLowerCase();
-      const name = ((j.firstName || "") + " " + (j.lastName || "")).toLowerCase();
-      const userName = (j.user?.name || "").toLowerCase();
-      const email = (j.email || j.user?.email || "").toLowerCase();
-      const phone = (j.phone || j.user?.phone || "").toLowerCase();
-      if (
-        !(
-          name.includes(searchKeyword) ||
-          userName.includes(searchKeyword) ||
-          email.includes(searchKeyword) ||
-          phone.includes(searchKeyword)
-        )
-      ) {
-        return false;
+
+      setPipelineResults(result.data.results);
+      if (result.data.created > 0) {
+        refreshData();
       }
+    } catch (err) {
+      console.error('Error submitting candidates:', err);
+      setPipelineError('Failed to submit candidates');
+    } finally {
+      setPipelineSubmitting(false);
     }
-    return true;
-  });
-
-  const selectedCandidates = filteredJobSeekers.filter((j: JobSeeker) => selectedIds.includes(j.id));
+  };
 
-  const sampleJobs = [
-    { id: 1, title: "Senior Manager", client: "MARUTI", status: "OPEN", category: "Management" },
-    { id: 2, title: "Associate", client: "Aditya Birla", status: "OPEN", category: "Operations" },
-    { id: 3, title: "Lead Engineer", client: "Tata Motors", status: "OPEN", category: "Engineering" },
-    { id: 4, title: "Business Analyst", client: "Infosys", status: "OPEN", category: "Analysis" },
-  ];
-  const filteredJobs = sampleJobs.filter(j =>
-    (!jobSearch || j.title.toLowerCase().includes(jobSearch.toLowerCase())) &&
-    (jobCategory === "all" || j.category === jobCategory) &&
-    (jobStatus === "all" || j.status === jobStatus)
-  );
+  const getPipelineCandidateName = (candidateId: string) => {
+    const candidate = jobSeekers.find((j: JobSeeker) => j.id === candidateId);
+    return candidate ? getCandidateName(candidate) : candidateId;
+  };
 
   const handleSelectAll = () => {
     setSelectedIds(allSelected ? [] : jobSeekers.map((j: JobSeeker) => j.id));
@@ -327,6 +427,84 @@ export function JobSeekersTable({ filters }: JobSeekersTableProps) {
   };
 
   // Helper function to get candidate name
+  const handleShareOpenChange = (open: boolean) => {
+    setShareOpen(open);
+    if (!open) {
+      setShareError(null);
+      setCreatedShares([]);
+    }
+  };
+
+  // Create share links for the selected candidates and email them to the client
+  const handleShareSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    if (shareType.length === 0) {
+      setShareError("Select at least one section to share");
+      return;
+    }
+
+    setShareSubmitting(true);
+    setShareError(null);
+    try {
+      const response = await fetch('/api/candidate-shares', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          candidateIds: selectedIds,
+          shareEmail,
+          shareType,
+          expiryDate: expiryDate ? endOfDay(expiryDate).toISOString() : undefined,
+          maxVisits: maxVisit ? parseInt(maxVisit, 10) : undefined,
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setShareError(result.error || 'Failed to share candidates');
+        return;
+      }
+
+      setCreatedShares(result.data.shares.map((share: any) => ({
+        id: share.id,
+        url: share.url,
+        candidateName: [share.candidate.firstName, share.candidate.lastName].filter(Boolean).join(' '),
+        revoked: false,
+      })));
+      if (!result.data.emailSent) {
+        setShareError('Links were created but the email could not be sent. Copy the links below instead.');
+      }
+    } catch (err) {
+      console.error('Error sharing candidates:', err);
+      setShareError('Failed to share candidates');
+    } finally {
+      setShareSubmitting(false);
+    }
+  };
+
+  const handleRevokeShare = async (shareId: string) => {
+    if (!token) return;
+    try {
+      const response = await fetch(`/api/candidate-shares/${shareId}/revoke`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const result = await response.json();
+      if (result.success) {
+        setCreatedShares(prev => prev.map(link => link.id === shareId ? { ...link, revoked: true } : link));
+      } else {
+        setShareError(result.error || 'Failed to revoke link');
+      }
+    } catch (err) {
+      console.error('Error revoking share:', err);
+      setShareError('Failed to revoke link');
+    }
+  };
+
   const getCandidateName = (candidate: JobSeeker) => {
     if (candidate.firstName || candidate.lastName) {
       return `${candidate.firstName || ''} ${candidate.lastName || ''}`.trim();
@@ -456,7 +634,7 @@ export function JobSeekersTable({ filters }: JobSeekersTableProps) {
         <div className="flex gap-2 mb-2">
           <Button size="sm" variant="outline" onClick={() => setShareOpen(true)} className="bg-orange-50 hover:bg-orange-100">Share Candidate</Button>
           <Button size="sm" variant="outline" className="bg-orange-50 hover:bg-orange-100">Send Job Invitation</Button>
-          <Button size="sm" variant="outline" onClick={() => setPipelineOpen(true)} className="bg-orange-50 hover:bg-orange-100">Job Pipeline</Button>
+          <Button size="sm" variant="outline" onClick={openPipeline} className="bg-orange-50 hover:bg-orange-100">Job Pipeline</Button>
         </div>
       )}
       <Table>
@@ -490,6 +668,15 @@ export function JobSeekersTable({ filters }: JobSeekersTableProps) {
               </TableCell>
               <TableCell>
                 <div className="font-medium">{getCandidateName(seeker)}</div>
+                {seeker.search?.highlights.slice(0, 2).map(highlight => (
+                  <div key={highlight.field} className="mt-1 max-w-xs text-xs text-gray-500">
+                    <span className="font-medium text-gray-600">{highlightFieldLabels[highlight.field] || highlight.field}: </span>
+                    {highlight.texts.map((text, index) => text.hit
+                      ? <mark key={index} className="bg-yellow-100 text-gray-900 rounded-sm">{text.value}</mark>
+                      : <span key={index}>{text.value}</span>
+                    )}
+                  </div>
+                ))}
               </TableCell>
               <TableCell>{seeker.jobTitle || 'Not specified'}</TableCell>
               <TableCell>
@@ -565,12 +752,12 @@ export function JobSeekersTable({ filters }: JobSeekersTableProps) {
       </Table>
 
       {/* Share Candidate Modal */}
-      <Dialog open={shareOpen} onOpenChange={setShareOpen}>
+      <Dialog open={shareOpen} onOpenChange={handleShareOpenChange}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
             <DialogTitle>Share Candidate</DialogTitle>
           </DialogHeader>
-          <form className="space-y-4">
+          <form className="space-y-4" onSubmit={handleShareSubmit}>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="block mb-1 font-medium">Email<span className="text-red-500">*</span></label>
@@ -588,27 +775,27 @@ export function JobSeekersTable({ filters }: JobSeekersTableProps) {
                     <span>
                       {shareType.length === 0
                         ? "Select Sharing Option"
-                        : shareType.join(", ")}
+                        : shareTypeOptions.filter(o => shareType.includes(o.value)).map(o => o.label).join(", ")}
                     </span>
                     <svg className="w-4 h-4 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
                   </Button>
                   {shareTypeOpen && (
                     <div className="absolute z-10 mt-1 w-full bg-white border rounded shadow">
-                      {['resume', 'video interview', 'rating', 'ai score', 'feedback'].map(option => (
-                        <label key={option} className="flex items-center px-3 py-2 cursor-pointer hover:bg-gray-50">
+                      {shareTypeOptions.map(option => (
+                        <label key={option.value} className="flex items-center px-3 py-2 cursor-pointer hover:bg-gray-50">
                           <input
                             type="checkbox"
-                            checked={shareType.includes(option)}
+                            checked={shareType.includes(option.value)}
                             onChange={() => {
                               setShareType(prev =>
-                                prev.includes(option)
-                                  ? prev.filter(o => o !== option)
-                                  : [...prev, option]
+                                prev.includes(option.value)
+                                  ? prev.filter(o => o !== option.value)
+                                  : [...prev, option.value]
                               );
                             }}
                             className="mr-2 accent-primary"
                           />
-                          {option.charAt(0).toUpperCase() + option.slice(1)}
+                          {option.label}
                         </label>
                       ))}
                     </div>
@@ -663,11 +850,34 @@ export function JobSeekersTable({ filters }: JobSeekersTableProps) {
                 ))}
               </div>
               <div className="text-xs text-gray-500 mt-2">
-                By clicking submit you will be sharing all selected Candidates with the {shareEmail || "[email]"} and share type: {shareType.length > 0 ? shareType.join(", ") : "[type]"}.
+                By clicking submit you will be sharing all selected Candidates with the {shareEmail || "[email]"} and share type: {shareType.length > 0 ? shareTypeOptions.filter(o => shareType.includes(o.value)).map(o => o.label).join(", ") : "[type]"}.
               </div>
             </div>
+            {shareError && (
+              <div className="text-sm text-red-600">{shareError}</div>
+            )}
+            {createdShares.length > 0 && (
+              <div className="border rounded p-3 space-y-2">
+                <div className="font-semibold text-sm">Share links</div>
+                {createdShares.map(link => (
+                  <div key={link.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="font-medium min-w-[120px]">{link.candidateName}</span>
+                    <span className={`truncate flex-1 ${link.revoked ? "line-through text-gray-400" : "text-gray-600"}`}>{link.url}</span>
+                    <Button type="button" size="sm" variant="outline" onClick={() => navigator.clipboard.writeText(link.url)} disabled={link.revoked}>
+                      Copy
+                    </Button>
+                    <Button type="button" size="sm" variant="outline" onClick={() => handleRevokeShare(link.id)} disabled={link.revoked}>
+                      {link.revoked ? "Revoked" : "Revoke"}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="flex gap-2 justify-end mt-4">
-              <Button type="submit">Submit</Button>
+              <Button type="submit" disabled={shareSubmitting || createdShares.length > 0}>
+                {shareSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Submit
+              </Button>
               <Button type="button" variant="outline" onClick={() => setShareOpen(false)}>Cancel</Button>
             </div>
           </form>
@@ -688,38 +898,47 @@ export function JobSeekersTable({ filters }: JobSeekersTableProps) {
                 value={jobSearch}
                 onChange={e => setJobSearch(e.target.value)}
               />
-              <Select value={jobCategory} onValueChange={setJobCategory}>
-                <SelectTrigger><SelectValue placeholder="Category" /></SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All</SelectItem>
-                  <SelectItem value="Management">Management</SelectItem>
-                  <SelectItem value="Operations">Operations</SelectItem>
-                  <SelectItem value="Engineering">Engineering</SelectItem>
-                  <SelectItem value="Analysis">Analysis</SelectItem>
-                </SelectContent>
-              </Select>
-              <Select value={jobStatus} onValueChange={setJobStatus}>
-                <SelectTrigger><SelectValue placeholder="Status" /></SelectTrigger>
+              <Select value={jobType} onValueChange={setJobType}>
+                <SelectTrigger><SelectValue placeholder="Job type" /></SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All</SelectItem>
-                  <SelectItem value="OPEN">OPEN</SelectItem>
-                  <SelectItem value="CLOSED">CLOSED</SelectItem>
+                  <SelectItem value="all">All types</SelectItem>
+                  {jobTypeOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
+            {pipelineError && (
+              <div className="text-sm text-red-600">{pipelineError}</div>
+            )}
             {/* Job listings table */}
             <div className="overflow-x-auto border rounded">
               <Table>
                 <TableHeader>
                   <TableRow>
                     <TableHead></TableHead>
+                    <TableHead>Job Code</TableHead>
                     <TableHead>Job Title</TableHead>
                     <TableHead>Client</TableHead>
                     <TableHead>Status</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredJobs.map(job => (
+                  {pipelineJobsLoading && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center">
+                        <Loader2 className="h-4 w-4 animate-spin inline-block" />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {!pipelineJobsLoading && pipelineJobs.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-sm text-gray-500">
+                        No open jobs found
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {!pipelineJobsLoading && pipelineJobs.map(job => (
                     <TableRow key={job.id}>
                       <TableCell>
                         <input
@@ -730,8 +949,9 @@ export function JobSeekersTable({ filters }: JobSeekersTableProps) {
                           className="accent-primary"
                         />
                       </TableCell>
-                      <TableCell>{job.title}</TableCell>
-                      <TableCell>{job.client}</TableCell>
+                      <TableCell>{job.jobCode}</TableCell>
+                      <TableCell>{job.jobTitle}</TableCell>
+                      <TableCell>{job.client?.name || '-'}</TableCell>
                       <TableCell>{job.status}</TableCell>
                     </TableRow>
                   ))}
@@ -760,14 +980,33 @@ export function JobSeekersTable({ filters }: JobSeekersTableProps) {
                 ))}
               </div>
             </div>
-            {selectedJobId && (
+            {selectedJobId && !pipelineResults && (
               <div className="text-sm text-gray-600 italic">
                 By clicking submit, you will add the above selected candidates to the job pipeline.
               </div>
             )}
+            {pipelineResults && (
+              <div className="border rounded p-3 space-y-1">
+                {pipelineResults.map(result => (
+                  <div key={result.candidateId} className="flex items-center justify-between text-sm">
+                    <span>{getPipelineCandidateName(result.candidateId)}</span>
+                    <Badge variant={result.status === 'created' ? 'default' : result.status === 'skipped' ? 'secondary' : 'destructive'}>
+                      {pipelineResultLabels[result.status]}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="flex gap-2 justify-end mt-4">
-              <Button type="submit">Submit</Button>
-              <Button type="button" variant="outline" onClick={() => setPipelineOpen(false)}>Cancel</Button>
+              {!pipelineResults && (
+                <Button type="button" onClick={handlePipelineSubmit} disabled={!selectedJobId || selectedIds.length === 0 || pipelineSubmitting}>
+                  {pipelineSubmitting && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Submit
+                </Button>
+              )}
+              <Button type="button" variant="outline" onClick={() => setPipelineOpen(false)}>
+                {pipelineResults ? 'Close' : 'Cancel'}
+              </Button>
             </div>
           </div>
         </DialogContent>
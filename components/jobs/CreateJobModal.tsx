@@ -55,8 +55,14 @@ import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useJobDescriptionUpload } from "@/hooks/useJobDescriptionUpload";
+import { useAuth } from "@/context/AuthContext";
+import { JOB_STATUS_LABELS, JOB_STATUS_TRANSITIONS } from "@/lib/jobs";
+import type { JobStatus } from "@prisma/client";
 
 
+// Select items cannot have an empty value, so this stands in for "none"
+const NO_SELECTION = "none";
+
 interface CreateJobModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -86,7 +92,13 @@ export function CreateJobModal({ open, onOpenChange, initialJob, mode = 'create'
         educationPG: "",
         additionalSkills: "",
         salaryPerAnnum: "",
-        keySkills: ""
+        keySkills: "",
+        status: "OPEN",
+        priority: "MEDIUM",
+        jobType: "FULL_TIME",
+        experienceLevel: "",
+        clientId: "",
+        vendorId: ""
       });
     } else if (mode === 'edit' && initialJob) {
       setJobData({
@@ -102,7 +114,13 @@ export function CreateJobModal({ open, onOpenChange, initialJob, mode = 'create'
         educationPG: initialJob.educationPG || "",
         additionalSkills: initialJob.additionalSkills || "",
         salaryPerAnnum: initialJob.salaryPerAnnum || "",
-        keySkills: initialJob.keySkills || ""
+        keySkills: initialJob.keySkills || "",
+        status: initialJob.status || "OPEN",
+        priority: initialJob.priority || "MEDIUM",
+        jobType: initialJob.jobType || "FULL_TIME",
+        experienceLevel: initialJob.experienceLevel || "",
+        clientId: initialJob.clientId || "",
+        vendorId: initialJob.vendorId || ""
       });
     }
   }, [open, mode, initialJob]);
@@ -122,8 +140,39 @@ export function CreateJobModal({ open, onOpenChange, initialJob, mode = 'create'
     educationPG: "",
     additionalSkills: "",
     salaryPerAnnum: "",
-    keySkills: ""
+    keySkills: "",
+    status: "OPEN",
+    priority: "MEDIUM",
+    jobType: "FULL_TIME",
+    experienceLevel: "",
+    clientId: "",
+    vendorId: ""
   });
+
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([]);
+  const [vendors, setVendors] = useState<Array<{ id: string; name: string }>>([]);
+  const { token } = useAuth();
+
+  // Load the clients and vendors a job can be assigned to
+  useEffect(() => {
+    if (!open || !token) return;
+
+    const headers = { Authorization: token ? `Bearer ${token}` : "" };
+    const load = async (path: string, setter: (items: Array<{ id: string; name: string }>) => void) => {
+      try {
+        const res = await fetch(`${path}?limit=100`, { headers });
+        const result = await res.json();
+        if (result.success && Array.isArray(result.data)) {
+          setter(result.data.map((item: any) => ({ id: item.id, name: item.name })));
+        }
+      } catch (err) {
+        console.error(`Failed to load ${path}:`, err);
+      }
+    };
+
+    load("/api/clients", setClients);
+    load("/api/vendors", setVendors);
+  }, [open, token]);
   
   const [uploadStatus, setUploadStatus] = useState<{
     status: 'idle' | 'uploading' | 'success' | 'error';
@@ -306,6 +355,12 @@ export function CreateJobModal({ open, onOpenChange, initialJob, mode = 'create'
     </div>
   );
 
+  // New jobs start as drafts or open; edits can only move along the job lifecycle
+  const currentStatus = (mode === 'edit' && initialJob?.status ? initialJob.status : null) as JobStatus | null;
+  const statusOptions: JobStatus[] = currentStatus
+    ? [currentStatus, ...JOB_STATUS_TRANSITIONS[currentStatus]]
+    : ["DRAFT", "OPEN"];
+
   const renderStep2 = () => (
     <div className="space-y-6">
       <div className="space-y-4">
@@ -390,6 +445,116 @@ export function CreateJobModal({ open, onOpenChange, initialJob, mode = 'create'
           </Select>
         </div>
 
+        {/* Status, Priority, Job Type and Experience Level */}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select
+              value={jobData.status}
+              onValueChange={(value) => setJobData(prev => ({ ...prev, status: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select status" />
+              </SelectTrigger>
+              <SelectContent>
+                {statusOptions.map(status => (
+                  <SelectItem key={status} value={status}>{JOB_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Priority</Label>
+            <Select
+              value={jobData.priority}
+              onValueChange={(value) => setJobData(prev => ({ ...prev, priority: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select priority" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="LOW">Low</SelectItem>
+                <SelectItem value="MEDIUM">Medium</SelectItem>
+                <SelectItem value="HIGH">High</SelectItem>
+                <SelectItem value="URGENT">Urgent</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Job Type</Label>
+            <Select
+              value={jobData.jobType}
+              onValueChange={(value) => setJobData(prev => ({ ...prev, jobType: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select job type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="FULL_TIME">Full Time</SelectItem>
+                <SelectItem value="PART_TIME">Part Time</SelectItem>
+                <SelectItem value="CONTRACT">Contract</SelectItem>
+                <SelectItem value="FREELANCE">Freelance</SelectItem>
+                <SelectItem value="INTERNSHIP">Internship</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Experience Level</Label>
+            <Select
+              value={jobData.experienceLevel}
+              onValueChange={(value) => setJobData(prev => ({ ...prev, experienceLevel: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select experience level" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ENTRY_LEVEL">Entry Level</SelectItem>
+                <SelectItem value="MID_LEVEL">Mid Level</SelectItem>
+                <SelectItem value="SENIOR_LEVEL">Senior Level</SelectItem>
+                <SelectItem value="EXECUTIVE">Executive</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Client and Vendor */}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Client</Label>
+            <Select
+              value={jobData.clientId || NO_SELECTION}
+              onValueChange={(value) => setJobData(prev => ({ ...prev, clientId: value === NO_SELECTION ? "" : value }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select client" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SELECTION}>No client</SelectItem>
+                {clients.map(client => (
+                  <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Vendor</Label>
+            <Select
+              value={jobData.vendorId || NO_SELECTION}
+              onValueChange={(value) => setJobData(prev => ({ ...prev, vendorId: value === NO_SELECTION ? "" : value }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select vendor" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SELECTION}>No vendor</SelectItem>
+                {vendors.map(vendor => (
+                  <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
         {/* Job Responsibilities/Description - Mandatory */}
         <div className="space-y-2">
           <Label htmlFor="description">Job Responsibilities/Description<span className="text-red-500">*</span></Label>
@@ -487,9 +652,14 @@ export function CreateJobModal({ open, onOpenChange, initialJob, mode = 'create'
                 // Ensure salaryPerAnnum is not empty
                 const jobDataToSend = {
                   ...jobData,
-                  salaryPerAnnum: jobData.salaryPerAnnum && jobData.salaryPerAnnum.trim() !== "" ? jobData.salaryPerAnnum : "0"
+                  salaryPerAnnum: jobData.salaryPerAnnum && jobData.salaryPerAnnum.trim() !== "" ? jobData.salaryPerAnnum : "0",
+                  experienceLevel: jobData.experienceLevel || undefined,
+                  // Clearing a client/vendor on edit sends null to unassign it
+                  clientId: jobData.clientId || (mode === 'edit' && initialJob?.clientId ? null : undefined),
+                  vendorId: jobData.vendorId || (mode === 'edit' && initialJob?.vendorId ? null : undefined),
+                  // Only send the status when it changes so unrelated edits don't trip the lifecycle check
+                  status: mode === 'edit' && initialJob?.status === jobData.status ? undefined : jobData.status
                 };
-                const token = localStorage.getItem("token");
                 let res;
                 if (mode === 'edit' && initialJob && initialJob.id) {
                   res = await fetch(`/api/jobs/${initialJob.id}`, {
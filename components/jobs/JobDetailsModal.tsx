@@ -1,6 +1,9 @@
 import React from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogClose } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { JOB_STATUS_LABELS } from "@/lib/jobs";
+import { AuditTimeline } from "@/components/audit/AuditTimeline";
+import { useAuth } from "@/context/AuthContext";
 
 interface JobDetailsModalProps {
   open: boolean;
@@ -9,6 +12,7 @@ interface JobDetailsModalProps {
 }
 
 const JobDetailsModal: React.FC<JobDetailsModalProps> = ({ open, onClose, job }) => {
+  const { user } = useAuth();
   if (!job) return null;
 
   return (
@@ -33,9 +37,18 @@ const JobDetailsModal: React.FC<JobDetailsModalProps> = ({ open, onClose, job })
           <div><strong>Salary Per Annum:</strong> {job.salaryPerAnnum}</div>
           <div><strong>Key Skills:</strong> {job.keySkills}</div>
           <div><strong>Job Code:</strong> {job.jobCode}</div>
-          <div><strong>Status:</strong> {job.status || 'Open'}</div>
+          <div><strong>Status:</strong> {JOB_STATUS_LABELS[job.status as keyof typeof JOB_STATUS_LABELS] || 'Open'}</div>
+          <div><strong>Priority:</strong> {job.priority || '-'}</div>
+          <div><strong>Job Type:</strong> {job.jobType ? job.jobType.replace('_', ' ') : '-'}</div>
+          <div><strong>Experience Level:</strong> {job.experienceLevel ? job.experienceLevel.replace('_', ' ') : '-'}</div>
           <div><strong>Created At:</strong> {new Date(job.createdAt).toLocaleString()}</div>
         </div>
+        {user?.role === 'ADMIN' && (
+          <div className="border-t pt-4">
+            <h3 className="font-semibold text-gray-900 mb-3">History</h3>
+            <AuditTimeline entityType="JOB" entityId={job.id} />
+          </div>
+        )}
         {/* Close button removed as requested */}
       </DialogContent>
     </Dialog>
@@ -1,21 +1,23 @@
 
 import React, { useState, useEffect } from "react";
 import { Card, CardContent } from "@/components/ui/card";
+import { useAuth } from "@/context/AuthContext";
 
 export function JobsHeader() {
   const [openJobsCount, setOpenJobsCount] = useState<number>(0);
   const [activeCandidatesCount, setActiveCandidatesCount] = useState<number>(0);
+  const { token } = useAuth();
 
   useEffect(() => {
+    if (!token) return;
     async function fetchCounts() {
       try {
-        const token = localStorage.getItem("token");
         // Fetch open jobs count
-        const jobsRes = await fetch("/api/jobs?status=open", {
+        const jobsRes = await fetch("/api/jobs?status=OPEN", {
           headers: { Authorization: token ? `Bearer ${token}` : "" },
         });
         const jobsData = await jobsRes.json();
-        setOpenJobsCount(Array.isArray(jobsData.data) ? jobsData.data.length : 0);
+        setOpenJobsCount(jobsData.pagination?.total ?? 0);
 
         // Fetch active candidates count
         const candidatesRes = await fetch("/api/candidates?status=active", {
@@ -29,7 +31,7 @@ export function JobsHeader() {
       }
     }
     fetchCounts();
-  }, []);
+  }, [token]);
 
   return (
     <div className="space-y-4">
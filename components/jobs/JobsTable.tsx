@@ -30,6 +30,8 @@ import {
 } from "@/components/ui/alert-dialog";
 import JobDetailsModal from "./JobDetailsModal";
 import { CreateJobModal } from "./CreateJobModal";
+import { JOB_STATUS_LABELS } from "@/lib/jobs";
+import { useAuth } from "@/context/AuthContext";
 
 export function JobsTable({ jobs, setJobs }: { jobs: any[]; setJobs: (fn: (prev: any[]) => any[]) => void }) {
   const [selectedJob, setSelectedJob] = useState<any | null>(null);
@@ -38,12 +40,12 @@ export function JobsTable({ jobs, setJobs }: { jobs: any[]; setJobs: (fn: (prev:
   const [deleteJobId, setDeleteJobId] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const { token } = useAuth();
 
   // Refresh jobs from API
   const refreshJobs = async () => {
     setRefreshing(true);
     try {
-      const token = localStorage.getItem("token");
       const res = await fetch("/api/jobs", {
         headers: {
           Authorization: token ? `Bearer ${token}` : "",
@@ -75,7 +77,7 @@ export function JobsTable({ jobs, setJobs }: { jobs: any[]; setJobs: (fn: (prev:
               <TableHead>Job Code</TableHead>
               <TableHead>Job Title</TableHead>
               <TableHead>Location</TableHead>
-              
+              <TableHead>Status</TableHead>
               <TableHead>Created</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
@@ -93,7 +95,11 @@ export function JobsTable({ jobs, setJobs }: { jobs: any[]; setJobs: (fn: (prev:
                   <TableCell className="font-medium">{job.jobCode}</TableCell>
                   <TableCell>{job.jobTitle || job.title}</TableCell>
                   <TableCell>{job.city || job.state || job.country ? [job.city, job.state, job.country].filter(Boolean).join(", ") : job.location}</TableCell>
-                  
+                  <TableCell>
+                    <Badge variant={job.status === "OPEN" ? "default" : "secondary"}>
+                      {JOB_STATUS_LABELS[job.status as keyof typeof JOB_STATUS_LABELS] || job.status || "-"}
+                    </Badge>
+                  </TableCell>
                   <TableCell>{new Date(job.createdAt).toLocaleDateString()}</TableCell>
                   <TableCell className="text-right">
                     <div className="flex justify-end items-center space-x-2">
@@ -149,7 +155,6 @@ export function JobsTable({ jobs, setJobs }: { jobs: any[]; setJobs: (fn: (prev:
                 if (!deleteJobId) return;
                 setDeleting(true);
                 try {
-                  const token = localStorage.getItem("token");
                   const res = await fetch(`/api/jobs/${deleteJobId}`, {
                     method: "DELETE",
                     headers: {
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/context/AuthContext";
+
+interface NotificationItem {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  link?: string | null;
+  readAt?: string | null;
+  createdAt: string;
+}
+
+interface NotificationListProps {
+  // How many to show at once; more are loaded on request unless viewAllHref is given
+  pageSize?: number;
+  // Link to the full list, shown instead of "Show more"
+  viewAllHref?: string;
+}
+
+export function NotificationList({ pageSize = 20, viewAllHref }: NotificationListProps) {
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const { token } = useAuth();
+
+  const fetchNotifications = async (nextPage: number) => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const params = new URLSearchParams({ page: String(nextPage), limit: String(pageSize) });
+      if (unreadOnly) params.set('unread', 'true');
+
+      const response = await fetch(`/api/notifications?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || 'Failed to load notifications');
+        return;
+      }
+
+      setNotifications(previous => nextPage === 1 ? data.data.notifications : [...previous, ...data.data.notifications]);
+      setUnreadCount(data.data.unreadCount);
+      setPage(nextPage);
+      setTotalPages(data.pagination?.totalPages || 1);
+    } catch (error) {
+      setError('Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (token) {
+      fetchNotifications(1);
+    }
+  }, [token, unreadOnly]);
+
+  const setRead = async (notification: NotificationItem, read: boolean) => {
+    const response = await fetch(`/api/notifications/${notification.id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ read }),
+    });
+    const data = await response.json();
+    if (!data.success) return;
+
+    setNotifications(previous => previous.map(item => item.id === notification.id ? data.data : item));
+    setUnreadCount(previous => Math.max(0, previous + (read ? -1 : 1)));
+  };
+
+  const markAllRead = async () => {
+    const response = await fetch('/api/notifications/read-all', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (data.success) {
+      fetchNotifications(1);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant={unreadOnly ? 'outline' : 'secondary'} size="sm" onClick={() => setUnreadOnly(false)}>
+            All
+          </Button>
+          <Button variant={unreadOnly ? 'secondary' : 'outline'} size="sm" onClick={() => setUnreadOnly(true)}>
+            Unread{unreadCount > 0 ? ` (${unreadCount})` : ''}
+          </Button>
+        </div>
+        {unreadCount > 0 && (
+          <Button variant="ghost" size="sm" onClick={markAllRead}>
+            Mark all as read
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!loading && !error && notifications.length === 0 && (
+        <p className="text-sm text-gray-500">{unreadOnly ? 'No unread notifications' : 'No notifications yet'}</p>
+      )}
+
+      <div className="space-y-3">
+        {notifications.map(notification => (
+          <div
+            key={notification.id}
+            className="flex items-start space-x-3 p-4 bg-white border border-gray-200 rounded-lg hover:border-gray-300 transition-colors"
+          >
+            <div className={`mt-2 w-2 h-2 rounded-full ${notification.readAt ? 'bg-gray-200' : 'bg-gray-500'}`}></div>
+            <div className="flex-1">
+              <div className="flex items-center space-x-2 mb-1">
+                <h4 className="font-medium text-gray-900">{notification.title}</h4>
+                {!notification.readAt && (
+                  <Badge className="bg-gray-100 text-gray-700 text-xs">New</Badge>
+                )}
+              </div>
+              <p className="text-sm text-gray-600 mb-2">{notification.message}</p>
+              <div className="flex items-center gap-3 text-xs text-gray-500">
+                <span>{formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}</span>
+                {notification.link && (
+                  <Link
+                    href={notification.link}
+                    className="text-gray-700 underline"
+                    onClick={() => !notification.readAt && setRead(notification, true)}
+                  >
+                    View
+                  </Link>
+                )}
+                <button className="underline" onClick={() => setRead(notification, !notification.readAt)}>
+                  {notification.readAt ? 'Mark as unread' : 'Mark as read'}
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+
+      {viewAllHref ? (
+        <Button variant="outline" className="w-full" asChild>
+          <Link href={viewAllHref}>View All Notifications</Link>
+        </Button>
+      ) : (
+        !loading && page < totalPages && (
+          <Button variant="outline" className="w-full" onClick={() => fetchNotifications(page + 1)}>
+            Show more
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useAuth } from "@/context/AuthContext";
+
+interface NotificationPreference {
+  type: string;
+  label: string;
+  description: string;
+  inApp: boolean;
+  email: boolean;
+}
+
+type Channel = 'inApp' | 'email';
+
+// Each switch is saved as soon as it is flipped
+export function NotificationPreferencesForm() {
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const { token } = useAuth();
+
+  useEffect(() => {
+    if (!token) return;
+
+    fetch('/api/notifications/preferences', {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    })
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setPreferences(data.data);
+        } else {
+          setError(data.error || 'Failed to load notification settings');
+        }
+      })
+      .catch(() => setError('Failed to load notification settings'));
+  }, [token]);
+
+  const toggle = async (preference: NotificationPreference, channel: Channel, enabled: boolean) => {
+    setError('');
+    setSaving(`${preference.type}:${channel}`);
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ preferences: [{ type: preference.type, [channel]: enabled }] }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setPreferences(data.data);
+      } else {
+        setError(data.error || 'Failed to save notification settings');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle>Notification Settings</CardTitle>
+        <CardDescription>Choose how you hear about each kind of update</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-[1fr_auto_auto] items-center gap-x-6 gap-y-4">
+          <span></span>
+          <span className="text-xs font-medium text-gray-500">In app</span>
+          <span className="text-xs font-medium text-gray-500">Email</span>
+          {preferences.map(preference => (
+            <div key={preference.type} className="contents">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{preference.label}</p>
+                <p className="text-xs text-gray-500">{preference.description}</p>
+              </div>
+              {(['inApp', 'email'] as Channel[]).map(channel => (
+                <Switch
+                  key={channel}
+                  checked={preference[channel]}
+                  disabled={saving === `${preference.type}:${channel}`}
+                  onCheckedChange={checked => toggle(preference, channel, checked)}
+                  aria-label={`${preference.label} ${channel === 'inApp' ? 'in app' : 'by email'}`}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,225 @@
+import { useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useAuth } from "@/context/AuthContext";
+import type { ImportEntity, ImportReport } from "@/lib/csv-import";
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entity: ImportEntity;
+  title: string;
+  onImported?: () => void;
+}
+
+// Rows with problems are listed in the preview; the rest are only counted
+const MAX_PREVIEW_ROWS = 50;
+
+export function CsvImportDialog({ open, onOpenChange, entity, title, onImported }: CsvImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { token } = useAuth();
+
+  const reset = () => {
+    setFile(null);
+    setReport(null);
+    setError('');
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const submit = async (selected: File, dryRun: boolean) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const formData = new FormData();
+      formData.append('file', selected);
+      formData.append('dryRun', String(dryRun));
+
+      const response = await fetch(`/api/${entity}/import`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setReport(data.data);
+        if (!dryRun && data.data.created > 0) {
+          onImported?.();
+        }
+      } else {
+        setReport(null);
+        setError(data.error || 'Failed to read the file');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Every file is previewed first so problems show up before anything is saved
+  const handleFileChange = (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    submit(selected, true);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const problemRows = report?.rows.filter(row => row.errors.length > 0) ?? [];
+  const imported = report !== null && !report.dryRun;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="mt-6 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${entity}CsvFile`}>Upload CSV*</Label>
+            <div
+              className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center"
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleFileChange(e.dataTransfer.files[0]);
+              }}
+            >
+              <Input
+                id={`${entity}CsvFile`}
+                ref={inputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+              />
+              <div className="text-gray-500">
+                {file ? file.name : 'Drag and drop your CSV file here or click to browse'}
+              </div>
+              <Button
+                variant="outline"
+                className="mt-4"
+                disabled={isLoading}
+                onClick={() => inputRef.current?.click()}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {file ? 'Choose another file' : 'Upload CSV'}
+              </Button>
+            </div>
+          </div>
+
+          <div className="text-sm text-gray-500">
+            <a href={`/api/${entity}/import/template`} download className="text-blue-600 hover:underline">
+              Download sample file
+            </a>
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {isLoading && (
+            <div className="text-sm text-gray-500">Checking rows...</div>
+          )}
+
+          {report && !isLoading && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-4 gap-2 text-center text-sm">
+                <div className="rounded border p-2">
+                  <div className="text-lg font-semibold">{report.total}</div>
+                  <div className="text-gray-500">Rows</div>
+                </div>
+                <div className="rounded border p-2">
+                  <div className="text-lg font-semibold text-green-600">{imported ? report.created : report.valid}</div>
+                  <div className="text-gray-500">{imported ? 'Imported' : 'Ready'}</div>
+                </div>
+                <div className="rounded border p-2">
+                  <div className="text-lg font-semibold text-red-600">{report.invalid + report.failed}</div>
+                  <div className="text-gray-500">Errors</div>
+                </div>
+                <div className="rounded border p-2">
+                  <div className="text-lg font-semibold text-yellow-600">{report.duplicates}</div>
+                  <div className="text-gray-500">Duplicates</div>
+                </div>
+              </div>
+
+              {report.columns.unknown.length > 0 && (
+                <div className="text-sm text-gray-500">
+                  Ignored columns: {report.columns.unknown.join(', ')}
+                </div>
+              )}
+
+              {problemRows.length > 0 && (
+                <div className="max-h-60 overflow-y-auto rounded border">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-left">
+                      <tr>
+                        <th className="px-3 py-2 w-16">Row</th>
+                        <th className="px-3 py-2">Problem</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {problemRows.slice(0, MAX_PREVIEW_ROWS).map(row => (
+                        <tr key={row.row} className="border-t align-top">
+                          <td className="px-3 py-2">{row.row}</td>
+                          <td className="px-3 py-2">
+                            {row.errors.map((message, index) => (
+                              <div key={index} className={row.status === 'duplicate' ? 'text-yellow-700' : 'text-red-600'}>
+                                {message}
+                              </div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {problemRows.length > MAX_PREVIEW_ROWS && (
+                    <div className="border-t px-3 py-2 text-sm text-gray-500">
+                      and {problemRows.length - MAX_PREVIEW_ROWS} more rows with problems
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {!imported && report.valid > 0 && problemRows.length > 0 && (
+                <div className="text-sm text-gray-500">
+                  Only the {report.valid} valid rows will be imported.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2 mt-6">
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {imported ? 'Close' : 'Cancel'}
+          </Button>
+          {!imported && (
+            <Button
+              disabled={!file || !report || report.valid === 0 || isLoading}
+              onClick={() => file && submit(file, false)}
+            >
+              {isLoading ? 'Importing...' : `Import${report?.valid ? ` ${report.valid}` : ''}`}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
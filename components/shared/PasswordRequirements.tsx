@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+
+// Lists the server's password rules under a password field
+export function PasswordRequirements() {
+  const [requirements, setRequirements] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetch('/api/auth/password-policy')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setRequirements(data.data.requirements || []);
+        }
+      })
+      .catch(() => {
+        // The server still enforces the rules; the hint is just left out
+      });
+  }, []);
+
+  if (requirements.length === 0) return null;
+
+  return (
+    <ul className="text-xs text-gray-500 list-disc pl-5 space-y-0.5">
+      {requirements.map(requirement => (
+        <li key={requirement}>{requirement}</li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,326 @@
+import { useState, useEffect } from "react";
+import { KeyRound, Loader2, LockOpen, Mail } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/context/AuthContext";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ManagedUser {
+  id: string;
+  email: string;
+  phone?: string | null;
+  name?: string | null;
+  role: 'ADMIN' | 'RECRUITER' | 'CANDIDATE';
+  status: 'ACTIVE' | 'INACTIVE' | 'SUSPENDED';
+  lastLogin?: string | null;
+  createdAt: string;
+  hasPassword: boolean;
+  invitePending: boolean;
+  loginLocked: boolean;
+}
+
+interface UsersTableProps {
+  refreshTrigger?: number;
+}
+
+const ROLES = ['ADMIN', 'RECRUITER', 'CANDIDATE'] as const;
+const STATUSES = ['ACTIVE', 'INACTIVE', 'SUSPENDED'] as const;
+
+const statusVariant = (status: ManagedUser['status']) => {
+  if (status === 'ACTIVE') return 'default';
+  if (status === 'SUSPENDED') return 'destructive';
+  return 'secondary';
+};
+
+export function UsersTable({ refreshTrigger }: UsersTableProps) {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [query, setQuery] = useState('');
+  const [roleFilter, setRoleFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const { token, user: currentUser } = useAuth();
+
+  const fetchUsers = async () => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const params = new URLSearchParams({ page: String(page), limit: '20' });
+      if (query.trim()) params.set('query', query.trim());
+      if (roleFilter !== 'all') params.set('role', roleFilter);
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+
+      const response = await fetch(`/api/admin/users?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setUsers(data.data || []);
+        setTotalPages(data.pagination?.totalPages || 1);
+      } else {
+        setError(data.error || 'Failed to fetch users');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (token) {
+      fetchUsers();
+    }
+  }, [token, refreshTrigger, page, roleFilter, statusFilter]);
+
+  const updateUser = async (id: string, changes: Partial<Pick<ManagedUser, 'role' | 'status'>> & { unlock?: true }) => {
+    setBusyUserId(id);
+    setError('');
+    setNotice('');
+    try {
+      const response = await fetch(`/api/admin/users/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setUsers(prev => prev.map(user => user.id === id ? data.data.user : user));
+        if (data.data.signedOutSessions > 0) {
+          setNotice(`User updated and signed out of ${data.data.signedOutSessions} session(s).`);
+        }
+      } else {
+        setError(data.error || 'Failed to update user');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const sendPasswordLink = async (id: string) => {
+    setBusyUserId(id);
+    setError('');
+    setNotice('');
+    try {
+      const response = await fetch(`/api/admin/users/${id}/reset-password`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setNotice(data.message);
+      } else {
+        setError(data.error || 'Failed to send the email');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (page === 1) {
+      fetchUsers();
+    } else {
+      setPage(1);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSearch} className="flex flex-wrap gap-3">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name, email or phone"
+          className="max-w-xs bg-white"
+        />
+        <Select value={roleFilter} onValueChange={(value) => { setRoleFilter(value); setPage(1); }}>
+          <SelectTrigger className="w-40 bg-white">
+            <SelectValue placeholder="Role" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All roles</SelectItem>
+            {ROLES.map(role => <SelectItem key={role} value={role}>{role}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setPage(1); }}>
+          <SelectTrigger className="w-40 bg-white">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {STATUSES.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Button type="submit" variant="outline">Search</Button>
+      </form>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {notice && (
+        <Alert>
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4" />
+          <p className="text-gray-600">Loading users...</p>
+        </div>
+      ) : users.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <p className="text-gray-600">No users found.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Login</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => {
+                const isSelf = user.id === currentUser?.id;
+                const busy = busyUserId === user.id;
+                return (
+                  <TableRow key={user.id}>
+                    <TableCell className="font-medium">
+                      {user.name || 'N/A'}
+                      {user.invitePending && (
+                        <Badge variant="outline" className="ml-2">Invited</Badge>
+                      )}
+                      {user.loginLocked && (
+                        <Badge variant="destructive" className="ml-2">Locked</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{user.email}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        disabled={isSelf || busy}
+                        onValueChange={(value) => updateUser(user.id, { role: value as ManagedUser['role'] })}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map(role => <SelectItem key={role} value={role}>{role}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {isSelf ? (
+                        <Badge variant={statusVariant(user.status)}>{user.status}</Badge>
+                      ) : (
+                        <Select
+                          value={user.status}
+                          disabled={busy}
+                          onValueChange={(value) => updateUser(user.id, { status: value as ManagedUser['status'] })}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {STATUSES.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {user.lastLogin ? new Date(user.lastLogin).toLocaleString() : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.loginLocked && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => updateUser(user.id, { unlock: true })}
+                        >
+                          <LockOpen className="w-4 h-4 mr-1" /> Unlock
+                        </Button>
+                      )}
+                      {user.role !== 'CANDIDATE' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => sendPasswordLink(user.id)}
+                        >
+                          {user.invitePending ? (
+                            <><Mail className="w-4 h-4 mr-1" /> Resend invite</>
+                          ) : (
+                            <><KeyRound className="w-4 h-4 mr-1" /> Reset password</>
+                          )}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex justify-end items-center space-x-2">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -39,6 +39,7 @@ export function VendorsActions({ onVendorAdded }: VendorsActionsProps) {
       <ImportVendorModal 
         open={showImportModal} 
         onOpenChange={setShowImportModal} 
+        onVendorsImported={onVendorAdded}
       />
     </div>
   );
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { createContext, useContext, useEffect, useState } from 'react'
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react'
 
 interface User {
   id: string
@@ -30,8 +30,9 @@ interface AuthContextType {
   user: User | null
   token: string | null
   data: RecruiterData
-  login: (userData: User, authToken: string) => void
+  login: (userData: User, authToken: string, expiresIn?: number) => void
   logout: () => void
+  logoutAll: () => Promise<void>
   updateData: (type: keyof RecruiterData, newData: any[]) => void
   saveData: () => Promise<void>
   loadData: () => Promise<void>
@@ -40,6 +41,23 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
+// Access tokens live in memory only and are renewed this long before they expire.
+// The refresh token is an httpOnly cookie the browser sends to /api/auth/refresh.
+const REFRESH_MARGIN_SECONDS = 60
+const DEFAULT_TOKEN_TTL_SECONDS = 15 * 60
+
+async function requestRefresh(retry = true): Promise<{ token: string; expiresIn: number } | null> {
+  const response = await fetch('/api/auth/refresh', { method: 'POST', credentials: 'same-origin' })
+  // Another tab refreshed at the same moment; its new cookie is already set
+  if (response.status === 409 && retry) {
+    await new Promise(resolve => setTimeout(resolve, 1000))
+    return requestRefresh(false)
+  }
+  if (!response.ok) return null
+  const result = await response.json()
+  return result.success ? { token: result.data.token, expiresIn: result.data.expiresIn } : null
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [token, setToken] = useState<string | null>(null)
@@ -52,42 +70,107 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     interviews: [],
   })
   const [isLoading, setIsLoading] = useState(true)
+  const [expiresIn, setExpiresIn] = useState<number | null>(null)
+  const refreshing = useRef<Promise<string | null> | null>(null)
+
+  const clearSession = () => {
+    setUser(null)
+    setToken(null)
+    setExpiresIn(null)
+    setData({
+      candidates: [],
+      jobs: [],
+      clients: [],
+      vendors: [],
+      applications: [],
+      interviews: [],
+    })
+    localStorage.removeItem('user')
+    localStorage.removeItem('token')
+  }
 
-  // Load user data from localStorage on mount
+  // Concurrent callers share one refresh so the token is only rotated once
+  const refreshSession = () => {
+    if (!refreshing.current) {
+      refreshing.current = requestRefresh()
+        .then(result => {
+          if (!result) {
+            clearSession()
+            return null
+          }
+          setToken(result.token)
+          setExpiresIn(result.expiresIn)
+          return result.token
+        })
+        .catch(() => null)
+        .finally(() => {
+          refreshing.current = null
+        })
+    }
+    return refreshing.current
+  }
+
+  // Restore the session from the refresh cookie on mount
   useEffect(() => {
     const storedUser = localStorage.getItem('user')
-    const storedToken = localStorage.getItem('token')
-    
-    if (storedUser && storedToken) {
+    // Tokens are no longer kept in localStorage
+    localStorage.removeItem('token')
+
+    if (storedUser) {
       setUser(JSON.parse(storedUser))
-      setToken(storedToken)
-      loadData()
+      refreshSession().then(newToken => {
+        if (newToken) {
+          loadData(newToken)
+        } else {
+          setIsLoading(false)
+        }
+      })
     } else {
       setIsLoading(false)
     }
   }, [])
 
-  const login = (userData: User, authToken: string) => {
+  // Renew the access token shortly before it expires
+  useEffect(() => {
+    if (!token || !expiresIn) return
+    const delay = Math.max(expiresIn - REFRESH_MARGIN_SECONDS, 5) * 1000
+    const timer = setTimeout(() => {
+      refreshSession()
+    }, delay)
+    return () => clearTimeout(timer)
+  }, [token, expiresIn])
+
+  const login = (userData: User, authToken: string, tokenExpiresIn: number = DEFAULT_TOKEN_TTL_SECONDS) => {
     setUser(userData)
     setToken(authToken)
+    setExpiresIn(tokenExpiresIn)
     localStorage.setItem('user', JSON.stringify(userData))
-    localStorage.setItem('token', authToken)
-    loadData()
+    loadData(authToken)
   }
 
   const logout = () => {
-    setUser(null)
-    setToken(null)
-    setData({
-      candidates: [],
-      jobs: [],
-      clients: [],
-      vendors: [],
-      applications: [],
-      interviews: [],
+    // Revoke the session server-side; the local state is cleared either way
+    fetch('/api/auth/logout', { method: 'POST', credentials: 'same-origin' }).catch(error => {
+      console.error('Error logging out:', error)
     })
-    localStorage.removeItem('user')
-    localStorage.removeItem('token')
+    clearSession()
+  }
+
+  // Sign out on every device, this one included
+  const logoutAll = async () => {
+    try {
+      await fetch('/api/auth/logout-all', {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      })
+    } catch (error) {
+      console.error('Error signing out of all devices:', error)
+    } finally {
+      clearSession()
+    }
   }
 
   const updateData = (type: keyof RecruiterData, newData: any[]) => {
@@ -123,8 +206,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
-  const loadData = async () => {
-    if (!token) {
+  const loadData = async (authToken: string | null = token) => {
+    if (!authToken) {
       setIsLoading(false)
       return
     }
@@ -132,7 +215,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       const response = await fetch('/api/recruiter/data', {
         headers: {
-          'Authorization': `Bearer ${token}`,
+          'Authorization': `Bearer ${authToken}`,
         },
       })
 
@@ -155,6 +238,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     data,
     login,
     logout,
+    logoutAll,
     updateData,
     saveData,
     loadData,
@@ -1,11 +1,14 @@
-import { createContext, useContext, useState, ReactNode } from "react";
+import { createContext, useContext, useMemo, useState, ReactNode } from "react";
 import { DateRange } from "react-day-picker";
+import { endOfDay, startOfDay } from "date-fns";
 
 interface DashboardContextType {
   selectedRecruiter: string;
   setSelectedRecruiter: (recruiter: string) => void;
   dateRange: DateRange | undefined;
   setDateRange: (range: DateRange | undefined) => void;
+  // Query string for the dashboard API endpoints built from the filters above
+  filterParams: string;
 }
 
 const DashboardContext = createContext<DashboardContextType | undefined>(undefined);
@@ -14,6 +17,18 @@ export function DashboardProvider({ children }: { children: ReactNode }) {
   const [selectedRecruiter, setSelectedRecruiter] = useState<string>("");
   const [dateRange, setDateRange] = useState<DateRange | undefined>();
 
+  const filterParams = useMemo(() => {
+    const params = new URLSearchParams();
+    if (selectedRecruiter) {
+      params.set("recruiterId", selectedRecruiter);
+    }
+    if (dateRange?.from) {
+      params.set("from", startOfDay(dateRange.from).toISOString());
+      params.set("to", endOfDay(dateRange.to ?? dateRange.from).toISOString());
+    }
+    return params.toString();
+  }, [selectedRecruiter, dateRange]);
+
   return (
     <DashboardContext.Provider
       value={{
@@ -21,6 +36,7 @@ export function DashboardProvider({ children }: { children: ReactNode }) {
         setSelectedRecruiter,
         dateRange,
         setDateRange,
+        filterParams,
       }}
     >
       {children}
@@ -34,4 +50,4 @@ export function useDashboard() {
     throw new Error("useDashboard must be used within a DashboardProvider");
   }
   return context;
-} 
\ No newline at end of file
+}
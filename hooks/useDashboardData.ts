@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useDashboard } from '@/context/DashboardContext';
+
+// Fetch a dashboard endpoint, re-fetching whenever the selected recruiter or date range changes.
+// Pass a null path to skip fetching (e.g. while a dialog is closed).
+export function useDashboardData<T>(path: string | null, initialData: T, extraParams?: Record<string, string>) {
+  const { token } = useAuth();
+  const { filterParams } = useDashboard();
+  const [data, setData] = useState<T>(initialData);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const extraQuery = extraParams ? new URLSearchParams(extraParams).toString() : '';
+
+  useEffect(() => {
+    if (!token || !path) return;
+
+    const controller = new AbortController();
+    const query = [filterParams, extraQuery].filter(Boolean).join('&');
+
+    const fetchData = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(query ? `${path}?${query}` : path, {
+          headers: { Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        const result = await response.json();
+        if (result.success) {
+          setData(result.data);
+          setError(null);
+        } else {
+          setError(result.error || 'Failed to load data');
+        }
+      } catch (err) {
+        if ((err as Error).name !== 'AbortError') {
+          console.error(`Failed to fetch ${path}:`, err);
+          setError('Failed to load data');
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [token, path, filterParams, extraQuery]);
+
+  return { data, isLoading, error };
+}
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
 
 interface ExtractedData {
     name?: string;
@@ -73,6 +74,7 @@ interface UploadResult {
     success: boolean;
     fileName: string;
     filePath: string;
+    resumeFileId?: string | null;
     extractedData: ExtractedData;
     error?: string;
     aiProcessed?: boolean;
@@ -84,6 +86,7 @@ interface UploadResult {
 }
 
 export function useFileUpload() {
+    const { token } = useAuth();
     const [isUploading, setIsUploading] = useState(false);
     const [uploadProgress, setUploadProgress] = useState<{ [key: string]: number }>({});
 
@@ -105,6 +108,7 @@ export function useFileUpload() {
 
             const response = await fetch('/api/upload-resume', {
                 method: 'POST',
+                headers: token ? { Authorization: `Bearer ${token}` } : undefined,
                 body: formData,
             });
 
@@ -181,6 +185,7 @@ export function useFileUpload() {
 
                     const response = await fetch('/api/upload-resume', {
                         method: 'POST',
+                        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
                         body: formData,
                     });
 
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
 
 interface JobDescriptionData {
     jobTitle?: string;
@@ -54,6 +55,7 @@ interface JobDescriptionUploadResult {
 
 export function useJobDescriptionUpload() {
     const [isUploading, setIsUploading] = useState(false);
+    const { token } = useAuth();
     const [uploadProgress, setUploadProgress] = useState<{ [key: string]: number }>({});
 
     const uploadJobDescription = async (file: File): Promise<JobDescriptionUploadResult> => {
@@ -74,6 +76,7 @@ export function useJobDescriptionUpload() {
 
             const response = await fetch('/api/upload-job-description', {
                 method: 'POST',
+                headers: { 'Authorization': `Bearer ${token}` },
                 body: formData,
             });
 
@@ -0,0 +1,226 @@
+import { ApplicationStage, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { PipelineUtils } from '@/lib/pipeline'
+import { Permissions } from '@/lib/permissions'
+import { RecruiterUtils } from '@/lib/recruiters'
+import type { JWTPayload } from '@/lib/auth'
+
+// Funnel rows in pipeline order, as shown on the recruiter dashboard
+export const FUNNEL_STAGES: Array<{ stage: ApplicationStage; label: string }> = [
+  { stage: 'APPLIED', label: 'Applied' },
+  { stage: 'SCREENING', label: 'Screening' },
+  { stage: 'PHONE_INTERVIEW', label: 'Phone Interview' },
+  { stage: 'TECHNICAL_INTERVIEW', label: 'Technical Interview' },
+  { stage: 'FINAL_INTERVIEW', label: 'Final Interview' },
+  { stage: 'OFFER_EXTENDED', label: 'Offer Extended' },
+  { stage: 'OFFER_ACCEPTED', label: 'Hired' },
+  { stage: 'REJECTED', label: 'Rejected' },
+  { stage: 'WITHDRAWN', label: 'Withdrawn' },
+]
+
+const NO_REASON = 'No reason given'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface DashboardFilters {
+  recruiterId?: string
+  from?: string
+  to?: string
+}
+
+export class DashboardAnalytics {
+  // Callers with "own" access only see their own jobs, whatever recruiterId they ask for.
+  // null when such a caller has no recruiter profile.
+  static async scopeFilters<T extends DashboardFilters>(filters: T, user: JWTPayload): Promise<T | null> {
+    if (Permissions.scope(user.role, 'analytics:read') !== 'own') return filters
+    const recruiterId = await RecruiterUtils.getRecruiterId(user.userId)
+    return recruiterId ? { ...filters, recruiterId } : null
+  }
+
+  // Applications are attributed to the recruiter who owns the job
+  static applicationWhere(filters: DashboardFilters, includeDates = true): Prisma.JobApplicationWhereInput {
+    const where: Prisma.JobApplicationWhereInput = {}
+    if (filters.recruiterId) {
+      where.job = { recruiterId: filters.recruiterId }
+    }
+    if (includeDates && (filters.from || filters.to)) {
+      where.appliedAt = {
+        ...(filters.from ? { gte: new Date(filters.from) } : {}),
+        ...(filters.to ? { lte: new Date(filters.to) } : {}),
+      }
+    }
+    return where
+  }
+
+  // Applications currently sitting in each stage, for those applied within the date range
+  static async funnel(filters: DashboardFilters) {
+    const groups = await prisma.jobApplication.groupBy({
+      by: ['currentStage'],
+      where: this.applicationWhere(filters),
+      _count: { _all: true },
+    })
+    const counts = new Map(groups.map(group => [group.currentStage, group._count._all]))
+
+    return FUNNEL_STAGES.map(({ stage, label }) => ({
+      stage,
+      label,
+      count: counts.get(stage) ?? 0,
+    }))
+  }
+
+  static async applicationsInStage(stage: ApplicationStage, filters: DashboardFilters, page: number, limit: number) {
+    const where = { ...this.applicationWhere(filters), currentStage: stage }
+
+    const [applications, total] = await Promise.all([
+      prisma.jobApplication.findMany({
+        where,
+        include: {
+          candidate: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+          job: {
+            select: {
+              id: true,
+              jobTitle: true,
+              jobCode: true,
+              client: { select: { name: true } },
+              recruiter: { select: { id: true, user: { select: { name: true } } } },
+            },
+          },
+        },
+        orderBy: { appliedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.jobApplication.count({ where }),
+    ])
+
+    return { applications, total }
+  }
+
+  // Hires are grouped by the month the offer was accepted, which is read from the
+  // stage history (falling back to the last update for legacy records)
+  static async hiresPerMonth(filters: DashboardFilters) {
+    const hires = await prisma.jobApplication.findMany({
+      where: { ...this.applicationWhere(filters, false), currentStage: 'OFFER_ACCEPTED' },
+      select: { appliedAt: true, updatedAt: true, stageHistory: true },
+    })
+
+    const months = new Map<string, { hires: number; totalDays: number }>()
+    for (const hire of hires) {
+      const hiredAt = this.stageReachedAt(hire.stageHistory, 'OFFER_ACCEPTED') ?? hire.updatedAt
+      if (!this.inRange(hiredAt, filters)) continue
+
+      const key = `${hiredAt.getUTCFullYear()}-${String(hiredAt.getUTCMonth() + 1).padStart(2, '0')}`
+      const month = months.get(key) ?? { hires: 0, totalDays: 0 }
+      month.hires += 1
+      month.totalDays += Math.max(0, (hiredAt.getTime() - hire.appliedAt.getTime()) / DAY_MS)
+      months.set(key, month)
+    }
+
+    return Array.from(months.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, { hires: count, totalDays }]) => ({
+        month,
+        hires: count,
+        averageDaysToHire: Math.round(totalDays / count),
+      }))
+  }
+
+  // Rejections grouped by the reason recorded on the transition and by the stage they were rejected from
+  static async rejectionSummary(filters: DashboardFilters) {
+    const rejections = await prisma.jobApplication.findMany({
+      where: { ...this.applicationWhere(filters, false), currentStage: 'REJECTED' },
+      select: { updatedAt: true, stageHistory: true },
+    })
+
+    const byReason = new Map<string, number>()
+    const byStage = new Map<string, number>()
+    let total = 0
+
+    for (const rejection of rejections) {
+      const entry = PipelineUtils.parseHistory(rejection.stageHistory)
+        .filter(item => item.to === 'REJECTED')
+        .pop()
+      const rejectedAt = entry?.timestamp ? new Date(entry.timestamp) : rejection.updatedAt
+      if (!this.inRange(rejectedAt, filters)) continue
+
+      total += 1
+      const reason = entry?.reason?.trim() || NO_REASON
+      byReason.set(reason, (byReason.get(reason) ?? 0) + 1)
+      if (entry?.from) {
+        byStage.set(entry.from, (byStage.get(entry.from) ?? 0) + 1)
+      }
+    }
+
+    const sortByCount = (entries: Map<string, number>) =>
+      Array.from(entries.entries()).sort((a, b) => b[1] - a[1])
+
+    return {
+      total,
+      byReason: sortByCount(byReason).map(([reason, count]) => ({ reason, count })),
+      byStage: sortByCount(byStage).map(([stage, count]) => ({ stage, count })),
+    }
+  }
+
+  // Per-stage application counts for each recruiter, based on the jobs they own
+  static async recruiterBreakdown(filters: DashboardFilters) {
+    const recruiters = await prisma.recruiter.findMany({
+      where: filters.recruiterId ? { id: filters.recruiterId } : {},
+      select: {
+        id: true,
+        user: { select: { name: true, email: true } },
+      },
+    })
+
+    const jobs = await prisma.job.findMany({
+      where: { recruiterId: { in: recruiters.map(recruiter => recruiter.id) } },
+      select: { id: true, recruiterId: true },
+    })
+    const jobOwner = new Map(jobs.map(job => [job.id, job.recruiterId]))
+
+    const groups = jobs.length > 0
+      ? await prisma.jobApplication.groupBy({
+        by: ['jobId', 'currentStage'],
+        where: { ...this.applicationWhere({ from: filters.from, to: filters.to }), jobId: { in: jobs.map(job => job.id) } },
+        _count: { _all: true },
+      })
+      : []
+
+    const stages = new Map<string, Record<ApplicationStage, number>>()
+    for (const recruiter of recruiters) {
+      stages.set(recruiter.id, Object.fromEntries(FUNNEL_STAGES.map(({ stage }) => [stage, 0])) as Record<ApplicationStage, number>)
+    }
+    for (const group of groups) {
+      const owner = jobOwner.get(group.jobId)
+      const counts = owner ? stages.get(owner) : undefined
+      if (counts) counts[group.currentStage] += group._count._all
+    }
+
+    return recruiters.map(recruiter => {
+      const counts = stages.get(recruiter.id)!
+      return {
+        id: recruiter.id,
+        name: recruiter.user.name ?? recruiter.user.email,
+        stages: counts,
+        total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+      }
+    })
+  }
+
+  private static stageReachedAt(history: unknown, stage: ApplicationStage): Date | null {
+    const entry = PipelineUtils.parseHistory(history)
+      .filter(item => item.to === stage)
+      .pop()
+    return entry?.timestamp ? new Date(entry.timestamp) : null
+  }
+
+  private static inRange(date: Date, filters: DashboardFilters): boolean {
+    if (filters.from && date < new Date(filters.from)) return false
+    if (filters.to && date > new Date(filters.to)) return false
+    return true
+  }
+}
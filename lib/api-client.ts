@@ -27,6 +27,13 @@ export interface LoginRequest {
   method: 'email' | 'mobile'
 }
 
+export interface OtpSentResponse {
+  channel: 'email' | 'sms' | 'dev'
+  expiresAt: string
+  // Seconds before another code can be requested
+  resendAfter: number
+}
+
 export interface VerifyOTPRequest {
   contact: string
   otp: string
@@ -47,40 +54,44 @@ export interface User {
 export interface AuthResponse {
   user: User
   token: string
+  expiresIn: number // Seconds until the access token expires
 }
 
 // Token management
+// The access token is kept in memory only; the refresh token is an httpOnly cookie
 let authToken: string | null = null
 
 export const setAuthToken = (token: string | null) => {
   authToken = token
   if (token) {
-    localStorage.setItem('auth_token', token)
     api.defaults.headers.common['Authorization'] = `Bearer ${token}`
   } else {
-    localStorage.removeItem('auth_token')
     delete api.defaults.headers.common['Authorization']
   }
 }
 
-export const getAuthToken = (): string | null => {
-  if (authToken) return authToken
-  if (typeof window !== 'undefined') {
-    const token = localStorage.getItem('auth_token')
-    if (token) {
-      setAuthToken(token)
-      return token
-    }
-  }
-  return null
-}
+export const getAuthToken = (): string | null => authToken
 
-// Initialize token on import
-if (typeof window !== 'undefined') {
-  const token = localStorage.getItem('auth_token')
-  if (token) {
-    setAuthToken(token)
+// Concurrent 401s share one refresh so the refresh token is only rotated once
+let refreshRequest: Promise<string | null> | null = null
+
+const refreshAuthToken = (): Promise<string | null> => {
+  if (!refreshRequest) {
+    refreshRequest = api.post('/auth/refresh', undefined, { withCredentials: true })
+      .then(response => {
+        const token = response.data.success ? response.data.data.token as string : null
+        setAuthToken(token)
+        return token
+      })
+      .catch(() => {
+        setAuthToken(null)
+        return null
+      })
+      .finally(() => {
+        refreshRequest = null
+      })
   }
+  return refreshRequest
 }
 
 // Request interceptor to add auth token
@@ -95,9 +106,21 @@ api.interceptors.request.use((config) => {
 // Response interceptor to handle errors
 api.interceptors.response.use(
   (response: AxiosResponse) => response,
-  (error: AxiosError) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
+  async (error: AxiosError) => {
+    const request = error.config as (typeof error.config & { _retried?: boolean }) | undefined
+    const isAuthRoute = request?.url?.startsWith('/auth/')
+
+    if (error.response?.status === 401 && request && !request._retried && !isAuthRoute) {
+      // Access token expired; renew it from the refresh cookie and try once more
+      request._retried = true
+      const token = await refreshAuthToken()
+      if (token) {
+        request.headers.Authorization = `Bearer ${token}`
+        return api(request)
+      }
+    }
+
+    if (error.response?.status === 401 && !isAuthRoute) {
       setAuthToken(null)
       if (typeof window !== 'undefined') {
         window.location.href = '/login'
@@ -110,7 +133,7 @@ api.interceptors.response.use(
 // API client class
 export class ApiClient {
   // Authentication endpoints
-  static async login(data: LoginRequest): Promise<ApiResponse> {
+  static async login(data: LoginRequest): Promise<ApiResponse<OtpSentResponse>> {
     const response = await api.post('/auth/login', data)
     return response.data
   }
@@ -128,19 +151,65 @@ export class ApiClient {
     return response.data
   }
 
-  static logout() {
-    setAuthToken(null)
-    if (typeof window !== 'undefined') {
-      window.location.href = '/login'
+  static async refresh(): Promise<string | null> {
+    return refreshAuthToken()
+  }
+
+  static async logout() {
+    try {
+      await api.post('/auth/logout', undefined, { withCredentials: true })
+    } finally {
+      setAuthToken(null)
+      if (typeof window !== 'undefined') {
+        window.location.href = '/login'
+      }
     }
   }
 
+  // Sign out of every device
+  static async logoutAll() {
+    try {
+      await api.post('/auth/logout-all', undefined, { withCredentials: true })
+    } finally {
+      setAuthToken(null)
+      if (typeof window !== 'undefined') {
+        window.location.href = '/login'
+      }
+    }
+  }
+
+  // Password endpoints
+  static async getPasswordPolicy(): Promise<ApiResponse<{ requirements: string[] }>> {
+    const response = await api.get('/auth/password-policy')
+    return response.data
+  }
+
+  static async forgotPassword(email: string): Promise<ApiResponse> {
+    const response = await api.post('/auth/forgot-password', { email })
+    return response.data
+  }
+
+  static async setPassword(data: { token: string; password: string; name?: string }): Promise<ApiResponse> {
+    const response = await api.post('/auth/set-password', data)
+    return response.data
+  }
+
+  static async changePassword(data: { currentPassword: string; newPassword: string }): Promise<ApiResponse<{ signedOutSessions: number }>> {
+    const response = await api.post('/auth/change-password', data)
+    return response.data
+  }
+
   // Candidates endpoints
   static async getCandidates(params?: any): Promise<ApiResponse<any[]>> {
     const response = await api.get('/candidates', { params })
     return response.data
   }
 
+  static async parseCandidateQuery(text: string): Promise<ApiResponse<any>> {
+    const response = await api.post('/candidates/parse-query', { text })
+    return response.data
+  }
+
   static async getCandidate(id: string): Promise<ApiResponse<any>> {
     const response = await api.get(`/candidates/${id}`)
     return response.data
@@ -161,6 +230,26 @@ export class ApiClient {
     return response.data
   }
 
+  static async getDuplicateCandidates(params?: any): Promise<ApiResponse<any[]>> {
+    const response = await api.get('/candidates/duplicates', { params })
+    return response.data
+  }
+
+  static async getCandidateDuplicates(id: string, params?: any): Promise<ApiResponse<any[]>> {
+    const response = await api.get(`/candidates/${id}/duplicates`, { params })
+    return response.data
+  }
+
+  static async dismissDuplicate(data: { candidateIds: [string, string]; reason?: string }): Promise<ApiResponse<any>> {
+    const response = await api.post('/candidates/duplicates/dismiss', data)
+    return response.data
+  }
+
+  static async mergeCandidates(data: { survivorId: string; duplicateId: string }): Promise<ApiResponse<any>> {
+    const response = await api.post('/candidates/merge', data)
+    return response.data
+  }
+
   // Jobs endpoints
   static async getJobs(params?: any): Promise<ApiResponse<any[]>> {
     const response = await api.get('/jobs', { params })
@@ -187,6 +276,11 @@ export class ApiClient {
     return response.data
   }
 
+  static async reassignJob(id: string, data: { recruiterId: string; reason?: string }): Promise<ApiResponse<any>> {
+    const response = await api.post(`/jobs/${id}/reassign`, data)
+    return response.data
+  }
+
   // Clients endpoints
   static async getClients(params?: any): Promise<ApiResponse<any[]>> {
     const response = await api.get('/clients', { params })
@@ -213,6 +307,19 @@ export class ApiClient {
     return response.data
   }
 
+  static async importClients(file: File, dryRun = false): Promise<ApiResponse<any>> {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('dryRun', String(dryRun))
+
+    const response = await api.post('/clients/import', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    })
+    return response.data
+  }
+
   // Vendors endpoints
   static async getVendors(params?: any): Promise<ApiResponse<any[]>> {
     const response = await api.get('/vendors', { params })
@@ -239,6 +346,19 @@ export class ApiClient {
     return response.data
   }
 
+  static async importVendors(file: File, dryRun = false): Promise<ApiResponse<any>> {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('dryRun', String(dryRun))
+
+    const response = await api.post('/vendors/import', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    })
+    return response.data
+  }
+
   // Job Applications endpoints
   static async getJobApplications(params?: any): Promise<ApiResponse<any[]>> {
     const response = await api.get('/job-applications', { params })
@@ -255,8 +375,127 @@ export class ApiClient {
     return response.data
   }
 
+  static async bulkCreateJobApplications(data: { jobId: string; candidateIds: string[]; notes?: string }): Promise<ApiResponse<any>> {
+    const response = await api.post('/job-applications/bulk', data)
+    return response.data
+  }
+
   static async updateJobApplication(id: string, data: any): Promise<ApiResponse<any>> {
-    const response = await api.put(`/job-applications/${id}`, data)
+    const response = await api.patch(`/job-applications/${id}`, data)
+    return response.data
+  }
+
+  // Interviews endpoints
+  static async getInterviews(params?: any): Promise<ApiResponse<any[]>> {
+    const response = await api.get('/interviews', { params })
+    return response.data
+  }
+
+  static async getInterview(id: string): Promise<ApiResponse<any>> {
+    const response = await api.get(`/interviews/${id}`)
+    return response.data
+  }
+
+  static async scheduleInterview(data: any): Promise<ApiResponse<any>> {
+    const response = await api.post('/interviews', data)
+    return response.data
+  }
+
+  static async updateInterview(id: string, data: any): Promise<ApiResponse<any>> {
+    const response = await api.patch(`/interviews/${id}`, data)
+    return response.data
+  }
+
+  static async rescheduleInterview(id: string, data: any): Promise<ApiResponse<any>> {
+    const response = await api.post(`/interviews/${id}/reschedule`, data)
+    return response.data
+  }
+
+  static async cancelInterview(id: string, reason?: string): Promise<ApiResponse<any>> {
+    const response = await api.post(`/interviews/${id}/cancel`, { reason })
+    return response.data
+  }
+
+  // Candidate share endpoints
+  static async getCandidateShares(params?: any): Promise<ApiResponse<any[]>> {
+    const response = await api.get('/candidate-shares', { params })
+    return response.data
+  }
+
+  static async shareCandidates(data: any): Promise<ApiResponse<any>> {
+    const response = await api.post('/candidate-shares', data)
+    return response.data
+  }
+
+  static async revokeCandidateShare(id: string): Promise<ApiResponse<any>> {
+    const response = await api.post(`/candidate-shares/${id}/revoke`)
+    return response.data
+  }
+
+  // Saved search endpoints
+  static async getSavedSearches(): Promise<ApiResponse<any[]>> {
+    const response = await api.get('/saved-searches')
+    return response.data
+  }
+
+  static async getSavedSearch(id: string): Promise<ApiResponse<any>> {
+    const response = await api.get(`/saved-searches/${id}`)
+    return response.data
+  }
+
+  static async createSavedSearch(data: any): Promise<ApiResponse<any>> {
+    const response = await api.post('/saved-searches', data)
+    return response.data
+  }
+
+  static async updateSavedSearch(id: string, data: any): Promise<ApiResponse<any>> {
+    const response = await api.put(`/saved-searches/${id}`, data)
+    return response.data
+  }
+
+  static async deleteSavedSearch(id: string): Promise<ApiResponse> {
+    const response = await api.delete(`/saved-searches/${id}`)
+    return response.data
+  }
+
+  // Talent pool endpoints
+  static async getTalentPools(params?: any): Promise<ApiResponse<any[]>> {
+    const response = await api.get('/talent-pools', { params })
+    return response.data
+  }
+
+  static async getTalentPool(id: string): Promise<ApiResponse<any>> {
+    const response = await api.get(`/talent-pools/${id}`)
+    return response.data
+  }
+
+  static async createTalentPool(data: { name: string; description?: string; tags?: string[] }): Promise<ApiResponse<any>> {
+    const response = await api.post('/talent-pools', data)
+    return response.data
+  }
+
+  static async updateTalentPool(id: string, data: { name?: string; description?: string; tags?: string[] }): Promise<ApiResponse<any>> {
+    const response = await api.put(`/talent-pools/${id}`, data)
+    return response.data
+  }
+
+  static async deleteTalentPool(id: string): Promise<ApiResponse> {
+    const response = await api.delete(`/talent-pools/${id}`)
+    return response.data
+  }
+
+  static async addTalentPoolMembers(id: string, data: { candidateIds: string[]; tags?: string[]; notes?: string }): Promise<ApiResponse<any>> {
+    const response = await api.post(`/talent-pools/${id}/members`, data)
+    return response.data
+  }
+
+  static async updateTalentPoolMember(id: string, candidateId: string, data: { tags?: string[]; notes?: string | null }): Promise<ApiResponse<any>> {
+    const response = await api.patch(`/talent-pools/${id}/members/${candidateId}`, data)
+    return response.data
+  }
+
+  static async removeTalentPoolMember(id: string, candidateId: string): Promise<ApiResponse> {
+    const response = await api.delete(`/talent-pools/${id}/members/${candidateId}`)
     return response.data
   }
 
@@ -276,12 +515,124 @@ export class ApiClient {
     return response.data
   }
 
+  static async getFiles(params?: any): Promise<ApiResponse<any[]>> {
+    const response = await api.get('/files', { params })
+    return response.data
+  }
+
+  static async getFile(id: string): Promise<ApiResponse<any>> {
+    const response = await api.get(`/files/${id}`)
+    return response.data
+  }
+
+  static async reprocessFile(id: string): Promise<ApiResponse<any>> {
+    const response = await api.post(`/files/${id}/reprocess`)
+    return response.data
+  }
+
+  // Export endpoints
+  static async exportList(
+    resource: 'candidates' | 'jobs' | 'clients' | 'vendors' | 'job-applications',
+    params?: any
+  ): Promise<Blob> {
+    const response = await api.get(`/${resource}/export`, { params, responseType: 'blob' })
+    return response.data
+  }
+
   // Dashboard endpoints
   static async getDashboardStats(): Promise<ApiResponse<any>> {
     const response = await api.get('/dashboard/stats')
     return response.data
   }
 
+  // Admin user management endpoints
+  static async getUsers(params?: any): Promise<ApiResponse<any[]>> {
+    const response = await api.get('/admin/users', { params })
+    return response.data
+  }
+
+  static async getUser(id: string): Promise<ApiResponse<any>> {
+    const response = await api.get(`/admin/users/${id}`)
+    return response.data
+  }
+
+  static async inviteUser(data: { email: string; name: string; role?: 'RECRUITER' | 'ADMIN' }): Promise<ApiResponse<any>> {
+    const response = await api.post('/admin/users', data)
+    return response.data
+  }
+
+  static async updateUser(id: string, data: { name?: string; role?: string; status?: string }): Promise<ApiResponse<any>> {
+    const response = await api.patch(`/admin/users/${id}`, data)
+    return response.data
+  }
+
+  static async resetUserPassword(id: string): Promise<ApiResponse<any>> {
+    const response = await api.post(`/admin/users/${id}/reset-password`)
+    return response.data
+  }
+
+  // Contact form endpoints
+  static async submitContactInquiry(data: any): Promise<ApiResponse> {
+    const response = await api.post('/contact', data)
+    return response.data
+  }
+
+  static async getInquiries(params?: { page?: number; limit?: number; status?: string; inquiryType?: string; query?: string }): Promise<ApiResponse<any[]>> {
+    const response = await api.get('/admin/inquiries', { params })
+    return response.data
+  }
+
+  static async updateInquiry(id: string, status: 'NEW' | 'ARCHIVED'): Promise<ApiResponse<any>> {
+    const response = await api.patch(`/admin/inquiries/${id}`, { status })
+    return response.data
+  }
+
+  static async convertInquiry(id: string): Promise<ApiResponse<any>> {
+    const response = await api.post(`/admin/inquiries/${id}/convert`)
+    return response.data
+  }
+
+  // Notification endpoints
+  static async getNotifications(params?: { page?: number; limit?: number; unread?: boolean }): Promise<ApiResponse<{ notifications: any[]; unreadCount: number }>> {
+    const response = await api.get('/notifications', { params })
+    return response.data
+  }
+
+  static async markNotificationRead(id: string, read: boolean = true): Promise<ApiResponse<any>> {
+    const response = await api.patch(`/notifications/${id}`, { read })
+    return response.data
+  }
+
+  static async markAllNotificationsRead(): Promise<ApiResponse<{ marked: number }>> {
+    const response = await api.post('/notifications/read-all')
+    return response.data
+  }
+
+  static async getNotificationPreferences(): Promise<ApiResponse<any[]>> {
+    const response = await api.get('/notifications/preferences')
+    return response.data
+  }
+
+  static async updateNotificationPreferences(preferences: Array<{ type: string; inApp?: boolean; email?: boolean }>): Promise<ApiResponse<any[]>> {
+    const response = await api.put('/notifications/preferences', { preferences })
+    return response.data
+  }
+
+  // Audit log endpoints
+  static async getAuditEvents(params?: {
+    entityType?: string
+    entityId?: string
+    actorId?: string
+    action?: string
+    from?: string
+    to?: string
+    page?: number
+    limit?: number
+  }): Promise<ApiResponse<any[]>> {
+    const response = await api.get('/audit', { params })
+    return response.data
+  }
+
   // Utility methods
   static handleApiError(error: any): string {
     if (error.response?.data?.error) {
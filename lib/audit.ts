@@ -0,0 +1,102 @@
+import type { AuditAction, AuditEntity, Prisma, UserRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AuthUtils } from '@/lib/auth'
+import type { AuthenticatedRequest } from '@/lib/middleware'
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>
+
+export interface AuditEntry {
+  action: AuditAction
+  entityType: AuditEntity
+  entityId: string
+  // The record before and after the change; leave out before for creates and after for deletes
+  before?: object | null
+  after?: object | null
+  context?: string
+}
+
+// Bookkeeping that changes on every write, the job assignment and application stage histories,
+// which are logs of their own, and the resume text copied onto candidates for search
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', '_count', 'assignmentHistory', 'stageHistory', 'resumeText'])
+
+// Government IDs are noted as changed, but their values never reach the audit log
+const REDACTED_FIELDS: Partial<Record<AuditEntity, string[]>> = {
+  CANDIDATE: ['aadhaar', 'pan', 'uan'],
+}
+const REDACTED = '[redacted]'
+
+// Dates become ISO strings and nested objects plain JSON, so values compare and store the same way
+function normalize(value: unknown): unknown {
+  if (value === undefined) return null
+  return JSON.parse(JSON.stringify(value))
+}
+
+// Included relations (e.g. a candidate's user) are objects with their own id; they are audited
+// as their own entity, not as a field of this one
+function isRelation(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date) && 'id' in value
+}
+
+export class AuditLog {
+  // Fields that differ between the two versions of a record. A create diffs against nothing
+  // and a delete against nothing, so every field it had shows up.
+  static diff(entityType: AuditEntity, before?: object | null, after?: object | null): AuditChanges {
+    const from = (before ?? {}) as Record<string, unknown>
+    const to = (after ?? {}) as Record<string, unknown>
+    const redacted = REDACTED_FIELDS[entityType] ?? []
+    const changes: AuditChanges = {}
+
+    for (const field of Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))) {
+      if (IGNORED_FIELDS.has(field) || isRelation(from[field]) || isRelation(to[field])) continue
+
+      const previous = normalize(from[field])
+      const next = normalize(to[field])
+      if (JSON.stringify(previous) === JSON.stringify(next)) continue
+
+      changes[field] = redacted.includes(field)
+        ? { from: previous === null ? null : REDACTED, to: next === null ? null : REDACTED }
+        : { from: previous, to: next }
+    }
+
+    return changes
+  }
+
+  // Record one change made by the signed-in user. Updates that changed nothing are skipped.
+  // The change itself has already happened, so a failure here is logged rather than thrown.
+  static async record(request: AuthenticatedRequest, entry: AuditEntry): Promise<void> {
+    await this.recordMany(request, [entry])
+  }
+
+  static async recordMany(request: AuthenticatedRequest, entries: AuditEntry[]): Promise<void> {
+    try {
+      const actor = this.actor(request)
+      const data = entries
+        .map(entry => ({ entry, changes: this.diff(entry.entityType, entry.before, entry.after) }))
+        .filter(({ entry, changes }) => entry.action !== 'UPDATE' || Object.keys(changes).length > 0)
+        .map(({ entry, changes }) => ({
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: entry.entityId,
+          context: entry.context,
+          changes: changes as Prisma.InputJsonValue,
+          ...actor,
+        }))
+
+      if (data.length > 0) {
+        await prisma.auditEvent.createMany({ data })
+      }
+    } catch (error) {
+      console.error('Audit log error:', error)
+    }
+  }
+
+  private static actor(request: AuthenticatedRequest) {
+    return {
+      actorId: request.user?.userId ?? null,
+      actorEmail: request.user?.email ?? null,
+      actorRole: (request.user?.role as UserRole | undefined) ?? null,
+      ipAddress: AuthUtils.extractIpFromRequest(request),
+      userAgent: request.headers.get('user-agent')?.slice(0, 500) ?? null,
+    }
+  }
+}
@@ -1,13 +1,33 @@
+import crypto from 'crypto'
 import jwt from 'jsonwebtoken'
 import bcrypt from 'bcrypt'
 import { NextRequest } from 'next/server'
+import type { UserStatus } from '@prisma/client'
 
-const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret'
+// Access tokens are short-lived; sessions are kept alive with the refresh token cookie (lib/sessions)
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60
+
+// A guessable secret would let anyone mint tokens, so production refuses to sign without one
+function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET is not set')
+  }
+  return 'development-only-jwt-secret'
+}
+
+// Proxies in front of the app that each append the address they saw to X-Forwarded-For
+function trustedProxyCount(): number {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT)
+  return Number.isInteger(count) && count > 0 ? count : 1
+}
 
 export interface JWTPayload {
   userId: string
   email: string
   role: string
+  sessionId?: string
 }
 
 export class AuthUtils {
@@ -20,11 +40,12 @@ export class AuthUtils {
   }
 
   static generateToken(payload: JWTPayload): string {
-    return jwt.sign(payload, JWT_SECRET, { expiresIn: '24h' })
+    return jwt.sign(payload, getJwtSecret(), { expiresIn: ACCESS_TOKEN_TTL_SECONDS })
   }
 
   static verifyToken(token: string): JWTPayload {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload
+    const { userId, email, role, sessionId } = jwt.verify(token, getJwtSecret()) as JWTPayload
+    return { userId, email, role, sessionId }
   }
 
   static extractTokenFromRequest(request: NextRequest): string | null {
@@ -35,17 +56,42 @@ export class AuthUtils {
     return null
   }
 
-  static generateOTP(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString()
+  // The client address as seen by the outermost trusted proxy. Entries to its left in
+  // X-Forwarded-For come from the client and can be anything, so they are never used.
+  static extractIpFromRequest(request: NextRequest): string | null {
+    const forwardedFor = request.headers.get('x-forwarded-for')
+    if (forwardedFor) {
+      const hops = forwardedFor.split(',').map(hop => hop.trim()).filter(Boolean)
+      return hops[Math.max(0, hops.length - trustedProxyCount())] || null
+    }
+    return request.headers.get('x-real-ip')
+  }
+
+  // A signed note of when a public form was shown, so spam checks do not rely on the client's clock.
+  // HMAC rather than a JWT so it can never pass for an access token.
+  static generateFormToken(form: string, issuedAt: number = Date.now()): string {
+    return `${issuedAt}.${this.formTokenSignature(form, issuedAt)}`
+  }
+
+  // When the form token was issued, or null when it is forged or for another form
+  static verifyFormToken(token: string, form: string): number | null {
+    const [issued, signature] = token.split('.')
+    const issuedAt = Number(issued)
+    if (!Number.isSafeInteger(issuedAt) || !signature) return null
+
+    const expected = Buffer.from(this.formTokenSignature(form, issuedAt))
+    const given = Buffer.from(signature)
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected) ? issuedAt : null
   }
 
-  static isOTPValid(otpExpiry: Date): boolean {
-    return new Date() < otpExpiry
+  private static formTokenSignature(form: string, issuedAt: number): string {
+    return crypto.createHmac('sha256', getJwtSecret()).update(`form:${form}:${issuedAt}`).digest('hex')
   }
 
-  static getOTPExpiry(): Date {
-    const expiry = new Date()
-    expiry.setMinutes(expiry.getMinutes() + 10) // OTP valid for 10 minutes
-    return expiry
+  // Why an account may not sign in or keep using its sessions, or null when it may
+  static accountBlockedReason(status: UserStatus): string | null {
+    if (status === 'SUSPENDED') return 'Account suspended'
+    if (status === 'INACTIVE') return 'Account is inactive'
+    return null
   }
 }
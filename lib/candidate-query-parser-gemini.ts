@@ -0,0 +1,78 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import type { CandidateQueryParser, CandidateQueryParseResult } from '@/lib/candidate-query-parser'
+import { candidateSearchFilterSchema } from '@/lib/validations'
+
+const GEMINI_MODEL = 'gemini-1.5-flash'
+
+const FILTER_JSON_INSTRUCTIONS = `
+Return a JSON object with only the fields the search asks for:
+{
+  "skills": "Boolean query over skills. Words next to each other are ANDed; use upper-case AND, OR, NOT, brackets and double quotes for multi-word skills, e.g. java AND (spring OR \\"spring boot\\")",
+  "jobTitle": "A specific job title such as Data Scientist or Business Analyst. Leave out generic words like developer or engineer.",
+  "location": "City, state or country",
+  "minExperience": "Minimum years of experience as a number",
+  "maxExperience": "Maximum years of experience as a number",
+  "minExpectedSalary": "Minimum expected salary per year in Indian rupees as a number (1 LPA = 100000)",
+  "maxExpectedSalary": "Maximum expected salary per year in Indian rupees as a number (1 LPA = 100000)",
+  "maxNoticePeriodDays": "Longest acceptable notice period in days as a number; 0 for immediate joiners",
+  "availability": "One of AVAILABLE, NOTICE_PERIOD, NOT_AVAILABLE",
+  "relocate": "true if the candidate must be open to relocation, false if they must not be",
+  "query": "Any remaining words to search for anywhere in the profile"
+}
+
+Do not guess values that are not in the search. Return only the JSON object, no additional text or formatting.`
+
+// Asks Gemini to fill the filter, then checks its answer against the same schema as the list route
+export class GeminiCandidateQueryParser implements CandidateQueryParser {
+  readonly name = 'gemini' as const
+
+  isAvailable(): boolean {
+    return !!process.env.NEXT_PUBLIC_GEMINI
+  }
+
+  async parse(text: string): Promise<CandidateQueryParseResult> {
+    if (!this.isAvailable()) {
+      return { ok: false, error: 'AI processing not configured. Please check API key configuration.' }
+    }
+
+    const prompt = `Turn this recruiter's candidate search into filters.\n\nSearch: ${JSON.stringify(text)}\n${FILTER_JSON_INSTRUCTIONS}`
+
+    let responseText: string
+    try {
+      const model = new GoogleGenerativeAI(process.env.NEXT_PUBLIC_GEMINI!).getGenerativeModel({ model: GEMINI_MODEL })
+      const result = await model.generateContent(prompt)
+      responseText = result.response.text()
+    } catch (aiError) {
+      console.error('Gemini AI error details:', aiError)
+      return { ok: false, error: aiError instanceof Error ? aiError.message : 'Unknown AI error' }
+    }
+
+    const data = this.parseJsonResponse(responseText)
+    if (!data) {
+      return { ok: false, error: 'Failed to parse AI response' }
+    }
+
+    // The model fills fields it has no value for with null or empty strings
+    const fields = Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== null && value !== '')
+    )
+    const parsed = candidateSearchFilterSchema.safeParse(fields)
+    if (!parsed.success) {
+      return { ok: false, error: `Invalid AI response: ${parsed.error.errors.map(e => `${e.path.join('.')} ${e.message}`).join(', ')}` }
+    }
+
+    return { ok: true, filter: parsed.data }
+  }
+
+  // The model sometimes wraps the JSON in code fences or adds text around it
+  private parseJsonResponse(text: string): Record<string, unknown> | null {
+    const jsonMatch = text.match(/\{[\s\S]*\}/)
+    if (!jsonMatch) return null
+    try {
+      return JSON.parse(jsonMatch[0])
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return null
+    }
+  }
+}
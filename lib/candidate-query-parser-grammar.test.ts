@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { GrammarCandidateQueryParser } from '@/lib/candidate-query-parser-grammar'
+import type { CandidateSearchFilter } from '@/lib/candidate-query-parser'
+
+const parser = new GrammarCandidateQueryParser()
+
+async function filterOf(text: string): Promise<CandidateSearchFilter> {
+  const result = await parser.parse(text)
+  assert.ok(result.ok)
+  return result.filter
+}
+
+describe('GrammarCandidateQueryParser', () => {
+  it('reads skills, location, experience and salary', async () => {
+    assert.deepEqual(await filterOf('java developers in pune with 5+ years expecting under 20 LPA'), {
+      skills: 'java',
+      location: 'Pune',
+      minExperience: 5,
+      maxExpectedSalary: 2000000,
+    })
+  })
+
+  it('keeps a skill after "in" as a skill', async () => {
+    assert.deepEqual(await filterOf('devs in react'), { skills: 'react' })
+  })
+
+  it('excludes a negated location instead of filtering on it', async () => {
+    assert.deepEqual(await filterOf('java developers not in pune'), { skills: 'java AND NOT pune' })
+    assert.deepEqual(await filterOf('react devs not based in bangalore but in chennai'), {
+      skills: 'react AND NOT bangalore',
+      location: 'Chennai',
+    })
+  })
+
+  it('excludes negated skills', async () => {
+    assert.deepEqual(await filterOf('python developers from mumbai without django'), {
+      skills: 'python AND NOT django',
+      location: 'Mumbai',
+    })
+  })
+
+  it('reads titles, notice periods and relocation', async () => {
+    assert.deepEqual(await filterOf('data engineers serving notice, willing to relocate'), {
+      jobTitle: 'Data Engineer',
+      availability: 'NOTICE_PERIOD',
+      relocate: true,
+    })
+    assert.deepEqual(await filterOf('qa engineers with notice under 30 days'), {
+      jobTitle: 'Qa Engineer',
+      maxNoticePeriodDays: 30,
+    })
+  })
+})
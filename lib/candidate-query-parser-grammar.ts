@@ -0,0 +1,243 @@
+import type { CandidateQueryParser, CandidateQueryParseResult, CandidateSearchFilter } from '@/lib/candidate-query-parser'
+import { RangeParser } from '@/lib/ranges'
+import { SearchQuery, SearchNode } from '@/lib/search-query'
+
+const AMOUNT = '\\d+(?:\\.\\d+)?'
+const RANGE = `${AMOUNT}(?:\\s*(?:-|to)\\s*${AMOUNT})?`
+const AT_MOST = 'under|below|less\\s+than|up\\s*to|within|at\\s+most|max(?:imum)?|no\\s+more\\s+than'
+const AT_LEAST = 'over|above|more\\s+than|at\\s+least|min(?:imum)?'
+
+// "expecting under 20 LPA", "ctc 15-20 lakhs"; an amount without a lakh/crore unit is left alone
+const SALARY = new RegExp(
+  `(?:\\b(?:expect(?:ing|ed|s)?|salary|ctc|ectc|package|budget)\\s+(?:salary\\s+|ctc\\s+)?(?:of\\s+)?)?` +
+  `(?:(?:${AT_MOST}|${AT_LEAST})\\s+)?(?:rs\\.?\\s*|inr\\s*|₹\\s*)?${RANGE}\\s*(?:lpa|lakhs?|lacs?|l|cr|crores?)\\b`,
+  'i'
+)
+
+// "5+ years", "2-5 yrs of experience", "at least 3 years"
+const EXPERIENCE = new RegExp(
+  `(?:\\b(?:${AT_MOST}|${AT_LEAST})\\s+)?${RANGE}\\s*\\+?\\s*(?:years?|yrs?)\\b(?:\\s+(?:of\\s+)?(?:experience|exp)\\b)?(?:\\s+or\\s+more|\\s+plus)?`,
+  'i'
+)
+
+// "notice under 30 days", "joining within 2 weeks", "60 days notice"
+const NOTICE = new RegExp(
+  `\\b(?:notice(?:\\s+period)?|join(?:ing)?|joiners?|can\\s+join)(?:\\s+(?:of|is|in))?\\s*(?:(?:${AT_MOST}|<=?)\\s*)?(${RANGE})\\s*(days?|weeks?|months?)\\b`,
+  'i'
+)
+const NOTICE_AFTER = new RegExp(`(?:\\b(?:${AT_MOST})\\s+)?(${RANGE})\\s*(days?|weeks?|months?)\\s+(?:of\\s+)?notice(?:\\s+period)?\\b`, 'i')
+const IMMEDIATE = /\b(?:immediate(?:ly)?(?:\s+(?:joiners?|joining|start|availability))?|join(?:ing)?\s+immediately|no\s+notice(?:\s+period)?)\b/i
+
+const SERVING_NOTICE = /\b(?:serving|on)\s+(?:their\s+)?notice(?:\s+period)?\b/i
+const AVAILABLE_NOW = /\b(?:available\s+now|currently\s+available)\b/i
+
+const NO_RELOCATION = /\b(?:not\s+(?:willing|open|ready)\s+to\s+relocate|no\s+relocation|non[- ]relocatable)\b/i
+const RELOCATION = /\b(?:(?:willing|open|ready|happy)\s+to\s+relocat(?:e|ion)|open\s+to\s+relocation|relocatable|can\s+relocate)\b/i
+
+// Phrases that introduce skills, so "experience in java" does not read as a location
+const SKILL_LEAD = /\b(?:experience[ds]?|expertise|skilled|proficient|proficiency|knowledge|background|hands[- ]on)\s+(?:in|with|on|of)\b/gi
+
+const LOCATION_LEAD = `(?:based\\s+(?:in|at|out\\s+of)|located\\s+(?:in|at)|living\\s+in|residing\\s+in|from|in|near|around)`
+const LOCATION = new RegExp(`\\b${LOCATION_LEAD}\\s+([a-z][a-z.'-]*(?:\\s+[a-z][a-z.'-]*){0,2})`, 'i')
+// "not in pune" excludes a place rather than naming one; without the "in" it is left to the skills as NOT pune
+const NEGATED_LOCATION = new RegExp(`\\b(not|no|without|except|excluding)\\s+${LOCATION_LEAD}\\b`, 'gi')
+
+// Experience implied by a seniority word, used only when no years were given
+const SENIORITY: Array<{ pattern: RegExp; minExperience?: number; maxExperience?: number }> = [
+  { pattern: /\b(?:freshers?|entry[- ]level|graduates?)\b/i, maxExperience: 1 },
+  { pattern: /\b(?:juniors?|jr\.?)(?=\s|$)/i, maxExperience: 3 },
+  { pattern: /\bmid[- ]level\b/i, minExperience: 3, maxExperience: 6 },
+  { pattern: /\b(?:seniors?|sr\.?)(?=\s|$)/i, minExperience: 5 },
+]
+
+// Titles specific enough to filter on; "developer" and "engineer" on their own are not
+const JOB_TITLE = /\b((?:[a-z][a-z+#.]*\s+)?(?:analyst|manager|scientist|designer|architect|tester|consultant|administrator|accountant|executive|specialist|recruiter)s?)\b/i
+const ENGINEER_TITLE = /\b((?:data|qa|test|devops|cloud|ml|network|security|sales|support|site\s+reliability|mechanical|civil|electrical|embedded)\s+engineers?)\b/i
+const GENERIC_ROLE = /\b(?:(?:software\s+)?(?:developers?|devs?|engineers?|programmers?|coders?)|candidates?|profiles?|resources?|people|folks|professionals?|talent)\b/i
+
+// Skills written as several words, kept together as a phrase
+const SKILL_PHRASES = [
+  'machine learning', 'deep learning', 'data science', 'data analysis', 'computer vision',
+  'natural language processing', 'full stack', 'react native', 'spring boot', 'ruby on rails',
+  'node js', 'next js', 'vue js', 'power bi', 'google cloud', 'sql server', 'project management',
+  'digital marketing', 'content writing', 'business development', 'customer service', 'ui ux',
+]
+
+// Words that are never locations, so "devs in react" keeps react as a skill
+const KNOWN_SKILLS = new Set([
+  'java', 'python', 'react', 'angular', 'vue', 'node', 'node.js', 'javascript', 'typescript', 'go', 'golang',
+  'php', 'ruby', 'rust', 'kotlin', 'swift', 'scala', 'sql', 'mysql', 'postgres', 'mongodb', 'aws', 'azure',
+  'gcp', 'docker', 'kubernetes', 'devops', 'selenium', 'salesforce', 'sap', 'excel', '.net', 'c#', 'c++',
+  'django', 'flask', 'spring', 'android', 'ios', 'flutter', 'figma', 'tableau', 'testing', 'automation',
+  ...SKILL_PHRASES.map(phrase => phrase.split(' ')[0]),
+])
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'with', 'who', 'whom', 'that', 'which', 'have', 'has', 'having', 'know', 'knows',
+  'knowing', 'in', 'of', 'to', 'on', 'at', 'for', 'from', 'by', 'as', 'is', 'are', 'be', 'can', 'should',
+  'must', 'some', 'any', 'all', 'also', 'both', 'plus', 'etc', 'please', 'find', 'show', 'me', 'get',
+  'search', 'looking', 'look', 'need', 'needs', 'want', 'wanted', 'hire', 'hiring', 'someone', 'i', 'we',
+  'us', 'our', 'my', 'good', 'strong', 'solid', 'excellent', 'great', 'experience', 'experienced', 'exp',
+  'skill', 'skills', 'skilled', 'expertise', 'knowledge', 'background', 'proficient', 'using', 'work',
+  'working', 'worked', 'years', 'year', 'yrs', 'notice', 'period', 'expecting', 'salary', 'ctc', 'like',
+  'whose', 'but',
+])
+
+const NEGATIONS = new Set(['not', 'no', 'without', 'except', 'excluding'])
+
+type SkillToken = { kind: 'or' } | { kind: 'not' } | { kind: 'skill'; node: SearchNode }
+
+function titleCase(text: string): string {
+  return text.replace(/\b[a-z]/g, letter => letter.toUpperCase())
+}
+
+// Reads searches with a fixed set of patterns: amounts, locations and titles are taken out in
+// turn, and the words left over become the skills query. Needs no AI, so it always works.
+export class GrammarCandidateQueryParser implements CandidateQueryParser {
+  readonly name = 'grammar' as const
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async parse(text: string): Promise<CandidateQueryParseResult> {
+    const filter: CandidateSearchFilter = {}
+    let rest = ` ${text.toLowerCase().replace(/\s+/g, ' ')} `
+
+    // Runs apply on the first match and cuts it out of the text unless apply returns false
+    const take = (pattern: RegExp, apply: (match: RegExpMatchArray) => boolean | void) => {
+      const match = rest.match(pattern)
+      if (!match || match.index === undefined || apply(match) === false) return false
+      rest = `${rest.slice(0, match.index)} , ${rest.slice(match.index + match[0].length)}`
+      return true
+    }
+
+    take(SALARY, match => {
+      const range = RangeParser.parseSalary(match[0])
+      if (!range) return false
+      // A single figure ("expecting 20 LPA") is read as a ceiling
+      if (range.min !== null && range.min !== range.max) filter.minExpectedSalary = RangeParser.toAnnual(range.min, range.period)
+      if (range.max !== null) filter.maxExpectedSalary = RangeParser.toAnnual(range.max, range.period)
+    })
+
+    take(EXPERIENCE, match => {
+      const range = RangeParser.parseExperience(match[0])
+      if (!range) return false
+      // "5 years" means at least five, not exactly five
+      if (range.min !== null && range.min > 0) filter.minExperience = range.min
+      if (range.max !== null && range.max !== range.min) filter.maxExperience = range.max
+    })
+
+    const notice = (match: RegExpMatchArray) => {
+      const days = RangeParser.parseNoticePeriod(`${match[1]} ${match[2]}`)
+      if (days === null) return false
+      filter.maxNoticePeriodDays = days
+    }
+    if (!take(NOTICE, notice) && !take(NOTICE_AFTER, notice)) {
+      take(SERVING_NOTICE, () => {
+        filter.availability = 'NOTICE_PERIOD'
+      })
+      take(IMMEDIATE, () => {
+        filter.maxNoticePeriodDays = 0
+      })
+    }
+    take(AVAILABLE_NOW, () => {
+      filter.availability = 'AVAILABLE'
+    })
+
+    if (!take(NO_RELOCATION, () => { filter.relocate = false })) {
+      take(RELOCATION, () => {
+        filter.relocate = true
+      })
+    }
+
+    rest = rest.replace(SKILL_LEAD, ' ').replace(NEGATED_LOCATION, '$1')
+
+    take(LOCATION, match => {
+      const words: string[] = []
+      for (const word of match[1].split(' ')) {
+        if (STOPWORDS.has(word) || NEGATIONS.has(word) || word === 'or' || GENERIC_ROLE.test(word)) break
+        words.push(word)
+      }
+      if (words.length === 0 || KNOWN_SKILLS.has(words[0])) return false
+      filter.location = titleCase(words.join(' '))
+      // Only the words used for the location are cut out
+      match[0] = match[0].slice(0, match[0].length - match[1].length) + words.join(' ')
+    })
+
+    for (const level of SENIORITY) {
+      take(level.pattern, () => {
+        if (filter.minExperience !== undefined || filter.maxExperience !== undefined) return
+        if (level.minExperience !== undefined) filter.minExperience = level.minExperience
+        if (level.maxExperience !== undefined) filter.maxExperience = level.maxExperience
+      })
+    }
+
+    const jobTitle = (match: RegExpMatchArray) => {
+      const words = match[1].split(' ')
+      // "find managers" has no modifier worth keeping
+      if (words.length > 1 && (STOPWORDS.has(words[0]) || NEGATIONS.has(words[0]))) words.shift()
+      filter.jobTitle = titleCase(words.join(' ').replace(/s$/, ''))
+    }
+    if (!take(ENGINEER_TITLE, jobTitle)) {
+      take(JOB_TITLE, jobTitle)
+    }
+
+    rest = rest.replace(new RegExp(GENERIC_ROLE.source, 'gi'), ' ')
+
+    const skills = this.skills(rest)
+    if (skills) filter.skills = skills
+
+    return { ok: true, filter }
+  }
+
+  // What is left is read as skills: adjacent skills are ANDed, "or" joins the skills either side
+  // of it and "not"/"without" excludes the next one
+  private skills(text: string): string | null {
+    const tokens: SkillToken[] = []
+    for (const clause of text.split(/[,;]|\s&\s/)) {
+      const words = SearchQuery.tokenize(clause.replace(/\//g, ' or '))
+      for (let i = 0; i < words.length; i++) {
+        const phrase = SKILL_PHRASES.find(candidate => {
+          const parts = candidate.split(' ')
+          return parts.every((part, offset) => words[i + offset] === part)
+        })
+        if (phrase) {
+          tokens.push({ kind: 'skill', node: { type: 'phrase', value: phrase } })
+          i += phrase.split(' ').length - 1
+        } else if (words[i] === 'or') {
+          tokens.push({ kind: 'or' })
+        } else if (NEGATIONS.has(words[i])) {
+          tokens.push({ kind: 'not' })
+        } else if (!STOPWORDS.has(words[i]) && !/^\d+(?:\.\d+)?$/.test(words[i])) {
+          tokens.push({ kind: 'skill', node: { type: 'term', value: words[i] } })
+        }
+      }
+    }
+
+    const groups: SearchNode[][] = []
+    let joinNext = false
+    let negateNext = false
+    for (const token of tokens) {
+      if (token.kind === 'or') {
+        joinNext = groups.length > 0
+      } else if (token.kind === 'not') {
+        negateNext = true
+      } else {
+        const node: SearchNode = negateNext ? { type: 'not', node: token.node } : token.node
+        if (joinNext && !negateNext) {
+          groups[groups.length - 1].push(node)
+        } else {
+          groups.push([node])
+        }
+        joinNext = false
+        negateNext = false
+      }
+    }
+
+    const nodes = groups.map((group): SearchNode => group.length === 1 ? group[0] : { type: 'or', nodes: group })
+    if (nodes.length === 0) return null
+    const root: SearchNode = nodes.length === 1 ? nodes[0] : { type: 'and', nodes }
+    return SearchQuery.positives(root).length > 0 ? SearchQuery.format(root) : null
+  }
+}
@@ -0,0 +1,64 @@
+import type { z } from 'zod'
+import type { candidateSearchFilterSchema } from '@/lib/validations'
+import { GrammarCandidateQueryParser } from '@/lib/candidate-query-parser-grammar'
+import { GeminiCandidateQueryParser } from '@/lib/candidate-query-parser-gemini'
+
+export type CandidateQueryParserName = 'grammar' | 'gemini'
+
+// The same fields GET /api/candidates accepts, so a parsed filter can be sent as query params as-is
+export type CandidateSearchFilter = z.infer<typeof candidateSearchFilterSchema>
+
+export type CandidateQueryParseResult =
+  | { ok: true; filter: CandidateSearchFilter }
+  | { ok: false; error: string }
+
+export interface CandidateQueryParser {
+  readonly name: CandidateQueryParserName
+  // Whether the parser can run here at all, e.g. an API key is configured
+  isAvailable(): boolean
+  // Turns a natural-language search such as "java devs in Pune with 5+ years" into filters
+  parse(text: string): Promise<CandidateQueryParseResult>
+}
+
+// Which parser produced the filter, and the failure it fell back from if any
+export interface CandidateQueryParserOutcome {
+  filter: CandidateSearchFilter
+  parser: CandidateQueryParserName
+  fallbackFrom?: { parser: CandidateQueryParserName; error: string }
+}
+
+const PARSERS: Record<CandidateQueryParserName, CandidateQueryParser> = {
+  grammar: new GrammarCandidateQueryParser(),
+  gemini: new GeminiCandidateQueryParser(),
+}
+
+// CANDIDATE_QUERY_PARSER=gemini sends searches to Gemini. The grammar parser is the default, needs
+// no AI and is what Gemini falls back to when it is not configured or fails.
+export class CandidateQueryParsers {
+  static preferred(): CandidateQueryParser {
+    const configured = process.env.CANDIDATE_QUERY_PARSER?.toLowerCase()
+    if (configured === 'grammar' || configured === 'gemini') {
+      return PARSERS[configured].isAvailable() ? PARSERS[configured] : PARSERS.grammar
+    }
+    if (configured) {
+      console.warn(`Unknown CANDIDATE_QUERY_PARSER "${process.env.CANDIDATE_QUERY_PARSER}", using the grammar parser`)
+    }
+    return PARSERS.grammar
+  }
+
+  static async parse(text: string): Promise<CandidateQueryParserOutcome> {
+    const parser = this.preferred()
+    const result = await parser.parse(text)
+    if (result.ok) {
+      return { filter: result.filter, parser: parser.name }
+    }
+
+    console.warn(`${parser.name} candidate query parser failed, falling back to grammar: ${result.error}`)
+    const fallback = await PARSERS.grammar.parse(text)
+    return {
+      filter: fallback.ok ? fallback.filter : {},
+      parser: 'grammar',
+      fallbackFrom: { parser: parser.name, error: result.error },
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { SearchNode } from '@/lib/search-query'
+import type { CandidateSearchEngine, CandidateSearchHit, CandidateSearchInput, SearchHighlight } from '@/lib/candidate-search'
+import { CANDIDATE_SEARCH_FIELDS, SKILL_FIELDS, CandidateSearchFieldName } from '@/lib/candidate-search-fields'
+
+// Atlas ranks everything it matches; only this many are then narrowed by the other filters
+const MAX_HITS = 1000
+const MAX_HIGHLIGHTS = 3
+
+type AtlasOperator = Prisma.InputJsonObject
+
+interface AtlasResult {
+  _id: { $oid: string } | string
+  score: number
+  highlights?: Array<{ path: string; score: number; texts: Array<{ value: string; type: 'hit' | 'text' }> }>
+}
+
+// Matches every candidate, for compounds that only exclude
+const MATCH_ALL: AtlasOperator = { exists: { path: 'userId' } }
+
+// Runs on the Atlas Search index named by ATLAS_SEARCH_INDEX over the candidates collection.
+// See README_BACKEND.md for the index definition.
+export class AtlasCandidateSearch implements CandidateSearchEngine {
+  readonly name = 'atlas' as const
+
+  isAvailable(): boolean {
+    return !!process.env.ATLAS_SEARCH_INDEX
+  }
+
+  async search(input: CandidateSearchInput, where: Prisma.CandidateWhereInput): Promise<CandidateSearchHit[]> {
+    const allFields = CANDIDATE_SEARCH_FIELDS.map(field => field.name)
+    const must = [
+      ...(input.query ? [this.operator(input.query, allFields)] : []),
+      ...(input.skills ? [this.operator(input.skills, SKILL_FIELDS)] : []),
+    ]
+
+    const results = await prisma.candidate.aggregateRaw({
+      pipeline: [
+        {
+          $search: {
+            index: process.env.ATLAS_SEARCH_INDEX,
+            compound: { must },
+            highlight: { path: CANDIDATE_SEARCH_FIELDS.flatMap(field => field.paths) },
+          },
+        },
+        { $limit: MAX_HITS },
+        { $project: { _id: 1, score: { $meta: 'searchScore' }, highlights: { $meta: 'searchHighlights' } } },
+      ],
+    }) as unknown as AtlasResult[]
+
+    const hits = results.map(result => ({
+      id: typeof result._id === 'string' ? result._id : result._id.$oid,
+      score: Math.round(result.score * 1000) / 1000,
+      highlights: this.highlights(result.highlights ?? []),
+    }))
+
+    // The remaining filters are Prisma conditions, so they are applied to the ranked ids here
+    const allowed = await prisma.candidate.findMany({
+      where: { AND: [where, { id: { in: hits.map(hit => hit.id) } }] },
+      select: { id: true },
+    })
+    const allowedIds = new Set(allowed.map(candidate => candidate.id))
+    return hits.filter(hit => allowedIds.has(hit.id))
+  }
+
+  // A term or phrase is looked for in each field, boosted by the field's weight
+  private operator(node: SearchNode, fields: CandidateSearchFieldName[]): AtlasOperator {
+    switch (node.type) {
+      case 'term':
+      case 'phrase': {
+        const kind = node.type === 'term' ? 'text' : 'phrase'
+        return {
+          compound: {
+            should: CANDIDATE_SEARCH_FIELDS
+              .filter(field => fields.includes(field.name))
+              .map(field => ({ [kind]: { query: node.value, path: field.paths, score: { boost: { value: field.weight } } } })),
+            minimumShouldMatch: 1,
+          },
+        }
+      }
+      case 'and': {
+        const included = node.nodes.filter(child => child.type !== 'not')
+        const excluded = node.nodes.filter((child): child is Extract<SearchNode, { type: 'not' }> => child.type === 'not')
+        return {
+          compound: {
+            must: included.length > 0 ? included.map(child => this.operator(child, fields)) : [MATCH_ALL],
+            ...(excluded.length > 0 ? { mustNot: excluded.map(child => this.operator(child.node, fields)) } : {}),
+          },
+        }
+      }
+      case 'or':
+        return { compound: { should: node.nodes.map(child => this.operator(child, fields)), minimumShouldMatch: 1 } }
+      case 'not':
+        return { compound: { must: [MATCH_ALL], mustNot: [this.operator(node.node, fields)] } }
+    }
+  }
+
+  private highlights(results: NonNullable<AtlasResult['highlights']>): SearchHighlight[] {
+    const highlights: SearchHighlight[] = []
+    for (const result of results.slice().sort((a, b) => b.score - a.score)) {
+      const field = CANDIDATE_SEARCH_FIELDS.find(entry => entry.paths.includes(result.path))
+      if (!field || highlights.some(highlight => highlight.field === field.name)) continue
+
+      highlights.push({
+        field: field.name,
+        texts: result.texts.map(text => ({ value: text.value, hit: text.type === 'hit' })),
+      })
+      if (highlights.length >= MAX_HIGHLIGHTS) break
+    }
+    return highlights
+  }
+}
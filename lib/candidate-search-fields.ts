@@ -0,0 +1,16 @@
+export type CandidateSearchFieldName = 'name' | 'jobTitle' | 'skills' | 'summary' | 'experience' | 'location' | 'contact' | 'resume'
+
+// What is searched and how much a match in it counts. paths are candidate document paths, used
+// as-is by Atlas Search and read from the record by the local engine.
+export const CANDIDATE_SEARCH_FIELDS: Array<{ name: CandidateSearchFieldName; paths: string[]; weight: number }> = [
+  { name: 'skills', paths: ['skills', 'selectedSkills'], weight: 4 },
+  { name: 'jobTitle', paths: ['jobTitle'], weight: 3 },
+  { name: 'name', paths: ['firstName', 'middleName', 'lastName'], weight: 3 },
+  { name: 'summary', paths: ['profileSummary'], weight: 2 },
+  { name: 'experience', paths: ['experiences.client', 'experiences.responsibilities'], weight: 1.5 },
+  { name: 'location', paths: ['city', 'state', 'country', 'location'], weight: 1 },
+  { name: 'contact', paths: ['email', 'phone'], weight: 1 },
+  { name: 'resume', paths: ['resumeText'], weight: 1 },
+]
+
+export const SKILL_FIELDS: CandidateSearchFieldName[] = ['skills']
@@ -0,0 +1,194 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { SearchQuery, SearchNode, SearchWord } from '@/lib/search-query'
+import type { CandidateSearchEngine, CandidateSearchHit, CandidateSearchInput, SearchHighlight } from '@/lib/candidate-search'
+import { CANDIDATE_SEARCH_FIELDS, SKILL_FIELDS, CandidateSearchFieldName } from '@/lib/candidate-search-fields'
+
+// Characters of context kept on each side of the first match in a snippet
+const SNIPPET_CONTEXT = 60
+const MAX_HIGHLIGHTS = 3
+
+// One field value with its words and where they sit in the original text
+interface IndexedValue {
+  text: string
+  words: SearchWord[]
+}
+
+type IndexedCandidate = {
+  id: string
+  createdAt: Date
+  fields: Record<CandidateSearchFieldName, IndexedValue[]>
+}
+
+type Leaf = { type: 'term' | 'phrase'; value: string }
+
+const searchSelect = {
+  id: true,
+  createdAt: true,
+  firstName: true,
+  middleName: true,
+  lastName: true,
+  jobTitle: true,
+  skills: true,
+  selectedSkills: true,
+  profileSummary: true,
+  experiences: true,
+  city: true,
+  state: true,
+  country: true,
+  location: true,
+  email: true,
+  phone: true,
+  resumeText: true,
+} as const
+
+// Strings found at a dotted path; arrays (skills, experiences) are walked through
+function valuesAt(record: unknown, path: string): string[] {
+  let current: unknown[] = [record]
+  for (const key of path.split('.')) {
+    current = current.flatMap(value => {
+      if (Array.isArray(value)) return value.map(item => (item as Record<string, unknown>)?.[key])
+      return value && typeof value === 'object' ? [(value as Record<string, unknown>)[key]] : []
+    })
+  }
+  return current
+    .flatMap(value => Array.isArray(value) ? value : [value])
+    .filter((value): value is string => typeof value === 'string' && value.trim() !== '')
+}
+
+// Where a term or phrase occurs in a value, as [start, end] character ranges
+function occurrences(value: IndexedValue, leaf: Leaf): Array<[number, number]> {
+  const sequence = leaf.value.split(' ')
+  const ranges: Array<[number, number]> = []
+  for (let i = 0; i + sequence.length <= value.words.length; i++) {
+    if (sequence.every((word, offset) => value.words[i + offset].value === word)) {
+      ranges.push([value.words[i].start, value.words[i + sequence.length - 1].end])
+    }
+  }
+  return ranges
+}
+
+// Scores candidates in-process. Loads every candidate matching the other filters, so it is meant
+// for development and small databases; production should use Atlas Search.
+export class LocalCandidateSearch implements CandidateSearchEngine {
+  readonly name = 'local' as const
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async search(input: CandidateSearchInput, where: Prisma.CandidateWhereInput): Promise<CandidateSearchHit[]> {
+    const records = await prisma.candidate.findMany({ where, select: searchSelect })
+    const candidates = records.map(record => this.index(record))
+    const allFields = CANDIDATE_SEARCH_FIELDS.map(field => field.name)
+
+    const matching = candidates.filter(candidate =>
+      (!input.query || this.matches(input.query, candidate, allFields)) &&
+      (!input.skills || this.matches(input.skills, candidate, SKILL_FIELDS))
+    )
+
+    // Rarer words count for more, as in BM25
+    const leaves = [
+      ...(input.query ? SearchQuery.positives(input.query).map(leaf => ({ leaf, fields: allFields })) : []),
+      ...(input.skills ? SearchQuery.positives(input.skills).map(leaf => ({ leaf, fields: SKILL_FIELDS })) : []),
+    ]
+    const weights = leaves.map(({ leaf, fields }) => {
+      const documents = candidates.filter(candidate => fields.some(field => this.fieldMatches(candidate, field, leaf))).length
+      return Math.log(1 + candidates.length / (1 + documents))
+    })
+
+    const hits = matching.map(candidate => {
+      let score = 0
+      const ranges: Partial<Record<CandidateSearchFieldName, Array<Array<[number, number]>>>> = {}
+
+      leaves.forEach(({ leaf, fields }, index) => {
+        for (const field of fields) {
+          const weight = CANDIDATE_SEARCH_FIELDS.find(entry => entry.name === field)!.weight
+          const found = candidate.fields[field].map(value => occurrences(value, leaf))
+          const count = found.reduce((total, list) => total + list.length, 0)
+          if (count === 0) continue
+
+          score += weights[index] * weight * (1 + Math.log(count))
+          const fieldRanges = ranges[field] ?? candidate.fields[field].map(() => [])
+          found.forEach((list, valueIndex) => fieldRanges[valueIndex].push(...list))
+          ranges[field] = fieldRanges
+        }
+      })
+
+      return {
+        id: candidate.id,
+        createdAt: candidate.createdAt,
+        score: Math.round(score * 1000) / 1000,
+        highlights: this.highlights(candidate, ranges),
+      }
+    })
+
+    return hits
+      .sort((a, b) => b.score - a.score || b.createdAt.getTime() - a.createdAt.getTime())
+      .map(({ id, score, highlights }) => ({ id, score, highlights }))
+  }
+
+  private index(record: Record<string, unknown> & { id: string; createdAt: Date }): IndexedCandidate {
+    const fields = {} as Record<CandidateSearchFieldName, IndexedValue[]>
+    for (const field of CANDIDATE_SEARCH_FIELDS) {
+      fields[field.name] = field.paths
+        .flatMap(path => valuesAt(record, path))
+        .map(text => ({ text, words: SearchQuery.words(text) }))
+    }
+    return { id: record.id, createdAt: record.createdAt, fields }
+  }
+
+  private fieldMatches(candidate: IndexedCandidate, field: CandidateSearchFieldName, leaf: Leaf): boolean {
+    return candidate.fields[field].some(value => occurrences(value, leaf).length > 0)
+  }
+
+  private matches(node: SearchNode, candidate: IndexedCandidate, fields: CandidateSearchFieldName[]): boolean {
+    switch (node.type) {
+      case 'term':
+      case 'phrase':
+        return fields.some(field => this.fieldMatches(candidate, field, node))
+      case 'and':
+        return node.nodes.every(child => this.matches(child, candidate, fields))
+      case 'or':
+        return node.nodes.some(child => this.matches(child, candidate, fields))
+      case 'not':
+        return !this.matches(node.node, candidate, fields)
+    }
+  }
+
+  // The best fields first; one snippet per field, around its first match
+  private highlights(
+    candidate: IndexedCandidate,
+    ranges: Partial<Record<CandidateSearchFieldName, Array<Array<[number, number]>>>>
+  ): SearchHighlight[] {
+    const highlights: SearchHighlight[] = []
+
+    for (const field of CANDIDATE_SEARCH_FIELDS) {
+      const fieldRanges = ranges[field.name]
+      if (!fieldRanges || highlights.length >= MAX_HIGHLIGHTS) continue
+
+      const valueIndex = fieldRanges.findIndex(list => list.length > 0)
+      const { text } = candidate.fields[field.name][valueIndex]
+      const hits = fieldRanges[valueIndex].slice().sort((a, b) => a[0] - b[0])
+
+      const from = Math.max(0, hits[0][0] - SNIPPET_CONTEXT)
+      const to = Math.min(text.length, hits[0][1] + SNIPPET_CONTEXT)
+      const texts: SearchHighlight['texts'] = []
+      let cursor = from
+      for (const [start, end] of hits) {
+        if (start < cursor || end > to) continue
+        if (start > cursor) texts.push({ value: text.slice(cursor, start), hit: false })
+        texts.push({ value: text.slice(start, end), hit: true })
+        cursor = end
+      }
+      if (cursor < to) texts.push({ value: text.slice(cursor, to), hit: false })
+
+      if (from > 0) texts[0] = { ...texts[0], value: `…${texts[0].value}` }
+      if (to < text.length) texts[texts.length - 1] = { ...texts[texts.length - 1], value: `${texts[texts.length - 1].value}…` }
+
+      highlights.push({ field: field.name, texts })
+    }
+
+    return highlights
+  }
+}
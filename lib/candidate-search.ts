@@ -0,0 +1,81 @@
+import type { Prisma } from '@prisma/client'
+import { SearchQuery, SearchNode } from '@/lib/search-query'
+import { AtlasCandidateSearch } from '@/lib/candidate-search-atlas'
+import { LocalCandidateSearch } from '@/lib/candidate-search-local'
+import type { CandidateSearchFieldName } from '@/lib/candidate-search-fields'
+
+export type CandidateSearchEngineName = 'atlas' | 'local'
+
+// query is matched against every searchable field, skills only against the candidate's skills
+export interface CandidateSearchInput {
+  query: SearchNode | null
+  skills: SearchNode | null
+}
+
+// A piece of a field value with the matched words marked, in the shape Atlas Search returns
+export interface SearchHighlight {
+  field: CandidateSearchFieldName
+  texts: Array<{ value: string; hit: boolean }>
+}
+
+export interface CandidateSearchHit {
+  id: string
+  score: number
+  highlights: SearchHighlight[]
+}
+
+export interface CandidateSearchEngine {
+  readonly name: CandidateSearchEngineName
+  // Whether the engine can run here at all, e.g. an index is configured
+  isAvailable(): boolean
+  // Every candidate matching both the search and where, best match first
+  search(input: CandidateSearchInput, where: Prisma.CandidateWhereInput): Promise<CandidateSearchHit[]>
+}
+
+const ENGINES: Record<CandidateSearchEngineName, CandidateSearchEngine> = {
+  atlas: new AtlasCandidateSearch(),
+  local: new LocalCandidateSearch(),
+}
+
+// CANDIDATE_SEARCH_ENGINE picks the engine. Without it Atlas Search is used when an index is
+// configured. The local engine scores candidates in-process and is meant for development.
+export class CandidateSearch {
+  static engine(): CandidateSearchEngine {
+    const configured = process.env.CANDIDATE_SEARCH_ENGINE?.toLowerCase()
+    if (configured === 'atlas' || configured === 'local') {
+      return ENGINES[configured]
+    }
+    if (configured) {
+      console.warn(`Unknown CANDIDATE_SEARCH_ENGINE "${process.env.CANDIDATE_SEARCH_ENGINE}", using the default`)
+    }
+    return ENGINES.atlas.isAvailable() ? ENGINES.atlas : ENGINES.local
+  }
+
+  // null when neither text has anything to search for
+  static parse(query?: string, skills?: string): CandidateSearchInput | null {
+    const input = {
+      query: query ? SearchQuery.parse(query) : null,
+      skills: skills ? SearchQuery.parse(skills) : null,
+    }
+    return input.query || input.skills ? input : null
+  }
+
+  // Whether any candidate in where matches, e.g. one that was just saved. Always answered
+  // locally because Atlas only indexes new documents a moment after they are written.
+  static async matches(input: CandidateSearchInput, where: Prisma.CandidateWhereInput): Promise<boolean> {
+    const hits = await ENGINES.local.search(input, where)
+    return hits.length > 0
+  }
+
+  // An Atlas failure (e.g. the index has not been built yet) falls back to the local engine
+  static async search(input: CandidateSearchInput, where: Prisma.CandidateWhereInput): Promise<CandidateSearchHit[]> {
+    const engine = this.engine()
+    try {
+      return await engine.search(input, where)
+    } catch (error) {
+      if (engine.name === 'local') throw error
+      console.error(`${engine.name} candidate search failed, falling back to local:`, error)
+      return ENGINES.local.search(input, where)
+    }
+  }
+}
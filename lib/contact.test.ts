@@ -0,0 +1,71 @@
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { AuthUtils } from '@/lib/auth'
+import { ContactInquiries, ContactSubmission, FORM_TOKEN_TTL_HOURS, MIN_FORM_FILL_SECONDS } from '@/lib/contact'
+
+const HOUR_MS = 60 * 60 * 1000
+const shownAt = Date.UTC(2026, 0, 1)
+
+const submission = (fields: Partial<ContactSubmission> = {}): ContactSubmission => ({
+  name: 'Jane Doe',
+  email: 'jane@company.com',
+  inquiryType: 'DEMO',
+  message: 'We hire about 40 engineers a year and would like a demo',
+  formToken: AuthUtils.generateFormToken('contact', shownAt),
+  ...fields,
+})
+
+describe('ContactInquiries.checkForm', () => {
+  const later = shownAt + 60 * 1000
+
+  it('accepts a form posted with a token the server issued', () => {
+    assert.equal(ContactInquiries.checkForm(submission(), later), 'ok')
+  })
+
+  it('rejects a missing, forged or expired token', () => {
+    assert.equal(ContactInquiries.checkForm(submission({ formToken: undefined }), later), 'invalid')
+    assert.equal(ContactInquiries.checkForm(submission({ formToken: `${shownAt - HOUR_MS}.${'0'.repeat(64)}` }), later), 'invalid')
+    assert.equal(ContactInquiries.checkForm(submission({ formToken: AuthUtils.generateFormToken('other', shownAt) }), later), 'invalid')
+    assert.equal(ContactInquiries.checkForm(submission(), shownAt + FORM_TOKEN_TTL_HOURS * HOUR_MS + 1), 'invalid')
+  })
+
+  it('does not let the client move the start time back', () => {
+    const [, signature] = submission().formToken!.split('.')
+    assert.equal(ContactInquiries.checkForm(submission({ formToken: `${shownAt - HOUR_MS}.${signature}` }), later), 'invalid')
+  })
+
+  it('drops a filled honeypot or a form posted too quickly', () => {
+    assert.equal(ContactInquiries.checkForm(submission({ website: 'https://spam.example' }), later), 'spam')
+    assert.equal(ContactInquiries.checkForm(submission(), shownAt + MIN_FORM_FILL_SECONDS * 1000 - 1), 'spam')
+  })
+})
+
+describe('AuthUtils.extractIpFromRequest', () => {
+  const request = (headers: Record<string, string>) => new NextRequest('http://localhost/api/contact', { headers })
+  const trustedProxyCount = process.env.TRUSTED_PROXY_COUNT
+
+  afterEach(() => {
+    if (trustedProxyCount === undefined) delete process.env.TRUSTED_PROXY_COUNT
+    else process.env.TRUSTED_PROXY_COUNT = trustedProxyCount
+  })
+
+  it('uses the address the trusted proxy appended, not what the client sent', () => {
+    delete process.env.TRUSTED_PROXY_COUNT
+    assert.equal(AuthUtils.extractIpFromRequest(request({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7' })), '203.0.113.7')
+    assert.equal(AuthUtils.extractIpFromRequest(request({ 'x-forwarded-for': '203.0.113.7' })), '203.0.113.7')
+  })
+
+  it('skips the hops added by further trusted proxies', () => {
+    process.env.TRUSTED_PROXY_COUNT = '2'
+    const forwardedFor = '1.1.1.1, 203.0.113.7, 10.0.0.2'
+    assert.equal(AuthUtils.extractIpFromRequest(request({ 'x-forwarded-for': forwardedFor })), '203.0.113.7')
+    process.env.TRUSTED_PROXY_COUNT = 'two'
+    assert.equal(AuthUtils.extractIpFromRequest(request({ 'x-forwarded-for': forwardedFor })), '10.0.0.2')
+  })
+
+  it('falls back to X-Real-IP', () => {
+    assert.equal(AuthUtils.extractIpFromRequest(request({ 'x-real-ip': '203.0.113.7' })), '203.0.113.7')
+    assert.equal(AuthUtils.extractIpFromRequest(request({})), null)
+  })
+})
@@ -0,0 +1,136 @@
+import type { ContactInquiry, Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { AuthUtils } from '@/lib/auth'
+import { EmailService } from '@/lib/email'
+import { contactInquirySchema } from '@/lib/validations'
+
+// People take longer than this to fill the form in; bots post it straight away
+export const MIN_FORM_FILL_SECONDS = 3
+// After this the form has to be reloaded for a new token
+export const FORM_TOKEN_TTL_HOURS = 24
+// Inquiries accepted in a rolling hour
+export const MAX_INQUIRIES_PER_IP = 5
+export const MAX_INQUIRIES_PER_EMAIL = 3
+
+const HOUR_MS = 60 * 60 * 1000
+const CONTACT_FORM = 'contact'
+
+export type ContactSubmission = z.infer<typeof contactInquirySchema>
+
+// inquiry is null when the submission was dropped as spam
+export type ContactSubmitResult =
+  | { ok: true; inquiry: ContactInquiry | null }
+  | { ok: false; status: 400; error: string }
+  | { ok: false; status: 429; error: string; retryAfter: number }
+
+export interface ContactSubmitOptions {
+  ipAddress: string | null
+  userAgent: string | null
+  // Origin for the link to the inquiries page in the sales email
+  baseUrl: string
+}
+
+function secondsUntil(date: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000))
+}
+
+export class ContactInquiries {
+  // Handed out with the form; it records when the form was shown
+  static formToken(): string {
+    return AuthUtils.generateFormToken(CONTACT_FORM)
+  }
+
+  // 'invalid' when the form token is missing, forged or too old, so the page has to be reloaded.
+  // 'spam' for a filled honeypot, or a post sooner after the form was shown than a person could type it.
+  static checkForm(submission: ContactSubmission, now: number = Date.now()): 'ok' | 'invalid' | 'spam' {
+    const issuedAt = submission.formToken ? AuthUtils.verifyFormToken(submission.formToken, CONTACT_FORM) : null
+    if (issuedAt === null || now - issuedAt > FORM_TOKEN_TTL_HOURS * HOUR_MS) return 'invalid'
+    if (submission.website) return 'spam'
+    return now - issuedAt < MIN_FORM_FILL_SECONDS * 1000 ? 'spam' : 'ok'
+  }
+
+  // Spam gets the same answer as a real inquiry so bots cannot tell it was dropped
+  static async submit(submission: ContactSubmission, options: ContactSubmitOptions): Promise<ContactSubmitResult> {
+    const check = this.checkForm(submission)
+    if (check === 'invalid') {
+      return { ok: false, status: 400, error: 'This form has expired. Please reload the page and try again' }
+    }
+    if (check === 'spam') {
+      console.warn('Contact form submission dropped as spam from', options.ipAddress || 'unknown IP')
+      return { ok: true, inquiry: null }
+    }
+
+    const email = submission.email.toLowerCase()
+    const throttled = await this.checkThrottle(email, options.ipAddress)
+    if (throttled) return throttled
+
+    const inquiry = await prisma.contactInquiry.create({
+      data: {
+        name: submission.name,
+        email,
+        company: submission.company || null,
+        role: submission.role || null,
+        inquiryType: submission.inquiryType,
+        message: submission.message,
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent,
+      },
+    })
+
+    // Stored either way; the inquiries page lists it even when no email goes out
+    const salesEmail = process.env.SALES_EMAIL
+    if (!salesEmail) {
+      return { ok: true, inquiry }
+    }
+
+    const sent = await EmailService.sendContactInquiryEmail(salesEmail, inquiry, `${options.baseUrl}/recruiter/inquiries`)
+    if (!sent) {
+      return { ok: true, inquiry }
+    }
+
+    return {
+      ok: true,
+      inquiry: await prisma.contactInquiry.update({ where: { id: inquiry.id }, data: { emailSent: true } }),
+    }
+  }
+
+  // The prospect client an inquiry becomes. Senders without a company are recorded under their own name.
+  static clientData(inquiry: ContactInquiry): Prisma.ClientCreateInput {
+    const sender = inquiry.role ? `${inquiry.name} (${inquiry.role})` : inquiry.name
+    return {
+      name: inquiry.company || inquiry.name,
+      contactPerson: inquiry.name,
+      email: inquiry.email,
+      status: 'PROSPECT',
+      notes: `${inquiry.inquiryType.toLowerCase()} inquiry from ${sender} via the contact form on ${inquiry.createdAt.toDateString()}:\n\n${inquiry.message}`,
+    }
+  }
+
+  private static async checkThrottle(email: string, ipAddress: string | null): Promise<ContactSubmitResult | null> {
+    const windowStart = new Date(Date.now() - HOUR_MS)
+
+    const limits: { where: { email: string } | { ipAddress: string }; max: number }[] = [
+      { where: { email }, max: MAX_INQUIRIES_PER_EMAIL },
+    ]
+    if (ipAddress) {
+      limits.push({ where: { ipAddress }, max: MAX_INQUIRIES_PER_IP })
+    }
+
+    for (const limit of limits) {
+      const inquiries = await prisma.contactInquiry.findMany({
+        where: { ...limit.where, createdAt: { gte: windowStart } },
+        select: { createdAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: limit.max,
+      })
+      if (inquiries.length >= limit.max) {
+        // The oldest inquiry in the window has to age out before another is accepted
+        const retryAfter = secondsUntil(new Date(inquiries[inquiries.length - 1].createdAt.getTime() + HOUR_MS))
+        return { ok: false, status: 429, error: 'Too many messages sent. Please try again later', retryAfter }
+      }
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,321 @@
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { createClientSchema, createVendorSchema } from '@/lib/validations'
+
+export type ImportEntity = 'clients' | 'vendors'
+
+// Rows are created this many at a time so one bad row never holds up the rest of the file
+export const IMPORT_BATCH_SIZE = 50
+export const MAX_IMPORT_ROWS = 2000
+export const MAX_IMPORT_FILE_SIZE = 2 * 1024 * 1024 // 2MB
+
+// Array columns such as vendor specialization take several values in one cell
+const LIST_SEPARATOR = /[;|]/
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate' | 'created' | 'failed'
+
+export interface ImportRowResult {
+  // Spreadsheet row number, counting the header as row 1
+  row: number
+  status: ImportRowStatus
+  errors: string[]
+  data: Record<string, unknown>
+  // Set once the row has been saved
+  id?: string
+}
+
+export interface ImportReport {
+  entity: ImportEntity
+  dryRun: boolean
+  total: number
+  valid: number
+  invalid: number
+  duplicates: number
+  created: number
+  failed: number
+  columns: { recognized: string[]; unknown: string[] }
+  rows: ImportRowResult[]
+}
+
+export type ImportResult =
+  | { ok: true; report: ImportReport }
+  | { ok: false; error: string }
+
+interface ImportTarget {
+  label: string
+  schema: z.AnyZodObject
+  // Example values for the downloadable template; columns come from the schema
+  sample: Record<string, string>
+  existingEmails(emails: string[]): Promise<string[]>
+  create(data: Record<string, unknown>): Promise<{ id: string }>
+}
+
+const IMPORT_TARGETS: Record<ImportEntity, ImportTarget> = {
+  clients: {
+    label: 'client',
+    schema: createClientSchema,
+    sample: {
+      name: 'Acme Corporation',
+      contactPerson: 'Jane Smith',
+      email: 'jane.smith@acme.com',
+      phone: '+91 98765 43210',
+      address: '221B Baker Street, Mumbai',
+      website: 'https://acme.com',
+      industry: 'Technology',
+      companySize: '51-200',
+      notes: 'Preferred client',
+    },
+    existingEmails: async emails =>
+      (await prisma.client.findMany({ where: { email: { in: emails } }, select: { email: true } }))
+        .map(client => client.email),
+    create: data => prisma.client.create({ data: createClientSchema.parse(data) }),
+  },
+  vendors: {
+    label: 'vendor',
+    schema: createVendorSchema,
+    sample: {
+      name: 'TalentBridge Staffing',
+      contactPerson: 'Rahul Verma',
+      email: 'rahul@talentbridge.com',
+      phone: '+91 91234 56789',
+      address: 'MG Road, Bengaluru',
+      specialization: 'IT;Finance',
+      rating: '4.5',
+      notes: 'Separate several specializations with ;',
+    },
+    existingEmails: async emails =>
+      (await prisma.vendor.findMany({ where: { email: { in: emails } }, select: { email: true } }))
+        .map(vendor => vendor.email),
+    create: data => prisma.vendor.create({ data: createVendorSchema.parse(data) }),
+  },
+}
+
+export class CsvImport {
+  // RFC 4180 parsing: quoted cells may hold commas, doubled quotes and line breaks
+  static parse(text: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let cell = ''
+    let quoted = false
+    const input = text.replace(/^\uFEFF/, '')
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i]
+
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else if (char === '"') {
+          quoted = false
+        } else {
+          cell += char
+        }
+        continue
+      }
+
+      if (char === '"' && cell === '') {
+        quoted = true
+      } else if (char === ',') {
+        row.push(cell)
+        cell = ''
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++
+        row.push(cell)
+        rows.push(row)
+        row = []
+        cell = ''
+      } else {
+        cell += char
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      row.push(cell)
+      rows.push(row)
+    }
+
+    // Spreadsheet exports often end with empty lines
+    return rows.filter(cells => cells.some(value => value.trim() !== ''))
+  }
+
+  static escape(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+  }
+
+  // Header row taken from the create schema plus one example row
+  static template(entity: ImportEntity): string {
+    const { schema, sample } = IMPORT_TARGETS[entity]
+    const columns = Object.keys(schema.shape)
+    return [
+      columns.join(','),
+      columns.map(column => this.escape(sample[column] ?? '')).join(','),
+    ].join('\r\n') + '\r\n'
+  }
+
+  // Validate every row and, unless this is a dry run, create the valid ones in batches
+  static async run(entity: ImportEntity, text: string, dryRun: boolean): Promise<ImportResult> {
+    const target = IMPORT_TARGETS[entity]
+    const [header, ...records] = this.parse(text)
+    if (!header) {
+      return { ok: false, error: 'The file is empty' }
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      return { ok: false, error: `Files can contain at most ${MAX_IMPORT_ROWS} rows` }
+    }
+
+    const columnMap = this.mapColumns(header, target.schema)
+    const missing = Object.entries(target.schema.shape)
+      .filter(([key, type]) => !(type as z.ZodTypeAny).isOptional() && !columnMap.includes(key))
+      .map(([key]) => key)
+    if (missing.length > 0) {
+      return { ok: false, error: `Missing required columns: ${missing.join(', ')}` }
+    }
+
+    const rows: ImportRowResult[] = records.map((cells, index) => this.validateRow(cells, index + 2, columnMap, target.schema))
+    await this.markDuplicates(rows, target)
+
+    if (!dryRun) {
+      await this.createRows(rows, target)
+    }
+
+    const count = (status: ImportRowStatus) => rows.filter(row => row.status === status).length
+    return {
+      ok: true,
+      report: {
+        entity,
+        dryRun,
+        total: rows.length,
+        valid: count('valid'),
+        invalid: count('invalid'),
+        duplicates: count('duplicate'),
+        created: count('created'),
+        failed: count('failed'),
+        columns: {
+          recognized: columnMap.filter((key): key is string => key !== null),
+          unknown: header.filter((_, index) => columnMap[index] === null).map(column => column.trim()),
+        },
+        rows,
+      },
+    }
+  }
+
+  // Match headers to schema fields ignoring case, spaces and punctuation ("Contact Person" -> contactPerson)
+  private static mapColumns(header: string[], schema: z.AnyZodObject): (string | null)[] {
+    const squash = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+    const fields = new Map(Object.keys(schema.shape).map(key => [squash(key), key]))
+    const seen = new Set<string>()
+
+    return header.map(column => {
+      const key = fields.get(squash(column)) ?? null
+      if (!key || seen.has(key)) return null
+      seen.add(key)
+      return key
+    })
+  }
+
+  private static validateRow(
+    cells: string[],
+    row: number,
+    columnMap: (string | null)[],
+    schema: z.AnyZodObject
+  ): ImportRowResult {
+    const raw: Record<string, unknown> = {}
+    columnMap.forEach((key, index) => {
+      if (!key) return
+      const value = this.coerce((cells[index] ?? '').trim(), schema.shape[key])
+      if (value !== undefined) raw[key] = value
+    })
+    if (typeof raw.email === 'string') {
+      raw.email = raw.email.toLowerCase()
+    }
+
+    const parsed = schema.safeParse(raw)
+    if (!parsed.success) {
+      return {
+        row,
+        status: 'invalid',
+        errors: parsed.error.errors.map(error => `${error.path.join('.') || 'row'}: ${error.message}`),
+        data: raw,
+      }
+    }
+    return { row, status: 'valid', errors: [], data: parsed.data }
+  }
+
+  // CSV cells are all text; turn them into what the schema field expects. Values that do not
+  // convert are passed through unchanged so the schema reports them.
+  private static coerce(value: string, type: z.ZodTypeAny): unknown {
+    const base = this.unwrap(type)
+    if (value === '') {
+      // Blank required text stays blank so the schema's own message ("Name is required") is shown
+      return !type.isOptional() && base instanceof z.ZodString ? '' : undefined
+    }
+
+    if (base instanceof z.ZodNumber) {
+      const number = Number(value)
+      return Number.isNaN(number) ? value : number
+    }
+    if (base instanceof z.ZodArray) {
+      return value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean)
+    }
+    if (base instanceof z.ZodBoolean) {
+      if (/^(true|yes|1)$/i.test(value)) return true
+      if (/^(false|no|0)$/i.test(value)) return false
+    }
+    return value
+  }
+
+  private static unwrap(type: z.ZodTypeAny): z.ZodTypeAny {
+    if (type instanceof z.ZodOptional || type instanceof z.ZodNullable) return this.unwrap(type.unwrap())
+    if (type instanceof z.ZodDefault) return this.unwrap(type.removeDefault())
+    if (type instanceof z.ZodEffects) return this.unwrap(type.innerType())
+    if (type instanceof z.ZodUnion) return this.unwrap(type.options[0])
+    return type
+  }
+
+  // The first row with an email wins; later rows and emails already on file are duplicates
+  private static async markDuplicates(rows: ImportRowResult[], target: ImportTarget) {
+    const firstRow = new Map<string, number>()
+    for (const row of rows) {
+      if (row.status !== 'valid') continue
+      const email = row.data.email as string
+      const earlier = firstRow.get(email)
+      if (earlier) {
+        row.status = 'duplicate'
+        row.errors.push(`email: Duplicate of row ${earlier} in this file`)
+      } else {
+        firstRow.set(email, row.row)
+      }
+    }
+
+    if (firstRow.size === 0) return
+    const existing = new Set(await target.existingEmails(Array.from(firstRow.keys())))
+    for (const row of rows) {
+      if (row.status === 'valid' && existing.has(row.data.email as string)) {
+        row.status = 'duplicate'
+        row.errors.push(`email: A ${target.label} with this email already exists`)
+      }
+    }
+  }
+
+  private static async createRows(rows: ImportRowResult[], target: ImportTarget) {
+    const valid = rows.filter(row => row.status === 'valid')
+
+    for (let start = 0; start < valid.length; start += IMPORT_BATCH_SIZE) {
+      const batch = valid.slice(start, start + IMPORT_BATCH_SIZE)
+      const results = await Promise.allSettled(batch.map(row => target.create(row.data)))
+
+      results.forEach((result, index) => {
+        const row = batch[index]
+        if (result.status === 'fulfilled') {
+          row.status = 'created'
+          row.id = result.value.id
+        } else {
+          console.error(`Import ${target.label} row ${row.row} error:`, result.reason)
+          row.status = 'failed'
+          row.errors.push(`Could not save this ${target.label}`)
+        }
+      })
+    }
+  }
+}
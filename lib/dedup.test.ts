@@ -0,0 +1,202 @@
+import { after, afterEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { prisma } from '@/lib/prisma'
+import { CandidateDedup } from '@/lib/dedup'
+
+type DedupCandidate = Parameters<typeof CandidateDedup.scorePair>[0]
+
+const id = (n: number) => n.toString(16).padStart(24, '0')
+
+const person = (n: number, fields: Partial<DedupCandidate> = {}): DedupCandidate => ({
+  id: id(n),
+  userId: id(100 + n),
+  firstName: null,
+  lastName: null,
+  email: null,
+  phone: null,
+  dob: null,
+  linkedin: null,
+  pan: null,
+  aadhaar: null,
+  uan: null,
+  user: { email: `user${n}@example.com`, phone: null },
+  ...fields,
+})
+
+describe('CandidateDedup.scorePair', () => {
+  const signals = (a: DedupCandidate, b: DedupCandidate) => CandidateDedup.scorePair(a, b).matches.map(match => match.signal)
+
+  it('matches emails regardless of case and spacing', () => {
+    const pair = CandidateDedup.scorePair(person(1, { email: ' Jane@Example.com ' }), person(2, { email: 'jane@example.com' }))
+    assert.deepEqual(pair.matches, [{ signal: 'email', weight: 85, value: 'jane@example.com' }])
+    assert.equal(pair.score, 85)
+    assert.equal(pair.pairKey, `${id(1)}:${id(2)}`)
+  })
+
+  it('matches phones on their last ten digits, including phone-login placeholder emails', () => {
+    assert.deepEqual(signals(person(1, { phone: '+91 98765 43210' }), person(2, { phone: '098765-43210' })), ['phone'])
+    assert.deepEqual(
+      signals(person(1, { phone: '9876543210' }), person(2, { user: { email: '919876543210@temp.com', phone: null } })),
+      ['phone']
+    )
+    // Too short to identify anyone
+    assert.deepEqual(signals(person(1, { phone: '43210' }), person(2, { phone: '43210' })), [])
+  })
+
+  it('matches name and date of birth together, ignoring case and punctuation', () => {
+    const dob = new Date('1990-05-17')
+    const a = person(1, { firstName: 'Mary-Ann', lastName: "O'Neil", dob })
+    assert.deepEqual(signals(a, person(2, { firstName: 'maryann', lastName: 'ONeil', dob })), ['nameDob'])
+    assert.deepEqual(signals(a, person(3, { firstName: 'Mary-Ann', lastName: "O'Neil", dob: new Date('1991-05-17') })), [])
+    assert.deepEqual(signals(a, person(4, { firstName: 'Mary-Ann', lastName: "O'Neil" })), [])
+  })
+
+  it('combines signals as independent evidence', () => {
+    const dob = new Date('1990-05-17')
+    const pair = CandidateDedup.scorePair(
+      person(1, { phone: '9876543210', firstName: 'Asha', lastName: 'Rao', dob }),
+      person(2, { phone: '9876543210', firstName: 'Asha', lastName: 'Rao', dob })
+    )
+    // 1 - (1 - 0.75) * (1 - 0.70)
+    assert.equal(pair.score, 93)
+  })
+
+  it('caps the score when government IDs differ', () => {
+    const pair = CandidateDedup.scorePair(
+      person(1, { email: 'jane@example.com', pan: 'ABCDE1234F' }),
+      person(2, { email: 'jane@example.com', pan: 'ZYXWV9876K' })
+    )
+    assert.deepEqual(pair.conflicts, ['pan'])
+    assert.equal(pair.score, 40)
+  })
+})
+
+describe('CandidateDedup.merge', () => {
+  // Model delegates are proxies, so each stubbed one is swapped out whole and put back after the test
+  const originals = new Map<string, PropertyDescriptor>()
+  afterEach(() => {
+    originals.forEach((descriptor, model) => Object.defineProperty(prisma, model, descriptor))
+    originals.clear()
+  })
+  after(() => prisma.$disconnect())
+
+  const stub = (model: string, methods: Record<string, (args: any) => unknown>) => {
+    if (!originals.has(model)) originals.set(model, Object.getOwnPropertyDescriptor(prisma, model)!)
+    const mocks = Object.fromEntries(Object.entries(methods).map(([name, fn]) => [name, mock.fn(async (args: any) => fn(args))]))
+    Object.defineProperty(prisma, model, { value: mocks, configurable: true, writable: true })
+    return mocks
+  }
+
+  const survivorId = id(1)
+  const duplicateId = id(2)
+  const profile = (candidateId: string, fields: Record<string, unknown>) => ({
+    id: candidateId,
+    userId: id(100),
+    firstName: null,
+    lastName: null,
+    email: null,
+    phone: null,
+    city: null,
+    skills: [],
+    selectedSkills: [],
+    resumeUrl: null,
+    resumeText: null,
+    ...fields,
+  })
+
+  const stubMerge = (
+    survivor: Record<string, unknown>,
+    duplicate: Record<string, unknown>,
+    applications: { survivor: any[]; duplicate: any[] } = { survivor: [], duplicate: [] }
+  ) => {
+    const candidate = stub('candidate', {
+      findUnique: ({ where }) => (where.id === survivorId ? survivor : duplicate),
+      update: ({ data }) => ({ ...survivor, ...data }),
+      delete: () => duplicate,
+    })
+    stub('candidateMerge', { create: ({ data }) => ({ id: id(50), ...data }), update: ({ data }) => ({ id: id(50), ...data }) })
+    const jobApplication = stub('jobApplication', {
+      findMany: ({ where }) => (where.candidateId === survivorId ? applications.survivor : applications.duplicate),
+      update: ({ where, data }) => ({ id: where.id, ...data }),
+      delete: ({ where }) => ({ id: where.id }),
+    })
+    const interview = stub('interview', { updateMany: () => ({ count: 2 }) })
+    stub('candidateShare', { updateMany: () => ({ count: 1 }) })
+    stub('talentPoolMember', { findMany: () => [] })
+    return { candidate, jobApplication, interview }
+  }
+
+  it('keeps the survivor\'s values and only fills its empty fields from the duplicate', async () => {
+    const survivor = profile(survivorId, { firstName: 'Jane', email: 'jane@example.com', city: null, skills: ['React', 'Node.js'] })
+    const duplicate = profile(duplicateId, {
+      firstName: 'Janet',
+      email: 'janet@example.com',
+      city: 'Pune',
+      skills: ['react', 'Go'],
+      resumeUrl: '/resumes/janet.pdf',
+      resumeText: 'Janet resume',
+    })
+    const { candidate } = stubMerge(survivor, duplicate)
+
+    const result = await CandidateDedup.merge(survivorId, duplicateId, id(9))
+    assert.ok(result.ok)
+
+    assert.deepEqual(candidate.update.mock.calls[0].arguments[0].data, {
+      city: 'Pune',
+      resumeUrl: '/resumes/janet.pdf',
+      // The resume text goes with the resume it was read from
+      resumeText: 'Janet resume',
+      skills: ['React', 'Node.js', 'Go'],
+    })
+    assert.deepEqual(candidate.delete.mock.calls[0].arguments[0], { where: { id: duplicateId } })
+    assert.equal(result.merge.movedInterviews, 2)
+    assert.equal(result.merge.movedShares, 1)
+  })
+
+  it('keeps the application further along when both applied to the same job', async () => {
+    const jobId = id(30)
+    const { jobApplication, interview } = stubMerge(profile(survivorId, {}), profile(duplicateId, {}), {
+      survivor: [{ id: id(10), jobId, currentStage: 'SCREENING', notes: null }],
+      duplicate: [
+        { id: id(11), jobId, currentStage: 'FINAL_INTERVIEW', notes: 'Strong' },
+        { id: id(12), jobId: id(31), currentStage: 'APPLIED', notes: null },
+      ],
+    })
+
+    const result = await CandidateDedup.merge(survivorId, duplicateId, id(9))
+    assert.ok(result.ok)
+    assert.equal(result.merge.movedApplications, 2)
+
+    // The survivor's earlier-stage application is dropped and its interviews follow the kept one
+    assert.deepEqual(interview.updateMany.mock.calls[0].arguments[0], { where: { applicationId: id(10) }, data: { applicationId: id(11) } })
+    assert.deepEqual(jobApplication.delete.mock.calls.map(call => call.arguments[0].where.id), [id(10)])
+    const updates = jobApplication.update.mock.calls.map(call => call.arguments[0])
+    assert.deepEqual(updates.map(update => [update.where.id, update.data.candidateId]), [[id(11), survivorId], [id(12), survivorId]])
+    assert.match(updates[0].data.notes, /^Strong\nMerged with duplicate application/)
+  })
+
+  it('prefers an open application over a rejected one further along', async () => {
+    const jobId = id(30)
+    const { jobApplication } = stubMerge(profile(survivorId, {}), profile(duplicateId, {}), {
+      survivor: [{ id: id(10), jobId, currentStage: 'APPLIED', notes: null }],
+      duplicate: [{ id: id(11), jobId, currentStage: 'REJECTED', notes: null }],
+    })
+
+    const result = await CandidateDedup.merge(survivorId, duplicateId, id(9))
+    assert.ok(result.ok)
+    assert.equal(result.merge.movedApplications, 0)
+    assert.deepEqual(jobApplication.delete.mock.calls.map(call => call.arguments[0].where.id), [id(11)])
+  })
+
+  it('refuses to merge a candidate into itself or a missing one', async () => {
+    assert.deepEqual(await CandidateDedup.merge(survivorId, survivorId, id(9)), {
+      ok: false,
+      status: 400,
+      error: 'A candidate cannot be merged into itself',
+    })
+
+    stub('candidate', { findUnique: ({ where }) => (where.id === survivorId ? profile(survivorId, {}) : null) })
+    const result = await CandidateDedup.merge(survivorId, duplicateId, id(9))
+    assert.equal(!result.ok && result.status, 404)
+  })
+})
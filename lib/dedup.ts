@@ -0,0 +1,459 @@
+import type { Candidate, CandidateMerge, JobApplication, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { STAGE_TRANSITIONS } from '@/lib/pipeline'
+
+export type DuplicateSignal = 'pan' | 'aadhaar' | 'uan' | 'email' | 'linkedin' | 'phone' | 'nameDob'
+
+// How strongly each matching identifier suggests the same person (0-100). Matches combine
+// like independent evidence, so a phone and name + DOB match outranks either on its own.
+export const DUPLICATE_WEIGHTS: Record<DuplicateSignal, number> = {
+  pan: 95,
+  aadhaar: 95,
+  uan: 90,
+  email: 85,
+  linkedin: 80,
+  phone: 75,
+  nameDob: 70,
+}
+
+// Pairs scoring below this are left out of the review queue unless asked for
+export const DEFAULT_DUPLICATE_SCORE = 70
+
+// Different government IDs mean different people, whatever else matches
+const ID_SIGNALS: DuplicateSignal[] = ['pan', 'aadhaar', 'uan']
+const CONFLICT_SCORE_CAP = 40
+
+// A value shared by more candidates than this is a placeholder (e.g. "9999999999"), not an identity
+const MAX_BLOCK_SIZE = 50
+
+// Phone logins get "<phone>@temp.com" as their account email
+const PLACEHOLDER_EMAIL = /^(\d+)@temp\.com$/
+
+// Profile fields copied from the duplicate when the survivor has no value
+const FILLABLE_FIELDS = [
+  'firstName', 'middleName', 'lastName', 'email', 'phone', 'dob', 'gender', 'linkedin', 'github',
+  'country', 'state', 'city', 'location', 'jobTitle', 'experience', 'expectedSalary', 'currentSalary',
+  'noticePeriod', 'noticePeriodDays', 'relocate', 'profileSummary', 'aadhaar', 'pan', 'uan', 'employerName', 'recruiterName',
+  'recruiterEmail', 'recruiterContact', 'resumeUrl', 'experiences', 'education', 'references',
+  'otherDocuments', 'workExperience',
+] as const
+
+// Pipeline order used to decide which of two applications to the same job is kept
+const STAGE_ORDER = Object.keys(STAGE_TRANSITIONS)
+
+const dedupSelect = {
+  id: true,
+  userId: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  phone: true,
+  dob: true,
+  linkedin: true,
+  pan: true,
+  aadhaar: true,
+  uan: true,
+  user: { select: { email: true, phone: true } },
+} as const
+
+// What the review queue shows for each side of a pair
+export const duplicateCandidateSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  phone: true,
+  jobTitle: true,
+  city: true,
+  createdAt: true,
+  user: { select: { email: true } },
+} as const
+
+type DedupCandidate = Prisma.CandidateGetPayload<{ select: typeof dedupSelect }>
+
+export interface DuplicateMatch {
+  signal: DuplicateSignal
+  weight: number
+  value: string
+}
+
+export interface DuplicatePair {
+  pairKey: string
+  candidateIds: [string, string]
+  score: number
+  matches: DuplicateMatch[]
+  conflicts: DuplicateSignal[]
+}
+
+export type MergeResult =
+  // before and removed are the two profiles as they were, for the audit log
+  | { ok: true; survivor: Candidate; merge: CandidateMerge; before: Candidate; removed: Candidate }
+  | { ok: false; status: 400 | 404; error: string }
+
+export class CandidateDedup {
+  static pairKey(a: string, b: string): string {
+    return [a, b].sort().join(':')
+  }
+
+  static normalizePhone(value?: string | null): string | null {
+    const digits = (value ?? '').replace(/\D/g, '')
+    if (digits.length < 10) return null
+    // Compare on the last ten digits so "+91 98765 43210" and "098765 43210" agree
+    return digits.slice(-10)
+  }
+
+  static normalizeEmail(value?: string | null): string | null {
+    const email = (value ?? '').trim().toLowerCase()
+    if (!email.includes('@') || PLACEHOLDER_EMAIL.test(email)) return null
+    return email
+  }
+
+  static normalizeId(value: string | null | undefined, signal: 'pan' | 'aadhaar' | 'uan'): string | null {
+    const id = (value ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '')
+    if (signal === 'pan') return /^[A-Z]{5}\d{4}[A-Z]$/.test(id) ? id : null
+    return /^\d{12}$/.test(id) ? id : null
+  }
+
+  static normalizeLinkedin(value?: string | null): string | null {
+    const slug = (value ?? '').match(/linkedin\.com\/in\/([^/?#\s]+)/i)?.[1]
+    return slug ? decodeURIComponent(slug).toLowerCase() : null
+  }
+
+  static normalizeNameDob(candidate: Pick<DedupCandidate, 'firstName' | 'lastName' | 'dob'>): string | null {
+    const first = (candidate.firstName ?? '').toLowerCase().replace(/[^a-z]/g, '')
+    const last = (candidate.lastName ?? '').toLowerCase().replace(/[^a-z]/g, '')
+    if (!first || !last || !candidate.dob) return null
+    return `${first} ${last}|${candidate.dob.toISOString().split('T')[0]}`
+  }
+
+  // Every normalized identifier a candidate can be matched on, including the account's
+  static keys(candidate: DedupCandidate): Map<DuplicateSignal, Set<string>> {
+    const keys = new Map<DuplicateSignal, Set<string>>()
+    const add = (signal: DuplicateSignal, value: string | null) => {
+      if (!value) return
+      if (!keys.has(signal)) keys.set(signal, new Set())
+      keys.get(signal)!.add(value)
+    }
+
+    add('email', this.normalizeEmail(candidate.email))
+    add('email', this.normalizeEmail(candidate.user.email))
+    add('phone', this.normalizePhone(candidate.phone))
+    add('phone', this.normalizePhone(candidate.user.phone))
+    add('phone', this.normalizePhone(candidate.user.email.match(PLACEHOLDER_EMAIL)?.[1]))
+    add('pan', this.normalizeId(candidate.pan, 'pan'))
+    add('aadhaar', this.normalizeId(candidate.aadhaar, 'aadhaar'))
+    add('uan', this.normalizeId(candidate.uan, 'uan'))
+    add('linkedin', this.normalizeLinkedin(candidate.linkedin))
+    add('nameDob', this.normalizeNameDob(candidate))
+    return keys
+  }
+
+  static scorePair(a: DedupCandidate, b: DedupCandidate): DuplicatePair {
+    const aKeys = this.keys(a)
+    const bKeys = this.keys(b)
+    const matches: DuplicateMatch[] = []
+    const conflicts: DuplicateSignal[] = []
+
+    for (const signal of Object.keys(DUPLICATE_WEIGHTS) as DuplicateSignal[]) {
+      const aValues = aKeys.get(signal)
+      const bValues = bKeys.get(signal)
+      if (!aValues || !bValues) continue
+
+      const shared = Array.from(aValues).find(value => bValues.has(value))
+      if (shared) {
+        matches.push({ signal, weight: DUPLICATE_WEIGHTS[signal], value: shared })
+      } else if (ID_SIGNALS.includes(signal)) {
+        conflicts.push(signal)
+      }
+    }
+
+    const unlikely = matches.reduce((product, match) => product * (1 - match.weight / 100), 1)
+    let score = Math.round((1 - unlikely) * 100)
+    if (conflicts.length > 0) {
+      score = Math.min(score, CONFLICT_SCORE_CAP)
+    }
+
+    return {
+      pairKey: this.pairKey(a.id, b.id),
+      candidateIds: [a.id, b.id].sort() as [string, string],
+      score,
+      matches,
+      conflicts,
+    }
+  }
+
+  // All likely duplicate pairs, best first, leaving out pairs a reviewer dismissed
+  static async findPairs(minScore = DEFAULT_DUPLICATE_SCORE): Promise<DuplicatePair[]> {
+    const candidates = await prisma.candidate.findMany({ select: dedupSelect })
+    const byId = new Map(candidates.map(candidate => [candidate.id, candidate]))
+
+    const pairs = new Map<string, DuplicatePair>()
+    this.blocks(candidates).forEach(ids => {
+      if (ids.length < 2 || ids.length > MAX_BLOCK_SIZE) return
+      for (let i = 0; i < ids.length; i++) {
+        for (let j = i + 1; j < ids.length; j++) {
+          const key = this.pairKey(ids[i], ids[j])
+          if (ids[i] === ids[j] || pairs.has(key)) continue
+          pairs.set(key, this.scorePair(byId.get(ids[i])!, byId.get(ids[j])!))
+        }
+      }
+    })
+
+    return this.likelyPairs(Array.from(pairs.values()), minScore)
+  }
+
+  // Likely duplicates of a single candidate, e.g. right after a recruiter adds one. Only the
+  // candidates that may share one of its identifiers are loaded, not the whole collection.
+  static async findDuplicatesOf(candidateId: string, minScore = DEFAULT_DUPLICATE_SCORE): Promise<DuplicatePair[]> {
+    const candidate = await prisma.candidate.findUnique({ where: { id: candidateId }, select: dedupSelect })
+    if (!candidate) return []
+
+    const keys = this.keys(candidate)
+    const conditions = this.sharedKeyConditions(keys, candidate)
+    if (conditions.length === 0) return []
+
+    const others = await prisma.candidate.findMany({
+      where: { id: { not: candidateId }, OR: conditions },
+      select: dedupSelect,
+    })
+    const byId = new Map(others.map(other => [other.id, other]))
+
+    // The query matches loosely, so pairs come from the same blocks findPairs would build
+    const pairs = new Map<string, DuplicatePair>()
+    this.blocks([candidate, ...others]).forEach(ids => {
+      if (!ids.includes(candidateId) || ids.length < 2 || ids.length > MAX_BLOCK_SIZE) return
+      ids.forEach(id => {
+        if (id === candidateId || pairs.has(id)) return
+        pairs.set(id, this.scorePair(candidate, byId.get(id)!))
+      })
+    })
+
+    return this.likelyPairs(Array.from(pairs.values()), minScore)
+  }
+
+  static async dismiss(candidateIds: [string, string], dismissedBy: string, reason?: string) {
+    const pairKey = this.pairKey(candidateIds[0], candidateIds[1])
+    return prisma.candidateDuplicateDismissal.upsert({
+      where: { pairKey },
+      create: { pairKey, candidateIds: [...candidateIds].sort(), dismissedBy, reason },
+      update: { dismissedBy, reason },
+    })
+  }
+
+  // Fold the duplicate into the survivor: fill the survivor's empty fields, move applications,
+  // interviews, share links and talent pool places across, then delete the duplicate profile. The duplicate's
+  // login account is left alone. Each step only touches rows still pointing at the duplicate,
+  // so a merge that stops half way can simply be run again.
+  static async merge(survivorId: string, duplicateId: string, mergedBy: string): Promise<MergeResult> {
+    if (survivorId === duplicateId) {
+      return { ok: false, status: 400, error: 'A candidate cannot be merged into itself' }
+    }
+
+    const [survivor, duplicate] = await Promise.all([
+      prisma.candidate.findUnique({ where: { id: survivorId } }),
+      prisma.candidate.findUnique({ where: { id: duplicateId } }),
+    ])
+    if (!survivor || !duplicate) {
+      return { ok: false, status: 404, error: 'Candidate not found' }
+    }
+
+    const merge = await prisma.candidateMerge.create({
+      data: {
+        survivorId,
+        mergedCandidateId: duplicateId,
+        mergedUserId: duplicate.userId,
+        snapshot: JSON.parse(JSON.stringify(duplicate)) as Prisma.InputJsonValue,
+        mergedBy,
+      },
+    })
+
+    const updatedSurvivor = await prisma.candidate.update({
+      where: { id: survivorId },
+      data: this.fillFromDuplicate(survivor, duplicate),
+    })
+
+    const movedApplications = await this.moveApplications(survivorId, duplicateId)
+    const { count: movedInterviews } = await prisma.interview.updateMany({
+      where: { candidateId: duplicateId },
+      data: { candidateId: survivorId },
+    })
+    const { count: movedShares } = await prisma.candidateShare.updateMany({
+      where: { candidateId: duplicateId },
+      data: { candidateId: survivorId },
+    })
+    await this.moveTalentPoolMembers(survivorId, duplicateId)
+
+    await prisma.candidate.delete({ where: { id: duplicateId } })
+
+    const completedMerge = await prisma.candidateMerge.update({
+      where: { id: merge.id },
+      data: { movedApplications, movedInterviews, movedShares },
+    })
+
+    return { ok: true, survivor: updatedSurvivor, merge: completedMerge, before: survivor, removed: duplicate }
+  }
+
+  // Candidate ids by shared identifier; only candidates in the same block are compared
+  private static blocks(candidates: DedupCandidate[]): Map<string, string[]> {
+    const blocks = new Map<string, string[]>()
+    for (const candidate of candidates) {
+      this.keys(candidate).forEach((values, signal) => {
+        values.forEach(value => {
+          const key = `${signal}:${value}`
+          const ids = blocks.get(key)
+          if (ids) ids.push(candidate.id)
+          else blocks.set(key, [candidate.id])
+        })
+      })
+    }
+    return blocks
+  }
+
+  // Stored values are not normalized, so each condition matches a superset of the candidates
+  // sharing the key (e.g. phones ending in the same digits) and keys() decides on the rest
+  private static sharedKeyConditions(
+    keys: Map<DuplicateSignal, Set<string>>,
+    candidate: DedupCandidate
+  ): Prisma.CandidateWhereInput[] {
+    const conditions: Prisma.CandidateWhereInput[] = []
+    const insensitive = (value: string) => ({ contains: value, mode: 'insensitive' as const })
+
+    keys.get('email')?.forEach(email => {
+      conditions.push({ email: { equals: email, mode: 'insensitive' } })
+      conditions.push({ user: { email: { equals: email, mode: 'insensitive' } } })
+    })
+    keys.get('phone')?.forEach(phone => {
+      // The last four digits stay together however the number is spaced
+      const tail = phone.slice(-4)
+      conditions.push({ phone: { contains: tail } })
+      conditions.push({ user: { phone: { contains: tail } } })
+      conditions.push({ user: { email: { endsWith: `${phone}@temp.com` } } })
+    })
+    for (const signal of ID_SIGNALS) {
+      keys.get(signal)?.forEach(id => conditions.push({ [signal]: insensitive(id.slice(-4)) }))
+    }
+    keys.get('linkedin')?.forEach(slug => conditions.push({ linkedin: insensitive(slug) }))
+    if (keys.has('nameDob')) {
+      conditions.push({ dob: candidate.dob })
+    }
+
+    return conditions
+  }
+
+  // Pairs at or above minScore, best first, leaving out pairs a reviewer dismissed
+  private static async likelyPairs(pairs: DuplicatePair[], minScore: number): Promise<DuplicatePair[]> {
+    const likely = pairs.filter(pair => pair.score >= minScore)
+    if (likely.length === 0) return []
+
+    const dismissed = await prisma.candidateDuplicateDismissal.findMany({
+      where: { pairKey: { in: likely.map(pair => pair.pairKey) } },
+      select: { pairKey: true },
+    })
+    const dismissedKeys = new Set(dismissed.map(dismissal => dismissal.pairKey))
+
+    return likely
+      .filter(pair => !dismissedKeys.has(pair.pairKey))
+      .sort((a, b) => b.score - a.score)
+  }
+
+  private static fillFromDuplicate(survivor: Candidate, duplicate: Candidate): Prisma.CandidateUpdateInput {
+    const isEmpty = (value: unknown) =>
+      value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+
+    const data: Record<string, unknown> = {}
+    for (const field of FILLABLE_FIELDS) {
+      if (isEmpty(survivor[field]) && !isEmpty(duplicate[field])) {
+        data[field] = duplicate[field]
+      }
+    }
+
+    // Skills both have keep the survivor's spelling
+    const skills = new Map(survivor.skills.map(skill => [skill.toLowerCase(), skill]))
+    for (const skill of duplicate.skills) {
+      if (!skills.has(skill.toLowerCase())) skills.set(skill.toLowerCase(), skill)
+    }
+    if (skills.size > survivor.skills.length) {
+      data.skills = Array.from(skills.values())
+    }
+    if (survivor.selectedSkills.length === 0 && duplicate.selectedSkills.length > 0) {
+      data.selectedSkills = duplicate.selectedSkills
+    }
+    // The resume text belongs to whichever resume the survivor ends up with
+    if (data.resumeUrl) {
+      data.resumeText = duplicate.resumeText
+    }
+
+    return data as Prisma.CandidateUpdateInput
+  }
+
+  // Applications are unique per candidate and job, so when both applied to the same job
+  // the one further along the pipeline is kept and the other's interviews move onto it
+  private static async moveApplications(survivorId: string, duplicateId: string): Promise<number> {
+    const [survivorApplications, duplicateApplications] = await Promise.all([
+      prisma.jobApplication.findMany({ where: { candidateId: survivorId } }),
+      prisma.jobApplication.findMany({ where: { candidateId: duplicateId } }),
+    ])
+    const survivorByJob = new Map(survivorApplications.map(application => [application.jobId, application]))
+
+    let moved = 0
+    for (const application of duplicateApplications) {
+      const existing = survivorByJob.get(application.jobId)
+      if (!existing) {
+        await prisma.jobApplication.update({ where: { id: application.id }, data: { candidateId: survivorId } })
+        moved++
+        continue
+      }
+
+      const [kept, dropped] = this.applicationRank(application) > this.applicationRank(existing)
+        ? [application, existing]
+        : [existing, application]
+
+      await prisma.interview.updateMany({ where: { applicationId: dropped.id }, data: { applicationId: kept.id } })
+      await prisma.jobApplication.delete({ where: { id: dropped.id } })
+      await prisma.jobApplication.update({
+        where: { id: kept.id },
+        data: {
+          candidateId: survivorId,
+          notes: [kept.notes, `Merged with duplicate application ${dropped.id} (${dropped.currentStage})`]
+            .filter(Boolean)
+            .join('\n'),
+        },
+      })
+      if (kept.id === application.id) moved++
+    }
+
+    return moved
+  }
+
+  // A candidate is in a pool once, so where both are the survivor keeps its place and gains the
+  // duplicate's tags and notes
+  private static async moveTalentPoolMembers(survivorId: string, duplicateId: string): Promise<void> {
+    const [survivorMembers, duplicateMembers] = await Promise.all([
+      prisma.talentPoolMember.findMany({ where: { candidateId: survivorId } }),
+      prisma.talentPoolMember.findMany({ where: { candidateId: duplicateId } }),
+    ])
+
+    for (const member of duplicateMembers) {
+      const existing = survivorMembers.find(entry => entry.poolId === member.poolId)
+      if (!existing) {
+        await prisma.talentPoolMember.update({ where: { id: member.id }, data: { candidateId: survivorId } })
+        continue
+      }
+
+      await prisma.talentPoolMember.update({
+        where: { id: existing.id },
+        data: {
+          tags: Array.from(new Set([...existing.tags, ...member.tags])),
+          notes: [existing.notes, member.notes].filter(Boolean).join('\n') || null,
+        },
+      })
+      await prisma.talentPoolMember.delete({ where: { id: member.id } })
+    }
+  }
+
+  // Open applications beat rejected/withdrawn ones, then the later stage wins
+  private static applicationRank(application: Pick<JobApplication, 'currentStage'>): number {
+    const closed = application.currentStage === 'REJECTED' || application.currentStage === 'WITHDRAWN'
+    return (closed ? 0 : STAGE_ORDER.length) + STAGE_ORDER.indexOf(application.currentStage)
+  }
+}
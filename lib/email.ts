@@ -15,6 +15,7 @@ export interface EmailOptions {
   subject: string
   html: string
   text?: string
+  replyTo?: string
 }
 
 export class EmailService {
@@ -26,6 +27,7 @@ export class EmailService {
         subject: options.subject,
         html: options.html,
         text: options.text,
+        replyTo: options.replyTo,
       })
       return true
     } catch (error) {
@@ -34,7 +36,7 @@ export class EmailService {
     }
   }
 
-  static async sendOTPEmail(email: string, otp: string, name?: string): Promise<boolean> {
+  static async sendOTPEmail(email: string, otp: string, name?: string, expiresInMinutes: number = 10): Promise<boolean> {
     const html = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
         <h2 style="color: #333; text-align: center;">Verify Your Account</h2>
@@ -43,7 +45,7 @@ export class EmailService {
         <div style="background-color: #f4f4f4; padding: 20px; text-align: center; margin: 20px 0;">
           <h1 style="color: #007bff; font-size: 32px; margin: 0; letter-spacing: 5px;">${otp}</h1>
         </div>
-        <p>This OTP is valid for 10 minutes. Please do not share this code with anyone.</p>
+        <p>This OTP is valid for ${expiresInMinutes} minutes. Please do not share this code with anyone.</p>
         <p>If you didn't request this OTP, please ignore this email.</p>
         <hr style="margin: 30px 0;">
         <p style="color: #666; font-size: 12px; text-align: center;">
@@ -56,7 +58,7 @@ export class EmailService {
       to: email,
       subject: 'Login OTP - Recruitment Platform',
       html,
-      text: `Your OTP for login is: ${otp}. This OTP is valid for 10 minutes.`
+      text: `Your OTP for login is: ${otp}. This OTP is valid for ${expiresInMinutes} minutes.`
     })
   }
 
@@ -87,4 +89,160 @@ export class EmailService {
       text: `Welcome ${name}! Your account has been created successfully as a ${role}.`
     })
   }
+
+  static async sendCandidateShareEmail(
+    email: string,
+    recruiterName: string,
+    candidates: Array<{ name: string; url: string }>,
+    expiryDate?: Date | null
+  ): Promise<boolean> {
+    const links = candidates
+      .map(candidate => `<li style="margin-bottom: 8px;"><a href="${candidate.url}" style="color: #007bff;">${candidate.name}</a></li>`)
+      .join('')
+    const expiry = expiryDate ? `<p>These links are valid until ${expiryDate.toDateString()}.</p>` : ''
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333; text-align: center;">Candidate Profiles Shared With You</h2>
+        <p>Hello,</p>
+        <p>${recruiterName} has shared the following candidate ${candidates.length === 1 ? 'profile' : 'profiles'} with you:</p>
+        <ul style="padding-left: 20px;">${links}</ul>
+        ${expiry}
+        <p>Each link can only be opened a limited number of times, so please do not forward it.</p>
+        <hr style="margin: 30px 0;">
+        <p style="color: #666; font-size: 12px; text-align: center;">
+          This is an automated email. Please do not reply to this email.
+        </p>
+      </div>
+    `
+
+    return this.sendEmail({
+      to: email,
+      subject: `${recruiterName} shared ${candidates.length === 1 ? 'a candidate' : `${candidates.length} candidates`} with you`,
+      html,
+      text: `${recruiterName} has shared candidate profiles with you:\n${candidates.map(candidate => `${candidate.name}: ${candidate.url}`).join('\n')}`,
+    })
+  }
+
+  static async sendInviteEmail(email: string, inviterName: string, role: string, url: string, expiresAt: Date): Promise<boolean> {
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333; text-align: center;">You're Invited</h2>
+        <p>Hello,</p>
+        <p>${inviterName} has invited you to join the recruitment platform as a <strong>${role}</strong>.</p>
+        <p>Choose a password to activate your account:</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${url}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px;">
+            Accept Invitation
+          </a>
+        </div>
+        <p>This link is valid until ${expiresAt.toDateString()} and can only be used once.</p>
+        <hr style="margin: 30px 0;">
+        <p style="color: #666; font-size: 12px; text-align: center;">
+          This is an automated email. Please do not reply to this email.
+        </p>
+      </div>
+    `
+
+    return this.sendEmail({
+      to: email,
+      subject: `${inviterName} invited you to the Recruitment Platform`,
+      html,
+      text: `${inviterName} has invited you to join the recruitment platform as a ${role}. Choose a password to activate your account: ${url}`,
+    })
+  }
+
+  static async sendPasswordResetEmail(email: string, url: string, expiresAt: Date, name?: string): Promise<boolean> {
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333; text-align: center;">Reset Your Password</h2>
+        <p>Hello ${name || 'User'},</p>
+        <p>A password reset was requested for your account. Choose a new password here:</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${url}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px;">
+            Reset Password
+          </a>
+        </div>
+        <p>This link is valid until ${expiresAt.toLocaleString()} and can only be used once.</p>
+        <p>If you didn't request this, you can ignore this email; your password will not change.</p>
+        <hr style="margin: 30px 0;">
+        <p style="color: #666; font-size: 12px; text-align: center;">
+          This is an automated email. Please do not reply to this email.
+        </p>
+      </div>
+    `
+
+    return this.sendEmail({
+      to: email,
+      subject: 'Reset your password - Recruitment Platform',
+      html,
+      text: `Reset your password here: ${url}. This link is valid until ${expiresAt.toLocaleString()}.`,
+    })
+  }
+
+  static async sendNotificationEmail(email: string, title: string, message: string, url?: string, name?: string): Promise<boolean> {
+    // Messages can quote names and reasons people typed in
+    const escape = (value: string) =>
+      value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333; text-align: center;">${escape(title)}</h2>
+        <p>Hello ${escape(name || 'User')},</p>
+        <p>${escape(message)}</p>
+        ${url ? `
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${url}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px;">
+            View Details
+          </a>
+        </div>` : ''}
+        <hr style="margin: 30px 0;">
+        <p style="color: #666; font-size: 12px; text-align: center;">
+          You can choose which notifications are emailed to you in your notification settings.
+        </p>
+      </div>
+    `
+
+    return this.sendEmail({
+      to: email,
+      subject: `${title} - Recruitment Platform`,
+      html,
+      text: url ? `${message}\n\n${url}` : message,
+    })
+  }
+
+  // Sent to the sales inbox; replying goes straight to the sender
+  static async sendContactInquiryEmail(
+    to: string,
+    inquiry: { name: string; email: string; company?: string | null; role?: string | null; inquiryType: string; message: string },
+    url: string
+  ): Promise<boolean> {
+    // Everything here was typed in on the public contact form
+    const escape = (value: string) =>
+      value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+    const from = [inquiry.name, inquiry.role, inquiry.company].filter(Boolean).join(', ')
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333; text-align: center;">New ${escape(inquiry.inquiryType.toLowerCase())} inquiry</h2>
+        <p><strong>From:</strong> ${escape(from)} &lt;${escape(inquiry.email)}&gt;</p>
+        <div style="background-color: #f4f4f4; padding: 20px; margin: 20px 0; white-space: pre-wrap;">${escape(inquiry.message)}</div>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${url}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px;">
+            View Inquiries
+          </a>
+        </div>
+        <hr style="margin: 30px 0;">
+        <p style="color: #666; font-size: 12px; text-align: center;">
+          Sent from the contact form. Reply to this email to answer the sender.
+        </p>
+      </div>
+    `
+
+    return this.sendEmail({
+      to,
+      subject: `Contact form: ${inquiry.inquiryType.toLowerCase()} inquiry from ${from}`,
+      html,
+      text: `${from} <${inquiry.email}> wrote:\n\n${inquiry.message}\n\n${url}`,
+      replyTo: inquiry.email,
+    })
+  }
 }
@@ -0,0 +1,354 @@
+import ExcelJS from 'exceljs'
+import { PassThrough, Readable } from 'stream'
+import { prisma } from '@/lib/prisma'
+import { CsvImport } from '@/lib/csv-import'
+import { Permissions } from '@/lib/permissions'
+import type { ListFilter } from '@/lib/list-filters'
+
+export type ExportEntity = 'candidates' | 'jobs' | 'clients' | 'vendors' | 'applications'
+export type ExportFormat = 'csv' | 'xlsx'
+
+type ExportValue = string | number | boolean | Date | null | undefined
+
+export interface ExportColumn<T = any> {
+  key: string
+  header: string
+  value: (row: T) => ExportValue
+  // Government IDs and the like; needs candidate:read-sensitive:any
+  sensitive?: boolean
+}
+
+interface ExportSource<T> {
+  label: string
+  columns: ExportColumn<T>[]
+  // Fields the rows may be ordered by, as sortBy
+  sortable: string[]
+  findMany(args: { where: any; orderBy: any[]; take: number; cursor?: { id: string }; skip?: number }): Promise<T[]>
+}
+
+export type ExportColumnsResult =
+  | { ok: true; columns: ExportColumn[] }
+  | { ok: false; status: 400 | 403; error: string }
+
+export type ExportSortResult =
+  | { ok: true }
+  | { ok: false; status: 400; error: string }
+
+// Rows are read this many at a time so large exports never sit in memory all at once
+const EXPORT_BATCH_SIZE = 500
+
+// Text starting with these is run as a formula by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+const PHONE_LIKE = /^[+-]?[\d\s()-]+$/
+
+const fullName = (person: { firstName: string | null; lastName: string | null } | null) =>
+  [person?.firstName, person?.lastName].filter(Boolean).join(' ')
+
+const candidateSource: ExportSource<any> = {
+  label: 'Candidates',
+  columns: [
+    { key: 'id', header: 'ID', value: c => c.id },
+    { key: 'firstName', header: 'First Name', value: c => c.firstName },
+    { key: 'lastName', header: 'Last Name', value: c => c.lastName },
+    { key: 'email', header: 'Email', value: c => c.email ?? c.user?.email },
+    { key: 'phone', header: 'Phone', value: c => c.phone ?? c.user?.phone },
+    { key: 'jobTitle', header: 'Job Title', value: c => c.jobTitle },
+    { key: 'experience', header: 'Experience (Years)', value: c => c.experience },
+    { key: 'skills', header: 'Skills', value: c => c.skills.join('; ') },
+    { key: 'location', header: 'Location', value: c => c.location },
+    { key: 'city', header: 'City', value: c => c.city },
+    { key: 'state', header: 'State', value: c => c.state },
+    { key: 'country', header: 'Country', value: c => c.country },
+    { key: 'availability', header: 'Availability', value: c => c.availability },
+    { key: 'currentSalary', header: 'Current Salary', value: c => c.currentSalary },
+    { key: 'expectedSalary', header: 'Expected Salary', value: c => c.expectedSalary },
+    { key: 'noticePeriod', header: 'Notice Period', value: c => c.noticePeriod },
+    { key: 'employerName', header: 'Current Employer', value: c => c.employerName },
+    { key: 'linkedin', header: 'LinkedIn', value: c => c.linkedin },
+    { key: 'applications', header: 'Applications', value: c => c._count.applications },
+    { key: 'aadhaar', header: 'Aadhaar', value: c => c.aadhaar, sensitive: true },
+    { key: 'pan', header: 'PAN', value: c => c.pan, sensitive: true },
+    { key: 'uan', header: 'UAN', value: c => c.uan, sensitive: true },
+    { key: 'createdAt', header: 'Created At', value: c => c.createdAt },
+  ],
+  sortable: [
+    'firstName', 'lastName', 'email', 'jobTitle', 'experience', 'city', 'state', 'country', 'availability',
+    'currentSalary', 'expectedSalary', 'createdAt', 'updatedAt',
+  ],
+  findMany: args => prisma.candidate.findMany({
+    ...args,
+    include: {
+      user: { select: { email: true, phone: true } },
+      _count: { select: { applications: true } },
+    },
+  }),
+}
+
+const jobSource: ExportSource<any> = {
+  label: 'Jobs',
+  columns: [
+    { key: 'id', header: 'ID', value: j => j.id },
+    { key: 'jobCode', header: 'Job Code', value: j => j.jobCode },
+    { key: 'jobTitle', header: 'Job Title', value: j => j.jobTitle },
+    { key: 'status', header: 'Status', value: j => j.status },
+    { key: 'priority', header: 'Priority', value: j => j.priority },
+    { key: 'jobType', header: 'Job Type', value: j => j.jobType },
+    { key: 'experienceLevel', header: 'Experience Level', value: j => j.experienceLevel },
+    { key: 'client', header: 'Client', value: j => j.client?.name },
+    { key: 'vendor', header: 'Vendor', value: j => j.vendor?.name },
+    { key: 'recruiter', header: 'Recruiter', value: j => j.recruiter?.user.name ?? j.recruiter?.user.email },
+    { key: 'city', header: 'City', value: j => j.city },
+    { key: 'state', header: 'State', value: j => j.state },
+    { key: 'country', header: 'Country', value: j => j.country },
+    { key: 'department', header: 'Department', value: j => j.department },
+    { key: 'experienceRequired', header: 'Experience Required', value: j => j.experienceRequired },
+    { key: 'salaryPerAnnum', header: 'Salary', value: j => j.salaryPerAnnum },
+    { key: 'minSalary', header: 'Min Salary', value: j => j.minSalary },
+    { key: 'maxSalary', header: 'Max Salary', value: j => j.maxSalary },
+    { key: 'salaryCurrency', header: 'Currency', value: j => j.salaryCurrency },
+    { key: 'keySkills', header: 'Key Skills', value: j => j.keySkills },
+    { key: 'applications', header: 'Applications', value: j => j._count.applications },
+    { key: 'createdAt', header: 'Created At', value: j => j.createdAt },
+  ],
+  sortable: [
+    'jobCode', 'jobTitle', 'status', 'priority', 'jobType', 'experienceLevel', 'city', 'state', 'country',
+    'minSalary', 'maxSalary', 'createdAt', 'updatedAt',
+  ],
+  findMany: args => prisma.job.findMany({
+    ...args,
+    include: {
+      client: { select: { name: true } },
+      vendor: { select: { name: true } },
+      recruiter: { select: { user: { select: { name: true, email: true } } } },
+      _count: { select: { applications: true } },
+    },
+  }),
+}
+
+const clientSource: ExportSource<any> = {
+  label: 'Clients',
+  columns: [
+    { key: 'id', header: 'ID', value: c => c.id },
+    { key: 'name', header: 'Name', value: c => c.name },
+    { key: 'contactPerson', header: 'Contact Person', value: c => c.contactPerson },
+    { key: 'email', header: 'Email', value: c => c.email },
+    { key: 'phone', header: 'Phone', value: c => c.phone },
+    { key: 'address', header: 'Address', value: c => c.address },
+    { key: 'website', header: 'Website', value: c => c.website },
+    { key: 'industry', header: 'Industry', value: c => c.industry },
+    { key: 'companySize', header: 'Company Size', value: c => c.companySize },
+    { key: 'status', header: 'Status', value: c => c.status },
+    { key: 'jobs', header: 'Jobs', value: c => c._count.jobs },
+    { key: 'notes', header: 'Notes', value: c => c.notes },
+    { key: 'createdAt', header: 'Created At', value: c => c.createdAt },
+  ],
+  sortable: ['name', 'contactPerson', 'email', 'industry', 'status', 'createdAt', 'updatedAt'],
+  findMany: args => prisma.client.findMany({ ...args, include: { _count: { select: { jobs: true } } } }),
+}
+
+const vendorSource: ExportSource<any> = {
+  label: 'Vendors',
+  columns: [
+    { key: 'id', header: 'ID', value: v => v.id },
+    { key: 'name', header: 'Name', value: v => v.name },
+    { key: 'contactPerson', header: 'Contact Person', value: v => v.contactPerson },
+    { key: 'email', header: 'Email', value: v => v.email },
+    { key: 'phone', header: 'Phone', value: v => v.phone },
+    { key: 'address', header: 'Address', value: v => v.address },
+    { key: 'specialization', header: 'Specialization', value: v => v.specialization.join('; ') },
+    { key: 'rating', header: 'Rating', value: v => v.rating },
+    { key: 'status', header: 'Status', value: v => v.status },
+    { key: 'jobs', header: 'Jobs', value: v => v._count.jobs },
+    { key: 'notes', header: 'Notes', value: v => v.notes },
+    { key: 'createdAt', header: 'Created At', value: v => v.createdAt },
+  ],
+  sortable: ['name', 'contactPerson', 'email', 'rating', 'status', 'createdAt', 'updatedAt'],
+  findMany: args => prisma.vendor.findMany({ ...args, include: { _count: { select: { jobs: true } } } }),
+}
+
+const applicationSource: ExportSource<any> = {
+  label: 'Applications',
+  columns: [
+    { key: 'id', header: 'ID', value: a => a.id },
+    { key: 'candidate', header: 'Candidate', value: a => fullName(a.candidate) },
+    { key: 'candidateEmail', header: 'Candidate Email', value: a => a.candidate.email ?? a.candidate.user?.email },
+    { key: 'candidatePhone', header: 'Candidate Phone', value: a => a.candidate.phone },
+    { key: 'jobCode', header: 'Job Code', value: a => a.job.jobCode },
+    { key: 'jobTitle', header: 'Job Title', value: a => a.job.jobTitle },
+    { key: 'client', header: 'Client', value: a => a.job.client?.name },
+    { key: 'status', header: 'Status', value: a => a.status },
+    { key: 'currentStage', header: 'Stage', value: a => a.currentStage },
+    { key: 'interviews', header: 'Interviews', value: a => a._count.interviews },
+    { key: 'appliedAt', header: 'Applied At', value: a => a.appliedAt },
+    { key: 'updatedAt', header: 'Updated At', value: a => a.updatedAt },
+  ],
+  sortable: ['status', 'currentStage', 'appliedAt', 'createdAt', 'updatedAt'],
+  findMany: args => prisma.jobApplication.findMany({
+    ...args,
+    include: {
+      candidate: {
+        select: { firstName: true, lastName: true, email: true, phone: true, user: { select: { email: true } } },
+      },
+      job: { select: { jobCode: true, jobTitle: true, client: { select: { name: true } } } },
+      _count: { select: { interviews: true } },
+    },
+  }),
+}
+
+const EXPORT_SOURCES: Record<ExportEntity, ExportSource<any>> = {
+  candidates: candidateSource,
+  jobs: jobSource,
+  clients: clientSource,
+  vendors: vendorSource,
+  applications: applicationSource,
+}
+
+export class ExportUtils {
+  // Requested columns in the order asked for, or every column the caller may see
+  static columns(entity: ExportEntity, role: string, requested?: string[]): ExportColumnsResult {
+    const available = EXPORT_SOURCES[entity].columns
+    const allowed = (column: ExportColumn) => !column.sensitive || Permissions.has(role, 'candidate:read-sensitive:any')
+
+    if (!requested || requested.length === 0) {
+      return { ok: true, columns: available.filter(allowed) }
+    }
+
+    const byKey = new Map(available.map(column => [column.key, column]))
+    const unknown = requested.filter(key => !byKey.has(key))
+    if (unknown.length > 0) {
+      return {
+        ok: false,
+        status: 400,
+        error: `Unknown columns: ${unknown.join(', ')}. Available: ${available.filter(allowed).map(column => column.key).join(', ')}`,
+      }
+    }
+
+    const columns = Array.from(new Set(requested)).map(key => byKey.get(key)!)
+    const restricted = columns.filter(column => !allowed(column))
+    if (restricted.length > 0) {
+      return { ok: false, status: 403, error: `You are not allowed to export ${restricted.map(column => column.key).join(', ')}` }
+    }
+
+    return { ok: true, columns }
+  }
+
+  // Checked before the download starts; an unknown field would only fail once the response is under way
+  static checkSort(entity: ExportEntity, sortBy?: string): ExportSortResult {
+    const sortable = EXPORT_SOURCES[entity].sortable
+    if (!sortBy || sortable.includes(sortBy)) return { ok: true }
+    return { ok: false, status: 400, error: `Cannot sort by ${sortBy}. Available: ${sortable.join(', ')}` }
+  }
+
+  static contentType(format: ExportFormat): string {
+    return format === 'xlsx'
+      ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      : 'text/csv; charset=utf-8'
+  }
+
+  static fileName(entity: ExportEntity, format: ExportFormat): string {
+    return `${entity}-${new Date().toISOString().split('T')[0]}.${format}`
+  }
+
+  // The file is written while rows are still being read, batch by batch
+  static stream(entity: ExportEntity, format: ExportFormat, filter: ListFilter, columns: ExportColumn[]): ReadableStream<Uint8Array> {
+    const rows = this.rows(EXPORT_SOURCES[entity], filter)
+    return format === 'xlsx'
+      ? this.xlsxStream(EXPORT_SOURCES[entity].label, rows, columns)
+      : this.csvStream(rows, columns)
+  }
+
+  // Cursor through the list in the list's own order; id breaks ties so no row is read twice
+  private static async *rows(source: ExportSource<any>, filter: ListFilter): AsyncGenerator<any> {
+    if (filter.empty) return
+
+    const orderBy = [filter.orderBy, { id: 'asc' }]
+    let cursor: string | undefined
+    while (true) {
+      const batch = await source.findMany({
+        where: filter.where,
+        orderBy,
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      })
+      yield* batch
+      if (batch.length < EXPORT_BATCH_SIZE) return
+      cursor = batch[batch.length - 1].id
+    }
+  }
+
+  private static csvCell(value: ExportValue): string {
+    if (value === null || value === undefined) return ''
+    if (value instanceof Date) return value.toISOString()
+    const text = String(value)
+    if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !PHONE_LIKE.test(text)) {
+      return CsvImport.escape(`'${text}`)
+    }
+    return CsvImport.escape(text)
+  }
+
+  private static csvStream(rows: AsyncGenerator<any>, columns: ExportColumn[]): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder()
+    let started = false
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          if (!started) {
+            started = true
+            // The BOM makes Excel read the file as UTF-8
+            controller.enqueue(encoder.encode('\uFEFF' + columns.map(column => CsvImport.escape(column.header)).join(',') + '\r\n'))
+            return
+          }
+
+          const next = await rows.next()
+          if (next.done) {
+            controller.close()
+            return
+          }
+          const line = columns.map(column => ExportUtils.csvCell(column.value(next.value))).join(',')
+          controller.enqueue(encoder.encode(line + '\r\n'))
+        } catch (error) {
+          console.error('CSV export error:', error)
+          controller.error(error)
+        }
+      },
+      async cancel() {
+        await rows.return(undefined)
+      },
+    })
+  }
+
+  private static xlsxStream(label: string, rows: AsyncGenerator<any>, columns: ExportColumn[]): ReadableStream<Uint8Array> {
+    const output = new PassThrough()
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false })
+    const sheet = workbook.addWorksheet(label)
+    sheet.columns = columns.map(column => ({ header: column.header, key: column.key, width: 20 }))
+
+    // Waits while the download is behind, so rows are only read as fast as they are sent
+    const drained = () => new Promise<void>(resolve => {
+      const done = () => {
+        output.off('drain', done)
+        output.off('close', done)
+        resolve()
+      }
+      output.on('drain', done)
+      output.on('close', done)
+    })
+
+    const write = async () => {
+      for await (const row of rows) {
+        if (output.destroyed) return
+        sheet.addRow(columns.map(column => column.value(row) ?? null)).commit()
+        if (output.writableNeedDrain) await drained()
+      }
+      sheet.commit()
+      await workbook.commit()
+    }
+    write().catch(error => {
+      console.error('XLSX export error:', error)
+      output.destroy(error)
+    })
+
+    return Readable.toWeb(output) as ReadableStream<Uint8Array>
+  }
+}
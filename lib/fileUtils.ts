@@ -1,7 +1,9 @@
+import crypto from 'crypto'
 import fs from 'fs'
 import path from 'path'
-import { writeFile, mkdir } from 'fs/promises'
+import { readFile, writeFile, mkdir } from 'fs/promises'
 import { createWorker } from 'tesseract.js'
+import { ResumeText } from '@/lib/resume-text'
 
 export class FileUtils {
   static async ensureUploadDir(): Promise<string> {
@@ -27,7 +29,7 @@ export class FileUtils {
   static async saveFile(
     file: File,
     subDir: string = 'documents'
-  ): Promise<{ fileName: string; filePath: string; fileSize: number }> {
+  ): Promise<{ fileName: string; filePath: string; fileSize: number; checksum: string }> {
     const uploadDir = await this.ensureUploadDir()
     const targetDir = path.join(uploadDir, subDir)
     
@@ -41,9 +43,14 @@ export class FileUtils {
       fileName,
       filePath: path.relative(process.cwd(), filePath),
       fileSize: buffer.length,
+      checksum: this.checksum(buffer),
     }
   }
 
+  static checksum(buffer: Buffer): string {
+    return crypto.createHash('sha256').update(buffer).digest('hex')
+  }
+
   static deleteFile(filePath: string): boolean {
     try {
       const fullPath = path.join(process.cwd(), filePath)
@@ -88,9 +95,12 @@ export class FileUtils {
   }
 
   static async extractTextFromPDF(pdfPath: string): Promise<string> {
-    // This would require a PDF parsing library like pdf-parse
-    // For now, return empty string as fallback
-    return ''
+    try {
+      return await ResumeText.extractPdfText(await readFile(pdfPath))
+    } catch (error) {
+      console.error('PDF text extraction failed:', error)
+      return ''
+    }
   }
 
   static async extractTextFromFile(filePath: string, mimeType: string): Promise<string> {
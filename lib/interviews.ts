@@ -0,0 +1,115 @@
+import { prisma } from '@/lib/prisma'
+
+// Interviews in these states still occupy a slot on the calendar
+export const ACTIVE_INTERVIEW_STATUSES = ['SCHEDULED', 'IN_PROGRESS', 'RESCHEDULED'] as const
+
+// Upper bound used to narrow the overlap query (no interview runs longer than a day)
+const MAX_INTERVIEW_DURATION_MINUTES = 24 * 60
+
+// Relations returned with every interview by the /api/interviews routes
+export const interviewInclude = {
+  job: {
+    select: {
+      id: true,
+      jobCode: true,
+      jobTitle: true,
+      client: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+  candidate: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+    },
+  },
+  recruiter: {
+    select: {
+      id: true,
+      user: {
+        select: {
+          name: true,
+          email: true,
+        },
+      },
+    },
+  },
+  application: {
+    select: {
+      id: true,
+      status: true,
+      currentStage: true,
+    },
+  },
+} as const
+
+export interface InterviewSlot {
+  scheduledAt: Date
+  duration: number
+}
+
+export interface InterviewConflict {
+  id: string
+  title: string
+  scheduledAt: Date
+  duration: number
+  conflictsWith: 'recruiter' | 'candidate'
+}
+
+export class InterviewUtils {
+  static getEndTime(slot: InterviewSlot): Date {
+    return new Date(slot.scheduledAt.getTime() + slot.duration * 60 * 1000)
+  }
+
+  static overlaps(a: InterviewSlot, b: InterviewSlot): boolean {
+    return a.scheduledAt < this.getEndTime(b) && b.scheduledAt < this.getEndTime(a)
+  }
+
+  // Find active interviews for the recruiter or candidate that overlap the given slot
+  static async findConflicts(
+    slot: InterviewSlot,
+    participants: { recruiterId: string; candidateId: string },
+    excludeInterviewId?: string
+  ): Promise<InterviewConflict[]> {
+    const windowStart = new Date(slot.scheduledAt.getTime() - MAX_INTERVIEW_DURATION_MINUTES * 60 * 1000)
+
+    const candidates = await prisma.interview.findMany({
+      where: {
+        status: { in: [...ACTIVE_INTERVIEW_STATUSES] },
+        scheduledAt: {
+          gte: windowStart,
+          lt: this.getEndTime(slot),
+        },
+        OR: [
+          { recruiterId: participants.recruiterId },
+          { candidateId: participants.candidateId },
+        ],
+        ...(excludeInterviewId ? { id: { not: excludeInterviewId } } : {}),
+      },
+      select: {
+        id: true,
+        title: true,
+        scheduledAt: true,
+        duration: true,
+        recruiterId: true,
+        candidateId: true,
+      },
+    })
+
+    return candidates
+      .filter(interview => this.overlaps(slot, interview))
+      .map(interview => ({
+        id: interview.id,
+        title: interview.title,
+        scheduledAt: interview.scheduledAt,
+        duration: interview.duration,
+        conflictsWith: interview.recruiterId === participants.recruiterId ? 'recruiter' : 'candidate',
+      }))
+  }
+}
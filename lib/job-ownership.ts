@@ -0,0 +1,30 @@
+import { prisma } from '@/lib/prisma'
+
+export interface JobReferences {
+  recruiterId?: string | null
+  clientId?: string | null
+  vendorId?: string | null
+}
+
+const isObjectId = (id: string) => /^[0-9a-fA-F]{24}$/.test(id)
+
+export class JobOwnershipUtils {
+  // Make sure the recruiter, client and vendor a job points at actually exist
+  static async validateReferences(references: JobReferences): Promise<string | null> {
+    // Malformed ids come from the request body; the database would reject them with an error
+    if (references.recruiterId && !isObjectId(references.recruiterId)) return 'Invalid recruiter ID'
+    if (references.clientId && !isObjectId(references.clientId)) return 'Invalid client ID'
+    if (references.vendorId && !isObjectId(references.vendorId)) return 'Invalid vendor ID'
+
+    const [recruiter, client, vendor] = await Promise.all([
+      references.recruiterId ? prisma.recruiter.findUnique({ where: { id: references.recruiterId }, select: { id: true } }) : null,
+      references.clientId ? prisma.client.findUnique({ where: { id: references.clientId }, select: { id: true } }) : null,
+      references.vendorId ? prisma.vendor.findUnique({ where: { id: references.vendorId }, select: { id: true } }) : null,
+    ])
+
+    if (references.recruiterId && !recruiter) return 'Recruiter not found'
+    if (references.clientId && !client) return 'Client not found'
+    if (references.vendorId && !vendor) return 'Vendor not found'
+    return null
+  }
+}
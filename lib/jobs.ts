@@ -0,0 +1,134 @@
+import type { Job, JobStatus, SalaryPeriod } from '@prisma/client'
+import type { JWTPayload } from '@/lib/auth'
+import { RangeParser } from '@/lib/ranges'
+
+// Job lifecycle: drafts get published, open jobs can be paused, closed or filled,
+// and paused or closed jobs can be reopened. FILLED is terminal.
+export const JOB_STATUS_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  DRAFT: ['OPEN', 'CLOSED'],
+  OPEN: ['ON_HOLD', 'CLOSED', 'FILLED'],
+  ON_HOLD: ['OPEN', 'CLOSED'],
+  CLOSED: ['OPEN'],
+  FILLED: [],
+}
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  DRAFT: 'Draft',
+  OPEN: 'Open',
+  ON_HOLD: 'On Hold',
+  CLOSED: 'Closed',
+  FILLED: 'Filled',
+}
+
+export interface JobRangeInput {
+  salaryPerAnnum?: string
+  experienceRequired?: string
+  minSalary?: number
+  maxSalary?: number
+  salaryCurrency?: string
+  salaryPeriod?: SalaryPeriod
+  minExperience?: number
+  maxExperience?: number
+}
+
+// The stored bounds an update is merged with
+export type JobRanges = Pick<Job, 'minSalary' | 'maxSalary' | 'minExperience' | 'maxExperience'>
+
+export type JobAssignmentEntry = {
+  from: string | null // Recruiter profile ids
+  to: string
+  actor: {
+    userId: string
+    role: string
+  }
+  reason?: string
+  timestamp: string
+}
+
+export class JobUtils {
+  static canTransition(from: JobStatus, to: JobStatus): boolean {
+    return JOB_STATUS_TRANSITIONS[from].includes(to)
+  }
+
+  static isAcceptingApplications(status: JobStatus): boolean {
+    return status === 'OPEN'
+  }
+
+  // Work out the structured salary/experience fields for a job create or update.
+  // Explicit numbers win; otherwise they are parsed from the free-text fields. For an update pass
+  // the stored job: only the bounds that were sent change, and min/max are checked on the result.
+  static resolveRanges(input: JobRangeInput, existing?: JobRanges | null): { data: Record<string, unknown> } | { error: string } {
+    const data: Record<string, unknown> = {}
+    const setIfDefined = (field: string, value: unknown) => {
+      if (value !== undefined) data[field] = value
+    }
+    // New jobs fall back to rupees per year; updates keep what is stored
+    const defaultCurrency = existing ? undefined : 'INR'
+    const defaultPeriod = existing ? undefined : 'ANNUAL'
+
+    if (input.minSalary !== undefined || input.maxSalary !== undefined) {
+      if (existing) {
+        setIfDefined('minSalary', input.minSalary)
+        setIfDefined('maxSalary', input.maxSalary)
+      } else {
+        data.minSalary = input.minSalary ?? null
+        data.maxSalary = input.maxSalary ?? null
+      }
+      setIfDefined('salaryCurrency', input.salaryCurrency ?? defaultCurrency)
+      setIfDefined('salaryPeriod', input.salaryPeriod ?? defaultPeriod)
+    } else if (input.salaryPerAnnum !== undefined) {
+      // The text describes the whole range, so it replaces both bounds
+      const salary = RangeParser.parseSalary(input.salaryPerAnnum)
+      data.minSalary = salary?.min ?? null
+      data.maxSalary = salary?.max ?? null
+      setIfDefined('salaryCurrency', input.salaryCurrency ?? salary?.currency ?? defaultCurrency)
+      setIfDefined('salaryPeriod', input.salaryPeriod ?? salary?.period ?? defaultPeriod)
+    } else {
+      if (input.salaryCurrency) data.salaryCurrency = input.salaryCurrency
+      if (input.salaryPeriod) data.salaryPeriod = input.salaryPeriod
+    }
+
+    if (input.minExperience !== undefined || input.maxExperience !== undefined) {
+      if (existing) {
+        setIfDefined('minExperience', input.minExperience)
+        setIfDefined('maxExperience', input.maxExperience)
+      } else {
+        data.minExperience = input.minExperience ?? null
+        data.maxExperience = input.maxExperience ?? null
+      }
+    } else if (input.experienceRequired !== undefined) {
+      const experience = RangeParser.parseExperience(input.experienceRequired)
+      data.minExperience = experience?.min ?? null
+      data.maxExperience = experience?.max ?? null
+    }
+
+    const merged = (field: keyof JobRanges) => (field in data ? data[field] : existing?.[field] ?? null)
+    const minSalary = merged('minSalary')
+    const maxSalary = merged('maxSalary')
+    const minExperience = merged('minExperience')
+    const maxExperience = merged('maxExperience')
+
+    if (typeof minSalary === 'number' && typeof maxSalary === 'number' && minSalary > maxSalary) {
+      return { error: 'Minimum salary cannot be greater than maximum salary' }
+    }
+    if (typeof minExperience === 'number' && typeof maxExperience === 'number' && minExperience > maxExperience) {
+      return { error: 'Minimum experience cannot be greater than maximum experience' }
+    }
+
+    return { data }
+  }
+
+  static createAssignmentEntry(from: string | null, to: string, actor: JWTPayload, reason?: string): JobAssignmentEntry {
+    return {
+      from,
+      to,
+      actor: { userId: actor.userId, role: actor.role },
+      ...(reason ? { reason } : {}),
+      timestamp: new Date().toISOString(),
+    }
+  }
+
+  static parseAssignmentHistory(value: unknown): JobAssignmentEntry[] {
+    return Array.isArray(value) ? (value as JobAssignmentEntry[]) : []
+  }
+}
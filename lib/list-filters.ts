@@ -0,0 +1,293 @@
+import type { JWTPayload } from '@/lib/auth'
+import { Permissions } from '@/lib/permissions'
+import { prisma } from '@/lib/prisma'
+import { RecruiterUtils } from '@/lib/recruiters'
+import { CandidateSearch, CandidateSearchInput } from '@/lib/candidate-search'
+import { LAKH_THRESHOLD } from '@/lib/matching'
+import { candidateFiltersSchema, jobFiltersSchema, listQuerySchema } from '@/lib/validations'
+
+// Prisma query for one list page. empty means the viewer can see nothing at all, e.g. a
+// recruiter without a profile, so callers can answer without querying.
+export interface ListFilter {
+  page: number
+  limit: number
+  where: any
+  orderBy: any
+  empty: boolean
+}
+
+// search is the full-text part of a candidate query, run by CandidateSearch on top of where
+export interface CandidateListFilter extends ListFilter {
+  search: CandidateSearchInput | null
+}
+
+type QueryParams = Record<string, string>
+
+// Open-ended job ranges ("5+ years", "up to 6 LPA") store null for the missing bound
+function rangeOverlapFilter(minField: string, maxField: string, from?: number, to?: number) {
+  const conditions: any[] = []
+  if (from !== undefined) {
+    conditions.push({
+      OR: [
+        { [maxField]: { gte: from } },
+        { [maxField]: null, [minField]: { not: null } },
+      ],
+    })
+  }
+  if (to !== undefined) {
+    conditions.push({
+      OR: [
+        { [minField]: { lte: to } },
+        { [minField]: null, [maxField]: { not: null } },
+      ],
+    })
+  }
+  return conditions
+}
+
+// Bounds are annual rupees, but expected salaries may be saved in lakhs ("12") or rupees ("1200000")
+function expectedSalaryFilter(from?: number, to?: number) {
+  const inLakhs: any = { lt: LAKH_THRESHOLD }
+  const inRupees: any = { gte: Math.max(LAKH_THRESHOLD, from ?? 0) }
+  if (from !== undefined) inLakhs.gte = from / 100000
+  if (to !== undefined) {
+    inLakhs.lte = to / 100000
+    inRupees.lte = to
+  }
+  return { OR: [{ expectedSalary: inLakhs }, { expectedSalary: inRupees }] }
+}
+
+function buildOrderBy(sortBy: string | undefined, sortOrder: 'asc' | 'desc', defaultField: string, defaultOrder: 'asc' | 'desc') {
+  const orderBy: any = {}
+  if (sortBy) {
+    orderBy[sortBy] = sortOrder
+  } else {
+    orderBy[defaultField] = defaultOrder
+  }
+  return orderBy
+}
+
+// Shared by the list routes and their exports so both return the same rows for the same query
+export class ListFilters {
+  static candidates(queryParams: QueryParams): CandidateListFilter {
+    const { page, limit, sortBy, sortOrder, query, filters } = listQuerySchema.parse(queryParams)
+
+    const where: any = {}
+
+    // Add filters
+    const candidateFilters = candidateFiltersSchema.parse({ ...queryParams, ...filters })
+    if (candidateFilters.availability) {
+      where.availability = candidateFilters.availability
+    }
+    if (candidateFilters.location) {
+      const location = { contains: candidateFilters.location, mode: 'insensitive' }
+      where.OR = [{ location }, { city: location }, { state: location }, { country: location }]
+    }
+    if (candidateFilters.jobTitle) {
+      where.jobTitle = { contains: candidateFilters.jobTitle, mode: 'insensitive' }
+    }
+    if (candidateFilters.minExperience !== undefined) {
+      where.experience = { gte: candidateFilters.minExperience }
+    }
+    if (candidateFilters.maxExperience !== undefined) {
+      where.experience = { ...where.experience, lte: candidateFilters.maxExperience }
+    }
+    if (candidateFilters.minExpectedSalary !== undefined || candidateFilters.maxExpectedSalary !== undefined) {
+      where.AND = [expectedSalaryFilter(candidateFilters.minExpectedSalary, candidateFilters.maxExpectedSalary)]
+    }
+    if (candidateFilters.maxNoticePeriodDays !== undefined) {
+      where.noticePeriodDays = { lte: candidateFilters.maxNoticePeriodDays }
+    }
+    if (candidateFilters.relocate !== undefined) {
+      where.relocate = { equals: candidateFilters.relocate ? 'yes' : 'no', mode: 'insensitive' }
+    }
+
+    // The query and skills are full-text; results are then ranked by relevance instead of orderBy
+    const search = CandidateSearch.parse(query, candidateFilters.skills)
+
+    return { page, limit, where, orderBy: buildOrderBy(sortBy, sortOrder, 'createdAt', 'desc'), empty: false, search }
+  }
+
+  // Drafts, paused and closed jobs are only visible to users who can edit jobs
+  static async jobs(queryParams: QueryParams, viewer: JWTPayload): Promise<ListFilter> {
+    const { page, limit, sortBy, sortOrder, query, filters } = listQuerySchema.parse(queryParams)
+    const jobFilters = jobFiltersSchema.parse({ ...queryParams, ...filters })
+    const isStaff = Permissions.scope(viewer.role, 'job:update') !== null
+    const orderBy = buildOrderBy(sortBy, sortOrder, 'createdAt', 'desc')
+
+    const where: any = {}
+
+    // Add search functionality
+    if (query) {
+      // Split query into words, ignore empty strings
+      const words = query.split(/\s|,+/).map(w => w.trim()).filter(Boolean)
+      where.AND = words.map(word => ({
+        OR: [
+          { jobTitle: { contains: word, mode: 'insensitive' } },
+          { jobCode: { contains: word, mode: 'insensitive' } },
+          { city: { contains: word, mode: 'insensitive' } },
+          { state: { contains: word, mode: 'insensitive' } },
+          { country: { contains: word, mode: 'insensitive' } },
+          { client: { name: { contains: word, mode: 'insensitive' } } },
+        ]
+      }))
+    }
+
+    // Add filters
+    if (jobFilters.status) {
+      where.status = jobFilters.status
+    }
+    if (jobFilters.priority) {
+      where.priority = jobFilters.priority
+    }
+    if (jobFilters.jobType) {
+      where.jobType = jobFilters.jobType
+    }
+    if (jobFilters.experienceLevel) {
+      where.experienceLevel = jobFilters.experienceLevel
+    }
+    if (jobFilters.clientId) {
+      where.clientId = jobFilters.clientId
+    }
+    if (jobFilters.recruiterId === 'me') {
+      // "My jobs" for the signed-in recruiter
+      const recruiterId = viewer.role === 'RECRUITER' ? await RecruiterUtils.getRecruiterId(viewer.userId) : null
+      if (!recruiterId) {
+        return { page, limit, where, orderBy, empty: true }
+      }
+      where.recruiterId = recruiterId
+    } else if (jobFilters.recruiterId) {
+      where.recruiterId = jobFilters.recruiterId
+    }
+
+    // Range filters match jobs whose salary/experience range overlaps the requested one
+    const rangeFilters = [
+      ...rangeOverlapFilter('minSalary', 'maxSalary', jobFilters.minSalary, jobFilters.maxSalary),
+      ...rangeOverlapFilter('minExperience', 'maxExperience', jobFilters.minExperience, jobFilters.maxExperience),
+    ]
+    if (rangeFilters.length > 0) {
+      where.AND = [...(where.AND ?? []), ...rangeFilters]
+    }
+
+    if (!isStaff) {
+      where.status = 'OPEN'
+    }
+
+    return { page, limit, where, orderBy, empty: false }
+  }
+
+  static clients(queryParams: QueryParams): ListFilter {
+    const { page, limit, sortBy, sortOrder, query, filters } = listQuerySchema.parse(queryParams)
+
+    const where: any = {}
+
+    // Add search functionality
+    if (query) {
+      where.OR = [
+        { name: { contains: query, mode: 'insensitive' } },
+        { contactPerson: { contains: query, mode: 'insensitive' } },
+        { email: { contains: query, mode: 'insensitive' } },
+        { industry: { contains: query, mode: 'insensitive' } },
+      ]
+    }
+
+    // Add filters
+    if (filters) {
+      if (filters.status) {
+        where.status = filters.status
+      }
+      if (filters.industry) {
+        where.industry = { contains: filters.industry, mode: 'insensitive' }
+      }
+    }
+
+    return { page, limit, where, orderBy: buildOrderBy(sortBy, sortOrder, 'name', 'asc'), empty: false }
+  }
+
+  static vendors(queryParams: QueryParams): ListFilter {
+    const { page, limit, sortBy, sortOrder, query, filters } = listQuerySchema.parse(queryParams)
+
+    const where: any = {}
+
+    // Add search functionality
+    if (query) {
+      where.OR = [
+        { name: { contains: query, mode: 'insensitive' } },
+        { contactPerson: { contains: query, mode: 'insensitive' } },
+        { email: { contains: query, mode: 'insensitive' } },
+      ]
+    }
+
+    // Add filters
+    if (filters) {
+      if (filters.status) {
+        where.status = filters.status
+      }
+      if (filters.specialization) {
+        where.specialization = { has: filters.specialization }
+      }
+      if (filters.minRating) {
+        where.rating = { gte: parseFloat(filters.minRating) }
+      }
+    }
+
+    return { page, limit, where, orderBy: buildOrderBy(sortBy, sortOrder, 'name', 'asc'), empty: false }
+  }
+
+  // Candidates see their own applications, recruiters those for their jobs, admins all of them
+  static async applications(queryParams: QueryParams, user: JWTPayload): Promise<ListFilter> {
+    const { page, limit, sortBy, sortOrder, query, filters } = listQuerySchema.parse(queryParams)
+    const orderBy = buildOrderBy(sortBy, sortOrder, 'appliedAt', 'desc')
+
+    const where: any = {}
+
+    // Role-based filtering
+    if (user.role === 'CANDIDATE') {
+      const candidate = await prisma.candidate.findUnique({
+        where: { userId: user.userId },
+      })
+      if (!candidate) {
+        return { page, limit, where, orderBy, empty: true }
+      }
+      where.candidateId = candidate.id
+    } else if (user.role === 'RECRUITER') {
+      const recruiterId = await RecruiterUtils.getRecruiterId(user.userId)
+      if (!recruiterId) {
+        return { page, limit, where, orderBy, empty: true }
+      }
+      where.job = {
+        recruiterId,
+      }
+    }
+
+    // Add search functionality
+    if (query) {
+      where.OR = [
+        { job: { jobTitle: { contains: query, mode: 'insensitive' } } },
+        { job: { jobCode: { contains: query, mode: 'insensitive' } } },
+        { candidate: { firstName: { contains: query, mode: 'insensitive' } } },
+        { candidate: { lastName: { contains: query, mode: 'insensitive' } } },
+      ]
+    }
+
+    // Add filters. They narrow an "own" caller's scope but never replace it: a candidate's own
+    // candidateId is kept, and a recruiter's jobId stays limited to their jobs through where.job.
+    if (filters) {
+      const ownScope = Permissions.scope(user.role, 'application:read') === 'own'
+      if (filters.status) {
+        where.status = filters.status
+      }
+      if (filters.currentStage) {
+        where.currentStage = filters.currentStage
+      }
+      if (filters.jobId) {
+        where.jobId = filters.jobId
+      }
+      if (filters.candidateId && !(ownScope && where.candidateId)) {
+        where.candidateId = filters.candidateId
+      }
+    }
+
+    return { page, limit, where, orderBy, empty: false }
+  }
+}
@@ -0,0 +1,262 @@
+import type { Candidate, Job, SalaryPeriod } from '@prisma/client'
+import { RangeParser } from '@/lib/ranges'
+
+export type MatchFactor = 'skills' | 'experience' | 'location' | 'salary'
+
+// Relative importance of each factor. Factors the job does not specify are left
+// out and the remaining weights are scaled back up to 100.
+export const MATCH_WEIGHTS: Record<MatchFactor, number> = {
+  skills: 50,
+  experience: 20,
+  location: 15,
+  salary: 15,
+}
+
+// Score used when the candidate has not filled in the field a factor needs
+const UNKNOWN_SCORE = 0.5
+
+// Key skills drive the skills factor; additional skills only add on top
+const KEY_SKILL_SHARE = 0.8
+
+// Expected salaries below this are assumed to be entered in lakhs (e.g. "12" for 12 LPA)
+export const LAKH_THRESHOLD = 1000
+
+export interface FactorScore {
+  factor: MatchFactor
+  weight: number
+  score: number
+  applicable: boolean
+  detail: string
+  matched?: string[]
+  missing?: string[]
+}
+
+export interface MatchResult {
+  score: number
+  breakdown: FactorScore[]
+}
+
+export type MatchCandidate = Pick<
+  Candidate,
+  'skills' | 'selectedSkills' | 'experience' | 'expectedSalary' | 'city' | 'state' | 'country' | 'location' | 'relocate'
+>
+
+export type MatchJob = Pick<
+  Job,
+  'keySkills' | 'additionalSkills' | 'experienceRequired' | 'minExperience' | 'maxExperience'
+  | 'salaryPerAnnum' | 'minSalary' | 'maxSalary' | 'salaryPeriod' | 'city' | 'state' | 'country'
+>
+
+export class MatchScorer {
+  static score(candidate: MatchCandidate, job: MatchJob): MatchResult {
+    const breakdown = [
+      this.scoreSkills(candidate, job),
+      this.scoreExperience(candidate, job),
+      this.scoreLocation(candidate, job),
+      this.scoreSalary(candidate, job),
+    ]
+
+    const applicable = breakdown.filter(factor => factor.applicable)
+    const totalWeight = applicable.reduce((sum, factor) => sum + factor.weight, 0)
+    const weighted = applicable.reduce((sum, factor) => sum + factor.weight * factor.score, 0)
+
+    return {
+      score: totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : 0,
+      breakdown: breakdown.map(factor => ({ ...factor, score: Math.round(factor.score * 100) / 100 })),
+    }
+  }
+
+  static scoreSkills(candidate: MatchCandidate, job: MatchJob): FactorScore {
+    const keySkills = this.splitSkills(job.keySkills)
+    const additionalSkills = this.splitSkills(job.additionalSkills)
+    const base = { factor: 'skills' as const, weight: MATCH_WEIGHTS.skills }
+
+    if (keySkills.length === 0 && additionalSkills.length === 0) {
+      return { ...base, score: 0, applicable: false, detail: 'Job does not list any skills' }
+    }
+
+    const candidateSkills = new Set(
+      [...(candidate.skills ?? []), ...(candidate.selectedSkills ?? [])].map(skill => this.normalizeSkill(skill))
+    )
+    const has = (skill: string) => candidateSkills.has(this.normalizeSkill(skill))
+
+    const keyMatched = keySkills.filter(has)
+    const additionalMatched = additionalSkills.filter(has)
+    const keyRatio = keySkills.length > 0 ? keyMatched.length / keySkills.length : null
+    const additionalRatio = additionalSkills.length > 0 ? additionalMatched.length / additionalSkills.length : null
+
+    let score: number
+    if (keyRatio !== null && additionalRatio !== null) {
+      score = KEY_SKILL_SHARE * keyRatio + (1 - KEY_SKILL_SHARE) * additionalRatio
+    } else {
+      score = keyRatio ?? additionalRatio ?? 0
+    }
+
+    const detail = keySkills.length > 0
+      ? `Matches ${keyMatched.length} of ${keySkills.length} key skills`
+        + (additionalSkills.length > 0 ? ` and ${additionalMatched.length} of ${additionalSkills.length} additional skills` : '')
+      : `Matches ${additionalMatched.length} of ${additionalSkills.length} additional skills`
+
+    return {
+      ...base,
+      score,
+      applicable: true,
+      detail,
+      matched: [...keyMatched, ...additionalMatched],
+      missing: keySkills.filter(skill => !has(skill)),
+    }
+  }
+
+  static scoreExperience(candidate: MatchCandidate, job: MatchJob): FactorScore {
+    const base = { factor: 'experience' as const, weight: MATCH_WEIGHTS.experience }
+    const range = job.minExperience !== null || job.maxExperience !== null
+      ? { min: job.minExperience, max: job.maxExperience }
+      : RangeParser.parseExperience(job.experienceRequired)
+
+    if (!range || (range.min === null && range.max === null)) {
+      return { ...base, score: 0, applicable: false, detail: 'Job does not specify experience' }
+    }
+
+    const required = this.describeRange(range.min, range.max, 'years')
+    if (candidate.experience === null || candidate.experience === undefined) {
+      return { ...base, score: UNKNOWN_SCORE, applicable: true, detail: `Candidate experience not provided (job needs ${required})` }
+    }
+
+    const years = candidate.experience
+    let score = 1
+    if (range.min !== null && years < range.min) {
+      score = Math.max(0, 1 - (range.min - years) / Math.max(range.min, 1))
+    } else if (range.max !== null && years > range.max) {
+      // Over-qualified candidates are still a reasonable fit, so the penalty is gentle
+      score = Math.max(0.5, 1 - 0.1 * (years - range.max))
+    }
+
+    return { ...base, score, applicable: true, detail: `${years} years against ${required}` }
+  }
+
+  static scoreLocation(candidate: MatchCandidate, job: MatchJob): FactorScore {
+    const base = { factor: 'location' as const, weight: MATCH_WEIGHTS.location }
+    const jobCity = this.normalizeText(job.city)
+    const jobState = this.normalizeText(job.state)
+    const jobCountry = this.normalizeText(job.country)
+
+    if (!jobCity && !jobState && !jobCountry) {
+      return { ...base, score: 0, applicable: false, detail: 'Job does not specify a location' }
+    }
+
+    const jobLocation = [job.city, job.state, job.country].filter(Boolean).join(', ')
+    const willRelocate = this.willRelocate(candidate.relocate)
+    const city = this.normalizeText(candidate.city)
+    const state = this.normalizeText(candidate.state)
+    const country = this.normalizeText(candidate.country)
+    const legacy = this.normalizeText(candidate.location)
+
+    if (!city && !state && !country && !legacy) {
+      return {
+        ...base,
+        score: willRelocate ? 0.8 : UNKNOWN_SCORE,
+        applicable: true,
+        detail: willRelocate ? `Location not provided, open to relocating to ${jobLocation}` : 'Candidate location not provided',
+      }
+    }
+
+    // The legacy free-text location is only consulted when the structured fields are empty
+    const sameCity = !!jobCity && (city ? city === jobCity : legacy.includes(jobCity))
+    const sameState = !!jobState && (state ? state === jobState : legacy.includes(jobState))
+    const sameCountry = !!jobCountry && (country ? country === jobCountry : legacy.includes(jobCountry))
+
+    if (sameCity) {
+      return { ...base, score: 1, applicable: true, detail: `Based in ${job.city}` }
+    }
+    if (sameState) {
+      return { ...base, score: willRelocate ? 0.9 : 0.7, applicable: true, detail: `Same state as ${jobLocation}${willRelocate ? ', open to relocation' : ''}` }
+    }
+    if (sameCountry) {
+      return { ...base, score: willRelocate ? 0.8 : 0.4, applicable: true, detail: `Same country as ${jobLocation}${willRelocate ? ', open to relocation' : ''}` }
+    }
+    return {
+      ...base,
+      score: willRelocate ? 0.6 : 0,
+      applicable: true,
+      detail: willRelocate ? `Open to relocating to ${jobLocation}` : `Not located near ${jobLocation} and not open to relocation`,
+    }
+  }
+
+  static scoreSalary(candidate: MatchCandidate, job: MatchJob): FactorScore {
+    const base = { factor: 'salary' as const, weight: MATCH_WEIGHTS.salary }
+    const parsed = job.minSalary !== null || job.maxSalary !== null
+      ? { min: job.minSalary, max: job.maxSalary, period: job.salaryPeriod ?? 'ANNUAL' }
+      : RangeParser.parseSalary(job.salaryPerAnnum)
+
+    if (!parsed || (parsed.min === null && parsed.max === null)) {
+      return { ...base, score: 0, applicable: false, detail: 'Job does not specify a salary' }
+    }
+
+    const period: SalaryPeriod = parsed.period ?? 'ANNUAL'
+    const min = parsed.min !== null ? RangeParser.toAnnual(parsed.min, period) : null
+    const max = parsed.max !== null ? RangeParser.toAnnual(parsed.max, period) : null
+    const offered = this.describeRange(min, max, 'per annum')
+
+    if (!candidate.expectedSalary) {
+      return { ...base, score: UNKNOWN_SCORE, applicable: true, detail: `Expected salary not provided (job offers ${offered})` }
+    }
+
+    const expected = this.normalizeExpectedSalary(candidate.expectedSalary)
+    const ceiling = max ?? min!
+    let score = 1
+    if (max !== null && expected > max) {
+      score = Math.max(0, 1 - (expected - max) / ceiling)
+    }
+
+    return {
+      ...base,
+      score,
+      applicable: true,
+      detail: score === 1
+        ? `Expects ${expected} per annum, within ${offered}`
+        : `Expects ${expected} per annum, above ${offered}`,
+    }
+  }
+
+  static normalizeExpectedSalary(value: number): number {
+    return value < LAKH_THRESHOLD ? value * 100000 : value
+  }
+
+  // Job skills are stored as free text, e.g. "React, Node.js; SQL"
+  static splitSkills(value?: string | null): string[] {
+    if (!value) return []
+    const seen = new Set<string>()
+    return value
+      .split(/[,;|\n]/)
+      .map(skill => skill.trim())
+      .filter(skill => {
+        const key = this.normalizeSkill(skill)
+        if (!key || seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+  }
+
+  // "React.js", "reactjs" and "React" all compare equal
+  private static normalizeSkill(skill: string): string {
+    return skill
+      .toLowerCase()
+      .trim()
+      .replace(/\.?js$/, '')
+      .replace(/[^a-z0-9+#]/g, '')
+  }
+
+  private static normalizeText(value?: string | null): string {
+    return (value ?? '').toLowerCase().trim()
+  }
+
+  private static willRelocate(value?: string | null): boolean {
+    return /^(y|yes|true|open)/i.test((value ?? '').trim())
+  }
+
+  private static describeRange(min: number | null, max: number | null, unit: string): string {
+    if (min !== null && max !== null) return min === max ? `${min} ${unit}` : `${min}-${max} ${unit}`
+    if (min !== null) return `${min}+ ${unit}`
+    return `up to ${max} ${unit}`
+  }
+}
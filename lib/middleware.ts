@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { AuthUtils, JWTPayload } from '@/lib/auth'
+import { Permissions, Permission, ResourceAction } from '@/lib/permissions'
+import { SessionUtils } from '@/lib/sessions'
 import { createApiResponse } from '@/lib/validations'
 
 export interface AuthenticatedRequest extends NextRequest {
@@ -19,6 +21,14 @@ export function withAuth(handler: (req: AuthenticatedRequest, context?: any) =>
       }
 
       const user = AuthUtils.verifyToken(token)
+
+      // Signed-out, revoked and suspended sessions stop working straight away
+      if (!(await SessionUtils.isActive(user.sessionId))) {
+        return NextResponse.json(
+          createApiResponse(false, null, '', 'Session expired'),
+          { status: 401 }
+        )
+      }
       
       // Add user to request object
       ;(request as AuthenticatedRequest).user = user
@@ -47,3 +57,21 @@ export function withRole(roles: string[], handler: (req: AuthenticatedRequest, c
     return handler(request, context)
   })
 }
+
+// Checks a permission from lib/permissions. For an unscoped permission such as 'job:update'
+// a user holding only the "own" scope must own the record named by the route's [id].
+export function withPermission(permission: Permission | ResourceAction, handler: (req: AuthenticatedRequest, context?: any) => Promise<NextResponse>) {
+  return withAuth(async (request: AuthenticatedRequest, context?: any) => {
+    const params = context?.params ? await context.params : undefined
+    const result = await Permissions.check(request.user!, permission, params?.id)
+
+    if (!result.ok) {
+      return NextResponse.json(
+        createApiResponse(false, null, '', result.status === 403 ? 'Insufficient permissions' : result.error),
+        { status: result.status }
+      )
+    }
+
+    return handler(request, context)
+  })
+}
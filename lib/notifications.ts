@@ -0,0 +1,298 @@
+import type { ApplicationStage, NotificationType, Prisma, User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { EmailService } from '@/lib/email'
+import { FUNNEL_STAGES } from '@/lib/analytics'
+
+// Things that happen elsewhere in the app that someone may want to hear about
+export type NotificationEvent =
+  | { type: 'APPLICATION_STAGE_CHANGED'; applicationId: string; fromStage: ApplicationStage; toStage: ApplicationStage }
+  | { type: 'INTERVIEW_SCHEDULED'; interviewId: string }
+  | { type: 'INTERVIEW_RESCHEDULED'; interviewId: string; previousScheduledAt: Date }
+  | { type: 'INTERVIEW_CANCELLED'; interviewId: string }
+  | { type: 'SHARE_VIEWED'; shareId: string }
+  | { type: 'SAVED_SEARCH_DIGEST'; savedSearchId: string; candidateIds: string[] }
+
+export interface EmitOptions {
+  // Whoever caused the event; they are not told about their own change
+  actorId?: string
+  // Turns notification links into full URLs for emails
+  baseUrl?: string
+}
+
+// One notification for one user, before it goes through their channels
+export interface NotificationDraft {
+  userId: string
+  title: string
+  message: string
+  link?: string
+}
+
+export interface DeliverableNotification extends NotificationDraft {
+  type: NotificationType
+  data: Record<string, unknown>
+}
+
+type Recipient = Pick<User, 'id' | 'email' | 'name' | 'status'>
+
+export type NotificationChannelName = 'inApp' | 'email'
+
+export interface NotificationChannel {
+  readonly name: NotificationChannelName
+  deliver(notification: DeliverableNotification, recipient: Recipient, baseUrl?: string): Promise<boolean>
+}
+
+export interface NotificationPreferenceView {
+  type: NotificationType
+  label: string
+  description: string
+  inApp: boolean
+  email: boolean
+}
+
+export const NOTIFICATION_TYPES: Array<{ type: NotificationType; label: string; description: string }> = [
+  { type: 'APPLICATION_STAGE_CHANGED', label: 'Application updates', description: 'An application moves to another stage' },
+  { type: 'INTERVIEW_SCHEDULED', label: 'Interview scheduled', description: 'An interview is booked' },
+  { type: 'INTERVIEW_RESCHEDULED', label: 'Interview rescheduled', description: 'An interview moves to another time' },
+  { type: 'INTERVIEW_CANCELLED', label: 'Interview cancelled', description: 'An interview is called off' },
+  { type: 'SHARE_VIEWED', label: 'Share link viewed', description: 'Someone opens a candidate profile you shared' },
+  { type: 'SAVED_SEARCH_DIGEST', label: 'Saved search alerts', description: 'New candidates match one of your saved searches' },
+]
+
+// Used until a user saves their own choice. Share views can be frequent, so they stay in the app.
+export const NOTIFICATION_DEFAULTS: Record<NotificationType, Record<NotificationChannelName, boolean>> = {
+  APPLICATION_STAGE_CHANGED: { inApp: true, email: true },
+  INTERVIEW_SCHEDULED: { inApp: true, email: true },
+  INTERVIEW_RESCHEDULED: { inApp: true, email: true },
+  INTERVIEW_CANCELLED: { inApp: true, email: true },
+  SHARE_VIEWED: { inApp: true, email: false },
+  SAVED_SEARCH_DIGEST: { inApp: true, email: true },
+}
+
+const CANDIDATE_LINK = '/candidate/dashboard'
+
+// Candidates named in a saved search digest; any more are only counted
+const DIGEST_NAMES = 5
+
+const stageLabel = (stage: ApplicationStage) =>
+  FUNNEL_STAGES.find(entry => entry.stage === stage)?.label ?? stage
+
+const fullName = (person: { firstName: string | null; lastName: string | null }) =>
+  [person.firstName, person.lastName].filter(Boolean).join(' ') || 'A candidate'
+
+const interviewInclude = {
+  candidate: { select: { userId: true, firstName: true, lastName: true } },
+  recruiter: { select: { userId: true } },
+  job: { select: { jobTitle: true } },
+} as const
+
+type InterviewWithPeople = Prisma.InterviewGetPayload<{ include: typeof interviewInclude }>
+
+// Candidate and interviewer hear about the same interview, each from their own side
+function interviewDrafts(interview: InterviewWithPeople, title: string, happened: string): NotificationDraft[] {
+  const what = `${interview.title} for ${interview.job.jobTitle}`
+  return [
+    { userId: interview.candidate.userId, title, message: `${what} ${happened}`, link: CANDIDATE_LINK },
+    {
+      userId: interview.recruiter.userId,
+      title,
+      message: `${what} with ${fullName(interview.candidate)} ${happened}`,
+      link: '/recruiter/dashboard',
+    },
+  ]
+}
+
+// Who hears about each event and what they are told. An empty list means nobody.
+const PRODUCERS: { [T in NotificationType]: (event: Extract<NotificationEvent, { type: T }>) => Promise<NotificationDraft[]> } = {
+  APPLICATION_STAGE_CHANGED: async event => {
+    const application = await prisma.jobApplication.findUnique({
+      where: { id: event.applicationId },
+      include: {
+        candidate: { select: { userId: true, firstName: true, lastName: true } },
+        job: { select: { jobTitle: true, client: { select: { name: true } }, recruiter: { select: { userId: true } } } },
+      },
+    })
+    if (!application) return []
+
+    const jobName = application.job.client
+      ? `${application.job.jobTitle} at ${application.job.client.name}`
+      : application.job.jobTitle
+    const drafts: NotificationDraft[] = [{
+      userId: application.candidate.userId,
+      title: 'Application update',
+      message: `Your application for ${jobName} moved to ${stageLabel(event.toStage)}`,
+      link: CANDIDATE_LINK,
+    }]
+    if (application.job.recruiter) {
+      drafts.push({
+        userId: application.job.recruiter.userId,
+        title: 'Application update',
+        message: `${fullName(application.candidate)}'s application for ${jobName} moved from ${stageLabel(event.fromStage)} to ${stageLabel(event.toStage)}`,
+        link: '/recruiter/jobs',
+      })
+    }
+    return drafts
+  },
+
+  INTERVIEW_SCHEDULED: async event => {
+    const interview = await prisma.interview.findUnique({ where: { id: event.interviewId }, include: interviewInclude })
+    if (!interview) return []
+    return interviewDrafts(interview, 'Interview scheduled', `is scheduled for ${interview.scheduledAt.toLocaleString()}`)
+  },
+
+  INTERVIEW_RESCHEDULED: async event => {
+    const interview = await prisma.interview.findUnique({ where: { id: event.interviewId }, include: interviewInclude })
+    if (!interview) return []
+    return interviewDrafts(
+      interview,
+      'Interview rescheduled',
+      `has moved from ${event.previousScheduledAt.toLocaleString()} to ${interview.scheduledAt.toLocaleString()}`
+    )
+  },
+
+  INTERVIEW_CANCELLED: async event => {
+    const interview = await prisma.interview.findUnique({ where: { id: event.interviewId }, include: interviewInclude })
+    if (!interview) return []
+    return interviewDrafts(
+      interview,
+      'Interview cancelled',
+      `on ${interview.scheduledAt.toLocaleString()} has been cancelled${interview.cancellationReason ? `: ${interview.cancellationReason}` : ''}`
+    )
+  },
+
+  // Only the recruiter who shared the profile is told; the candidate is not
+  SHARE_VIEWED: async event => {
+    const share = await prisma.candidateShare.findUnique({
+      where: { id: event.shareId },
+      include: {
+        candidate: { select: { firstName: true, lastName: true } },
+        recruiter: { select: { userId: true } },
+      },
+    })
+    if (!share) return []
+
+    const visits = share.maxVisits !== null ? `${share.currentVisits} of ${share.maxVisits}` : `${share.currentVisits}`
+    return [{
+      userId: share.recruiter.userId,
+      title: 'Shared profile viewed',
+      message: `${share.shareEmail} opened ${fullName(share.candidate)}'s profile (view ${visits})`,
+      link: '/recruiter/job-seekers',
+    }]
+  },
+
+  // Only the owner of the search hears about it; candidates deleted since they matched are left out
+  SAVED_SEARCH_DIGEST: async event => {
+    const [search, candidates] = await Promise.all([
+      prisma.savedSearch.findUnique({ where: { id: event.savedSearchId }, select: { userId: true, name: true } }),
+      prisma.candidate.findMany({
+        where: { id: { in: event.candidateIds } },
+        select: { firstName: true, lastName: true },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ])
+    if (!search || candidates.length === 0) return []
+
+    const names = candidates.slice(0, DIGEST_NAMES).map(fullName)
+    const more = candidates.length - names.length
+    return [{
+      userId: search.userId,
+      title: `New candidates for "${search.name}"`,
+      message: `${candidates.length} new ${candidates.length === 1 ? 'candidate matches' : 'candidates match'} your saved search: ${names.join(', ')}${more > 0 ? ` and ${more} more` : ''}`,
+      link: '/recruiter/job-seekers',
+    }]
+  },
+}
+
+export class InAppNotificationChannel implements NotificationChannel {
+  readonly name = 'inApp' as const
+
+  async deliver(notification: DeliverableNotification): Promise<boolean> {
+    await prisma.notification.create({
+      data: {
+        userId: notification.userId,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        link: notification.link,
+        data: notification.data as Prisma.InputJsonValue,
+      },
+    })
+    return true
+  }
+}
+
+export class EmailNotificationChannel implements NotificationChannel {
+  readonly name = 'email' as const
+
+  async deliver(notification: DeliverableNotification, recipient: Recipient, baseUrl?: string): Promise<boolean> {
+    // Inactive accounts get nothing, and phone-only candidates only have a placeholder address
+    if (recipient.status !== 'ACTIVE' || recipient.email.endsWith('@temp.com')) return false
+
+    const url = baseUrl && notification.link ? `${baseUrl.replace(/\/$/, '')}${notification.link}` : undefined
+    return EmailService.sendNotificationEmail(recipient.email, notification.title, notification.message, url, recipient.name || undefined)
+  }
+}
+
+const CHANNELS: NotificationChannel[] = [new InAppNotificationChannel(), new EmailNotificationChannel()]
+
+export class Notifications {
+  // Turn an event into notifications and send each through the channels its recipient has on.
+  // Called after the change it describes is saved, so failures are logged rather than thrown.
+  static async emit(event: NotificationEvent, options: EmitOptions = {}): Promise<void> {
+    try {
+      const produce = PRODUCERS[event.type] as (event: NotificationEvent) => Promise<NotificationDraft[]>
+      const drafts = (await produce(event)).filter(draft => draft.userId !== options.actorId)
+      if (drafts.length === 0) return
+
+      const userIds = drafts.map(draft => draft.userId)
+      const [recipients, preferences] = await Promise.all([
+        prisma.user.findMany({
+          where: { id: { in: userIds } },
+          select: { id: true, email: true, name: true, status: true },
+        }),
+        prisma.notificationPreference.findMany({ where: { userId: { in: userIds }, type: event.type } }),
+      ])
+
+      const { type, ...data } = event
+      await Promise.all(drafts.map(async draft => {
+        const recipient = recipients.find(user => user.id === draft.userId)
+        if (!recipient) return
+
+        const preference = preferences.find(saved => saved.userId === draft.userId) ?? NOTIFICATION_DEFAULTS[type]
+        const notification = { ...draft, type, data }
+        for (const channel of CHANNELS) {
+          if (preference[channel.name]) {
+            await channel.deliver(notification, recipient, options.baseUrl)
+          }
+        }
+      }))
+    } catch (error) {
+      console.error('Notification error:', error)
+    }
+  }
+
+  static async preferences(userId: string): Promise<NotificationPreferenceView[]> {
+    const saved = await prisma.notificationPreference.findMany({ where: { userId } })
+    return NOTIFICATION_TYPES.map(({ type, label, description }) => {
+      const preference = saved.find(entry => entry.type === type) ?? NOTIFICATION_DEFAULTS[type]
+      return { type, label, description, inApp: preference.inApp, email: preference.email }
+    })
+  }
+
+  // Channels left out of an update keep their current setting
+  static async updatePreferences(
+    userId: string,
+    updates: Array<{ type: NotificationType; inApp?: boolean; email?: boolean }>
+  ): Promise<NotificationPreferenceView[]> {
+    const current = await this.preferences(userId)
+    for (const update of updates) {
+      const existing = current.find(entry => entry.type === update.type)!
+      const values = { inApp: update.inApp ?? existing.inApp, email: update.email ?? existing.email }
+      await prisma.notificationPreference.upsert({
+        where: { userId_type: { userId, type: update.type } },
+        create: { userId, type: update.type, ...values },
+        update: values,
+      })
+    }
+    return this.preferences(userId)
+  }
+}
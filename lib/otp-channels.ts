@@ -0,0 +1,114 @@
+import { appendFile } from 'fs/promises'
+import { EmailService } from '@/lib/email'
+
+export type OtpChannelName = 'email' | 'sms' | 'dev'
+export type OtpMethod = 'email' | 'mobile'
+
+export interface OtpMessage {
+  to: string
+  code: string
+  name?: string
+  expiresInMinutes: number
+}
+
+export interface OtpChannel {
+  readonly name: OtpChannelName
+  // Whether the channel can deliver here at all, e.g. its provider credentials are set
+  isAvailable(): boolean
+  send(message: OtpMessage): Promise<boolean>
+}
+
+export class EmailOtpChannel implements OtpChannel {
+  readonly name = 'email' as const
+
+  isAvailable(): boolean {
+    return !!process.env.SMTP_USER && !!process.env.SMTP_PASS
+  }
+
+  send(message: OtpMessage): Promise<boolean> {
+    return EmailService.sendOTPEmail(message.to, message.code, message.name, message.expiresInMinutes)
+  }
+}
+
+// Twilio's Messages API over plain HTTPS, so no SDK is needed. TWILIO_MESSAGING_SERVICE_SID
+// takes precedence over TWILIO_FROM_NUMBER when both are set.
+export class SmsOtpChannel implements OtpChannel {
+  readonly name = 'sms' as const
+
+  isAvailable(): boolean {
+    return !!process.env.TWILIO_ACCOUNT_SID
+      && !!process.env.TWILIO_AUTH_TOKEN
+      && !!(process.env.TWILIO_MESSAGING_SERVICE_SID || process.env.TWILIO_FROM_NUMBER)
+  }
+
+  async send(message: OtpMessage): Promise<boolean> {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID!
+    const body = new URLSearchParams({
+      To: message.to,
+      Body: `Your login code is ${message.code}. It expires in ${message.expiresInMinutes} minutes. Do not share it with anyone.`,
+    })
+    if (process.env.TWILIO_MESSAGING_SERVICE_SID) {
+      body.set('MessagingServiceSid', process.env.TWILIO_MESSAGING_SERVICE_SID)
+    } else {
+      body.set('From', process.env.TWILIO_FROM_NUMBER!)
+    }
+
+    try {
+      const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${Buffer.from(`${accountSid}:${process.env.TWILIO_AUTH_TOKEN}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body,
+      })
+      if (!response.ok) {
+        console.error('SMS sending failed:', response.status, await response.text())
+      }
+      return response.ok
+    } catch (error) {
+      console.error('SMS sending failed:', error)
+      return false
+    }
+  }
+}
+
+// Stand-in for development and tests: prints the code and, when OTP_DEV_FILE is set, appends
+// it to that file as one JSON line so scripts can read it back. Never used in production.
+export class DevOtpChannel implements OtpChannel {
+  readonly name = 'dev' as const
+
+  isAvailable(): boolean {
+    return process.env.NODE_ENV !== 'production'
+  }
+
+  async send(message: OtpMessage): Promise<boolean> {
+    console.log(`[dev otp] ${message.to}: ${message.code}`)
+    if (process.env.OTP_DEV_FILE) {
+      const line = JSON.stringify({ to: message.to, code: message.code, sentAt: new Date().toISOString() })
+      await appendFile(process.env.OTP_DEV_FILE, line + '\n')
+    }
+    return true
+  }
+}
+
+const CHANNELS: Record<OtpChannelName, OtpChannel> = {
+  email: new EmailOtpChannel(),
+  sms: new SmsOtpChannel(),
+  dev: new DevOtpChannel(),
+}
+
+// OTP_CHANNEL=dev routes every code through the dev channel. Otherwise emails and texts go
+// through their provider, falling back to the dev channel outside production when it is not
+// configured. null means the code cannot be delivered.
+export class OtpChannels {
+  static forMethod(method: OtpMethod): OtpChannel | null {
+    if (process.env.OTP_CHANNEL === 'dev' && CHANNELS.dev.isAvailable()) {
+      return CHANNELS.dev
+    }
+
+    const channel = method === 'email' ? CHANNELS.email : CHANNELS.sms
+    if (channel.isAvailable()) return channel
+    return CHANNELS.dev.isAvailable() ? CHANNELS.dev : null
+  }
+}
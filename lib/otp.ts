@@ -0,0 +1,206 @@
+import crypto from 'crypto'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AuthUtils } from '@/lib/auth'
+import { OtpChannels, OtpChannelName, OtpMethod } from '@/lib/otp-channels'
+
+export const OTP_LENGTH = 6
+export const OTP_TTL_MINUTES = 10
+export const MAX_OTP_ATTEMPTS = 5
+export const OTP_LOCKOUT_MINUTES = 15
+export const OTP_RESEND_COOLDOWN_SECONDS = 60
+// Sends allowed in a rolling hour
+export const MAX_OTP_SENDS_PER_CONTACT = 5
+export const MAX_OTP_SENDS_PER_IP = 20
+
+const HOUR_MS = 60 * 60 * 1000
+
+export type OtpSendResult =
+  | { ok: true; channel: OtpChannelName; expiresAt: Date }
+  | { ok: false; status: 429 | 500 | 503; error: string; retryAfter?: number }
+
+export type OtpVerifyResult =
+  | { ok: true }
+  | { ok: false; status: 400 | 429; error: string; attemptsRemaining?: number; retryAfter?: number }
+
+export interface OtpRequest {
+  contact: string
+  method: OtpMethod
+  ipAddress: string | null
+  name?: string
+}
+
+function secondsUntil(date: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000))
+}
+
+export class OtpService {
+  static isEmail(contact: string, method: OtpMethod): boolean {
+    return method === 'email' || contact.includes('@')
+  }
+
+  // Challenges are keyed on this so "Jane@x.com" and "jane@x.com " share one code and one limit
+  static normalizeContact(contact: string, method: OtpMethod): string {
+    const trimmed = contact.trim()
+    return this.isEmail(trimmed, method) ? trimmed.toLowerCase() : trimmed.replace(/[\s()-]/g, '')
+  }
+
+  // The account for a contact, looked up by the same key as its challenge. Older accounts may have
+  // kept the email's case or the phone number's spacing, so those still match.
+  static userWhere(contact: string, method: OtpMethod): Prisma.UserWhereInput {
+    const normalized = this.normalizeContact(contact, method)
+    if (this.isEmail(contact, method)) {
+      return { email: { equals: normalized, mode: 'insensitive' } }
+    }
+    return { OR: [{ phone: normalized }, { phone: contact.trim() }] }
+  }
+
+  static generate(): string {
+    return crypto.randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, '0')
+  }
+
+  // Throttle, then store a fresh code (hashed) and deliver it. Asking again replaces the previous code.
+  static async send({ contact, method, ipAddress, name }: OtpRequest): Promise<OtpSendResult> {
+    const key = this.normalizeContact(contact, method)
+    const channel = OtpChannels.forMethod(this.isEmail(contact, method) ? 'email' : 'mobile')
+    if (!channel) {
+      return { ok: false, status: 503, error: 'Login codes cannot be sent right now' }
+    }
+
+    const throttled = await this.checkThrottle(key, ipAddress)
+    if (throttled) return throttled
+
+    const code = this.generate()
+    const now = new Date()
+    const expiresAt = new Date(now.getTime() + OTP_TTL_MINUTES * 60 * 1000)
+    const challenge = {
+      // bcrypt, because six digits are quick to brute-force against a plain hash
+      codeHash: await AuthUtils.hashPassword(code),
+      channel: channel.name,
+      expiresAt,
+      attempts: 0,
+      lockedUntil: null,
+      sentAt: now,
+    }
+
+    await Promise.all([
+      prisma.otpChallenge.upsert({
+        where: { contact: key },
+        create: { contact: key, ...challenge },
+        update: challenge,
+      }),
+      prisma.otpSend.create({ data: { contact: key, ipAddress } }),
+      // Rows older than the throttle window are no longer needed
+      prisma.otpSend.deleteMany({ where: { createdAt: { lt: new Date(now.getTime() - 24 * HOUR_MS) } } }),
+    ])
+
+    const sent = await channel.send({ to: contact.trim(), code, name, expiresInMinutes: OTP_TTL_MINUTES })
+    if (!sent) {
+      return { ok: false, status: 500, error: 'Failed to send OTP' }
+    }
+
+    return { ok: true, channel: channel.name, expiresAt }
+  }
+
+  // Each guess is counted before it is checked, so parallel requests cannot go past the limit.
+  // The last wrong guess locks the contact and throws the code away.
+  static async verify(contact: string, method: OtpMethod, code: string): Promise<OtpVerifyResult> {
+    const key = this.normalizeContact(contact, method)
+    const challenge = await prisma.otpChallenge.findUnique({ where: { contact: key } })
+    const now = new Date()
+
+    if (challenge?.lockedUntil && challenge.lockedUntil > now) {
+      return this.locked(challenge.lockedUntil)
+    }
+    if (!challenge || !challenge.codeHash) {
+      return { ok: false, status: 400, error: 'Invalid OTP' }
+    }
+    if (challenge.expiresAt <= now) {
+      return { ok: false, status: 400, error: 'OTP has expired' }
+    }
+
+    const { count } = await prisma.otpChallenge.updateMany({
+      where: { id: challenge.id, codeHash: challenge.codeHash, attempts: { lt: MAX_OTP_ATTEMPTS } },
+      data: { attempts: { increment: 1 } },
+    })
+    if (count === 0) {
+      // Another request used up the last attempt, or a new code was sent meanwhile
+      return { ok: false, status: 400, error: 'Invalid OTP' }
+    }
+
+    if (await AuthUtils.comparePassword(code, challenge.codeHash)) {
+      // A code only works once
+      const { count: used } = await prisma.otpChallenge.deleteMany({
+        where: { id: challenge.id, codeHash: challenge.codeHash },
+      })
+      return used > 0 ? { ok: true } : { ok: false, status: 400, error: 'Invalid OTP' }
+    }
+
+    const attempts = challenge.attempts + 1
+    if (attempts >= MAX_OTP_ATTEMPTS) {
+      const lockedUntil = new Date(now.getTime() + OTP_LOCKOUT_MINUTES * 60 * 1000)
+      await prisma.otpChallenge.update({
+        where: { id: challenge.id },
+        data: { codeHash: null, lockedUntil },
+      })
+      return this.locked(lockedUntil)
+    }
+
+    return {
+      ok: false,
+      status: 400,
+      error: 'Invalid OTP',
+      attemptsRemaining: MAX_OTP_ATTEMPTS - attempts,
+    }
+  }
+
+  private static locked(lockedUntil: Date): { ok: false; status: 429; error: string; retryAfter: number } {
+    const minutes = Math.ceil((lockedUntil.getTime() - Date.now()) / 60000)
+    return {
+      ok: false,
+      status: 429,
+      error: `Too many incorrect codes. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}`,
+      retryAfter: secondsUntil(lockedUntil),
+    }
+  }
+
+  private static async checkThrottle(contact: string, ipAddress: string | null): Promise<OtpSendResult | null> {
+    const now = Date.now()
+    const windowStart = new Date(now - HOUR_MS)
+
+    const challenge = await prisma.otpChallenge.findUnique({
+      where: { contact },
+      select: { lockedUntil: true, sentAt: true },
+    })
+    if (challenge?.lockedUntil && challenge.lockedUntil.getTime() > now) {
+      return this.locked(challenge.lockedUntil)
+    }
+    if (challenge && now - challenge.sentAt.getTime() < OTP_RESEND_COOLDOWN_SECONDS * 1000) {
+      const retryAfter = secondsUntil(new Date(challenge.sentAt.getTime() + OTP_RESEND_COOLDOWN_SECONDS * 1000))
+      return { ok: false, status: 429, error: `Please wait ${retryAfter} seconds before requesting another code`, retryAfter }
+    }
+
+    const limits: { where: { contact: string } | { ipAddress: string }; max: number }[] = [
+      { where: { contact }, max: MAX_OTP_SENDS_PER_CONTACT },
+    ]
+    if (ipAddress) {
+      limits.push({ where: { ipAddress }, max: MAX_OTP_SENDS_PER_IP })
+    }
+
+    for (const limit of limits) {
+      const sends = await prisma.otpSend.findMany({
+        where: { ...limit.where, createdAt: { gte: windowStart } },
+        select: { createdAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: limit.max,
+      })
+      if (sends.length >= limit.max) {
+        // The oldest send in the window has to age out before another is allowed
+        const retryAfter = secondsUntil(new Date(sends[sends.length - 1].createdAt.getTime() + HOUR_MS))
+        return { ok: false, status: 429, error: 'Too many codes requested. Please try again later', retryAfter }
+      }
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,151 @@
+import { prisma } from '@/lib/prisma'
+
+// bcrypt ignores everything past 72 bytes, so longer passwords would silently be truncated
+const BCRYPT_MAX_BYTES = 72
+
+export interface PasswordRules {
+  minLength: number
+  requireUppercase: boolean
+  requireLowercase: boolean
+  requireNumber: boolean
+  requireSymbol: boolean
+  // Reject passwords containing the email's local part or the user's name
+  disallowPersonalInfo: boolean
+}
+
+const DEFAULT_RULES: PasswordRules = {
+  minLength: 10,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  disallowPersonalInfo: true,
+}
+
+// Anything but a positive whole number falls back, so a typo cannot switch the lockout off
+function envInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]?.trim() || undefined)
+  return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+export const MAX_FAILED_LOGINS = envInt('LOGIN_MAX_FAILED_ATTEMPTS', 5)
+export const LOGIN_LOCKOUT_MINUTES = envInt('LOGIN_LOCKOUT_MINUTES', 15)
+
+function envFlag(name: string, fallback: boolean): boolean {
+  const value = process.env[name]
+  if (value === undefined || value === '') return fallback
+  return value === 'true' || value === '1'
+}
+
+export interface LoginFailure {
+  status: 401 | 429
+  error: string
+  retryAfter?: number
+}
+
+export class PasswordPolicy {
+  // Rules come from PASSWORD_* environment variables, falling back to DEFAULT_RULES
+  static rules(): PasswordRules {
+    return {
+      minLength: Math.min(envInt('PASSWORD_MIN_LENGTH', DEFAULT_RULES.minLength), BCRYPT_MAX_BYTES),
+      requireUppercase: envFlag('PASSWORD_REQUIRE_UPPERCASE', DEFAULT_RULES.requireUppercase),
+      requireLowercase: envFlag('PASSWORD_REQUIRE_LOWERCASE', DEFAULT_RULES.requireLowercase),
+      requireNumber: envFlag('PASSWORD_REQUIRE_NUMBER', DEFAULT_RULES.requireNumber),
+      requireSymbol: envFlag('PASSWORD_REQUIRE_SYMBOL', DEFAULT_RULES.requireSymbol),
+      disallowPersonalInfo: envFlag('PASSWORD_DISALLOW_PERSONAL_INFO', DEFAULT_RULES.disallowPersonalInfo),
+    }
+  }
+
+  // Human-readable rules, shown next to password fields
+  static describe(rules: PasswordRules = this.rules()): string[] {
+    const lines = [`At least ${rules.minLength} characters`]
+    if (rules.requireUppercase) lines.push('An uppercase letter')
+    if (rules.requireLowercase) lines.push('A lowercase letter')
+    if (rules.requireNumber) lines.push('A number')
+    if (rules.requireSymbol) lines.push('A symbol')
+    if (rules.disallowPersonalInfo) lines.push('Not your name or email address')
+    return lines
+  }
+
+  // Every rule the password breaks; empty when it is acceptable
+  static validate(password: string, user?: { email?: string | null; name?: string | null }): string[] {
+    const rules = this.rules()
+    const errors: string[] = []
+
+    if (password.length < rules.minLength) {
+      errors.push(`Password must be at least ${rules.minLength} characters`)
+    }
+    if (Buffer.byteLength(password, 'utf8') > BCRYPT_MAX_BYTES) {
+      errors.push(`Password must be at most ${BCRYPT_MAX_BYTES} bytes`)
+    }
+    if (rules.requireUppercase && !/[A-Z]/.test(password)) {
+      errors.push('Password must contain an uppercase letter')
+    }
+    if (rules.requireLowercase && !/[a-z]/.test(password)) {
+      errors.push('Password must contain a lowercase letter')
+    }
+    if (rules.requireNumber && !/\d/.test(password)) {
+      errors.push('Password must contain a number')
+    }
+    if (rules.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+      errors.push('Password must contain a symbol')
+    }
+    if (rules.disallowPersonalInfo && user) {
+      const lowered = password.toLowerCase()
+      const personal = [
+        user.email?.split('@')[0],
+        ...(user.name?.split(/\s+/) ?? []),
+      ].filter((part): part is string => !!part && part.length >= 3)
+      if (personal.some(part => lowered.includes(part.toLowerCase()))) {
+        errors.push('Password must not contain your name or email address')
+      }
+    }
+
+    return errors
+  }
+}
+
+// Temporary lockout after repeated wrong passwords. Counted per account, so guessing at one
+// account does not lock anyone else out.
+export class LoginLockout {
+  static lockedFor(lockedUntil: Date | null): number | null {
+    if (!lockedUntil || lockedUntil <= new Date()) return null
+    return Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000))
+  }
+
+  static locked(retryAfter: number): LoginFailure {
+    const minutes = Math.ceil(retryAfter / 60)
+    return {
+      status: 429,
+      error: `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}`,
+      retryAfter,
+    }
+  }
+
+  // Count a wrong password. The attempt that reaches the limit locks the account and starts the count over.
+  static async recordFailure(userId: string): Promise<LoginFailure> {
+    const { failedLoginAttempts } = await prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    })
+
+    if (failedLoginAttempts >= MAX_FAILED_LOGINS) {
+      const lockedUntil = new Date(Date.now() + LOGIN_LOCKOUT_MINUTES * 60 * 1000)
+      await prisma.user.update({
+        where: { id: userId },
+        data: { failedLoginAttempts: 0, lockedUntil },
+      })
+      return this.locked(LOGIN_LOCKOUT_MINUTES * 60)
+    }
+
+    return { status: 401, error: 'Invalid email or password' }
+  }
+
+  static async clear(userId: string) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: 0, lockedUntil: null },
+    })
+  }
+}
@@ -0,0 +1,213 @@
+import { after, afterEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { prisma } from '@/lib/prisma'
+import { RecruiterUtils } from '@/lib/recruiters'
+import { DashboardAnalytics } from '@/lib/analytics'
+import { PERMISSIONS, ROLE_PERMISSIONS, Permissions, Permission, ResourceAction } from '@/lib/permissions'
+import type { JWTPayload } from '@/lib/auth'
+
+const ROLES = ['CANDIDATE', 'RECRUITER', 'ADMIN'] as const
+type Role = typeof ROLES[number]
+type Access = 'own' | 'any' | '-'
+
+const ACTIONS = Array.from(new Set(PERMISSIONS.map(permission => permission.split(':').slice(0, 2).join(':')))) as ResourceAction[]
+
+const id = (n: number) => n.toString(16).padStart(24, '0')
+const userOf = (role: Role): JWTPayload => ({ userId: id(1), email: 'user@example.com', role })
+
+// The access matrix in README_BACKEND.md, which is what the roles are documented to get
+function documentedMatrix(): Map<string, Record<Role, Access>> {
+  const readme = readFileSync(path.join(__dirname, '..', 'README_BACKEND.md'), 'utf8')
+  const header = '| Permission | CANDIDATE | RECRUITER | ADMIN |'
+  const lines = readme.slice(readme.indexOf(header)).split('\n').slice(2)
+  const matrix = new Map<string, Record<Role, Access>>()
+  for (const line of lines) {
+    const match = line.match(/^\| `([^`]+)` \| (own|any|-) \| (own|any|-) \| (own|any|-) \|$/)
+    if (!match) break
+    matrix.set(match[1], { CANDIDATE: match[2] as Access, RECRUITER: match[3] as Access, ADMIN: match[4] as Access })
+  }
+  return matrix
+}
+
+describe('access matrix', () => {
+  const matrix = documentedMatrix()
+
+  it('documents every resource action in the order of PERMISSIONS', () => {
+    assert.deepEqual(Array.from(matrix.keys()), ACTIONS)
+  })
+
+  for (const role of ROLES) {
+    describe(role, () => {
+      for (const action of ACTIONS) {
+        const expected = matrix.get(action)?.[role]
+
+        it(`${action} is ${expected}`, async () => {
+          assert.equal(Permissions.scope(role, action) ?? '-', expected)
+
+          // Without a record id an "own" caller is let through; the route scopes the results
+          const unscoped = await Permissions.check(userOf(role), action)
+          assert.equal(unscoped.ok, expected !== '-')
+
+          const any = await Permissions.check(userOf(role), `${action}:any` as Permission)
+          assert.equal(any.ok, expected === 'any')
+        })
+      }
+    })
+  }
+
+  it('gives admins every "any" permission and no "own" ones', () => {
+    assert.ok(ROLE_PERMISSIONS.ADMIN.every(permission => permission.endsWith(':any')))
+    assert.equal(ROLE_PERMISSIONS.ADMIN.length, PERMISSIONS.filter(permission => permission.endsWith(':any')).length)
+  })
+
+  it('denies unknown roles', async () => {
+    assert.equal(Permissions.scope('GUEST', 'job:read'), null)
+    assert.equal((await Permissions.check({ ...userOf('ADMIN'), role: 'GUEST' }, 'job:read')).ok, false)
+  })
+})
+
+describe('ownership resolvers', () => {
+  const recruiterId = id(100)
+  const otherRecruiterId = id(101)
+
+  // Model delegates are proxies, so each stubbed one is swapped out whole and put back after the test
+  const originals = new Map<string, PropertyDescriptor>()
+  afterEach(() => {
+    mock.restoreAll()
+    originals.forEach((descriptor, model) => Object.defineProperty(prisma, model, descriptor))
+    originals.clear()
+  })
+  after(() => prisma.$disconnect())
+
+  const stubFind = (model: 'candidate' | 'job' | 'jobApplication' | 'interview' | 'candidateShare' | 'talentPool' | 'resumeFile', record: unknown) => {
+    if (!originals.has(model)) originals.set(model, Object.getOwnPropertyDescriptor(prisma, model)!)
+    const findUnique = mock.fn(async (_args: any) => record)
+    Object.defineProperty(prisma, model, { value: { findUnique }, configurable: true, writable: true })
+    return findUnique
+  }
+  // Only this user has a recruiter profile
+  const recruiter: JWTPayload = { ...userOf('RECRUITER'), userId: id(5) }
+  const asRecruiter = (profileId: string = recruiterId) =>
+    mock.method(RecruiterUtils, 'getRecruiterId', async (userId: string) => userId === recruiter.userId ? profileId : null)
+
+  const expectResult = async (user: JWTPayload, action: ResourceAction, resourceId: string, expected: true | 403 | 404) => {
+    const result = await Permissions.check(user, action, resourceId)
+    if (expected === true) {
+      assert.equal(result.ok, true)
+    } else {
+      assert.equal(result.ok, false)
+      assert.equal(!result.ok && result.status, expected)
+    }
+  }
+
+  it('candidate: own profile, "me", someone else and missing', async () => {
+    const user = userOf('CANDIDATE')
+    const findUnique = stubFind('candidate', { userId: user.userId })
+    await expectResult(user, 'candidate:update', id(2), true)
+    await expectResult(user, 'candidate:update', 'me', true)
+    assert.deepEqual(findUnique.mock.calls[1].arguments[0].where, { userId: user.userId })
+
+    stubFind('candidate', { userId: id(9) })
+    await expectResult(user, 'candidate:update', id(2), 403)
+
+    stubFind('candidate', null)
+    await expectResult(user, 'candidate:update', id(2), 404)
+    await expectResult(user, 'candidate:update', 'not-an-id', 404)
+  })
+
+  it('job: assigned to the recruiter or not', async () => {
+    const user = recruiter
+    asRecruiter()
+    stubFind('job', { recruiterId })
+    await expectResult(user, 'job:update', id(3), true)
+
+    stubFind('job', { recruiterId: otherRecruiterId })
+    await expectResult(user, 'job:update', id(3), 403)
+
+    stubFind('job', { recruiterId: null })
+    await expectResult(user, 'job:update', id(3), 403)
+
+    stubFind('job', null)
+    await expectResult(user, 'job:update', id(3), 404)
+  })
+
+  it('application: the applicant and the job owner', async () => {
+    const candidate = userOf('CANDIDATE')
+    stubFind('jobApplication', { candidate: { userId: candidate.userId }, job: { recruiterId } })
+    await expectResult(candidate, 'application:update', id(4), true)
+
+    asRecruiter(otherRecruiterId)
+    await expectResult(recruiter, 'application:read', id(4), 403)
+
+    mock.restoreAll()
+    asRecruiter()
+    stubFind('jobApplication', { candidate: { userId: id(9) }, job: { recruiterId } })
+    await expectResult(recruiter, 'application:read', id(4), true)
+    await expectResult(candidate, 'application:update', id(4), 403)
+
+    stubFind('jobApplication', null)
+    await expectResult(candidate, 'application:update', id(4), 404)
+  })
+
+  it('interview: the candidate and the interviewer', async () => {
+    const candidate = userOf('CANDIDATE')
+    asRecruiter()
+    stubFind('interview', { recruiterId: otherRecruiterId, candidate: { userId: candidate.userId } })
+    await expectResult(candidate, 'interview:read', id(6), true)
+    await expectResult(recruiter, 'interview:update', id(6), 403)
+
+    stubFind('interview', { recruiterId, candidate: { userId: id(9) } })
+    await expectResult(recruiter, 'interview:update', id(6), true)
+    await expectResult(candidate, 'interview:read', id(6), 403)
+  })
+
+  it('share: the recruiter who created it', async () => {
+    asRecruiter()
+    stubFind('candidateShare', { recruiterId })
+    await expectResult(recruiter, 'share:update', id(7), true)
+
+    stubFind('candidateShare', { recruiterId: otherRecruiterId })
+    await expectResult(recruiter, 'share:update', id(7), 403)
+
+    stubFind('candidateShare', null)
+    await expectResult(recruiter, 'share:update', id(7), 404)
+  })
+
+  it('pool: whoever created it', async () => {
+    const user = userOf('RECRUITER')
+    stubFind('talentPool', { createdById: user.userId })
+    await expectResult(user, 'pool:delete', id(8), true)
+
+    stubFind('talentPool', { createdById: id(9) })
+    await expectResult(user, 'pool:delete', id(8), 403)
+
+    stubFind('talentPool', null)
+    await expectResult(user, 'pool:delete', id(8), 404)
+  })
+
+  it('file: whoever uploaded it', async () => {
+    const user = userOf('CANDIDATE')
+    stubFind('resumeFile', { uploadedBy: user.userId })
+    await expectResult(user, 'file:read', id(10), true)
+
+    stubFind('resumeFile', { uploadedBy: id(9) })
+    await expectResult(user, 'file:read', id(10), 403)
+  })
+
+  it('analytics: recruiters only get their own numbers, admins any recruiter\'s', async () => {
+    asRecruiter()
+    const filters = { recruiterId: otherRecruiterId, from: '2026-01-01T00:00:00.000Z' }
+    assert.deepEqual(await DashboardAnalytics.scopeFilters(filters, recruiter), { ...filters, recruiterId })
+    assert.deepEqual(await DashboardAnalytics.scopeFilters({}, recruiter), { recruiterId })
+    assert.equal(await DashboardAnalytics.scopeFilters(filters, { ...recruiter, userId: id(6) }), null)
+    assert.deepEqual(await DashboardAnalytics.scopeFilters(filters, userOf('ADMIN')), filters)
+  })
+
+  it('skips the resolver for "any" callers', async () => {
+    const findUnique = stubFind('job', null)
+    await expectResult(userOf('ADMIN'), 'job:update', id(3), true)
+    assert.equal(findUnique.mock.callCount(), 0)
+  })
+})
@@ -0,0 +1,282 @@
+import type { UserRole } from '@prisma/client'
+import type { JWTPayload } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { RecruiterUtils } from '@/lib/recruiters'
+
+// Every permission is resource:action:scope. "any" covers every record of the resource,
+// "own" only the records the ownership resolver below says belong to the user.
+export const PERMISSIONS = [
+  'candidate:create:own',
+  'candidate:create:any',
+  'candidate:read:own',
+  'candidate:read:any',
+  'candidate:read-sensitive:any',
+  'candidate:update:own',
+  'candidate:update:any',
+  'candidate:delete:own',
+  'candidate:delete:any',
+  'candidate:merge:any',
+  'candidate:export:any',
+  'job:create:own',
+  'job:create:any',
+  'job:read:any',
+  'job:update:own',
+  'job:update:any',
+  'job:delete:own',
+  'job:delete:any',
+  'job:assign:own',
+  'job:assign:any',
+  'job:export:any',
+  'client:create:any',
+  'client:read:any',
+  'client:import:any',
+  'client:export:any',
+  'vendor:create:any',
+  'vendor:read:any',
+  'vendor:import:any',
+  'vendor:export:any',
+  'application:create:own',
+  'application:submit:own',
+  'application:submit:any',
+  'application:read:own',
+  'application:read:any',
+  'application:update:own',
+  'application:update:any',
+  'application:export:own',
+  'application:export:any',
+  'interview:create:own',
+  'interview:create:any',
+  'interview:read:own',
+  'interview:read:any',
+  'interview:update:own',
+  'interview:update:any',
+  'share:create:own',
+  'share:read:own',
+  'share:read:any',
+  'share:update:own',
+  'share:update:any',
+  'pool:create:any',
+  'pool:read:any',
+  'pool:update:own',
+  'pool:update:any',
+  'pool:delete:own',
+  'pool:delete:any',
+  'file:create:own',
+  'file:create:any',
+  'file:read:own',
+  'file:read:any',
+  'file:update:own',
+  'file:update:any',
+  'dashboard:read:own',
+  'dashboard:read:any',
+  'analytics:read:own',
+  'analytics:read:any',
+  'user:create:any',
+  'user:read:any',
+  'user:update:any',
+  'audit:read:any',
+  'inquiry:read:any',
+  'inquiry:update:any',
+  'inquiry:convert:any',
+] as const
+
+export type Permission = typeof PERMISSIONS[number]
+export type PermissionScope = 'own' | 'any'
+
+// "job:update" asks for either scope; ownership is then resolved per record
+export type ResourceAction = Permission extends infer P
+  ? P extends `${infer R}:${infer A}:${PermissionScope}` ? `${R}:${A}` : never
+  : never
+
+export type PermissionResource = ResourceAction extends `${infer R}:${string}` ? R : never
+
+// The access matrix. What "own" means for each resource is defined in OWNERSHIP_RESOLVERS.
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  CANDIDATE: [
+    'candidate:create:own',
+    'candidate:read:own',
+    'candidate:update:own',
+    'candidate:delete:own',
+    'job:read:any',
+    'application:create:own',
+    'application:read:own',
+    'application:update:own',
+    'interview:read:own',
+    'file:create:own',
+    'file:read:own',
+    'file:update:own',
+    'dashboard:read:own',
+  ],
+  RECRUITER: [
+    'candidate:create:any',
+    'candidate:read:any',
+    'candidate:update:any',
+    'candidate:delete:any',
+    'candidate:merge:any',
+    'candidate:export:any',
+    'job:create:own',
+    'job:read:any',
+    'job:update:own',
+    'job:delete:own',
+    'job:assign:own',
+    'job:export:any',
+    'client:create:any',
+    'client:read:any',
+    'client:import:any',
+    'client:export:any',
+    'vendor:create:any',
+    'vendor:read:any',
+    'vendor:import:any',
+    'vendor:export:any',
+    'application:submit:own',
+    'application:read:own',
+    'application:update:own',
+    'application:export:own',
+    'interview:create:own',
+    'interview:read:own',
+    'interview:update:own',
+    'share:create:own',
+    'share:read:own',
+    'share:update:own',
+    'pool:create:any',
+    'pool:read:any',
+    'pool:update:own',
+    'pool:delete:own',
+    'file:create:own',
+    'file:read:any',
+    'file:update:any',
+    'dashboard:read:own',
+    'analytics:read:own',
+  ],
+  // Admins have no candidate or recruiter profile, so they get every "any" permission and no "own" ones
+  ADMIN: PERMISSIONS.filter(permission => permission.endsWith(':any')),
+}
+
+// Used in "not found" errors from ownership checks
+const RESOURCE_LABELS: Record<PermissionResource, string> = {
+  candidate: 'Candidate',
+  job: 'Job',
+  client: 'Client',
+  vendor: 'Vendor',
+  application: 'Job application',
+  interview: 'Interview',
+  share: 'Share link',
+  pool: 'Talent pool',
+  file: 'File',
+  dashboard: 'Dashboard',
+  analytics: 'Report',
+  user: 'User',
+  audit: 'Audit event',
+  inquiry: 'Inquiry',
+}
+
+// Whether the record belongs to the user, or null when it does not exist
+type OwnershipResolver = (id: string, user: JWTPayload) => Promise<boolean | null>
+
+const isObjectId = (id: string) => /^[0-9a-fA-F]{24}$/.test(id)
+
+const OWNERSHIP_RESOLVERS: Partial<Record<PermissionResource, OwnershipResolver>> = {
+  // Candidates own their profile; "me" is accepted wherever a candidate id is
+  candidate: async (id, user) => {
+    if (id !== 'me' && !isObjectId(id)) return null
+    const candidate = await prisma.candidate.findUnique({
+      where: id === 'me' ? { userId: user.userId } : { id },
+      select: { userId: true },
+    })
+    return candidate ? candidate.userId === user.userId : null
+  },
+
+  // Recruiters own the jobs assigned to them
+  job: async (id, user) => {
+    if (!isObjectId(id)) return null
+    const job = await prisma.job.findUnique({ where: { id }, select: { recruiterId: true } })
+    if (!job) return null
+    return !!job.recruiterId && job.recruiterId === await RecruiterUtils.getRecruiterId(user.userId)
+  },
+
+  // An application belongs to the applicant and to the recruiter who owns the job
+  application: async (id, user) => {
+    if (!isObjectId(id)) return null
+    const application = await prisma.jobApplication.findUnique({
+      where: { id },
+      select: { candidate: { select: { userId: true } }, job: { select: { recruiterId: true } } },
+    })
+    if (!application) return null
+    if (application.candidate.userId === user.userId) return true
+    return !!application.job.recruiterId && application.job.recruiterId === await RecruiterUtils.getRecruiterId(user.userId)
+  },
+
+  // An interview belongs to the candidate and to the recruiter running it
+  interview: async (id, user) => {
+    if (!isObjectId(id)) return null
+    const interview = await prisma.interview.findUnique({
+      where: { id },
+      select: { recruiterId: true, candidate: { select: { userId: true } } },
+    })
+    if (!interview) return null
+    if (interview.candidate.userId === user.userId) return true
+    return interview.recruiterId === await RecruiterUtils.getRecruiterId(user.userId)
+  },
+
+  // Share links belong to the recruiter who created them
+  share: async (id, user) => {
+    if (!isObjectId(id)) return null
+    const share = await prisma.candidateShare.findUnique({ where: { id }, select: { recruiterId: true } })
+    if (!share) return null
+    return share.recruiterId === await RecruiterUtils.getRecruiterId(user.userId)
+  },
+
+  // Talent pools belong to whoever created them
+  pool: async (id, user) => {
+    if (!isObjectId(id)) return null
+    const pool = await prisma.talentPool.findUnique({ where: { id }, select: { createdById: true } })
+    return pool ? pool.createdById === user.userId : null
+  },
+
+  // Files belong to whoever uploaded them
+  file: async (id, user) => {
+    if (!isObjectId(id)) return null
+    const file = await prisma.resumeFile.findUnique({ where: { id }, select: { uploadedBy: true } })
+    return file ? file.uploadedBy === user.userId : null
+  },
+}
+
+export type PermissionResult =
+  | { ok: true; scope: PermissionScope }
+  | { ok: false; status: 403 | 404; error: string }
+
+export class Permissions {
+  static has(role: string, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[role as UserRole]?.includes(permission) ?? false
+  }
+
+  // The widest scope the role holds for the action, or null when it holds neither
+  static scope(role: string, action: ResourceAction): PermissionScope | null {
+    if (this.has(role, `${action}:any` as Permission)) return 'any'
+    if (this.has(role, `${action}:own` as Permission)) return 'own'
+    return null
+  }
+
+  // A scoped permission must be held exactly. An unscoped one passes with "any", or with
+  // "own" when the user owns resourceId. Without a resourceId an "own" caller is let through
+  // and the route must limit what it returns to the user's own records.
+  static async check(user: JWTPayload, permission: Permission | ResourceAction, resourceId?: string): Promise<PermissionResult> {
+    const denied = { ok: false as const, status: 403 as const, error: 'Permission denied' }
+    const [resource, action, requiredScope] = permission.split(':') as [PermissionResource, string, PermissionScope?]
+
+    if (requiredScope) {
+      return this.has(user.role, permission as Permission) ? { ok: true, scope: requiredScope } : denied
+    }
+
+    const scope = this.scope(user.role, `${resource}:${action}` as ResourceAction)
+    if (!scope) return denied
+    if (scope === 'any' || !resourceId) return { ok: true, scope }
+
+    const resolver = OWNERSHIP_RESOLVERS[resource]
+    const owns = resolver ? await resolver(resourceId, user) : false
+    if (owns === null) {
+      return { ok: false, status: 404, error: `${RESOURCE_LABELS[resource]} not found` }
+    }
+    return owns ? { ok: true, scope } : denied
+  }
+}
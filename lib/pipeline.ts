@@ -0,0 +1,152 @@
+import { ApplicationStage, JobApplicationStatus } from '@prisma/client'
+import { JWTPayload } from '@/lib/auth'
+
+// Allowed moves between pipeline stages. REJECTED, WITHDRAWN and OFFER_ACCEPTED are terminal.
+export const STAGE_TRANSITIONS: Record<ApplicationStage, ApplicationStage[]> = {
+  APPLIED: ['SCREENING', 'REJECTED', 'WITHDRAWN'],
+  SCREENING: ['PHONE_INTERVIEW', 'TECHNICAL_INTERVIEW', 'REJECTED', 'WITHDRAWN'],
+  PHONE_INTERVIEW: ['TECHNICAL_INTERVIEW', 'FINAL_INTERVIEW', 'REJECTED', 'WITHDRAWN'],
+  TECHNICAL_INTERVIEW: ['FINAL_INTERVIEW', 'OFFER_EXTENDED', 'REJECTED', 'WITHDRAWN'],
+  FINAL_INTERVIEW: ['OFFER_EXTENDED', 'REJECTED', 'WITHDRAWN'],
+  OFFER_EXTENDED: ['OFFER_ACCEPTED', 'REJECTED', 'WITHDRAWN'],
+  OFFER_ACCEPTED: [],
+  REJECTED: [],
+  WITHDRAWN: [],
+}
+
+// Statuses that are consistent with each stage. The first entry is the default
+// status applied when an application moves into the stage.
+export const STAGE_STATUSES: Record<ApplicationStage, JobApplicationStatus[]> = {
+  APPLIED: ['APPLIED'],
+  SCREENING: ['UNDER_REVIEW', 'SHORTLISTED'],
+  PHONE_INTERVIEW: ['INTERVIEWED', 'SHORTLISTED'],
+  TECHNICAL_INTERVIEW: ['INTERVIEWED', 'SHORTLISTED'],
+  FINAL_INTERVIEW: ['INTERVIEWED', 'SHORTLISTED'],
+  OFFER_EXTENDED: ['SELECTED'],
+  OFFER_ACCEPTED: ['SELECTED'],
+  REJECTED: ['REJECTED'],
+  WITHDRAWN: ['WITHDRAWN'],
+}
+
+export type StageHistoryEntry = {
+  from: ApplicationStage | null
+  to: ApplicationStage
+  status: JobApplicationStatus
+  actor: {
+    userId: string
+    role: string
+  } | null
+  reason?: string
+  timestamp: string
+}
+
+export type TransitionResult =
+  | { valid: true; stage: ApplicationStage; status: JobApplicationStatus; changed: boolean }
+  | { valid: false; error: string }
+
+export class PipelineUtils {
+  static isTerminal(stage: ApplicationStage): boolean {
+    return STAGE_TRANSITIONS[stage].length === 0
+  }
+
+  static canTransition(from: ApplicationStage, to: ApplicationStage): boolean {
+    return STAGE_TRANSITIONS[from].includes(to)
+  }
+
+  // Work out the stage/status pair an update should produce, rejecting illegal jumps
+  static planTransition(
+    current: { currentStage: ApplicationStage; status: JobApplicationStatus },
+    requested: { currentStage?: ApplicationStage; status?: JobApplicationStatus }
+  ): TransitionResult {
+    let stage = requested.currentStage ?? current.currentStage
+
+    // A status change to REJECTED/WITHDRAWN on its own implies the matching stage
+    if (!requested.currentStage && requested.status && (requested.status === 'REJECTED' || requested.status === 'WITHDRAWN')) {
+      stage = requested.status
+    }
+
+    if (stage !== current.currentStage && !this.canTransition(current.currentStage, stage)) {
+      const allowed = STAGE_TRANSITIONS[current.currentStage]
+      return {
+        valid: false,
+        error: allowed.length > 0
+          ? `Cannot move application from ${current.currentStage} to ${stage}. Allowed: ${allowed.join(', ')}`
+          : `Application is in terminal stage ${current.currentStage}`,
+      }
+    }
+
+    const allowedStatuses = STAGE_STATUSES[stage]
+    let status: JobApplicationStatus
+    if (requested.status) {
+      if (!allowedStatuses.includes(requested.status)) {
+        return {
+          valid: false,
+          error: `Status ${requested.status} is not valid for stage ${stage}. Allowed: ${allowedStatuses.join(', ')}`,
+        }
+      }
+      status = requested.status
+    } else if (stage === current.currentStage && allowedStatuses.includes(current.status)) {
+      status = current.status
+    } else {
+      status = allowedStatuses[0]
+    }
+
+    return {
+      valid: true,
+      stage,
+      status,
+      changed: stage !== current.currentStage || status !== current.status,
+    }
+  }
+
+  static createHistoryEntry(
+    from: ApplicationStage | null,
+    to: ApplicationStage,
+    status: JobApplicationStatus,
+    actor: JWTPayload | null,
+    reason?: string
+  ): StageHistoryEntry {
+    return {
+      from,
+      to,
+      status,
+      actor: actor ? { userId: actor.userId, role: actor.role } : null,
+      ...(reason ? { reason } : {}),
+      timestamp: new Date().toISOString(),
+    }
+  }
+
+  // Read stored history, accepting both JSON strings and the legacy
+  // `{ stage, timestamp, notes }` shape written before transitions were tracked
+  static parseHistory(value: unknown): StageHistoryEntry[] {
+    let entries: unknown = value
+    if (typeof entries === 'string') {
+      try {
+        entries = JSON.parse(entries)
+      } catch {
+        return []
+      }
+    }
+
+    if (!Array.isArray(entries)) {
+      return []
+    }
+
+    return entries
+      .filter((entry): entry is Record<string, any> => !!entry && typeof entry === 'object')
+      .map(entry => {
+        if ('to' in entry) {
+          return entry as StageHistoryEntry
+        }
+        const stage = entry.stage as ApplicationStage
+        return {
+          from: null,
+          to: stage,
+          status: STAGE_STATUSES[stage]?.[0] ?? 'APPLIED',
+          actor: null,
+          ...(entry.notes ? { reason: entry.notes } : {}),
+          timestamp: entry.timestamp,
+        }
+      })
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { RangeParser } from '@/lib/ranges'
+
+describe('RangeParser.parseSalary', () => {
+  it('applies a unit written after the range to both bounds', () => {
+    assert.deepEqual(RangeParser.parseSalary('8-12 LPA'), { min: 800000, max: 1200000, currency: 'INR', period: 'ANNUAL' })
+    assert.deepEqual(RangeParser.parseSalary('1.5 to 2 cr'), { min: 15000000, max: 20000000, currency: 'INR', period: 'ANNUAL' })
+  })
+
+  it('reads open-ended ranges', () => {
+    assert.deepEqual(RangeParser.parseSalary('up to 6 LPA'), { min: null, max: 600000, currency: 'INR', period: 'ANNUAL' })
+    assert.deepEqual(RangeParser.parseSalary('₹15 lakh+'), { min: 1500000, max: null, currency: 'INR', period: 'ANNUAL' })
+  })
+
+  it('reads a single amount as both bounds', () => {
+    assert.deepEqual(RangeParser.parseSalary('10 LPA'), { min: 1000000, max: 1000000, currency: 'INR', period: 'ANNUAL' })
+  })
+
+  it('detects the currency and thousands', () => {
+    assert.deepEqual(RangeParser.parseSalary('$80k - $100k'), { min: 80000, max: 100000, currency: 'USD', period: 'ANNUAL' })
+    assert.deepEqual(RangeParser.parseSalary('£40k-50k'), { min: 40000, max: 50000, currency: 'GBP', period: 'ANNUAL' })
+  })
+
+  it('detects the pay period and ignores thousands separators', () => {
+    assert.deepEqual(RangeParser.parseSalary('50,000 per month'), { min: 50000, max: 50000, currency: 'INR', period: 'MONTHLY' })
+    assert.deepEqual(RangeParser.parseSalary('$40/hr'), { min: 40, max: 40, currency: 'USD', period: 'HOURLY' })
+  })
+
+  it('returns null when there is no amount', () => {
+    assert.equal(RangeParser.parseSalary('Negotiable'), null)
+    assert.equal(RangeParser.parseSalary('0'), null)
+    assert.equal(RangeParser.parseSalary(''), null)
+    assert.equal(RangeParser.parseSalary(null), null)
+  })
+})
+
+describe('RangeParser.parseExperience', () => {
+  it('reads ranges and open-ended bounds', () => {
+    assert.deepEqual(RangeParser.parseExperience('5+ years'), { min: 5, max: null })
+    assert.deepEqual(RangeParser.parseExperience('2-5 yrs'), { min: 2, max: 5 })
+    assert.deepEqual(RangeParser.parseExperience('up to 3 years'), { min: 0, max: 3 })
+    assert.deepEqual(RangeParser.parseExperience('4 years'), { min: 4, max: 4 })
+  })
+
+  it('converts months and reads freshers', () => {
+    assert.deepEqual(RangeParser.parseExperience('6 months'), { min: 0.5, max: 0.5 })
+    assert.deepEqual(RangeParser.parseExperience('Fresher'), { min: 0, max: 1 })
+  })
+
+  it('returns null when there is no figure', () => {
+    assert.equal(RangeParser.parseExperience('Relevant experience'), null)
+    assert.equal(RangeParser.parseExperience(undefined), null)
+  })
+})
+
+describe('RangeParser.parseNoticePeriod', () => {
+  it('reads the longest period in days', () => {
+    assert.equal(RangeParser.parseNoticePeriod('15-30 days'), 30)
+    assert.equal(RangeParser.parseNoticePeriod('2 months'), 60)
+    assert.equal(RangeParser.parseNoticePeriod('3 weeks'), 21)
+    assert.equal(RangeParser.parseNoticePeriod('Immediate'), 0)
+  })
+
+  it('reads a bare number as months up to 6 and days above', () => {
+    assert.equal(RangeParser.parseNoticePeriod('3'), 90)
+    assert.equal(RangeParser.parseNoticePeriod('45'), 45)
+    assert.equal(RangeParser.parseNoticePeriod('Negotiable'), null)
+  })
+})
+
+describe('RangeParser.toAnnual', () => {
+  it('scales monthly and hourly pay to a year', () => {
+    assert.equal(RangeParser.toAnnual(50000, 'MONTHLY'), 600000)
+    assert.equal(RangeParser.toAnnual(40, 'HOURLY'), 83200)
+    assert.equal(RangeParser.toAnnual(1200000, 'ANNUAL'), 1200000)
+  })
+})
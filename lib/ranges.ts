@@ -0,0 +1,140 @@
+import type { SalaryPeriod } from '@prisma/client'
+
+export interface SalaryRange {
+  min: number | null
+  max: number | null
+  currency: string
+  period: SalaryPeriod
+}
+
+export interface ExperienceRange {
+  min: number | null
+  max: number | null
+}
+
+const UNIT_MULTIPLIERS: Array<{ pattern: RegExp; multiplier: number }> = [
+  { pattern: /^(lpa|l|lakhs?|lacs?|lakh)$/, multiplier: 100000 },
+  { pattern: /^(cr|crores?)$/, multiplier: 10000000 },
+  { pattern: /^(k)$/, multiplier: 1000 },
+  { pattern: /^(m|mn|million)$/, multiplier: 1000000 },
+]
+
+const NUMBER_WITH_UNIT = /(\d+(?:\.\d+)?)\s*(lpa|lakhs?|lacs?|lakh|crores?|cr|million|mn|k|l|m)?\b/g
+
+const LOWER_BOUND_HINTS = /\+|above|over|min(imum)?|at\s*least|or\s*more/
+const UPPER_BOUND_HINTS = /up\s*to|upto|max(imum)?|below|under|less\s*than|within/
+
+const PERIOD_HOURS_PER_YEAR = 2080
+
+export class RangeParser {
+  // Parse free-text salaries such as "8-12 LPA", "₹15 lakh+", "$80k - $100k", "50,000 per month"
+  static parseSalary(input?: string | null): SalaryRange | null {
+    if (!input) return null
+    const text = input.toLowerCase().replace(/,/g, '').trim()
+
+    const currency = this.detectCurrency(text)
+    const period = this.detectPeriod(text)
+
+    const tokens: Array<{ value: number; unit?: string }> = []
+    for (const match of Array.from(text.matchAll(NUMBER_WITH_UNIT))) {
+      tokens.push({ value: parseFloat(match[1]), unit: match[2] })
+    }
+    if (tokens.length === 0) return null
+
+    // "8-12 LPA" puts the unit on the last number only, so it applies to all of them
+    const sharedUnit = [...tokens].reverse().find(token => token.unit)?.unit
+    const amounts = tokens.slice(0, 2).map(token => token.value * this.unitMultiplier(token.unit ?? sharedUnit))
+
+    if (amounts.every(amount => amount === 0)) return null
+
+    let min: number | null
+    let max: number | null
+    if (amounts.length === 2) {
+      min = Math.min(amounts[0], amounts[1])
+      max = Math.max(amounts[0], amounts[1])
+    } else if (UPPER_BOUND_HINTS.test(text)) {
+      min = null
+      max = amounts[0]
+    } else if (LOWER_BOUND_HINTS.test(text)) {
+      min = amounts[0]
+      max = null
+    } else {
+      min = amounts[0]
+      max = amounts[0]
+    }
+
+    return { min, max, currency, period }
+  }
+
+  // Parse free-text experience such as "5+ years", "2-5 yrs", "up to 3 years", "6 months", "Fresher"
+  static parseExperience(input?: string | null): ExperienceRange | null {
+    if (!input) return null
+    const text = input.toLowerCase().trim()
+
+    const numbers = Array.from(text.matchAll(/(\d+(?:\.\d+)?)/g)).map(match => parseFloat(match[1]))
+    if (numbers.length === 0) {
+      return /fresher|entry|no experience/.test(text) ? { min: 0, max: 1 } : null
+    }
+
+    // Ranges given only in months ("6 months") are converted to years
+    const inMonths = /month/.test(text) && !/year|yr/.test(text)
+    const years = numbers.slice(0, 2).map(value => (inMonths ? Math.round((value / 12) * 10) / 10 : value))
+
+    if (years.length === 2) {
+      return { min: Math.min(years[0], years[1]), max: Math.max(years[0], years[1]) }
+    }
+    if (UPPER_BOUND_HINTS.test(text)) {
+      return { min: 0, max: years[0] }
+    }
+    if (LOWER_BOUND_HINTS.test(text)) {
+      return { min: years[0], max: null }
+    }
+    return { min: years[0], max: years[0] }
+  }
+
+  // Parse a free-text notice period such as "30 days", "2 months", "15-30 days" or "Immediate" into
+  // the longest number of days it allows. A bare number is read as months up to 6, days above that.
+  static parseNoticePeriod(input?: string | null): number | null {
+    if (!input) return null
+    const text = input.toLowerCase().trim()
+    if (/immediate|^none$|^no notice|^0$/.test(text)) return 0
+
+    const numbers = Array.from(text.matchAll(/(\d+(?:\.\d+)?)/g)).map(match => parseFloat(match[1]))
+    if (numbers.length === 0) return null
+
+    const longest = Math.max(...numbers.slice(0, 2))
+    if (/month/.test(text)) return Math.round(longest * 30)
+    if (/week/.test(text)) return Math.round(longest * 7)
+    if (/day/.test(text)) return Math.round(longest)
+    return Math.round(longest <= 6 ? longest * 30 : longest)
+  }
+
+  static toAnnual(amount: number, period: SalaryPeriod): number {
+    switch (period) {
+      case 'MONTHLY':
+        return amount * 12
+      case 'HOURLY':
+        return amount * PERIOD_HOURS_PER_YEAR
+      default:
+        return amount
+    }
+  }
+
+  private static detectCurrency(text: string): string {
+    if (/\$|usd|dollar/.test(text)) return 'USD'
+    if (/€|eur/.test(text)) return 'EUR'
+    if (/£|gbp|pound/.test(text)) return 'GBP'
+    return 'INR'
+  }
+
+  private static detectPeriod(text: string): SalaryPeriod {
+    if (/per\s*month|\/\s*month|\bp\.?m\b|monthly|a\s*month/.test(text)) return 'MONTHLY'
+    if (/per\s*h(ou)?r|\/\s*h(ou)?r|hourly|an\s*hour/.test(text)) return 'HOURLY'
+    return 'ANNUAL'
+  }
+
+  private static unitMultiplier(unit?: string): number {
+    if (!unit) return 1
+    return UNIT_MULTIPLIERS.find(({ pattern }) => pattern.test(unit))?.multiplier ?? 1
+  }
+}
@@ -0,0 +1,12 @@
+import { prisma } from '@/lib/prisma'
+
+export class RecruiterUtils {
+  // JWTs carry the User id, while jobs and interviews reference the Recruiter profile id
+  static async getRecruiterId(userId: string): Promise<string | null> {
+    const recruiter = await prisma.recruiter.findUnique({
+      where: { userId },
+      select: { id: true },
+    })
+    return recruiter?.id ?? null
+  }
+}
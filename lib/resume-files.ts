@@ -0,0 +1,215 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import type { Prisma, ResumeFile, ResumeFileSource } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { FileUtils } from '@/lib/fileUtils'
+import { ResumeParsers, ResumeParserOutcome, ResumeParserName, ParsedResume } from '@/lib/resume-parser'
+
+// A PROCESSING row untouched for this long is assumed abandoned (e.g. the server
+// restarted mid-parse) and may be reprocessed
+const STALE_PROCESSING_MS = 10 * 60 * 1000
+
+export interface ResumeFileInput {
+  originalName: string
+  fileName: string
+  // Relative path under uploads/ for local files, public URL for Supabase uploads
+  filePath: string
+  mimeType: string
+  uploadedBy: string
+  source: ResumeFileSource
+  buffer: Buffer
+}
+
+export interface ResumeProcessOutcome {
+  file: ResumeFile
+  result: ResumeParserOutcome
+  // True when the parse was copied from an earlier upload of the same file
+  reused: boolean
+}
+
+export type ResumeReprocessResult =
+  | ({ ok: true } & ResumeProcessOutcome)
+  | { ok: false; status: 404 | 409 | 500; error: string }
+
+// Listing omits the large text/JSON columns; fetch a single file for those
+export const resumeFileListSelect = {
+  id: true,
+  originalName: true,
+  fileName: true,
+  filePath: true,
+  fileSize: true,
+  mimeType: true,
+  uploadedBy: true,
+  source: true,
+  checksum: true,
+  status: true,
+  parser: true,
+  error: true,
+  attempts: true,
+  createdAt: true,
+  updatedAt: true,
+} as const
+
+export class ResumeFileUtils {
+  static async record(input: ResumeFileInput): Promise<ResumeFile> {
+    return prisma.resumeFile.create({
+      data: {
+        originalName: input.originalName,
+        fileName: input.fileName,
+        filePath: input.filePath,
+        fileSize: input.buffer.length,
+        mimeType: input.mimeType,
+        uploadedBy: input.uploadedBy,
+        source: input.source,
+        checksum: FileUtils.checksum(input.buffer),
+        status: 'PROCESSING',
+      },
+    })
+  }
+
+  // Parse the file and store the outcome. Contents that the preferred parser already
+  // handled reuse that result instead of going back to the AI.
+  static async process(file: ResumeFile, buffer: Buffer): Promise<ResumeProcessOutcome> {
+    const previous = await this.findCompletedParse(file, ResumeParsers.preferred().name)
+    if (previous) {
+      const updated = await prisma.resumeFile.update({
+        where: { id: file.id },
+        data: {
+          status: 'COMPLETED',
+          extractedText: previous.extractedText,
+          parsedData: previous.parsedData as Prisma.InputJsonValue,
+          parser: previous.parser,
+          error: null,
+        },
+      })
+      return {
+        file: updated,
+        result: {
+          ok: true,
+          text: previous.extractedText,
+          data: previous.parsedData as ParsedResume,
+          parser: previous.parser as ResumeParserName,
+        },
+        reused: true,
+      }
+    }
+
+    let result: ResumeParserOutcome
+    try {
+      result = await ResumeParsers.parse(buffer, file.mimeType, file.originalName)
+    } catch (error) {
+      console.error('Resume parse error:', error)
+      result = {
+        ok: false,
+        reason: 'AI_ERROR',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        text: null,
+        parser: ResumeParsers.preferred().name,
+      }
+    }
+
+    const updated = await prisma.resumeFile.update({
+      where: { id: file.id },
+      data: result.ok
+        ? {
+          status: 'COMPLETED',
+          extractedText: result.text,
+          parsedData: result.data as Prisma.InputJsonValue,
+          parser: result.parser,
+          error: null,
+          attempts: { increment: 1 },
+        }
+        : {
+          status: 'FAILED',
+          extractedText: result.text,
+          error: result.error,
+          attempts: { increment: 1 },
+        },
+    })
+
+    // Candidates already pointing at this file pick up the new text for search
+    if (updated.extractedText) {
+      await prisma.candidate.updateMany({ where: { resumeUrl: updated.filePath }, data: { resumeText: updated.extractedText } })
+    }
+
+    return { file: updated, result, reused: false }
+  }
+
+  // Text of the latest upload stored at this URL, copied onto the candidate that links to it
+  static async textFor(resumeUrl?: string | null): Promise<string | null> {
+    if (!resumeUrl) return null
+    const file = await prisma.resumeFile.findFirst({
+      where: { filePath: resumeUrl, extractedText: { not: null } },
+      orderBy: { createdAt: 'desc' },
+      select: { extractedText: true },
+    })
+    return file?.extractedText ?? null
+  }
+
+  // Retry a failed (or abandoned) parse from the stored copy of the file
+  static async reprocess(id: string): Promise<ResumeReprocessResult> {
+    // Claim the row first so two retries of the same file cannot run at once
+    const { count } = await prisma.resumeFile.updateMany({
+      where: {
+        id,
+        OR: [
+          { status: 'FAILED' },
+          { status: 'PROCESSING', updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+        ],
+      },
+      data: { status: 'PROCESSING', error: null },
+    })
+
+    const file = await prisma.resumeFile.findUnique({ where: { id } })
+    if (!file) {
+      return { ok: false, status: 404, error: 'File not found' }
+    }
+    if (count === 0) {
+      return {
+        ok: false,
+        status: 409,
+        error: file.status === 'COMPLETED' ? 'File has already been processed' : 'File is already being processed',
+      }
+    }
+
+    let buffer: Buffer
+    try {
+      buffer = await this.readStoredFile(file.filePath)
+    } catch (error) {
+      console.error('Stored resume read error:', error)
+      await prisma.resumeFile.update({
+        where: { id },
+        data: { status: 'FAILED', error: 'Stored file could not be read' },
+      })
+      return { ok: false, status: 500, error: 'Stored file could not be read' }
+    }
+
+    // Rows recorded before checksums were stored pick one up on their first retry
+    const withChecksum = file.checksum
+      ? file
+      : await prisma.resumeFile.update({ where: { id }, data: { checksum: FileUtils.checksum(buffer) } })
+
+    return { ok: true, ...(await this.process(withChecksum, buffer)) }
+  }
+
+
+  static async readStoredFile(filePath: string): Promise<Buffer> {
+    if (/^https?:\/\//.test(filePath)) {
+      const response = await fetch(filePath)
+      if (!response.ok) {
+        throw new Error(`Download failed with status ${response.status}`)
+      }
+      return Buffer.from(await response.arrayBuffer())
+    }
+    return readFile(path.join(process.cwd(), filePath))
+  }
+
+  private static async findCompletedParse(file: ResumeFile, parser: ResumeParserName): Promise<ResumeFile | null> {
+    if (!file.checksum) return null
+    const previous = await prisma.resumeFile.findFirst({
+      where: { checksum: file.checksum, status: 'COMPLETED', parser, id: { not: file.id } },
+      orderBy: { updatedAt: 'desc' },
+    })
+    return previous?.parsedData ? previous : null
+  }
+}
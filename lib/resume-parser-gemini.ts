@@ -0,0 +1,280 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import type { ResumeParser, ResumeParseResult, ResumeParseFailure, ParsedResume } from '@/lib/resume-parser'
+import { ResumeText } from '@/lib/resume-text'
+
+const GEMINI_MODEL = 'gemini-1.5-flash'
+
+// Overloaded/rate-limited requests are retried with exponential backoff
+const MAX_AI_RETRIES = 3
+const AI_RETRY_BASE_DELAY_MS = 1000
+
+const RESUME_JSON_INSTRUCTIONS = `
+{
+  "name": "Full Name",
+  "email": "email@example.com",
+  "phone": "phone number",
+  "dob": "Date of birth in YYYY-MM-DD format. This is VERY important - carefully look for any DOB, Date of Birth, Birth Date, or text containing 'born on' in the resume. When found, convert to YYYY-MM-DD format (e.g., 1990-05-15). If not found, return null. Do not mistake other dates like graduation or job start dates for DOB.",
+  "location": {
+    "city": "City name only. Extract just the city from the address, without any house number, street, or zip code. Look for context clues like 'residing in', 'based in', etc.",
+    "state": "State or province name only. Extract just the state/province from the address.",
+    "country": "Country name only. Extract just the country from the address. Default to 'India' if a country isn't explicitly mentioned but the resume appears to be from India."
+  },
+  "contactDetails": {
+    "address": "address if available",
+    "linkedin": "linkedin url if available",
+    "github": "github url if available",
+    "website": "personal website if available",
+    "twitter": "twitter handle if available"
+  },
+  "socialLinks": ["array of social media links"],
+  "experience": [
+    {
+      "company": "Company Name",
+      "position": "Job Title",
+      "tenure": "Duration (e.g., Jan 2020 - Dec 2022)",
+      "startMonth": "Start month (e.g., January, Jan)",
+      "startYear": "Start year (e.g., 2020)",
+      "endMonth": "End month if available, or 'Present' if current job",
+      "endYear": "End year if available, or current year if current job",
+      "isCurrentJob": "true or false based on whether this is their current position",
+      "description": "Job description",
+      "skills": ["relevant skills used in this role - extract from job description"]
+    }
+  ],
+  "projects": [
+    {
+      "name": "Project Name",
+      "link": "project url if available",
+      "description": "project description",
+      "skills": ["technologies used"]
+    }
+  ],
+  "skills": [
+    "COMPREHENSIVE array of ALL skills - extract from EVERYWHERE in the resume:",
+    "1. TECHNICAL SKILLS (for tech professionals):",
+    "   - Programming languages, frameworks, libraries, tools",
+    "   - Databases, cloud platforms, DevOps tools",
+    "   - Software, IDEs, version control systems",
+    "2. PROFESSIONAL SKILLS (inferred from work experience):",
+    "   - If they 'led a team' → Team Leadership, People Management",
+    "   - If they 'managed projects' → Project Management, Planning",
+    "   - If they 'presented to clients' → Presentation Skills, Client Relations",
+    "   - If they 'analyzed data/reports' → Data Analysis, Analytical Thinking",
+    "   - If they 'coordinated with stakeholders' → Stakeholder Management",
+    "   - If they 'trained employees' → Training & Development, Mentoring",
+    "   - If they 'handled budgets' → Financial Management, Budget Planning",
+    "3. DOMAIN-SPECIFIC SKILLS (based on industry/role):",
+    "   - Marketing: Campaign Management, SEO, Social Media, Content Creation",
+    "   - Sales: Lead Generation, Customer Acquisition, Negotiation",
+    "   - Finance: Financial Analysis, Risk Assessment, Compliance",
+    "   - HR: Recruitment, Performance Management, Employee Relations",
+    "   - Operations: Process Optimization, Supply Chain, Quality Control",
+    "4. SOFT SKILLS (mentioned or clearly demonstrated):",
+    "   - Communication, Problem-solving, Critical Thinking",
+    "   - Collaboration, Adaptability, Time Management",
+    "   - Customer Service, Attention to Detail, Multi-tasking",
+    "5. TOOLS & SOFTWARE (any mentioned):",
+    "   - Microsoft Office, CRM systems, ERP software",
+    "   - Design tools, Analytics platforms, etc.",
+    "BE VERY COMPREHENSIVE - if someone worked in a role, they likely have the core skills for that role even if not explicitly stated"
+  ],
+  "education": [
+    {
+      "level": "Education level - classify exactly as one of: '10th', '12th', 'diploma', 'bachelor', 'master', 'phd', 'certificate'",
+      "institution": "School/University/College Name",
+      "degree": "Degree Name or Program Name",
+      "field": "Field of Study or Subject",
+      "year": "Graduation/Passing Year as a 4-digit number (e.g., 2020). Look for text like 'graduated', 'completed', 'class of', 'passed', etc.",
+      "startYear": "Start year of education if available",
+      "endYear": "End/graduation year if available",
+      "score": "GPA/Percentage/CGPA if mentioned",
+      "board": "For 10th/12th, extract the board name like CBSE, ICSE, State Board, etc."
+    }
+  ],
+  "secondaryEducation": {
+    "institution": "10th standard school name",
+    "board": "Board name for 10th standard (like CBSE, ICSE, State Board)",
+    "year": "Year of passing 10th standard",
+    "percentage": "Percentage or grade obtained in 10th"
+  },
+  "higherSecondaryEducation": {
+    "institution": "12th standard school/college name",
+    "board": "Board name for 12th standard",
+    "stream": "Stream in 12th (like Science, Commerce, Arts)",
+    "year": "Year of passing 12th standard",
+    "percentage": "Percentage or grade obtained in 12th"
+  },
+  "certifications": [
+    {
+      "name": "Certification Name",
+      "issuer": "Issuing Organization",
+      "date": "Date of Issue"
+    }
+  ],
+  "summary": "A long summary of the resume, including key achievements and career highlights, techniques used, and any notable contributions."
+}
+
+CRITICAL SKILL EXTRACTION INSTRUCTIONS:
+- Extract ALL skills comprehensively - both explicitly mentioned AND inferred from work experience
+- For TECHNICAL professionals: Include programming languages, frameworks, tools, databases, cloud platforms, methodologies (Agile, DevOps), system architecture, etc.
+- For NON-TECHNICAL professionals: Include soft skills, business skills, industry expertise, client management, sales, marketing, finance, operations, etc.
+- ANALYZE job descriptions for implied skills:
+  * "managed team" → Team Management, Leadership, People Management
+  * "client presentations" → Presentation Skills, Client Relations, Communication
+  * "analyzed reports" → Data Analysis, Critical Thinking, Report Writing
+  * "coordinated projects" → Project Coordination, Planning, Organization
+  * "handled budgets" → Financial Management, Budget Planning
+  * "trained staff" → Training & Development, Mentoring, Knowledge Transfer
+  * "increased sales" → Sales Skills, Business Development, Performance Optimization
+  * "social media campaigns" → Social Media Marketing, Digital Marketing, Content Creation
+- Include DOMAIN EXPERTISE based on job titles and industries
+- For each role, consider what skills are REQUIRED to perform those duties successfully
+- Aim for 20-40 comprehensive skills that truly represent their capabilities
+- Be thorough but relevant - quality over quantity, but don't miss obvious skills
+
+Return only the JSON object, no additional text or formatting.`
+
+export class GeminiResumeParser implements ResumeParser {
+  readonly name = 'gemini' as const
+
+  isAvailable(): boolean {
+    return !!process.env.NEXT_PUBLIC_GEMINI
+  }
+
+  async parse(buffer: Buffer, mimeType: string, fileName: string): Promise<ResumeParseResult> {
+    if (!this.isAvailable()) {
+      return { ok: false, reason: 'NOT_CONFIGURED', error: 'AI processing not configured. Please check API key configuration.', text: null }
+    }
+
+    const kind = ResumeText.kind(mimeType, fileName)
+    let prompt: string
+    let fileData: { inlineData: { data: string; mimeType: string } } | null = null
+    let text: string | null = null
+
+    if (kind === 'pdf' || kind === 'image') {
+      // PDFs and images go to Gemini as-is; the PDF text layer is only kept for the record
+      fileData = { inlineData: { data: buffer.toString('base64'), mimeType: kind === 'pdf' ? 'application/pdf' : mimeType } }
+      prompt = `Extract all information from this resume ${kind === 'pdf' ? 'PDF' : 'image'} and format it as JSON with the following structure:`
+      if (kind === 'pdf') {
+        text = await ResumeText.extractPdfText(buffer).catch(() => null)
+      }
+    } else if (kind === 'text') {
+      text = buffer.toString('utf-8')
+      prompt = `Extract all information from this resume text and format it as JSON with the following structure:\n\nResume content:\n${text}\n\n`
+    } else if (kind === 'word') {
+      try {
+        const extracted = await ResumeText.extractWordText(buffer)
+        text = extracted.text
+        prompt = `Extract all information from this resume document (${extracted.method} extraction from DOCX/DOC format) and format it as JSON with the following structure:\n\nResume content:\n${text}\n\n`
+      } catch (docError) {
+        console.error('Document parsing error:', docError)
+        return {
+          ok: false,
+          reason: 'UNREADABLE_DOCUMENT',
+          error: docError instanceof Error ? docError.message : 'Unknown error',
+          text: null,
+        }
+      }
+    } else {
+      return { ok: false, reason: 'UNSUPPORTED', error: 'Unsupported file type', text: null }
+    }
+
+    prompt += RESUME_JSON_INSTRUCTIONS
+
+    let responseText: string
+    try {
+      const model = new GoogleGenerativeAI(process.env.NEXT_PUBLIC_GEMINI!).getGenerativeModel({ model: GEMINI_MODEL })
+      const result = await this.generateWithRetry(() =>
+        fileData ? model.generateContent([prompt, fileData]) : model.generateContent(prompt)
+      )
+      responseText = result.response.text()
+    } catch (aiError) {
+      console.error('Gemini AI error details:', aiError)
+      return { ...this.classifyAiError(aiError), text }
+    }
+
+    // Log the raw AI response for debugging
+    console.log('Raw AI response length:', responseText.length)
+
+    const data = this.parseJsonResponse(responseText)
+    if (!data) {
+      return {
+        ok: false,
+        reason: 'INVALID_RESPONSE',
+        error: 'Failed to parse AI response',
+        text,
+        rawResponse: responseText.substring(0, 1000),
+      }
+    }
+
+    if (!data.skills || !Array.isArray(data.skills)) {
+      console.warn('Skills array missing or invalid, providing fallback')
+      data.skills = []
+    }
+
+    return { ok: true, text, data: data as ParsedResume }
+  }
+
+  private async generateWithRetry<T>(request: () => Promise<T>): Promise<T> {
+    for (let retryCount = 0; ; retryCount++) {
+      try {
+        return await request()
+      } catch (retryError) {
+        if (retryCount >= MAX_AI_RETRIES || !this.isRetryable(retryError)) {
+          throw retryError
+        }
+        const delay = AI_RETRY_BASE_DELAY_MS * Math.pow(2, retryCount)
+        console.log(`AI request failed, retrying in ${delay}ms... (attempt ${retryCount + 1}/${MAX_AI_RETRIES})`)
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  private isRetryable(error: unknown): boolean {
+    if (!(error instanceof Error)) return false
+    const message = error.message.toLowerCase()
+    return message.includes('overloaded')
+      || message.includes('503')
+      || message.includes('rate limit')
+      || message.includes('temporarily unavailable')
+  }
+
+  private classifyAiError(error: unknown): { ok: false; reason: ResumeParseFailure; error: string } {
+    const message = error instanceof Error ? error.message : 'Unknown AI error'
+    const lower = message.toLowerCase()
+
+    if (lower.includes('overloaded') || lower.includes('503')) {
+      return { ok: false, reason: 'OVERLOADED', error: message }
+    }
+    if (lower.includes('quota') || lower.includes('limit')) {
+      return { ok: false, reason: 'QUOTA_EXCEEDED', error: message }
+    }
+    if (lower.includes('api key') || lower.includes('unauthorized')) {
+      return { ok: false, reason: 'UNAUTHORIZED', error: message }
+    }
+    return { ok: false, reason: 'AI_ERROR', error: message }
+  }
+
+  // The model sometimes wraps the JSON in code fences or adds text around it
+  private parseJsonResponse(text: string): Record<string, any> | null {
+    const cleaned = text
+      .replace(/```json\n?|\n?```/g, '')
+      .replace(/^```[a-zA-Z]*\n?/, '')
+      .replace(/\n?```$/, '')
+      .trim()
+
+    try {
+      return JSON.parse(cleaned)
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      const jsonMatch = cleaned.match(/\{[\s\S]*\}/)
+      if (!jsonMatch) return null
+      try {
+        return JSON.parse(jsonMatch[0])
+      } catch (retryError) {
+        console.error('Retry parsing also failed:', retryError)
+        return null
+      }
+    }
+  }
+}
@@ -0,0 +1,339 @@
+import type { ResumeParser, ResumeParseResult, ParsedResume } from '@/lib/resume-parser'
+import { ResumeText } from '@/lib/resume-text'
+
+type Section = 'summary' | 'experience' | 'education' | 'skills' | 'projects' | 'certifications' | 'other'
+
+// Headings are matched against whole lines, so "Skills" matches but "Skills used at Acme" does not
+const SECTION_HEADINGS: Array<{ section: Section; pattern: RegExp }> = [
+  { section: 'summary', pattern: /^(professional |career )?(summary|profile|objective|about me)$/ },
+  { section: 'experience', pattern: /^(work |professional |employment )?(experience|history)$|^employment$|^work history$/ },
+  { section: 'education', pattern: /^(education|academic(s| qualifications?| details)?|educational qualifications?|qualifications?)$/ },
+  { section: 'skills', pattern: /^((technical|key|core|professional) )?(skills|competencies|expertise|technologies)( & tools)?$/ },
+  { section: 'projects', pattern: /^(academic |personal |key )?projects$/ },
+  { section: 'certifications', pattern: /^(certifications?|certificates|courses|trainings?)( & (courses|trainings?))?$/ },
+  { section: 'other', pattern: /^(languages|hobbies|interests|declaration|references|personal (details|information)|achievements|awards)$/ },
+]
+
+// Matched case-insensitively anywhere in the resume, in addition to the skills section itself
+const SKILL_DICTIONARY = [
+  'JavaScript', 'TypeScript', 'Python', 'Java', 'C++', 'C#', 'Go', 'Ruby', 'PHP', 'Kotlin', 'Swift', 'Scala', 'Rust',
+  'React', 'Angular', 'Vue', 'Next.js', 'Node.js', 'Express', 'Django', 'Flask', 'Spring Boot', 'Laravel', '.NET',
+  'HTML', 'CSS', 'Tailwind', 'Redux', 'GraphQL', 'REST', 'Microservices',
+  'SQL', 'MySQL', 'PostgreSQL', 'MongoDB', 'Redis', 'Oracle', 'Elasticsearch',
+  'AWS', 'Azure', 'GCP', 'Docker', 'Kubernetes', 'Terraform', 'Jenkins', 'CI/CD', 'Git', 'Linux',
+  'Machine Learning', 'Deep Learning', 'Data Analysis', 'Pandas', 'NumPy', 'TensorFlow', 'PyTorch', 'Power BI', 'Tableau',
+  'Excel', 'SAP', 'Salesforce', 'Tally', 'Figma', 'Photoshop', 'Selenium', 'JIRA', 'Agile', 'Scrum',
+  'Project Management', 'Team Leadership', 'Communication', 'Negotiation', 'Sales', 'Digital Marketing', 'SEO',
+  'Recruitment', 'Customer Service', 'Accounting', 'Financial Analysis',
+]
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const MONTH = '(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?'
+
+// "Jan 2020 - Present", "03/2019 – 06/2021", "2018 to 2020"
+const DATE_RANGE = new RegExp(
+  `(?:${MONTH}\\s*|(\\d{1,2})\\/)?((?:19|20)\\d{2})\\s*(?:-|–|—|to|till)\\s*(present|current|now|till date|(?:${MONTH}\\s*|(\\d{1,2})\\/)?((?:19|20)\\d{2}))`,
+  'i'
+)
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/
+const PHONE = /(?:\+?\d{1,3}[\s-]?)?(?:\(?\d{2,5}\)?[\s-]?)?\d{3,5}[\s-]?\d{4,5}/g
+const LINKEDIN = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/in\/[A-Za-z0-9_%-]+\/?/i
+const GITHUB = /(?:https?:\/\/)?(?:www\.)?github\.com\/[A-Za-z0-9_-]+\/?/i
+const LINK = /(?:https?:\/\/|www\.)[^\s,|]+/gi
+const DOB = /(?:d\.?\s?o\.?\s?b\.?|date of birth|birth date|born on)\s*[:\-]?\s*([^\n|]+)/i
+const LOCATION = /(?:location|address|based in|residing in|city)\s*[:\-]?\s*([A-Za-z .]+)(?:,\s*([A-Za-z .]+))?(?:,\s*([A-Za-z .]+))?/i
+
+// Degree keywords, most specific first, mapped to the education levels the AI parser uses
+const DEGREE_LEVELS: Array<{ level: string; pattern: RegExp }> = [
+  { level: 'phd', pattern: /\b(ph\.?\s?d|doctorate)\b/i },
+  { level: 'master', pattern: /\b(m\.?\s?tech|m\.?\s?e\b|m\.?\s?sc|m\.?\s?com|mca|mba|m\.?\s?a\b|master'?s?|post\s?graduat\w*|pgdm)/i },
+  { level: 'bachelor', pattern: /\b(b\.?\s?tech|b\.?\s?e\b|b\.?\s?sc|b\.?\s?com|bca|bba|b\.?\s?a\b|bachelor'?s?|graduat\w*)/i },
+  { level: 'diploma', pattern: /\bdiploma\b/i },
+  { level: '12th', pattern: /\b(12th|xii|hsc|higher secondary|intermediate|senior secondary)\b/i },
+  { level: '10th', pattern: /\b(10th|x\b|ssc|matriculation|secondary school)\b/i },
+  { level: 'certificate', pattern: /\bcertificat\w*\b/i },
+]
+
+const INSTITUTION = /\b(university|college|institute|school|academy|iit|nit|iiit|vidyalaya)\b/i
+
+// Offline parser built on regular expressions. It fills the same JSON shape as the AI
+// parser, but only with what can be read straight from the text, so fields are often empty.
+export class LocalResumeParser implements ResumeParser {
+  readonly name = 'local' as const
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async parse(buffer: Buffer, mimeType: string, fileName: string): Promise<ResumeParseResult> {
+    let extracted: { text: string; method: string } | null
+    try {
+      extracted = await ResumeText.extract(buffer, mimeType, fileName)
+    } catch (error) {
+      console.error('Local resume text extraction error:', error)
+      return {
+        ok: false,
+        reason: 'UNREADABLE_DOCUMENT',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        text: null,
+      }
+    }
+
+    if (!extracted) {
+      return { ok: false, reason: 'UNSUPPORTED', error: 'Unsupported file type', text: null }
+    }
+    if (extracted.text.trim().length < 10) {
+      return { ok: false, reason: 'UNREADABLE_DOCUMENT', error: 'No readable text found in the document', text: extracted.text }
+    }
+
+    return { ok: true, text: extracted.text, data: this.parseText(extracted.text) }
+  }
+
+  parseText(text: string): ParsedResume {
+    const lines = text
+      .split(/\r?\n/)
+      .map(line => line.replace(/^[\s•●▪■◦·*\-–]+/, '').replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+    const sections = this.splitSections(lines)
+
+    const linkedin = text.match(LINKEDIN)?.[0] ?? ''
+    const github = text.match(GITHUB)?.[0] ?? ''
+    const links = Array.from(new Set(text.match(LINK) ?? []))
+    const website = links.find(link => !/linkedin\.com|github\.com/i.test(link)) ?? ''
+
+    return {
+      name: this.findName(sections.header.length > 0 ? sections.header : lines),
+      email: text.match(EMAIL)?.[0] ?? '',
+      phone: this.findPhone(text),
+      dob: this.findDob(text),
+      location: this.findLocation(text),
+      contactDetails: {
+        address: '',
+        linkedin,
+        github,
+        website,
+        twitter: '',
+      },
+      socialLinks: [linkedin, github, ...links].filter((link, index, all) => link && all.indexOf(link) === index),
+      experience: this.parseExperience(sections.experience),
+      projects: this.parseProjects(sections.projects),
+      skills: this.findSkills(sections.skills, text),
+      education: this.parseEducation(sections.education),
+      certifications: sections.certifications.map(line => ({
+        name: line.replace(DATE_RANGE, '').replace(/\b(19|20)\d{2}\b/, '').replace(/[\s,|-]+$/, '').trim(),
+        issuer: '',
+        date: line.match(/\b(19|20)\d{2}\b/)?.[0] ?? '',
+      })),
+      summary: sections.summary.join(' '),
+    }
+  }
+
+  // Lines before the first heading are the header (name and contact details)
+  private splitSections(lines: string[]): Record<Section | 'header', string[]> {
+    const sections: Record<Section | 'header', string[]> = {
+      header: [], summary: [], experience: [], education: [], skills: [], projects: [], certifications: [], other: [],
+    }
+    let current: Section | 'header' = 'header'
+
+    for (const line of lines) {
+      const heading = line.toLowerCase().replace(/[:\s]+$/, '').trim()
+      const match = heading.length <= 40 ? SECTION_HEADINGS.find(({ pattern }) => pattern.test(heading)) : undefined
+      if (match) {
+        current = match.section
+        continue
+      }
+      sections[current].push(line)
+    }
+    return sections
+  }
+
+  private findName(lines: string[]): string {
+    const candidate = lines.slice(0, 8).find(line =>
+      !EMAIL.test(line)
+      && !/\d/.test(line)
+      && !/https?:|www\.|linkedin|github|resume|curriculum vitae|\bcv\b/i.test(line)
+      && /^[A-Za-z][A-Za-z .'-]+$/.test(line)
+      && line.split(' ').length >= 2
+      && line.split(' ').length <= 4
+    )
+    return candidate ?? ''
+  }
+
+  // Ten to thirteen digits, so years and pin codes are skipped
+  private findPhone(text: string): string {
+    const match = (text.match(PHONE) ?? []).find(value => {
+      const digits = value.replace(/\D/g, '')
+      return digits.length >= 10 && digits.length <= 13
+    })
+    return match?.trim() ?? ''
+  }
+
+  // Returned as YYYY-MM-DD; numeric dates are read day first
+  private findDob(text: string): string | null {
+    const value = text.match(DOB)?.[1]?.trim()
+    if (!value) return null
+
+    const numeric = value.match(/(\d{1,2})[\/.\-](\d{1,2})[\/.\-](\d{2,4})/)
+    if (numeric) {
+      const year = numeric[3].length === 2 ? `19${numeric[3]}` : numeric[3]
+      return `${year}-${numeric[2].padStart(2, '0')}-${numeric[1].padStart(2, '0')}`
+    }
+
+    const named = value.match(/(\d{1,2})?(?:st|nd|rd|th)?\s*([A-Za-z]{3,})\.?\s*(\d{1,2})?,?\s*((?:19|20)\d{2})/)
+    if (named) {
+      const month = MONTHS.indexOf(named[2].slice(0, 3).toLowerCase())
+      const day = named[1] ?? named[3]
+      if (month >= 0 && day) {
+        return `${named[4]}-${String(month + 1).padStart(2, '0')}-${day.padStart(2, '0')}`
+      }
+    }
+    return null
+  }
+
+  private findLocation(text: string): { city: string; state: string; country: string } {
+    const match = text.match(LOCATION)
+    const parts = match ? match.slice(1).map(part => (part ?? '').trim()).filter(Boolean) : []
+    return {
+      city: parts[0] ?? '',
+      state: parts.length > 2 ? parts[1] : parts.length === 2 && !/india/i.test(parts[1]) ? parts[1] : '',
+      country: parts.find(part => /india/i.test(part)) ?? (parts.length > 2 ? parts[2] : ''),
+    }
+  }
+
+  private findSkills(section: string[], text: string): string[] {
+    const skills = new Map<string, string>()
+    const add = (skill: string) => {
+      const cleaned = skill.replace(/^[^:]{1,30}:\s*/, '').trim()
+      if (cleaned.length >= 2 && cleaned.length <= 40 && !skills.has(cleaned.toLowerCase())) {
+        skills.set(cleaned.toLowerCase(), cleaned)
+      }
+    }
+
+    // "Languages: Java, Python" style lines keep the items, not the label
+    for (const line of section) {
+      line.replace(/^[^:]{1,30}:\s*/, '').split(/[,;|•\/]/).forEach(add)
+    }
+
+    for (const skill of SKILL_DICTIONARY) {
+      const escaped = skill.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      if (new RegExp(`(^|[^A-Za-z0-9])${escaped}(?![A-Za-z0-9])`, 'i').test(text)) {
+        add(skill)
+      }
+    }
+
+    return Array.from(skills.values())
+  }
+
+  // Each line with a date range starts a new role; the lines after it are its description
+  private parseExperience(lines: string[]) {
+    const roles: Array<{
+      company: string
+      position: string
+      tenure: string
+      startMonth: string
+      startYear: string
+      endMonth: string
+      endYear: string
+      isCurrentJob: boolean
+      description: string
+      skills: string[]
+    }> = []
+
+    lines.forEach((line, index) => {
+      const range = line.match(DATE_RANGE)
+      if (!range) {
+        if (roles.length > 0) {
+          const role = roles[roles.length - 1]
+          role.description = [role.description, line].filter(Boolean).join(' ')
+        }
+        return
+      }
+
+      const isCurrentJob = /present|current|now|till date/i.test(range[4])
+      const title = line.replace(range[0], '').replace(/[\s,|()\-–]+$/, '').replace(/^[\s,|()\-–]+/, '')
+      // The title may sit on the line above the dates
+      const heading = title || (index > 0 && !DATE_RANGE.test(lines[index - 1]) ? lines[index - 1] : '')
+      const [position, company] = heading.split(/\s+(?:at|@)\s+|\s*[|,–-]\s+/)
+
+      if (!title && heading && roles.length > 0) {
+        // That line was counted as the previous role's description; take it back
+        const previous = roles[roles.length - 1]
+        previous.description = previous.description.replace(new RegExp(`\\s*${heading.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`), '')
+      }
+
+      roles.push({
+        company: (company ?? '').trim(),
+        position: (position ?? '').trim(),
+        tenure: range[0].trim(),
+        startMonth: range[1] ?? range[2] ?? '',
+        startYear: range[3],
+        endMonth: isCurrentJob ? 'Present' : (range[5] ?? range[6] ?? ''),
+        endYear: isCurrentJob ? String(new Date().getFullYear()) : (range[7] ?? ''),
+        isCurrentJob,
+        description: '',
+        skills: [],
+      })
+    })
+
+    return roles
+  }
+
+  private parseEducation(lines: string[]) {
+    const entries: Array<{
+      level: string
+      institution: string
+      degree: string
+      field: string
+      year: string
+      startYear: string
+      endYear: string
+      score: string
+      board: string
+    }> = []
+
+    lines.forEach((line, index) => {
+      const level = DEGREE_LEVELS.find(({ pattern }) => pattern.test(line))?.level
+      if (!level) return
+
+      const nearby = [line, lines[index + 1] ?? '', lines[index - 1] ?? '']
+      const years: string[] = line.match(/\b(19|20)\d{2}\b/g) ?? nearby.join(' ').match(/\b(19|20)\d{2}\b/g) ?? []
+      // Only the comma/pipe separated part naming the institution, not the whole line
+      const institution = nearby
+        .flatMap(text => text.split(/\s*[,|]\s*/))
+        .find(part => INSTITUTION.test(part)) ?? ''
+      const field = line.match(/\b(?:in|of)\s+([A-Za-z &]+?)(?:\s*[,(|\-–]|\s+from\b|$)/i)?.[1] ?? ''
+      const score = line.match(/(\d{1,2}(?:\.\d{1,2})?\s*(?:%|cgpa|gpa)|(?:cgpa|gpa|percentage)\s*[:\-]?\s*\d{1,2}(?:\.\d{1,2})?)/i)?.[0] ?? ''
+      const board = line.match(/\b(cbse|icse|state board|[A-Z]{2,}SE)\b/)?.[0] ?? ''
+
+      entries.push({
+        level,
+        institution: institution.replace(/\b(19|20)\d{2}\b.*$/, '').replace(/[\s,|\-–]+$/, ''),
+        degree: line.split(/[,|(]/)[0].replace(/\b(19|20)\d{2}\b.*$/, '').trim(),
+        field: field.trim(),
+        year: years.length > 0 ? years[years.length - 1] : '',
+        startYear: years.length > 1 ? years[0] : '',
+        endYear: years.length > 0 ? years[years.length - 1] : '',
+        score: score.trim(),
+        board,
+      })
+    })
+
+    return entries
+  }
+
+  // A short line without sentence punctuation starts a project; longer lines describe it
+  private parseProjects(lines: string[]) {
+    const projects: Array<{ name: string; link: string; description: string; skills: string[] }> = []
+    for (const line of lines) {
+      const isTitle = line.length <= 60 && !/[.;]$/.test(line)
+      if (isTitle || projects.length === 0) {
+        projects.push({ name: line, link: line.match(LINK)?.[0] ?? '', description: '', skills: [] })
+      } else {
+        const project = projects[projects.length - 1]
+        project.description = [project.description, line].filter(Boolean).join(' ')
+      }
+    }
+    return projects
+  }
+}
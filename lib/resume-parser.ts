@@ -0,0 +1,82 @@
+import { GeminiResumeParser } from '@/lib/resume-parser-gemini'
+import { LocalResumeParser } from '@/lib/resume-parser-local'
+
+export type ResumeParserName = 'gemini' | 'local'
+
+export type ResumeParseFailure =
+  | 'UNSUPPORTED'
+  | 'NOT_CONFIGURED'
+  | 'UNREADABLE_DOCUMENT'
+  | 'INVALID_RESPONSE'
+  | 'OVERLOADED'
+  | 'QUOTA_EXCEEDED'
+  | 'UNAUTHORIZED'
+  | 'AI_ERROR'
+
+// Shape requested from the AI; every field is optional because the model may leave things out
+export type ParsedResume = Record<string, any> & { skills: unknown[] }
+
+// text is the plain text read from the file, when the parser had to read it
+export type ResumeParseResult =
+  | { ok: true; text: string | null; data: ParsedResume }
+  | { ok: false; reason: ResumeParseFailure; error: string; text: string | null; rawResponse?: string }
+
+export interface ResumeParser {
+  readonly name: ResumeParserName
+  // Whether the parser can run here at all, e.g. an API key is configured
+  isAvailable(): boolean
+  parse(buffer: Buffer, mimeType: string, fileName: string): Promise<ResumeParseResult>
+}
+
+// Which parser produced the result, and the failure it fell back from if any
+export type ResumeParserOutcome = ResumeParseResult & {
+  parser: ResumeParserName
+  fallbackFrom?: { parser: ResumeParserName; reason: ResumeParseFailure; error: string }
+}
+
+const PARSERS: Record<ResumeParserName, ResumeParser> = {
+  gemini: new GeminiResumeParser(),
+  local: new LocalResumeParser(),
+}
+
+// RESUME_PARSER picks the preferred parser. Without it Gemini is preferred when an API key is
+// configured. Set RESUME_PARSER_FALLBACK=false to stop falling back to the other parser.
+export class ResumeParsers {
+  static order(): ResumeParser[] {
+    const configured = process.env.RESUME_PARSER?.toLowerCase()
+    let preferred: ResumeParserName = 'gemini'
+    if (configured === 'gemini' || configured === 'local') {
+      preferred = configured
+    } else if (configured) {
+      console.warn(`Unknown RESUME_PARSER "${process.env.RESUME_PARSER}", using the default order`)
+    }
+
+    const fallback = process.env.RESUME_PARSER_FALLBACK !== 'false'
+    const names = (Object.keys(PARSERS) as ResumeParserName[]).filter(name => name !== preferred)
+    const parsers = [PARSERS[preferred], ...(fallback ? names.map(name => PARSERS[name]) : [])]
+
+    // An unavailable preferred parser is only skipped when fallback is allowed
+    const available = parsers.filter(parser => parser.isAvailable())
+    return available.length > 0 ? available : [PARSERS[preferred]]
+  }
+
+  static preferred(): ResumeParser {
+    return this.order()[0]
+  }
+
+  // Try each parser in order until one succeeds. A file type nobody supports is not retried.
+  static async parse(buffer: Buffer, mimeType: string, fileName: string): Promise<ResumeParserOutcome> {
+    const [first, ...rest] = this.order()
+    let outcome: ResumeParserOutcome = { ...(await first.parse(buffer, mimeType, fileName)), parser: first.name }
+
+    for (const parser of rest) {
+      if (outcome.ok || outcome.reason === 'UNSUPPORTED') break
+
+      console.warn(`${outcome.parser} resume parser failed (${outcome.reason}), falling back to ${parser.name}`)
+      const fallbackFrom = { parser: outcome.parser, reason: outcome.reason, error: outcome.error }
+      outcome = { ...(await parser.parse(buffer, mimeType, fileName)), parser: parser.name, fallbackFrom }
+    }
+
+    return outcome
+  }
+}
@@ -0,0 +1,143 @@
+import mammoth from 'mammoth'
+import pdfParse from 'pdf-parse'
+import { createWorker } from 'tesseract.js'
+
+const WORD_MIME_TYPES = [
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+]
+
+export type ResumeFileKind = 'pdf' | 'image' | 'text' | 'word'
+
+// Plain-text extraction shared by the resume parsers
+export class ResumeText {
+  static kind(mimeType: string, fileName: string): ResumeFileKind | null {
+    const extension = fileName.toLowerCase().split('.').pop()
+    if (mimeType === 'application/pdf' || extension === 'pdf') return 'pdf'
+    if (mimeType.startsWith('image/')) return 'image'
+    if (mimeType === 'text/plain' || extension === 'txt') return 'text'
+    if (WORD_MIME_TYPES.includes(mimeType) || extension === 'doc' || extension === 'docx') return 'word'
+    return null
+  }
+
+  // Returns null for file types we cannot read; throws when a supported file has no usable text
+  static async extract(buffer: Buffer, mimeType: string, fileName: string): Promise<{ text: string; method: string } | null> {
+    switch (this.kind(mimeType, fileName)) {
+      case 'text':
+        return { text: buffer.toString('utf-8'), method: 'plain-text' }
+      case 'word':
+        return this.extractWordText(buffer)
+      case 'pdf':
+        return { text: await this.extractPdfText(buffer), method: 'pdf-text' }
+      case 'image':
+        return { text: await this.extractImageText(buffer), method: 'ocr' }
+      default:
+        return null
+    }
+  }
+
+  static async extractPdfText(buffer: Buffer): Promise<string> {
+    const result = await pdfParse(buffer)
+    return result.text.trim()
+  }
+
+  static async extractImageText(buffer: Buffer): Promise<string> {
+    const worker = await createWorker('eng')
+    try {
+      const { data: { text } } = await worker.recognize(buffer)
+      return text.trim()
+    } finally {
+      await worker.terminate()
+    }
+  }
+
+  // Pull plain text out of a Word document, trying progressively cruder methods
+  static async extractWordText(buffer: Buffer): Promise<{ text: string; method: string }> {
+    let textContent = ''
+    let extractionMethod = 'unknown'
+
+    try {
+      const textResult = await mammoth.extractRawText({ buffer })
+      textContent = textResult.value
+      extractionMethod = 'raw-text'
+    } catch (rawTextError) {
+      console.warn('Raw text extraction failed:', rawTextError)
+    }
+
+    // If raw text extraction failed or produced insufficient content, try HTML method
+    if (textContent.length < 50) {
+      try {
+        const htmlResult = await mammoth.convertToHtml({ buffer })
+        textContent = this.htmlToText(htmlResult.value)
+        extractionMethod = 'html-fallback'
+      } catch (htmlError) {
+        console.warn('HTML extraction also failed:', htmlError)
+      }
+    }
+
+    if (textContent.length < 20) {
+      // Try one more approach - read as plain text (for very simple docs)
+      const plainText = buffer.toString('utf-8')
+      if (plainText.length > textContent.length) {
+        textContent = plainText
+          .replace(/[^\x20-\x7E\n\r\t]/g, ' ') // Remove non-printable chars
+          .replace(/\s+/g, ' ')
+          .trim()
+        extractionMethod = 'plain-text-fallback'
+      }
+    }
+
+    console.log(`Final extracted text (${extractionMethod}): ${textContent.length} characters`)
+
+    if (textContent.length < 10) {
+      throw new Error('Document appears to be empty or completely unreadable. Please try saving the document in a different format (PDF recommended) or ensure the document contains readable text.')
+    }
+
+    // Check for garbled text (lots of special characters)
+    const specialCharRatio = (textContent.match(/[^\w\s.,!?@()-]/g) || []).length / textContent.length
+    if (specialCharRatio > 0.5 && textContent.length < 100) {
+      throw new Error('Document content appears to be corrupted or in an unsupported encoding. Please try converting to PDF format.')
+    }
+
+    return { text: textContent, method: extractionMethod }
+  }
+
+  // Enhanced HTML to text conversion with better table handling
+  private static htmlToText(html: string): string {
+    return html
+      .replace(/<table[^>]*>/g, '\n--- TABLE START ---\n')
+      .replace(/<\/table>/g, '\n--- TABLE END ---\n')
+      .replace(/<tr[^>]*>/g, '\n')
+      .replace(/<\/tr>/g, '')
+      .replace(/<td[^>]*>/g, ' | ')
+      .replace(/<\/td>/g, '')
+      .replace(/<th[^>]*>/g, ' | ')
+      .replace(/<\/th>/g, '')
+      .replace(/<p[^>]*>/g, '\n')
+      .replace(/<\/p>/g, '')
+      .replace(/<br[^>]*\/?>|<br>/g, '\n')
+      .replace(/<div[^>]*>/g, '\n')
+      .replace(/<\/div>/g, '')
+      .replace(/<h[1-6][^>]*>/g, '\n### ')
+      .replace(/<\/h[1-6]>/g, ' ###\n')
+      .replace(/<li[^>]*>/g, '\n- ')
+      .replace(/<\/li>/g, '')
+      .replace(/<ul[^>]*>|<\/ul>|<ol[^>]*>|<\/ol>/g, '\n')
+      .replace(/<strong[^>]*>|<\/strong>|<b[^>]*>|<\/b>/g, '')
+      .replace(/<em[^>]*>|<\/em>|<i[^>]*>|<\/i>/g, '')
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&apos;/g, "'")
+      .replace(/\|\s*\|/g, '|')
+      .replace(/\s*\|\s*/g, ' | ')
+      .replace(/\n\s*\n\s*\n/g, '\n\n')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n +/g, '\n')
+      .trim()
+  }
+}
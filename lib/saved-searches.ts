@@ -0,0 +1,132 @@
+import type { SavedSearch } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ListFilters } from '@/lib/list-filters'
+import { CandidateSearch } from '@/lib/candidate-search'
+import { Notifications, EmitOptions } from '@/lib/notifications'
+
+type SearchCriteria = Pick<SavedSearch, 'query' | 'filters'>
+
+export interface DigestRunResult {
+  searches: number
+  candidates: number
+}
+
+export class SavedSearches {
+  // The GET /api/candidates query params the saved search stands for
+  static params(search: SearchCriteria): Record<string, string> {
+    const params: Record<string, string> = {}
+    if (search.query) {
+      params.query = search.query
+    }
+    const filters = (search.filters ?? {}) as Record<string, unknown>
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== null && value !== '') {
+        params[key] = String(value)
+      }
+    }
+    return params
+  }
+
+  // Whether the candidate would be listed by GET /api/candidates with the search's params
+  static async matches(search: SearchCriteria, candidateId: string): Promise<boolean> {
+    const filter = ListFilters.candidates(this.params(search))
+    const where = { AND: [filter.where, { id: candidateId }] }
+    if (filter.search) {
+      return CandidateSearch.matches(filter.search, where)
+    }
+    return (await prisma.candidate.count({ where })) > 0
+  }
+
+  // Called once a new candidate is saved, or gets the resume that makes them searchable. Queues
+  // them for the digest of every saved search they match; INSTANT searches send straight away.
+  // Candidates created before a search was saved are not new to it. Routes run it with after()
+  // so the response does not wait for it, and failures are only logged.
+  static async candidateAdded(candidateId: string, options: EmitOptions = {}): Promise<void> {
+    try {
+      const candidate = await prisma.candidate.findUnique({ where: { id: candidateId }, select: { createdAt: true } })
+      if (!candidate) return
+
+      const searches = await prisma.savedSearch.findMany({
+        where: { alertFrequency: { not: 'OFF' }, createdAt: { lte: candidate.createdAt } },
+      })
+      if (searches.length === 0) return
+
+      const existing = await prisma.savedSearchMatch.findMany({
+        where: { candidateId, savedSearchId: { in: searches.map(search => search.id) } },
+        select: { savedSearchId: true },
+      })
+      const alreadyMatched = new Set(existing.map(match => match.savedSearchId))
+
+      // Recruiters often save the same criteria, which only need checking once
+      const results = new Map<string, Promise<boolean>>()
+      for (const search of searches) {
+        if (alreadyMatched.has(search.id)) continue
+        try {
+          const criteria = JSON.stringify(Object.entries(this.params(search)).sort())
+          if (!results.has(criteria)) {
+            results.set(criteria, this.matches(search, candidateId))
+          }
+          if (!(await results.get(criteria))) continue
+
+          await prisma.savedSearchMatch.create({ data: { savedSearchId: search.id, candidateId } })
+          if (search.alertFrequency === 'INSTANT') {
+            await this.sendDigest(search.id, options)
+          }
+        } catch (error) {
+          console.error(`Saved search ${search.id} alert error:`, error)
+        }
+      }
+    } catch (error) {
+      console.error('Saved search alert error:', error)
+    }
+  }
+
+  // One notification listing the matches of a search that have not been sent yet.
+  // Returns how many candidates it announced.
+  static async sendDigest(savedSearchId: string, options: EmitOptions = {}): Promise<number> {
+    const pending = await prisma.savedSearchMatch.findMany({
+      where: { savedSearchId, notifiedAt: null },
+      select: { id: true, candidateId: true },
+      orderBy: { matchedAt: 'asc' },
+    })
+    if (pending.length === 0) return 0
+
+    // Marked before sending so an overlapping run does not announce the same candidates again
+    const now = new Date()
+    await prisma.savedSearchMatch.updateMany({
+      where: { id: { in: pending.map(match => match.id) }, notifiedAt: null },
+      data: { notifiedAt: now },
+    })
+    await prisma.savedSearch.update({ where: { id: savedSearchId }, data: { lastDigestAt: now } })
+
+    await Notifications.emit(
+      { type: 'SAVED_SEARCH_DIGEST', savedSearchId, candidateIds: pending.map(match => match.candidateId) },
+      options
+    )
+    return pending.length
+  }
+
+  // Sends every search's waiting matches; meant to run once a day. INSTANT searches are
+  // included so a match whose instant alert failed still goes out.
+  static async sendDigests(options: EmitOptions = {}): Promise<DigestRunResult> {
+    const pending = await prisma.savedSearchMatch.findMany({
+      where: { notifiedAt: null, savedSearch: { alertFrequency: { not: 'OFF' } } },
+      select: { savedSearchId: true },
+    })
+    const searchIds = Array.from(new Set(pending.map(match => match.savedSearchId)))
+
+    const result: DigestRunResult = { searches: 0, candidates: 0 }
+    for (const savedSearchId of searchIds) {
+      try {
+        const sent = await this.sendDigest(savedSearchId, options)
+        if (sent > 0) {
+          result.searches++
+          result.candidates += sent
+        }
+      } catch (error) {
+        console.error(`Saved search ${savedSearchId} digest error:`, error)
+      }
+    }
+    return result
+  }
+}
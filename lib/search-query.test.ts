@@ -0,0 +1,114 @@
+import { after, afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { prisma } from '@/lib/prisma'
+import { SearchQuery } from '@/lib/search-query'
+import { LocalCandidateSearch } from '@/lib/candidate-search-local'
+
+const formatted = (query: string) => {
+  const node = SearchQuery.parse(query)
+  return node && SearchQuery.format(node)
+}
+
+describe('SearchQuery.parse', () => {
+  it('ANDs adjacent words and binds AND tighter than OR', () => {
+    assert.equal(formatted('react AND (node OR go) NOT php'), 'react AND (node OR go) AND NOT php')
+    assert.equal(formatted('react node OR go'), '(react AND node) OR go')
+    assert.equal(formatted('react OR node go'), 'react OR (node AND go)')
+  })
+
+  it('builds the tree the query describes', () => {
+    assert.deepEqual(SearchQuery.parse('react AND (node OR go) NOT php'), {
+      type: 'and',
+      nodes: [
+        { type: 'term', value: 'react' },
+        { type: 'or', nodes: [{ type: 'term', value: 'node' }, { type: 'term', value: 'go' }] },
+        { type: 'not', node: { type: 'term', value: 'php' } },
+      ],
+    })
+  })
+
+  it('closes unbalanced brackets and quotes, and skips stray ones', () => {
+    assert.equal(formatted('(react OR (node'), 'react OR node')
+    assert.equal(formatted('react) go'), 'react AND go')
+    assert.equal(formatted('"machine learning'), '"machine learning"')
+  })
+
+  it('keeps quoted words together as a phrase', () => {
+    assert.deepEqual(SearchQuery.parse('"Machine Learning"'), { type: 'phrase', value: 'machine learning' })
+    assert.equal(formatted('"machine learning" python'), '"machine learning" AND python')
+  })
+
+  it('reads -word as NOT word, but not a dash on its own', () => {
+    assert.equal(formatted('"machine learning" -intern'), '"machine learning" AND NOT intern')
+    assert.equal(formatted('java - spring'), 'java AND spring')
+  })
+
+  it('returns null for queries that only exclude or have nothing to search', () => {
+    assert.equal(SearchQuery.parse('NOT php'), null)
+    assert.equal(SearchQuery.parse('-php'), null)
+    assert.equal(SearchQuery.parse('OR AND'), null)
+    assert.equal(SearchQuery.parse(''), null)
+  })
+
+  it('treats lower-case operators as words and keeps skill punctuation', () => {
+    assert.equal(formatted('java or python'), 'java AND or AND python')
+    assert.equal(formatted('C++ node.js.'), 'c++ AND node.js')
+  })
+})
+
+describe('LocalCandidateSearch', () => {
+  const engine = new LocalCandidateSearch()
+  const candidates = [
+    { id: 'a', createdAt: new Date('2026-01-01'), firstName: 'Asha', jobTitle: 'Backend Developer', skills: ['Node.js', 'React'], profileSummary: 'Builds APIs in node.js' },
+    { id: 'b', createdAt: new Date('2026-01-02'), firstName: 'Ben', jobTitle: 'Frontend Developer', skills: ['React'], profileSummary: 'React and PHP' },
+    { id: 'c', createdAt: new Date('2026-01-03'), firstName: 'Chen', jobTitle: 'Go Developer', skills: ['Go', 'React'], profileSummary: null },
+    { id: 'd', createdAt: new Date('2026-01-04'), firstName: 'Dev', jobTitle: 'Designer', skills: ['Figma'], profileSummary: null },
+  ]
+
+  // The model delegate is a proxy, so it is swapped out whole and put back after each test
+  const original = Object.getOwnPropertyDescriptor(prisma, 'candidate')!
+  afterEach(() => Object.defineProperty(prisma, 'candidate', original))
+  after(() => prisma.$disconnect())
+
+  const search = (query: string | null, skills: string | null = null) => {
+    Object.defineProperty(prisma, 'candidate', {
+      value: { findMany: async () => candidates },
+      configurable: true,
+      writable: true,
+    })
+    return engine.search(
+      { query: query ? SearchQuery.parse(query) : null, skills: skills ? SearchQuery.parse(skills) : null },
+      {}
+    )
+  }
+
+  it('keeps the candidates the boolean query matches', async () => {
+    const hits = await search('react AND (node.js OR go) NOT php')
+    assert.deepEqual(hits.map(hit => hit.id).sort(), ['a', 'c'])
+  })
+
+  it('ranks candidates by how much of the query they match', async () => {
+    const hits = await search('node.js react')
+    assert.deepEqual(hits.map(hit => hit.id), ['a'])
+
+    // b also mentions React in its summary; a and c tie, so the newer profile comes first
+    const ranked = await search('react OR developer')
+    assert.deepEqual(ranked.map(hit => hit.id), ['b', 'c', 'a'])
+    assert.ok(ranked[0].score > ranked[1].score)
+    assert.equal(ranked[1].score, ranked[2].score)
+  })
+
+  it('matches skills only against the skills field', async () => {
+    const hits = await search(null, 'php')
+    assert.deepEqual(hits, [])
+  })
+
+  it('marks the matched words in each highlighted field, best field first', async () => {
+    const [hit] = await search('node.js')
+    assert.deepEqual(hit.highlights.map(highlight => highlight.field), ['skills', 'summary'])
+    assert.deepEqual(hit.highlights[1].texts, [
+      { value: 'Builds APIs in ', hit: false },
+      { value: 'node.js', hit: true },
+    ])
+  })
+})
@@ -0,0 +1,188 @@
+// Boolean search queries such as `react AND (node OR go) NOT php` or `"machine learning" -intern`.
+// Words next to each other are ANDed, AND/OR/NOT must be upper case, and `-word` is NOT word.
+export type SearchNode =
+  | { type: 'term'; value: string }
+  | { type: 'phrase'; value: string }
+  | { type: 'and'; nodes: SearchNode[] }
+  | { type: 'or'; nodes: SearchNode[] }
+  | { type: 'not'; node: SearchNode }
+
+// A word of a document or query and where it sits in the original text
+export interface SearchWord {
+  value: string
+  start: number
+  end: number
+}
+
+type Token =
+  | { kind: 'word'; value: string }
+  | { kind: 'phrase'; value: string }
+  | { kind: 'open' | 'close' | 'and' | 'or' | 'not' }
+
+const OPERATORS: Record<string, 'and' | 'or' | 'not'> = { AND: 'and', OR: 'or', NOT: 'not' }
+
+// Letters and digits, keeping the punctuation that is part of skill names (c++, c#, node.js)
+const WORD_PATTERN = /[a-z0-9À-ɏ][a-z0-9À-ɏ+#.]*/
+
+export class SearchQuery {
+  // Lower-cased words of a piece of text, the same way for documents and queries
+  static words(text: string): SearchWord[] {
+    const found: SearchWord[] = []
+    const pattern = new RegExp(WORD_PATTERN.source, 'g')
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text.toLowerCase()))) {
+      // A trailing full stop ends the sentence rather than the word
+      const value = match[0].replace(/\.+$/, '')
+      if (value) found.push({ value, start: match.index, end: match.index + value.length })
+    }
+    return found
+  }
+
+  static tokenize(text: string): string[] {
+    return this.words(text).map(word => word.value)
+  }
+
+  // Never throws: unbalanced brackets and quotes are closed at the end, and stray operators are dropped.
+  // Returns null when nothing searchable is left.
+  static parse(input: string): SearchNode | null {
+    const tokens = this.lex(input)
+    let position = 0
+
+    const peek = () => tokens[position]
+
+    const parseOr = (): SearchNode | null => {
+      const nodes: SearchNode[] = []
+      const first = parseAnd()
+      if (first) nodes.push(first)
+      while (peek()?.kind === 'or') {
+        position++
+        const next = parseAnd()
+        if (next) nodes.push(next)
+      }
+      return combine('or', nodes)
+    }
+
+    const parseAnd = (): SearchNode | null => {
+      const nodes: SearchNode[] = []
+      while (position < tokens.length) {
+        const token = peek()
+        if (token.kind === 'or' || token.kind === 'close') break
+        if (token.kind === 'and') {
+          position++
+          continue
+        }
+        const node = parseUnary()
+        if (node) nodes.push(node)
+      }
+      return combine('and', nodes)
+    }
+
+    const parseUnary = (): SearchNode | null => {
+      const token = tokens[position++]
+      if (token.kind === 'not') {
+        const node = position < tokens.length && !['or', 'close'].includes(peek().kind) ? parseUnary() : null
+        return node ? { type: 'not', node } : null
+      }
+      if (token.kind === 'open') {
+        const node = parseOr()
+        if (peek()?.kind === 'close') position++
+        return node
+      }
+      if (token.kind === 'word' || token.kind === 'phrase') {
+        const words = this.tokenize(token.value)
+        if (words.length === 0) return null
+        return words.length === 1 && token.kind === 'word'
+          ? { type: 'term', value: words[0] }
+          : { type: 'phrase', value: words.join(' ') }
+      }
+      return null
+    }
+
+    const combine = (type: 'and' | 'or', nodes: SearchNode[]): SearchNode | null => {
+      if (nodes.length === 0) return null
+      return nodes.length === 1 ? nodes[0] : { type, nodes }
+    }
+
+    const parts: SearchNode[] = []
+    while (position < tokens.length) {
+      // A closing bracket with no opening one is skipped
+      if (peek().kind === 'close') {
+        position++
+        continue
+      }
+      const node = parseOr()
+      if (node) parts.push(node)
+    }
+    const root = combine('and', parts)
+
+    // A query that only excludes things cannot be ranked
+    return root && this.positives(root).length > 0 ? root : null
+  }
+
+  // The terms and phrases that count towards a match, i.e. everything not under a NOT.
+  // Used for scoring and highlighting.
+  static positives(node: SearchNode): Array<{ type: 'term' | 'phrase'; value: string }> {
+    switch (node.type) {
+      case 'term':
+      case 'phrase':
+        return [{ type: node.type, value: node.value }]
+      case 'and':
+      case 'or':
+        return node.nodes.flatMap(child => this.positives(child))
+      case 'not':
+        return []
+    }
+  }
+
+  // Back to query text, with brackets only where they are needed
+  static format(node: SearchNode): string {
+    switch (node.type) {
+      case 'term':
+        return node.value
+      case 'phrase':
+        return `"${node.value}"`
+      case 'not':
+        return `NOT ${this.wrap(node.node)}`
+      case 'and':
+        return node.nodes.map(child => this.wrap(child)).join(' AND ')
+      case 'or':
+        return node.nodes.map(child => child.type === 'and' ? `(${this.format(child)})` : this.format(child)).join(' OR ')
+    }
+  }
+
+  private static wrap(node: SearchNode): string {
+    return node.type === 'or' || node.type === 'and' ? `(${this.format(node)})` : this.format(node)
+  }
+
+  private static lex(input: string): Token[] {
+    const tokens: Token[] = []
+    let index = 0
+
+    while (index < input.length) {
+      const char = input[index]
+      if (/\s/.test(char)) {
+        index++
+      } else if (char === '(' || char === ')') {
+        tokens.push({ kind: char === '(' ? 'open' : 'close' })
+        index++
+      } else if (char === '"') {
+        const end = input.indexOf('"', index + 1)
+        const stop = end === -1 ? input.length : end
+        tokens.push({ kind: 'phrase', value: input.slice(index + 1, stop) })
+        index = stop + 1
+      } else if (char === '-' && index + 1 < input.length && !/[\s-]/.test(input[index + 1])) {
+        tokens.push({ kind: 'not' })
+        index++
+      } else {
+        let end = index
+        while (end < input.length && !/[\s()"]/.test(input[end])) end++
+        const word = input.slice(index, end)
+        const operator = OPERATORS[word]
+        tokens.push(operator ? { kind: operator } : { kind: 'word', value: word })
+        index = end
+      }
+    }
+
+    return tokens
+  }
+}
@@ -0,0 +1,177 @@
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import type { Session, User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AuthUtils, ACCESS_TOKEN_TTL_SECONDS } from '@/lib/auth'
+
+export const REFRESH_TOKEN_COOKIE = 'refresh_token'
+export const REFRESH_TOKEN_TTL_DAYS = 30
+
+// Two tabs refreshing at the same moment both send the old token; the slower one is told
+// to retry instead of being treated as a stolen token
+const ROTATION_GRACE_MS = 10 * 1000
+
+export interface IssuedSession {
+  session: Session
+  accessToken: string
+  refreshToken: string
+  expiresIn: number
+}
+
+export type RefreshResult =
+  | { ok: true; issued: IssuedSession; user: Pick<User, 'id' | 'email' | 'role'> }
+  | { ok: false; status: 401 | 403 | 409; error: string }
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000)
+}
+
+export class SessionUtils {
+  // Start a session for a user who just proved who they are
+  static async start(user: Pick<User, 'id' | 'email' | 'role'>, request: NextRequest): Promise<IssuedSession> {
+    const refreshToken = crypto.randomBytes(32).toString('base64url')
+    const session = await prisma.session.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: hashToken(refreshToken),
+        userAgent: request.headers.get('user-agent')?.slice(0, 500) ?? null,
+        ipAddress: AuthUtils.extractIpFromRequest(request),
+        expiresAt: refreshExpiry(),
+      },
+    })
+
+    return { session, refreshToken, ...this.accessToken(user, session.id) }
+  }
+
+  // Swap a refresh token for a new one plus a fresh access token
+  static async refresh(refreshToken: string): Promise<RefreshResult> {
+    const tokenHash = hashToken(refreshToken)
+    const session = await prisma.session.findUnique({
+      where: { refreshTokenHash: tokenHash },
+      include: { user: { select: { id: true, email: true, role: true, status: true } } },
+    })
+
+    if (!session) {
+      return this.handleStaleToken(tokenHash)
+    }
+    if (session.revokedAt || session.expiresAt <= new Date()) {
+      return { ok: false, status: 401, error: 'Session expired' }
+    }
+    const blocked = AuthUtils.accountBlockedReason(session.user.status)
+    if (blocked) {
+      return { ok: false, status: 403, error: blocked }
+    }
+
+    const nextToken = crypto.randomBytes(32).toString('base64url')
+    const now = new Date()
+    // Only the request that still holds the current token gets to rotate it
+    const { count } = await prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: hashToken(nextToken),
+        previousTokenHash: tokenHash,
+        rotatedAt: now,
+        lastUsedAt: now,
+        expiresAt: refreshExpiry(),
+      },
+    })
+    if (count === 0) {
+      return { ok: false, status: 409, error: 'Session was refreshed by another request' }
+    }
+
+    const updated = await prisma.session.findUniqueOrThrow({ where: { id: session.id } })
+    return {
+      ok: true,
+      user: session.user,
+      issued: { session: updated, refreshToken: nextToken, ...this.accessToken(session.user, session.id) },
+    }
+  }
+
+  // Access tokens are only honoured while their session is live and the account is active
+  static async isActive(sessionId: string | undefined): Promise<boolean> {
+    if (!sessionId || !/^[0-9a-fA-F]{24}$/.test(sessionId)) return false
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true, user: { select: { status: true } } },
+    })
+    return !!session && !session.revokedAt && session.expiresAt > new Date() && session.user.status === 'ACTIVE'
+  }
+
+  static async revoke(sessionId: string) {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+  }
+
+  static async revokeByRefreshToken(refreshToken: string) {
+    await prisma.session.updateMany({
+      where: { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+  }
+
+  // Sign the user out everywhere, e.g. on "sign out all devices" or when an admin changes the account.
+  // exceptSessionId keeps the caller's own session, e.g. after they change their password.
+  static async revokeAll(userId: string, exceptSessionId?: string): Promise<number> {
+    const { count } = await prisma.session.updateMany({
+      where: { userId, revokedAt: null, ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}) },
+      data: { revokedAt: new Date() },
+    })
+    return count
+  }
+
+  static getRefreshToken(request: NextRequest): string | null {
+    return request.cookies.get(REFRESH_TOKEN_COOKIE)?.value ?? null
+  }
+
+  // The cookie is only sent to the auth routes and never readable from JavaScript
+  static setRefreshCookie(response: NextResponse, issued: IssuedSession) {
+    response.cookies.set(REFRESH_TOKEN_COOKIE, issued.refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: '/api/auth',
+      expires: issued.session.expiresAt,
+    })
+  }
+
+  static clearRefreshCookie(response: NextResponse) {
+    response.cookies.set(REFRESH_TOKEN_COOKIE, '', {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: '/api/auth',
+      maxAge: 0,
+    })
+  }
+
+  private static accessToken(user: Pick<User, 'id' | 'email' | 'role'>, sessionId: string) {
+    return {
+      accessToken: AuthUtils.generateToken({ userId: user.id, email: user.email, role: user.role, sessionId }),
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    }
+  }
+
+  // A token that is not current may have been rotated moments ago by a parallel request.
+  // Anything older is a replay of a token that was already used, so the session is ended.
+  private static async handleStaleToken(tokenHash: string): Promise<RefreshResult> {
+    const rotated = await prisma.session.findFirst({
+      where: { previousTokenHash: tokenHash, revokedAt: null },
+      select: { id: true, rotatedAt: true },
+    })
+    if (!rotated) {
+      return { ok: false, status: 401, error: 'Invalid refresh token' }
+    }
+    if (rotated.rotatedAt && Date.now() - rotated.rotatedAt.getTime() < ROTATION_GRACE_MS) {
+      return { ok: false, status: 409, error: 'Session was refreshed by another request' }
+    }
+
+    await this.revoke(rotated.id)
+    return { ok: false, status: 401, error: 'Refresh token was already used' }
+  }
+}
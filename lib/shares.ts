@@ -0,0 +1,172 @@
+import crypto from 'crypto'
+import type { CandidateShare, CandidateShareType, ShareStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export const SHARE_TYPE_LABELS: Record<CandidateShareType, string> = {
+  PROFILE: 'Profile',
+  RESUME: 'Resume',
+  CONTACT_INFO: 'Contact Info',
+  INTERVIEW_FEEDBACK: 'Interview Feedback',
+}
+
+// Links expire after a week unless the recruiter picks a date
+export const DEFAULT_SHARE_DAYS = 7
+
+// How many times a visit is retried when another visit bumps the counter first
+const VISIT_RETRIES = 3
+
+export type ShareOpenResult =
+  | { ok: true; share: CandidateShare; candidate: SharedCandidate }
+  | { ok: false; status: 404 | 410; error: string }
+
+// Public view of a candidate; sections that were not shared are left out entirely
+export interface SharedCandidate {
+  firstName: string | null
+  lastName: string | null
+  sections: CandidateShareType[]
+  profile?: {
+    jobTitle: string | null
+    experience: number | null
+    location: string | null
+    noticePeriod: string | null
+    relocate: string | null
+    profileSummary: string | null
+    skills: string[]
+    experiences: unknown
+    education: unknown
+  }
+  contact?: {
+    email: string | null
+    phone: string | null
+    linkedin: string | null
+    github: string | null
+  }
+  resume?: {
+    url: string | null
+  }
+  interviewFeedback?: Array<{
+    title: string
+    type: string
+    scheduledAt: Date
+    rating: number | null
+    feedback: string | null
+  }>
+}
+
+export class ShareUtils {
+  static generateToken(): string {
+    return crypto.randomBytes(32).toString('base64url')
+  }
+
+  static defaultExpiry(): Date {
+    return new Date(Date.now() + DEFAULT_SHARE_DAYS * 24 * 60 * 60 * 1000)
+  }
+
+  static buildUrl(baseUrl: string, token: string): string {
+    return `${baseUrl.replace(/\/$/, '')}/share/${token}`
+  }
+
+  // Status taking expiry and the visit limit into account, even before the stored status is updated
+  static effectiveStatus(share: Pick<CandidateShare, 'status' | 'expiryDate' | 'maxVisits' | 'currentVisits'>): ShareStatus {
+    if (share.status !== 'ACTIVE') return share.status
+    if (share.expiryDate && share.expiryDate <= new Date()) return 'EXPIRED'
+    if (share.maxVisits !== null && share.currentVisits >= share.maxVisits) return 'EXPIRED'
+    return 'ACTIVE'
+  }
+
+  // Resolve a public token, counting the visit and expiring the link once it runs out
+  static async open(token: string): Promise<ShareOpenResult> {
+    for (let attempt = 0; attempt < VISIT_RETRIES; attempt++) {
+      const share = await prisma.candidateShare.findUnique({ where: { token } })
+      if (!share) {
+        return { ok: false, status: 404, error: 'Share link not found' }
+      }
+
+      const status = this.effectiveStatus(share)
+      if (status !== 'ACTIVE') {
+        if (share.status === 'ACTIVE') {
+          await prisma.candidateShare.update({ where: { id: share.id }, data: { status } })
+        }
+        return {
+          ok: false,
+          status: 410,
+          error: status === 'REVOKED' ? 'This link has been revoked' : 'This link has expired',
+        }
+      }
+
+      // Only count the visit if nobody else counted one in the meantime
+      const { count } = await prisma.candidateShare.updateMany({
+        where: { id: share.id, status: 'ACTIVE', currentVisits: share.currentVisits },
+        data: { currentVisits: { increment: 1 }, lastVisitedAt: new Date() },
+      })
+      if (count === 0) continue
+
+      const candidate = await this.buildSharedCandidate(share.candidateId, share.shareType)
+      if (!candidate) {
+        return { ok: false, status: 404, error: 'Candidate not found' }
+      }
+      return { ok: true, share: { ...share, currentVisits: share.currentVisits + 1 }, candidate }
+    }
+
+    return { ok: false, status: 410, error: 'This link has expired' }
+  }
+
+  static async buildSharedCandidate(candidateId: string, sections: CandidateShareType[]): Promise<SharedCandidate | null> {
+    const candidate = await prisma.candidate.findUnique({
+      where: { id: candidateId },
+      include: {
+        user: { select: { email: true, phone: true } },
+        interviews: sections.includes('INTERVIEW_FEEDBACK')
+          ? {
+            where: { status: 'COMPLETED' },
+            select: { title: true, type: true, scheduledAt: true, rating: true, feedback: true },
+            orderBy: { scheduledAt: 'desc' },
+          }
+          : false,
+      },
+    })
+    if (!candidate) return null
+
+    const shared: SharedCandidate = {
+      firstName: candidate.firstName,
+      lastName: candidate.lastName,
+      sections,
+    }
+
+    if (sections.includes('PROFILE')) {
+      shared.profile = {
+        jobTitle: candidate.jobTitle,
+        experience: candidate.experience,
+        location: [candidate.city, candidate.state, candidate.country].filter(Boolean).join(', ') || candidate.location,
+        noticePeriod: candidate.noticePeriod,
+        relocate: candidate.relocate,
+        profileSummary: candidate.profileSummary,
+        skills: candidate.selectedSkills.length > 0 ? candidate.selectedSkills : candidate.skills,
+        experiences: candidate.experiences ?? candidate.workExperience,
+        education: candidate.education,
+      }
+    }
+    if (sections.includes('CONTACT_INFO')) {
+      shared.contact = {
+        email: candidate.email ?? candidate.user.email,
+        phone: candidate.phone ?? candidate.user.phone,
+        linkedin: candidate.linkedin,
+        github: candidate.github,
+      }
+    }
+    if (sections.includes('RESUME')) {
+      shared.resume = { url: candidate.resumeUrl }
+    }
+    if (sections.includes('INTERVIEW_FEEDBACK')) {
+      shared.interviewFeedback = (candidate.interviews ?? []).map(interview => ({
+        title: interview.title,
+        type: interview.type,
+        scheduledAt: interview.scheduledAt,
+        rating: interview.rating,
+        feedback: interview.feedback,
+      }))
+    }
+
+    return shared
+  }
+}
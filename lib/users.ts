@@ -0,0 +1,158 @@
+import crypto from 'crypto'
+import type { PasswordTokenPurpose, User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AuthUtils } from '@/lib/auth'
+import { EmailService } from '@/lib/email'
+import { SessionUtils } from '@/lib/sessions'
+import { PasswordPolicy } from '@/lib/passwords'
+
+export const INVITE_TOKEN_TTL_DAYS = 7
+export const RESET_TOKEN_TTL_HOURS = 1
+
+// What the admin console gets to see of a user; never the password hash
+export const adminUserSelect = {
+  id: true,
+  email: true,
+  phone: true,
+  name: true,
+  role: true,
+  status: true,
+  avatar: true,
+  verified: true,
+  lastLogin: true,
+  lockedUntil: true,
+  invitedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  password: true,
+}
+
+export type PasswordTokenResult =
+  | { ok: true; purpose: PasswordTokenPurpose; user: Pick<User, 'id' | 'email' | 'name' | 'role'> }
+  | { ok: false; status: 404 | 410; error: string }
+
+export type RedeemPasswordTokenResult =
+  | PasswordTokenResult
+  | { ok: false; status: 400; error: string; errors: string[] }
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+function tokenExpiry(purpose: PasswordTokenPurpose): Date {
+  const ttl = purpose === 'INVITE'
+    ? INVITE_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000
+    : RESET_TOKEN_TTL_HOURS * 60 * 60 * 1000
+  return new Date(Date.now() + ttl)
+}
+
+export class UserUtils {
+  // The select above includes the hash only to derive hasPassword; strip it before responding
+  static toAdminView<T extends { password: string | null; status: string; invitedAt: Date | null; lockedUntil?: Date | null }>(user: T) {
+    const { password, ...rest } = user
+    return {
+      ...rest,
+      hasPassword: !!password,
+      invitePending: !password && !!user.invitedAt && user.status === 'INACTIVE',
+      loginLocked: !!user.lockedUntil && user.lockedUntil > new Date(),
+    }
+  }
+
+  // Admins locking themselves out would leave nobody able to manage users
+  static async isLastActiveAdmin(userId: string): Promise<boolean> {
+    const otherAdmins = await prisma.user.count({
+      where: { role: 'ADMIN', status: 'ACTIVE', id: { not: userId } },
+    })
+    return otherAdmins === 0
+  }
+
+  // Issue a fresh link; any earlier unused links for the user stop working
+  static async issuePasswordToken(userId: string, purpose: PasswordTokenPurpose, createdById?: string) {
+    const token = crypto.randomBytes(32).toString('base64url')
+    const expiresAt = tokenExpiry(purpose)
+
+    await prisma.passwordToken.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: new Date() },
+    })
+    await prisma.passwordToken.create({
+      data: { userId, purpose, tokenHash: hashToken(token), expiresAt, createdById },
+    })
+
+    return { token, expiresAt }
+  }
+
+  static buildPasswordUrl(baseUrl: string, token: string): string {
+    return `${baseUrl.replace(/\/$/, '')}/set-password?token=${encodeURIComponent(token)}`
+  }
+
+  // Email an invitation, or a reset link for someone who already accepted one. sender is the
+  // admin who triggered it; users asking for their own reset link have none.
+  static async sendPasswordLink(
+    user: Pick<User, 'id' | 'email' | 'name' | 'role'>,
+    purpose: PasswordTokenPurpose,
+    sender: { userId: string; name: string } | null,
+    baseUrl: string
+  ): Promise<{ emailSent: boolean; expiresAt: Date }> {
+    const { token, expiresAt } = await this.issuePasswordToken(user.id, purpose, sender?.userId)
+    const url = this.buildPasswordUrl(baseUrl, token)
+    const emailSent = purpose === 'INVITE'
+      ? await EmailService.sendInviteEmail(user.email, sender?.name || 'An administrator', user.role.toLowerCase(), url, expiresAt)
+      : await EmailService.sendPasswordResetEmail(user.email, url, expiresAt, user.name || undefined)
+    return { emailSent, expiresAt }
+  }
+
+  static async findPasswordToken(token: string): Promise<PasswordTokenResult> {
+    const record = await prisma.passwordToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { user: { select: { id: true, email: true, name: true, role: true } } },
+    })
+
+    if (!record) {
+      return { ok: false, status: 404, error: 'Link not found' }
+    }
+    if (record.usedAt || record.expiresAt <= new Date()) {
+      return { ok: false, status: 410, error: 'This link has expired or was already used' }
+    }
+    return { ok: true, purpose: record.purpose, user: record.user }
+  }
+
+  // Set the password behind a link. Accepting an invitation also activates the account, and
+  // any existing sessions are signed out since the old password no longer applies.
+  static async redeemPasswordToken(token: string, password: string, name?: string): Promise<RedeemPasswordTokenResult> {
+    const found = await this.findPasswordToken(token)
+    if (!found.ok) return found
+
+    const errors = PasswordPolicy.validate(password, { email: found.user.email, name: name || found.user.name })
+    if (errors.length > 0) {
+      return { ok: false, status: 400, error: errors.join(', '), errors }
+    }
+
+    // Only one request gets to use the link
+    const { count } = await prisma.passwordToken.updateMany({
+      where: { tokenHash: hashToken(token), usedAt: null },
+      data: { usedAt: new Date() },
+    })
+    if (count === 0) {
+      return { ok: false, status: 410, error: 'This link has expired or was already used' }
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: found.user.id }, select: { status: true } })
+    await prisma.user.update({
+      where: { id: found.user.id },
+      data: {
+        password: await AuthUtils.hashPassword(password),
+        passwordChangedAt: new Date(),
+        // Whoever follows the link controls the email address, so a lockout no longer protects anything
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        verified: true,
+        ...(name ? { name } : {}),
+        ...(found.purpose === 'INVITE' && user.status === 'INACTIVE' ? { status: 'ACTIVE' as const } : {}),
+      },
+    })
+    await SessionUtils.revokeAll(found.user.id)
+
+    return found
+  }
+}
@@ -9,7 +9,7 @@ export const loginSchema = z.object({
 
 export const verifyOTPSchema = z.object({
   contact: z.string().min(1, 'Contact is required'),
-  otp: z.string().length(6, 'OTP must be 6 digits'),
+  otp: z.string().regex(/^\d{6}$/, 'OTP must be 6 digits'),
   method: z.enum(['email', 'mobile']),
 })
 
@@ -20,6 +20,48 @@ export const createUserSchema = z.object({
   role: z.enum(['ADMIN', 'RECRUITER', 'CANDIDATE']),
 })
 
+// Strength rules depend on the user and the environment, so routes apply PasswordPolicy on top
+export const passwordSchema = z.string().min(1, 'Password is required')
+
+// Staff are invited by an admin; candidates sign themselves up with a one-time code
+export const inviteUserSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  name: z.string().min(1, 'Name is required'),
+  role: z.enum(['ADMIN', 'RECRUITER']).default('RECRUITER'),
+})
+
+export const updateUserSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  role: z.enum(['ADMIN', 'RECRUITER', 'CANDIDATE']).optional(),
+  status: z.enum(['ACTIVE', 'INACTIVE', 'SUSPENDED']).optional(),
+  // Lift a lockout from failed password logins
+  unlock: z.literal(true).optional(),
+})
+
+// Accepting an invitation or following a reset link
+export const setPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: passwordSchema,
+  name: z.string().min(1).optional(),
+})
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format'),
+})
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: passwordSchema,
+})
+
+// Creating the first admin. setupToken must match ADMIN_BOOTSTRAP_TOKEN when that is set.
+export const bootstrapAdminSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  name: z.string().min(1, 'Name is required'),
+  password: passwordSchema,
+  setupToken: z.string().optional(),
+})
+
 // Candidate validation schemas
 export const createCandidateSchema = z.object({
   firstName: z.string().min(1, 'First name is required'),
@@ -161,9 +203,78 @@ export const createJobSchema = z.object({
   additionalSkills: z.string().optional(),
   salaryPerAnnum: z.string().min(1, 'Salary per annum is required'),
   keySkills: z.string().min(1, 'Key skills are required'),
+  status: z.enum(['DRAFT', 'OPEN']).optional(), // New jobs are either drafts or published straight away
+  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).optional(),
+  jobType: z.enum(['FULL_TIME', 'PART_TIME', 'CONTRACT', 'FREELANCE', 'INTERNSHIP']).optional(),
+  experienceLevel: z.enum(['ENTRY_LEVEL', 'MID_LEVEL', 'SENIOR_LEVEL', 'EXECUTIVE']).optional(),
+  // Structured ranges; parsed from salaryPerAnnum/experienceRequired when omitted
+  minSalary: z.number().min(0).optional(),
+  maxSalary: z.number().min(0).optional(),
+  salaryCurrency: z.string().length(3).transform(val => val.toUpperCase()).optional(),
+  salaryPeriod: z.enum(['ANNUAL', 'MONTHLY', 'HOURLY']).optional(),
+  minExperience: z.number().min(0).optional(),
+  maxExperience: z.number().min(0).optional(),
+  clientId: z.string().optional(),
+  vendorId: z.string().optional(),
+  recruiterId: z.string().optional(), // Admins may create jobs on behalf of a recruiter
 })
 
-export const updateJobSchema = createJobSchema.partial()
+// Recruiter changes go through POST /api/jobs/[id]/reassign so they are recorded
+export const updateJobSchema = createJobSchema.partial().omit({ recruiterId: true }).extend({
+  status: z.enum(['DRAFT', 'OPEN', 'CLOSED', 'ON_HOLD', 'FILLED']).optional(),
+  clientId: z.string().nullable().optional(),
+  vendorId: z.string().nullable().optional(),
+})
+
+export const reassignJobSchema = z.object({
+  recruiterId: z.string().min(1, 'Recruiter ID is required'),
+  reason: z.string().optional(),
+})
+
+// Filters accepted by GET /api/jobs, either as top-level query params or inside `filters`
+const toUpperCase = (val: unknown) => (typeof val === 'string' ? val.toUpperCase() : val)
+
+export const jobFiltersSchema = z.object({
+  status: z.preprocess(toUpperCase, z.enum(['DRAFT', 'OPEN', 'CLOSED', 'ON_HOLD', 'FILLED']).optional()),
+  priority: z.preprocess(toUpperCase, z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).optional()),
+  jobType: z.preprocess(toUpperCase, z.enum(['FULL_TIME', 'PART_TIME', 'CONTRACT', 'FREELANCE', 'INTERNSHIP']).optional()),
+  experienceLevel: z.preprocess(toUpperCase, z.enum(['ENTRY_LEVEL', 'MID_LEVEL', 'SENIOR_LEVEL', 'EXECUTIVE']).optional()),
+  clientId: z.string().optional(),
+  recruiterId: z.string().optional(),
+  minSalary: z.coerce.number().min(0).optional(),
+  maxSalary: z.coerce.number().min(0).optional(),
+  minExperience: z.coerce.number().min(0).optional(),
+  maxExperience: z.coerce.number().min(0).optional(),
+})
+
+// Filters accepted by GET /api/candidates, either as top-level query params or inside `filters`
+export const candidateFiltersSchema = z.object({
+  availability: z.preprocess(toUpperCase, z.enum(['AVAILABLE', 'NOTICE_PERIOD', 'NOT_AVAILABLE']).optional()),
+  location: z.string().optional(),
+  jobTitle: z.string().optional(),
+  // Boolean query over the candidate's skills, e.g. "react AND (node OR go) NOT php"
+  skills: z.string().optional(),
+  minExperience: z.coerce.number().min(0).optional(),
+  maxExperience: z.coerce.number().min(0).optional(),
+  // Annual amounts in rupees, whether the candidate's figure was saved in lakhs or rupees
+  minExpectedSalary: z.coerce.number().min(0).optional(),
+  maxExpectedSalary: z.coerce.number().min(0).optional(),
+  maxNoticePeriodDays: z.coerce.number().int().min(0).optional(),
+  relocate: z.preprocess(
+    (val) => (val === 'true' ? true : val === 'false' ? false : val),
+    z.boolean().optional()
+  ),
+})
+
+// A candidate search as structured fields: the free-text query plus the filters above.
+// Natural-language searches are turned into this so the user can review it before it runs.
+export const candidateSearchFilterSchema = candidateFiltersSchema.extend({
+  query: z.string().optional(),
+})
+
+export const parseCandidateQuerySchema = z.object({
+  text: z.string().trim().min(1, 'Describe the candidates you are looking for').max(500, 'Search text is too long'),
+})
 
 // Job Application validation schemas
 export const createJobApplicationSchema = z.object({
@@ -172,10 +283,20 @@ export const createJobApplicationSchema = z.object({
   coverLetter: z.string().optional(),
 })
 
+// Recruiters submit several candidates to one job at once
+export const bulkCreateJobApplicationsSchema = z.object({
+  jobId: z.string().min(1, 'Job ID is required'),
+  candidateIds: z.array(z.string().min(1))
+    .min(1, 'Select at least one candidate')
+    .max(100, 'At most 100 candidates can be submitted at once'),
+  notes: z.string().optional(),
+})
+
 export const updateJobApplicationSchema = z.object({
   status: z.enum(['APPLIED', 'UNDER_REVIEW', 'SHORTLISTED', 'INTERVIEWED', 'SELECTED', 'REJECTED', 'WITHDRAWN']).optional(),
   currentStage: z.enum(['APPLIED', 'SCREENING', 'PHONE_INTERVIEW', 'TECHNICAL_INTERVIEW', 'FINAL_INTERVIEW', 'OFFER_EXTENDED', 'OFFER_ACCEPTED', 'REJECTED', 'WITHDRAWN']).optional(),
   notes: z.string().optional(),
+  reason: z.string().optional(), // Recorded in the stage history
 })
 
 // Interview validation schemas
@@ -190,6 +311,7 @@ export const createInterviewSchema = z.object({
   duration: z.number().min(15).default(60),
   location: z.string().optional(),
   meetingLink: z.string().url().optional().or(z.literal('')),
+  recruiterId: z.string().optional(), // Admins may schedule on behalf of a recruiter
 })
 
 export const updateInterviewSchema = z.object({
@@ -206,6 +328,16 @@ export const updateInterviewSchema = z.object({
   outcome: z.enum(['SELECTED', 'REJECTED', 'ON_HOLD', 'PROCEED_TO_NEXT_ROUND']).optional(),
 })
 
+export const rescheduleInterviewSchema = z.object({
+  scheduledAt: z.string().datetime(),
+  duration: z.number().min(15).optional(),
+  reason: z.string().optional(),
+})
+
+export const cancelInterviewSchema = z.object({
+  reason: z.string().optional(),
+})
+
 // File upload validation
 export const fileUploadSchema = z.object({
   file: z.any(),
@@ -222,12 +354,214 @@ export const paginationSchema = z.object({
 
 export const searchSchema = z.object({
   query: z.string().optional(),
-  filters: z.record(z.any()).optional(),
+  // Query strings carry filters as JSON, e.g. ?filters={"status":"OPEN"}
+  filters: z.preprocess((val) => {
+    if (typeof val !== 'string') return val
+    try {
+      return JSON.parse(val)
+    } catch {
+      return val
+    }
+  }, z.record(z.any()).optional()),
 })
 
 // Combine pagination with search
 export const listQuerySchema = paginationSchema.merge(searchSchema)
 
+export const userListQuerySchema = listQuerySchema.extend({
+  // The columns of the users table, plus the default
+  sortBy: z.enum(['name', 'email', 'role', 'status', 'lastLogin', 'createdAt']).optional(),
+  role: z.enum(['ADMIN', 'RECRUITER', 'CANDIDATE']).optional(),
+  status: z.enum(['ACTIVE', 'INACTIVE', 'SUSPENDED']).optional(),
+})
+
+export const interviewListQuerySchema = listQuerySchema.extend({
+  status: z.enum(['SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'RESCHEDULED']).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  jobId: z.string().optional(),
+  candidateId: z.string().optional(),
+  recruiterId: z.string().optional(),
+})
+
+export const matchQuerySchema = paginationSchema.pick({ page: true, limit: true }).extend({
+  minScore: z.coerce.number().min(0).max(100).default(0),
+})
+
+// Candidate share validation schemas
+const shareTypeEnum = z.enum(['PROFILE', 'RESUME', 'CONTACT_INFO', 'INTERVIEW_FEEDBACK'])
+
+export const createCandidateShareSchema = z.object({
+  candidateIds: z.array(z.string().min(1)).min(1, 'Select at least one candidate').max(50),
+  shareEmail: z.string().email('Invalid email format'),
+  shareType: z.array(shareTypeEnum).min(1, 'Select at least one section to share'),
+  expiryDate: z.string().datetime().refine(val => new Date(val) > new Date(), 'Expiry date must be in the future').optional(),
+  maxVisits: z.number().int().min(1).max(100).optional(),
+})
+
+export const candidateShareListQuerySchema = paginationSchema.pick({ page: true, limit: true }).extend({
+  candidateId: z.string().optional(),
+  status: z.enum(['ACTIVE', 'EXPIRED', 'REVOKED']).optional(),
+})
+
+// Candidate duplicate review schemas
+export const duplicateQueueQuerySchema = paginationSchema.pick({ page: true, limit: true }).extend({
+  minScore: z.coerce.number().min(0).max(100).default(70),
+})
+
+export const dismissDuplicateSchema = z.object({
+  candidateIds: z.tuple([z.string().min(1), z.string().min(1)]),
+  reason: z.string().max(500).optional(),
+})
+
+export const mergeCandidatesSchema = z.object({
+  survivorId: z.string().min(1, 'Survivor candidate is required'),
+  duplicateId: z.string().min(1, 'Duplicate candidate is required'),
+})
+
+// Export validation schemas. Exports take the same query/filters as the list they export.
+export const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'xlsx']).default('csv'),
+  // Comma separated column keys, in the order they should appear
+  columns: z.string().optional().transform(val => val?.split(',').map(key => key.trim()).filter(Boolean)),
+})
+
+// Resume file validation schemas
+export const resumeFileListQuerySchema = paginationSchema.pick({ page: true, limit: true }).extend({
+  status: z.enum(['PROCESSING', 'COMPLETED', 'FAILED']).optional(),
+  source: z.enum(['AI_PARSE', 'CANDIDATE_UPLOAD', 'BULK_UPLOAD']).optional(),
+  // 'me' restricts the list to files the current user uploaded
+  uploadedBy: z.string().optional(),
+  query: z.string().optional(),
+})
+
+// Audit log validation schemas
+export const auditQuerySchema = paginationSchema.pick({ page: true, limit: true }).extend({
+  limit: z.coerce.number().min(1).max(100).default(25),
+  entityType: z.enum(['CANDIDATE', 'JOB', 'CLIENT', 'VENDOR', 'APPLICATION']).optional(),
+  entityId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid entity id').optional(),
+  actorId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid actor id').optional(),
+  action: z.enum(['CREATE', 'UPDATE', 'DELETE']).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+})
+
+// Notification validation schemas
+const notificationTypeEnum = z.enum(['APPLICATION_STAGE_CHANGED', 'INTERVIEW_SCHEDULED', 'INTERVIEW_RESCHEDULED', 'INTERVIEW_CANCELLED', 'SHARE_VIEWED', 'SAVED_SEARCH_DIGEST'])
+
+export const notificationListQuerySchema = paginationSchema.pick({ page: true, limit: true }).extend({
+  unread: z.enum(['true', 'false']).optional().transform(val => val === 'true'),
+})
+
+export const updateNotificationSchema = z.object({
+  read: z.boolean(),
+})
+
+export const updateNotificationPreferencesSchema = z.object({
+  preferences: z.array(z.object({
+    type: notificationTypeEnum,
+    inApp: z.boolean().optional(),
+    email: z.boolean().optional(),
+  })).min(1, 'No preferences to update'),
+})
+
+// Saved search validation schemas. filters are the same fields GET /api/candidates takes.
+const savedSearchFields = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+  query: z.string().trim().optional(),
+  filters: candidateFiltersSchema.default({}),
+  alertFrequency: z.enum(['OFF', 'INSTANT', 'DAILY']).default('DAILY'),
+})
+
+// A search with nothing in it would match, and alert on, every new candidate
+const hasCriteria = (search: { query?: string; filters?: Record<string, unknown> }) =>
+  !!search.query || Object.values(search.filters ?? {}).some(value => value !== undefined && value !== '')
+
+const hasCriteriaMessage = { message: 'Add a search query or at least one filter' }
+
+export const createSavedSearchSchema = savedSearchFields.refine(hasCriteria, hasCriteriaMessage)
+
+export const updateSavedSearchSchema = savedSearchFields.partial()
+
+// An update is checked against the query and filters it leaves the search with
+export const savedSearchCriteriaSchema = savedSearchFields
+  .pick({ query: true, filters: true })
+  .refine(hasCriteria, hasCriteriaMessage)
+
+// Talent pool validation schemas
+const tagsSchema = z.array(z.string().trim().min(1).max(50, 'Tags can be at most 50 characters'))
+  .max(20, 'At most 20 tags are allowed')
+  .transform(tags => Array.from(new Set(tags)))
+
+export const talentPoolListQuerySchema = paginationSchema.pick({ page: true, limit: true }).extend({
+  query: z.string().optional(),
+  tag: z.string().optional(),
+  // 'me' restricts the list to pools the current user created
+  createdBy: z.string().optional(),
+  // Pools that already contain this candidate, e.g. to show where a profile is saved
+  candidateId: z.string().optional(),
+})
+
+export const createTalentPoolSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+  description: z.string().optional(),
+  tags: tagsSchema.default([]),
+})
+
+export const updateTalentPoolSchema = createTalentPoolSchema.partial()
+
+export const addTalentPoolMembersSchema = z.object({
+  candidateIds: z.array(z.string().min(1))
+    .min(1, 'Select at least one candidate')
+    .max(100, 'At most 100 candidates can be added at once'),
+  tags: tagsSchema.default([]),
+  notes: z.string().optional(),
+})
+
+export const updateTalentPoolMemberSchema = z.object({
+  tags: tagsSchema.optional(),
+  notes: z.string().nullable().optional(),
+})
+
+// Contact form validation schemas
+const contactInquiryStatusEnum = z.enum(['NEW', 'CONVERTED', 'ARCHIVED'])
+
+export const contactInquirySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+  email: z.string().trim().email('Invalid email format'),
+  company: z.string().trim().max(200).optional(),
+  role: z.string().trim().max(100).optional(),
+  inquiryType: z.enum(['SALES', 'DEMO', 'SUPPORT', 'PARTNERSHIP', 'GENERAL', 'OTHER']),
+  message: z.string().trim().min(1, 'Message is required').max(5000, 'Message is too long'),
+  // Spam checks: a field hidden from people, and the token GET /api/contact handed out with the form
+  website: z.string().optional(),
+  formToken: z.string().optional(),
+})
+
+export const contactInquiryListQuerySchema = paginationSchema.pick({ page: true, limit: true }).extend({
+  status: contactInquiryStatusEnum.optional(),
+  inquiryType: contactInquirySchema.shape.inquiryType.optional(),
+  query: z.string().optional(),
+})
+
+// Converting is its own endpoint, so only NEW and ARCHIVED can be set directly
+export const updateContactInquirySchema = z.object({
+  status: contactInquiryStatusEnum.exclude(['CONVERTED']),
+})
+
+// Filters shared by the recruiter dashboard widgets (selected recruiter and date range)
+export const dashboardFiltersSchema = z.object({
+  recruiterId: z.string().optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+})
+
+export const funnelApplicationsQuerySchema = paginationSchema.pick({ page: true, limit: true })
+  .merge(dashboardFiltersSchema)
+  .extend({
+    stage: z.enum(['APPLIED', 'SCREENING', 'PHONE_INTERVIEW', 'TECHNICAL_INTERVIEW', 'FINAL_INTERVIEW', 'OFFER_EXTENDED', 'OFFER_ACCEPTED', 'REJECTED', 'WITHDRAWN']),
+  })
+
 // Response helpers
 export type ApiResponse<T = any> = {
   success: boolean
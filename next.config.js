@@ -4,6 +4,9 @@ const nextConfig = {
     ignoreDuringBuilds: true,
   },
   images: { unoptimized: true },
+  // pdf-parse runs a self-test when it is bundled, and exceljs pulls in archiver's optional
+  // native dependencies, so load both from node_modules instead
+  serverExternalPackages: ['pdf-parse', 'exceljs'],
 };
 
 module.exports = nextConfig;
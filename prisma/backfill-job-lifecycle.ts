@@ -0,0 +1,37 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+// Jobs created before lifecycle fields existed have no status/priority/jobType.
+// They were live and accepting applications, so they are backfilled as OPEN.
+async function main() {
+  console.log('🌱 Backfilling job lifecycle fields...')
+
+  const defaults = [
+    { field: 'status', value: 'OPEN' },
+    { field: 'priority', value: 'MEDIUM' },
+    { field: 'jobType', value: 'FULL_TIME' },
+  ]
+
+  for (const { field, value } of defaults) {
+    const filter: Prisma.InputJsonObject = { [field]: { $exists: false } }
+    const update: Prisma.InputJsonObject = { $set: { [field]: value } }
+
+    const result = await prisma.$runCommandRaw({
+      update: 'jobs',
+      updates: [{ q: filter, u: update, multi: true }],
+    })
+    console.log(`✅ Set ${field}=${value} on ${result.nModified ?? 0} jobs`)
+  }
+
+  console.log('🎉 Job backfill completed!')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Job backfill failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
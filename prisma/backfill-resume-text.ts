@@ -0,0 +1,39 @@
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+// Candidates saved before resume text was kept for search get it from the
+// latest parsed upload stored at their resumeUrl.
+async function main() {
+  console.log('🌱 Backfilling candidate resume text...')
+
+  const candidates = await prisma.candidate.findMany({
+    where: { resumeUrl: { not: null }, resumeText: null },
+    select: { id: true, resumeUrl: true },
+  })
+
+  let updated = 0
+  for (const candidate of candidates) {
+    const file = await prisma.resumeFile.findFirst({
+      where: { filePath: candidate.resumeUrl!, extractedText: { not: null } },
+      orderBy: { createdAt: 'desc' },
+      select: { extractedText: true },
+    })
+    if (!file?.extractedText) continue
+
+    await prisma.candidate.update({ where: { id: candidate.id }, data: { resumeText: file.extractedText } })
+    updated++
+  }
+
+  console.log(`✅ Set resume text on ${updated} of ${candidates.length} candidates`)
+  console.log('🎉 Resume text backfill completed!')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Resume text backfill failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
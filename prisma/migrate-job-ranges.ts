@@ -0,0 +1,72 @@
+import { PrismaClient } from '@prisma/client'
+import { JobUtils } from '../lib/jobs'
+
+const prisma = new PrismaClient()
+
+// Parse the free-text salaryPerAnnum / experienceRequired of existing jobs into
+// the structured min/max fields. Jobs that already have structured values are skipped
+// unless --force is passed.
+async function main() {
+  const force = process.argv.includes('--force')
+  console.log('🌱 Migrating job salary and experience ranges...')
+
+  const jobs = await prisma.job.findMany({
+    select: {
+      id: true,
+      jobCode: true,
+      salaryPerAnnum: true,
+      experienceRequired: true,
+      minSalary: true,
+      maxSalary: true,
+      minExperience: true,
+      maxExperience: true,
+    },
+  })
+
+  let updated = 0
+  const unparsed: string[] = []
+
+  for (const job of jobs) {
+    const hasSalary = job.minSalary !== null || job.maxSalary !== null
+    const hasExperience = job.minExperience !== null || job.maxExperience !== null
+    if (!force && hasSalary && hasExperience) continue
+
+    const ranges = JobUtils.resolveRanges({
+      salaryPerAnnum: !force && hasSalary ? undefined : job.salaryPerAnnum,
+      experienceRequired: !force && hasExperience ? undefined : job.experienceRequired,
+    })
+    if ('error' in ranges) {
+      unparsed.push(`${job.jobCode}: ${ranges.error}`)
+      continue
+    }
+
+    if (ranges.data.minSalary === null && ranges.data.maxSalary === null && job.salaryPerAnnum) {
+      unparsed.push(`${job.jobCode}: salary "${job.salaryPerAnnum}"`)
+    }
+    if (ranges.data.minExperience === null && ranges.data.maxExperience === null && job.experienceRequired) {
+      unparsed.push(`${job.jobCode}: experience "${job.experienceRequired}"`)
+    }
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: ranges.data,
+    })
+    updated++
+  }
+
+  console.log(`✅ Updated ${updated} of ${jobs.length} jobs`)
+  if (unparsed.length > 0) {
+    console.log('⚠️  Could not parse:')
+    unparsed.forEach(line => console.log(`   - ${line}`))
+  }
+  console.log('🎉 Job range migration completed!')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Job range migration failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
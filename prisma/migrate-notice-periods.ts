@@ -0,0 +1,51 @@
+import { PrismaClient } from '@prisma/client'
+import { RangeParser } from '../lib/ranges'
+
+const prisma = new PrismaClient()
+
+// Parse the free-text noticePeriod of existing candidates into noticePeriodDays.
+// Candidates that already have a value are skipped unless --force is passed.
+async function main() {
+  const force = process.argv.includes('--force')
+  console.log('🌱 Migrating candidate notice periods...')
+
+  const candidates = await prisma.candidate.findMany({
+    where: { noticePeriod: { not: null } },
+    select: { id: true, noticePeriod: true, noticePeriodDays: true },
+  })
+
+  let updated = 0
+  const unparsed: string[] = []
+
+  for (const candidate of candidates) {
+    if (!force && candidate.noticePeriodDays !== null) continue
+
+    const days = RangeParser.parseNoticePeriod(candidate.noticePeriod)
+    if (days === null) {
+      unparsed.push(`${candidate.id}: "${candidate.noticePeriod}"`)
+      continue
+    }
+
+    await prisma.candidate.update({
+      where: { id: candidate.id },
+      data: { noticePeriodDays: days },
+    })
+    updated++
+  }
+
+  console.log(`✅ Updated ${updated} of ${candidates.length} candidates`)
+  if (unparsed.length > 0) {
+    console.log('⚠️  Could not parse:')
+    unparsed.forEach(line => console.log(`   - ${line}`))
+  }
+  console.log('🎉 Notice period migration completed!')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Notice period migration failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })